@@ -23,25 +23,43 @@ const esbuildProblemMatcherPlugin = {
 };
 
 async function main() {
-	const ctx = await esbuild.context({
-		entryPoints: ["src/extension.ts"],
-		bundle: true,
-		format: "cjs",
-		minify: production,
-		sourcemap: !production,
-		sourcesContent: false,
-		platform: "node",
-		outfile: "dist/extension.js",
-		external: ["vscode"],
-		logLevel: "silent",
-		plugins: [esbuildProblemMatcherPlugin],
-	});
+	const contexts = await Promise.all([
+		esbuild.context({
+			entryPoints: ["src/extension.ts"],
+			bundle: true,
+			format: "cjs",
+			minify: production,
+			sourcemap: !production,
+			sourcesContent: false,
+			platform: "node",
+			outfile: "dist/extension.js",
+			external: ["vscode"],
+			logLevel: "silent",
+			plugins: [esbuildProblemMatcherPlugin],
+		}),
+		// Standalone command line interface, runs without VS Code
+		esbuild.context({
+			entryPoints: ["src/cli/main.ts"],
+			bundle: true,
+			format: "cjs",
+			minify: production,
+			sourcemap: !production,
+			sourcesContent: false,
+			platform: "node",
+			outfile: "dist/cli.js",
+			banner: { js: "#!/usr/bin/env node" },
+			logLevel: "silent",
+			plugins: [esbuildProblemMatcherPlugin],
+		}),
+	]);
 
 	if (watch) {
-		await ctx.watch();
+		await Promise.all(contexts.map((ctx) => ctx.watch()));
 	} else {
-		await ctx.rebuild();
-		await ctx.dispose();
+		for (const ctx of contexts) {
+			await ctx.rebuild();
+			await ctx.dispose();
+		}
 	}
 }
 
@@ -0,0 +1,212 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseAnalyzerConfig } from "../models/schemas.js";
+import {
+  AnalyzerSettings,
+  DEFAULT_ANALYZER_SETTINGS,
+} from "../services/rangeAnalyzer.js";
+import {
+  findRangeProblems,
+  getCheckedProblemCodes,
+  getProblemSeverity,
+} from "../services/rangeCheck.js";
+import { createAnalysisReport } from "../reports/analysisReport.js";
+import { REPORT_FORMATS, ReportFormat } from "../reports/reportFormats.js";
+import { FolderScanner } from "./folderScanner.js";
+
+/**
+ * Name of the configuration file looked up in the checked folder
+ */
+export const CONFIG_FILE_NAME = "bc-object-range.json";
+
+/**
+ * Process exit codes of the command line interface
+ */
+export const ExitCodes = {
+  /** No problems found */
+  ok: 0,
+  /** Problems found */
+  problems: 1,
+  /** Invalid arguments, configuration or folder */
+  error: 2,
+} as const;
+
+/**
+ * Options of the check command
+ */
+export interface CheckOptions {
+  /** Path of the configuration file; defaults to bc-object-range.json in the folder */
+  configPath?: string;
+  /** Turn shared range mode on or off, overriding the configuration file */
+  sharedRangeMode?: boolean;
+  /**
+   * Add the declared IDs to each app's retired IDs ledger. Off by default, so
+   * a check does not change the checked folder.
+   */
+  updateRetiredIds?: boolean;
+  /** Report files to write, per format */
+  reports?: Partial<Record<ReportFormat, string>>;
+  /** Version of the command line tool, written to the reports */
+  toolVersion?: string;
+}
+
+/**
+ * Where the check command writes its output
+ */
+export interface CheckOutput {
+  /** Write a line of regular output */
+  log(line: string): void;
+  /** Write an error message */
+  error(line: string): void;
+}
+
+/**
+ * Scan a folder for AL projects and report out-of-range IDs, duplicate IDs,
+ * field and enum value IDs and names used by more than one app, object IDs
+ * used by more than one app (in normal mode, by apps that are installed
+ * together), and ID ranges that reached a usage threshold. The requested report files are written as well.
+ *
+ * @returns The process exit code; only errors fail the check, so range
+ *   usage below the error threshold and member conflicts with a lower
+ *   configured severity do not
+ */
+export async function runCheck(
+  folder: string,
+  options: CheckOptions,
+  output: CheckOutput,
+): Promise<number> {
+  const root = path.resolve(folder);
+  try {
+    if (!(await fs.stat(root)).isDirectory()) {
+      output.error(`Not a folder: ${root}`);
+      return ExitCodes.error;
+    }
+  } catch {
+    output.error(`Folder not found: ${root}`);
+    return ExitCodes.error;
+  }
+
+  const settings = await loadSettings(root, options, output);
+  if (!settings) {
+    return ExitCodes.error;
+  }
+
+  const scanner = new FolderScanner(settings);
+  const projects = await scanner.scanFolder(root);
+  if (projects.length === 0) {
+    output.error(`No AL projects (app.json) found in ${root}`);
+    return ExitCodes.error;
+  }
+
+  const checkOptions = {
+    crossAppConflicts: true,
+    memberConflictSeverity: settings.memberConflictSeverity,
+    rangeUsage: true,
+  };
+  const problems = findRangeProblems(scanner, projects, checkOptions).sort(
+    (a, b) =>
+      a.filePath.localeCompare(b.filePath) || a.lineNumber - b.lineNumber,
+  );
+
+  for (const problem of problems) {
+    const location = path.relative(root, problem.filePath);
+    output.log(
+      `${location}:${problem.lineNumber}: ${getProblemSeverity(problem.code, settings.memberConflictSeverity)} ${problem.code}: ${problem.message}`,
+    );
+  }
+
+  const objectCount = projects.reduce(
+    (sum, project) => sum + project.objects.length,
+    0,
+  );
+  const mode = settings.sharedRangeMode ? "shared range mode" : "normal mode";
+  output.log(
+    `Checked ${projects.length} app(s) with ${objectCount} object(s) in ${mode}: ` +
+      (problems.length === 0
+        ? "no problems found"
+        : `${problems.length} problem(s) found`),
+  );
+
+  const report = createAnalysisReport(
+    { projects, timestamp: new Date() },
+    problems,
+    {
+      rootPath: root,
+      sharedRangeMode: settings.sharedRangeMode,
+      checkedCodes: getCheckedProblemCodes(checkOptions),
+      memberConflictSeverity: settings.memberConflictSeverity,
+      dependencies: scanner.getDependencies(),
+      toolVersion: options.toolVersion,
+    },
+  );
+  const reports = Object.entries(options.reports ?? {}) as Array<
+    [ReportFormat, string]
+  >;
+  for (const [format, reportPath] of reports) {
+    const { label, write } = REPORT_FORMATS[format];
+    const target = path.resolve(reportPath);
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, write(report));
+      output.log(`Wrote ${label} report to ${target}`);
+    } catch (error) {
+      output.error(`Failed to write report ${target}: ${error}`);
+      return ExitCodes.error;
+    }
+  }
+
+  return problems.some(
+    (problem) =>
+      getProblemSeverity(problem.code, settings.memberConflictSeverity) ===
+      "error",
+  )
+    ? ExitCodes.problems
+    : ExitCodes.ok;
+}
+
+/**
+ * Load the settings from the configuration file, falling back to the
+ * defaults for missing keys
+ *
+ * @returns The settings, or null if the configuration file is invalid
+ */
+async function loadSettings(
+  root: string,
+  options: CheckOptions,
+  output: CheckOutput,
+): Promise<AnalyzerSettings | null> {
+  const configPath = options.configPath
+    ? path.resolve(options.configPath)
+    : path.join(root, CONFIG_FILE_NAME);
+
+  let content: string | undefined;
+  try {
+    content = await fs.readFile(configPath, "utf-8");
+  } catch {
+    // A missing default configuration file is fine
+    if (options.configPath) {
+      output.error(`Configuration file not found: ${configPath}`);
+      return null;
+    }
+  }
+
+  const config = content === undefined ? {} : parseAnalyzerConfig(content);
+  if (!config) {
+    output.error(`Invalid configuration file: ${configPath}`);
+    return null;
+  }
+
+  return {
+    ...DEFAULT_ANALYZER_SETTINGS,
+    ...config,
+    rangeUsageThresholds: {
+      ...DEFAULT_ANALYZER_SETTINGS.rangeUsageThresholds,
+      ...config.rangeUsageThresholds,
+    },
+    sharedRangeMode:
+      options.sharedRangeMode ??
+      config.sharedRangeMode ??
+      DEFAULT_ANALYZER_SETTINGS.sharedRangeMode,
+    updateRetiredIdsLedger: options.updateRetiredIds ?? false,
+  };
+}
@@ -0,0 +1,187 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { ALObjectWithFields } from "../types/index.js";
+import { parseAppJson } from "../models/schemas.js";
+import { alObjectParser } from "../parsers/alObjectParser.js";
+import { getIdRangesLineNumber } from "../services/idRangeCheck.js";
+import { FileStamp } from "../services/parseCache.js";
+import {
+  ALProjectWithFields,
+  AnalyzerSettings,
+  RangeAnalyzer,
+} from "../services/rangeAnalyzer.js";
+
+/**
+ * Scans a folder on disk for AL projects using plain fs, for use outside
+ * VS Code (e.g. in a build pipeline). Projects are found and excluded the
+ * same way as in the workspace scanner.
+ */
+export class FolderScanner extends RangeAnalyzer {
+  constructor(private readonly settings: AnalyzerSettings) {
+    super();
+  }
+
+  /**
+   * Scan a folder and its subfolders for AL projects and their dependencies
+   */
+  public async scanFolder(folder: string): Promise<ALProjectWithFields[]> {
+    const files = await this.findFiles(path.resolve(folder));
+    const alFiles = files.filter((file) => file.toLowerCase().endsWith(".al"));
+
+    const projects: ALProjectWithFields[] = [];
+    for (const appJsonPath of files) {
+      if (
+        path.basename(appJsonPath).toLowerCase() !== "app.json" ||
+        this.shouldExcludeProject(appJsonPath)
+      ) {
+        continue;
+      }
+
+      const project = await this.scanProject(appJsonPath, alFiles);
+      if (project) {
+        projects.push(project);
+      }
+    }
+
+    // Sort projects by name
+    projects.sort((a, b) => a.name.localeCompare(b.name));
+
+    await this.loadRetiredIds(projects);
+    await this.scanDependencies(projects);
+
+    return projects;
+  }
+
+  /**
+   * Scan a single AL project given its app.json path
+   *
+   * @param appJsonPath - The path of the project's app.json
+   * @param alFiles - All AL files found in the scanned folder
+   */
+  private async scanProject(
+    appJsonPath: string,
+    alFiles: string[],
+  ): Promise<ALProjectWithFields | null> {
+    const appJsonContent = await fs.readFile(appJsonPath, "utf-8");
+    const appJson = parseAppJson(appJsonContent);
+    if (!appJson) {
+      console.warn(`Failed to parse app.json at ${appJsonPath}`);
+      return null;
+    }
+
+    const projectRoot = path.dirname(appJsonPath);
+    const options = this.getParseOptions(appJson);
+    const objects: ALObjectWithFields[] = [];
+    for (const filePath of alFiles) {
+      const relative = path.relative(projectRoot, filePath);
+      if (relative.startsWith("..") || path.isAbsolute(relative)) {
+        continue;
+      }
+      objects.push(
+        ...alObjectParser.parseContent(
+          await fs.readFile(filePath, "utf-8"),
+          filePath,
+          options,
+        ),
+      );
+    }
+
+    // Sort objects by type, then by ID
+    this.sortObjects(objects);
+
+    const idRangesLineNumber = getIdRangesLineNumber(appJsonContent);
+    return {
+      name: appJson.name,
+      rootPath: projectRoot,
+      idRanges: appJson.idRanges,
+      objects,
+      appId: appJson.id.toLowerCase(),
+      preprocessorSymbols: appJson.preprocessorSymbols,
+      dependencies: appJson.dependencies,
+      ...(appJson.application && { application: appJson.application }),
+      ...(appJson.platform && { platform: appJson.platform }),
+      ...(appJson.runtime && { runtime: appJson.runtime }),
+      ...(idRangesLineNumber && { idRangesLineNumber }),
+    };
+  }
+
+  /**
+   * Recursively find all files in a folder. Files and folders matching an
+   * exclude pattern are skipped.
+   */
+  private async findFiles(folder: string): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await fs.readdir(folder, { withFileTypes: true })) {
+      const entryPath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        // A trailing slash lets patterns such as "**/node_modules/**" match
+        if (!this.matchesExcludePattern(`${entryPath}/`)) {
+          files.push(...(await this.findFiles(entryPath)));
+        }
+      } else if (entry.isFile() && !this.matchesExcludePattern(entryPath)) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Check a path against the exclude patterns
+   */
+  private matchesExcludePattern(filePath: string): boolean {
+    const normalizedPath = filePath.replace(/\\/g, "/");
+    return this.settings.excludePatterns.some((pattern) =>
+      minimatch(normalizedPath, pattern, { dot: true, nocase: true }),
+    );
+  }
+
+  /**
+   * Get the settings passed to the scanner
+   */
+  protected getSettings(): AnalyzerSettings {
+    return this.settings;
+  }
+
+  /**
+   * List the files in a folder
+   */
+  protected async listFiles(folderPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(folderPath, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isFile())
+        .map((entry) => entry.name);
+    } catch {
+      // Folder does not exist
+      return [];
+    }
+  }
+
+  /**
+   * Get the modification time and size of a file
+   */
+  protected async statFile(filePath: string): Promise<FileStamp> {
+    const stat = await fs.stat(filePath);
+    return { mtime: stat.mtimeMs, size: stat.size };
+  }
+
+  /**
+   * Read a file
+   */
+  protected async readFile(filePath: string): Promise<Uint8Array> {
+    return fs.readFile(filePath);
+  }
+
+  /**
+   * Write a file
+   */
+  protected async writeFile(
+    filePath: string,
+    content: Uint8Array,
+  ): Promise<void> {
+    await fs.writeFile(filePath, content);
+  }
+}
@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { PROBLEM_DESCRIPTIONS } from "../services/rangeCheck.js";
+import { CONFIG_FILE_NAME, ExitCodes, runCheck } from "./checkCommand.js";
+
+const USAGE = `Usage: bc-object-range check <folder> [options]
+
+Checks the AL projects in <folder> and reports:
+${Object.entries(PROBLEM_DESCRIPTIONS)
+  .map(([code, description]) => `  ${code.padEnd(26)}${description}`)
+  .join("\n")}
+
+Field and enum value conflicts are checked between any two apps. Object
+conflicts are checked between apps that are installed together, following the
+dependencies in app.json and in the .app packages in .alpackages; in shared
+range mode between any two apps. Field and enum value conflicts use the
+memberConflictSeverity of the configuration, and range usage its
+rangeUsageThresholds. Each app's retired-ids.json is read, and
+only updated with --update-retired-ids.
+
+Options:
+  -c, --config <file>       Configuration file (default: <folder>/${CONFIG_FILE_NAME})
+      --shared-range-mode   Check in shared range mode
+      --no-shared-range-mode
+                            Check in normal mode, even if the configuration
+                            enables shared range mode
+      --update-retired-ids  Add the declared IDs to each app's retired-ids.json
+      --sarif <file>        Write a SARIF 2.1 report
+      --junit <file>        Write a JUnit XML report
+      --json <file>         Write a JSON report
+  -h, --help                Show this help
+
+Exit codes: 0 no errors (warnings, information and hints do not fail),
+1 errors found, 2 invalid arguments or configuration`;
+
+/**
+ * Entry point of the command line interface
+ *
+ * @returns The process exit code
+ */
+async function main(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: "string", short: "c" },
+        "shared-range-mode": { type: "boolean" },
+        "no-shared-range-mode": { type: "boolean" },
+        "update-retired-ids": { type: "boolean" },
+        sarif: { type: "string" },
+        junit: { type: "string" },
+        json: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return ExitCodes.error;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return ExitCodes.ok;
+  }
+
+  const [command, folder, ...rest] = positionals;
+  if (command !== "check" || !folder || rest.length > 0) {
+    console.error(USAGE);
+    return ExitCodes.error;
+  }
+  if (values["shared-range-mode"] && values["no-shared-range-mode"]) {
+    console.error(
+      "--shared-range-mode and --no-shared-range-mode cannot be combined",
+    );
+    return ExitCodes.error;
+  }
+
+  return runCheck(
+    folder,
+    {
+      configPath: values.config,
+      sharedRangeMode: values["no-shared-range-mode"]
+        ? false
+        : values["shared-range-mode"],
+      updateRetiredIds: values["update-retired-ids"],
+      reports: {
+        ...(values.sarif && { sarif: values.sarif }),
+        ...(values.junit && { junit: values.junit }),
+        ...(values.json && { json: values.json }),
+      },
+      toolVersion: readToolVersion(),
+    },
+    { log: console.log, error: console.error },
+  );
+}
+
+/**
+ * Read the version from the package.json next to the bundled script
+ */
+function readToolVersion(): string | undefined {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf-8"),
+    );
+    return typeof packageJson.version === "string"
+      ? packageJson.version
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = ExitCodes.error;
+  },
+);
@@ -1,20 +1,41 @@
 import * as vscode from "vscode";
 import { workspaceScanner } from "./services/workspaceScanner.js";
-import { ALFileWatcher } from "./services/fileWatcher.js";
+import { ALFileWatcher, ALFileChanges } from "./services/fileWatcher.js";
+import { ParseCache } from "./services/parseCache.js";
+import { projectRenumberer } from "./services/projectRenumberer.js";
+import { AnalysisReportExporter } from "./services/analysisReportExporter.js";
 import { UsedIdsTreeProvider } from "./providers/usedIdsTreeProvider.js";
 import { UnusedIdsTreeProvider } from "./providers/unusedIdsTreeProvider.js";
+import { BaseObjectGapsTreeProvider } from "./providers/baseObjectGapsTreeProvider.js";
 import { ObjectIdCompletionProvider } from "./providers/objectIdCompletionProvider.js";
+import { ObjectIdDiagnosticsProvider } from "./providers/objectIdDiagnosticsProvider.js";
+import { ObjectIdCodeActionProvider } from "./providers/objectIdCodeActionProvider.js";
+import { IdRangeCodeLensProvider } from "./providers/idRangeCodeLensProvider.js";
+import { describeRangeExhaustion } from "./services/rangeCheck.js";
 import {
   ALObject,
+  ALProject,
   IdGap,
   AL_OBJECT_TYPES_WITH_ID,
   ALObjectTypeWithId,
+  IdRange,
 } from "./types/index.js";
 
 let usedIdsProvider: UsedIdsTreeProvider;
 let unusedIdsProvider: UnusedIdsTreeProvider;
+let fieldGapsProvider: BaseObjectGapsTreeProvider;
+let enumValueGapsProvider: BaseObjectGapsTreeProvider;
 let fileWatcher: ALFileWatcher;
 let completionProvider: ObjectIdCompletionProvider;
+let diagnosticsProvider: ObjectIdDiagnosticsProvider;
+let codeActionProvider: ObjectIdCodeActionProvider;
+let codeLensProvider: IdRangeCodeLensProvider;
+let parseCache: ParseCache | undefined;
+let currentProjects: ALProject[] = [];
+let hasScanned = false;
+let analysisQueue: Promise<void> = Promise.resolve();
+// Range usage thresholds already notified in this session
+const notifiedRangeExhaustion = new Set<string>();
 
 /**
  * Extension activation
@@ -22,20 +43,55 @@ let completionProvider: ObjectIdCompletionProvider;
 export function activate(context: vscode.ExtensionContext): void {
   console.log("BC Object Range Analyzer is now active");
 
+  // Persist parse results per workspace so startup only parses changed files
+  parseCache = createParseCache(context.storageUri);
+  workspaceScanner.setParseCache(parseCache);
+
   // Create tree data providers
   usedIdsProvider = new UsedIdsTreeProvider();
   unusedIdsProvider = new UnusedIdsTreeProvider();
+  fieldGapsProvider = new BaseObjectGapsTreeProvider("fields");
+  enumValueGapsProvider = new BaseObjectGapsTreeProvider("enumValues");
 
   // Create completion provider for AL object IDs
   completionProvider = new ObjectIdCompletionProvider(workspaceScanner);
 
+  // Publish object ID problems to the Problems panel
+  diagnosticsProvider = new ObjectIdDiagnosticsProvider();
+
   // Register completion provider for AL files
-  // Triggers on space (after typing object type keyword) and manually via Ctrl+Space
+  // Triggers on space (after typing object type keyword), on "(" (after
+  // typing field or value) and manually via Ctrl+Space
   const completionProviderRegistration =
     vscode.languages.registerCompletionItemProvider(
       { language: "al", scheme: "file" },
       completionProvider,
-      " " // Trigger on space after object type keyword
+      " ", // Trigger on space after object type keyword
+      "(" // Trigger on the parenthesis of a field or value declaration
+    );
+
+  // Register code actions to renumber an object declaration to a free ID,
+  // and to trim or remove an ID range in app.json
+  codeActionProvider = new ObjectIdCodeActionProvider(workspaceScanner);
+  const codeActionProviderRegistration =
+    vscode.languages.registerCodeActionsProvider(
+      [
+        { language: "al", scheme: "file" },
+        { scheme: "file", pattern: "**/app.json" },
+      ],
+      codeActionProvider,
+      {
+        providedCodeActionKinds:
+          ObjectIdCodeActionProvider.providedCodeActionKinds,
+      }
+    );
+
+  // Show the usage of each ID range above its entry in app.json
+  codeLensProvider = new IdRangeCodeLensProvider();
+  const codeLensProviderRegistration =
+    vscode.languages.registerCodeLensProvider(
+      { scheme: "file", pattern: "**/app.json" },
+      codeLensProvider
     );
 
   // Register tree views
@@ -52,9 +108,31 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   );
 
-  // Create file watcher with refresh callback
-  fileWatcher = new ALFileWatcher(() => {
-    refreshAnalysis();
+  const fieldGapsView = vscode.window.createTreeView(
+    "bcObjectRange.fieldGaps",
+    {
+      treeDataProvider: fieldGapsProvider,
+      showCollapseAll: true,
+    }
+  );
+
+  const enumValueGapsView = vscode.window.createTreeView(
+    "bcObjectRange.enumValueGaps",
+    {
+      treeDataProvider: enumValueGapsProvider,
+      showCollapseAll: true,
+    }
+  );
+
+  // Create file watcher with refresh callback. A full scan is only needed
+  // when an app.json or a dependency package changed; otherwise only the
+  // changed files are re-parsed.
+  fileWatcher = new ALFileWatcher((changes) => {
+    if (changes && !changes.appJsonChanged && !changes.packagesChanged) {
+      applyFileChanges(changes);
+    } else {
+      refreshAnalysis();
+    }
   });
 
   // Register commands
@@ -84,10 +162,25 @@ export function activate(context: vscode.ExtensionContext): void {
         vscode.window.showInformationMessage(
           `Copied ID ${gap.start} to clipboard`
         );
-      } else if (sharedMode) {
-        // In shared mode without a gap, show quick pick for object type
+      } else {
+        // Without a gap, show a quick pick for the object type: across all
+        // projects in shared mode, in the project of the active file otherwise
+        const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const project =
+          sharedMode || !activeFile
+            ? undefined
+            : workspaceScanner.findProjectForFile(currentProjects, activeFile);
+        if (!sharedMode && !project) {
+          vscode.window.showInformationMessage(
+            "Click on a gap in the Unused IDs view to copy its ID"
+          );
+          return;
+        }
+
         const items = AL_OBJECT_TYPES_WITH_ID.map((type) => {
-          const nextId = unusedIdsProvider.getNextAvailableIdForType(type);
+          const nextId = project
+            ? unusedIdsProvider.getNextAvailableId(project, type)
+            : unusedIdsProvider.getNextAvailableIdForType(type);
           return {
             label: type.charAt(0).toUpperCase() + type.slice(1),
             description: nextId ? `Next: ${nextId}` : "No IDs available",
@@ -98,14 +191,18 @@ export function activate(context: vscode.ExtensionContext): void {
 
         if (items.length === 0) {
           vscode.window.showWarningMessage(
-            "No available IDs in the shared range"
+            project
+              ? `No available IDs in "${project.name}"`
+              : "No available IDs in the shared range"
           );
           return;
         }
 
         const selected = await vscode.window.showQuickPick(items, {
           placeHolder: "Select object type to get next available ID",
-          title: "Copy Next Available ID (Shared Mode)",
+          title: project
+            ? `Copy Next Available ID (${project.name})`
+            : "Copy Next Available ID (Shared Mode)",
         });
 
         if (selected && selected.nextId) {
@@ -114,9 +211,112 @@ export function activate(context: vscode.ExtensionContext): void {
             `Copied ID ${selected.nextId} for ${selected.label} to clipboard`
           );
         }
-      } else {
-        vscode.window.showInformationMessage(
-          "Click on a gap in the Unused IDs view to copy its ID"
+      }
+    }
+  );
+
+  const clearCacheCommand = vscode.commands.registerCommand(
+    "bcObjectRange.clearCache",
+    async () => {
+      await enqueueAnalysis(async () => {
+        await parseCache?.clear();
+      });
+      await refreshAnalysis();
+      vscode.window.showInformationMessage(
+        "BC Object Range parse cache cleared"
+      );
+    }
+  );
+
+  const pickIdFromGapCommand = vscode.commands.registerCommand(
+    "bcObjectRange.pickIdFromGap",
+    (uri: vscode.Uri, idRange: vscode.Range, objectType: ALObjectTypeWithId) =>
+      codeActionProvider.pickIdFromGap(uri, idRange, objectType)
+  );
+
+  const revealIdRangeCommand = vscode.commands.registerCommand(
+    "bcObjectRange.revealIdRange",
+    async (rootPath: string, range: IdRange) => {
+      const project = currentProjects.find((p) => p.rootPath === rootPath);
+      const element =
+        project && unusedIdsProvider.findRangeElement(project, range);
+      if (element) {
+        await unusedIdsView.reveal(element, {
+          select: true,
+          focus: true,
+          expand: true,
+        });
+      }
+    }
+  );
+
+  const renumberProjectCommand = vscode.commands.registerCommand(
+    "bcObjectRange.renumberProject",
+    async (item?: { project?: ALProject }) => {
+      if (item?.project) {
+        await projectRenumberer.renumberProject(item.project);
+      }
+    }
+  );
+
+  const updateRetiredIdsCommand = vscode.commands.registerCommand(
+    "bcObjectRange.updateRetiredIdsLedger",
+    async () => {
+      await enqueueAnalysis(async () => {
+        if (!hasScanned) {
+          await runFullAnalysis();
+        }
+        await workspaceScanner.loadRetiredIds(currentProjects, true);
+      });
+      await refreshAnalysis();
+      vscode.window.showInformationMessage(
+        "BC Object Range retired IDs ledger updated"
+      );
+    }
+  );
+
+  const reportExporter = new AnalysisReportExporter(
+    context.extension.packageJSON.version
+  );
+  const exportReportCommand = vscode.commands.registerCommand(
+    "bcObjectRange.exportReport",
+    async () => {
+      await analysisQueue;
+      await reportExporter.exportReport(currentProjects);
+    }
+  );
+
+  const filterObsoleteCommand = vscode.commands.registerCommand(
+    "bcObjectRange.filterObsolete",
+    async () => {
+      const config = vscode.workspace.getConfiguration("bcObjectRange");
+      const current = config.get<string>("obsoleteFilter", "show");
+      const items = [
+        {
+          label: "Show Obsolete Items",
+          description: "struck through",
+          value: "show",
+        },
+        { label: "Hide Obsolete Items", value: "hide" },
+        { label: "Show Only Obsolete Items", value: "only" },
+      ].map((item) => ({
+        ...item,
+        picked: item.value === current,
+        detail: item.value === current ? "Current filter" : undefined,
+      }));
+
+      const selected = await vscode.window.showQuickPick(items, {
+        title: "Filter Obsolete Items",
+        placeHolder:
+          "Obsolete objects, fields and enum values and retired IDs in the Used Object IDs view",
+      });
+      if (selected && selected.value !== current) {
+        await config.update(
+          "obsoleteFilter",
+          selected.value,
+          vscode.workspace.workspaceFolders
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global
         );
       }
     }
@@ -125,12 +325,20 @@ export function activate(context: vscode.ExtensionContext): void {
   const openFileCommand = vscode.commands.registerCommand(
     "bcObjectRange.openFile",
     async (object: ALObject) => {
-      if (object && object.filePath) {
+      // Objects of dependency apps live in .app packages and cannot be opened
+      if (
+        object &&
+        object.filePath &&
+        !object.filePath.toLowerCase().endsWith(".app")
+      ) {
         const doc = await vscode.workspace.openTextDocument(object.filePath);
         const editor = await vscode.window.showTextDocument(doc);
 
-        // Move cursor to the line where the object is declared
-        const position = new vscode.Position(object.lineNumber - 1, 0);
+        // Move cursor to where the object is declared
+        const position = new vscode.Position(
+          object.lineNumber - 1,
+          (object.column ?? 1) - 1
+        );
         editor.selection = new vscode.Selection(position, position);
         editor.revealRange(
           new vscode.Range(position, position),
@@ -143,8 +351,32 @@ export function activate(context: vscode.ExtensionContext): void {
   // Listen for configuration changes
   const configChangeListener = vscode.workspace.onDidChangeConfiguration(
     (e) => {
-      if (e.affectsConfiguration("bcObjectRange.sharedRangeMode")) {
+      if (
+        e.affectsConfiguration("bcObjectRange.sharedRangeMode") ||
+        e.affectsConfiguration("bcObjectRange.includeDependencies") ||
+        e.affectsConfiguration("bcObjectRange.dependencyExcludePublishers") ||
+        e.affectsConfiguration("bcObjectRange.preprocessorSymbols") ||
+        e.affectsConfiguration(
+          "bcObjectRange.includeAllPreprocessorBranches"
+        ) ||
+        e.affectsConfiguration("bcObjectRange.updateRetiredIdsLedger") ||
+        e.affectsConfiguration("bcObjectRange.developerId")
+      ) {
         refreshAnalysis();
+      } else if (
+        e.affectsConfiguration("bcObjectRange.memberConflictSeverity")
+      ) {
+        usedIdsProvider.setProjects(currentProjects);
+        diagnosticsProvider.update(currentProjects);
+      } else if (e.affectsConfiguration("bcObjectRange.rangeUsageThresholds")) {
+        usedIdsProvider.setProjects(currentProjects);
+        unusedIdsProvider.setProjects(currentProjects);
+        notifyRangeExhaustion(currentProjects);
+      } else if (
+        e.affectsConfiguration("bcObjectRange.groupByNamespace") ||
+        e.affectsConfiguration("bcObjectRange.obsoleteFilter")
+      ) {
+        usedIdsProvider.refresh();
       }
     }
   );
@@ -153,28 +385,131 @@ export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(
     usedIdsView,
     unusedIdsView,
+    fieldGapsView,
+    enumValueGapsView,
     fileWatcher,
     analyzeCommand,
     refreshCommand,
     copyNextIdCommand,
     openFileCommand,
+    clearCacheCommand,
+    pickIdFromGapCommand,
+    revealIdRangeCommand,
+    renumberProjectCommand,
+    updateRetiredIdsCommand,
+    exportReportCommand,
+    filterObsoleteCommand,
     configChangeListener,
-    completionProviderRegistration
+    completionProviderRegistration,
+    codeActionProviderRegistration,
+    codeLensProviderRegistration,
+    diagnosticsProvider
   );
 
-  // Perform initial analysis
+  // Perform initial analysis once the parse cache is loaded
+  enqueueAnalysis(async () => {
+    await parseCache?.load();
+  });
   refreshAnalysis();
 }
 
 /**
- * Refresh the workspace analysis
+ * Create the parse cache backed by a file in the workspace storage folder.
+ * Returns undefined when no workspace is open.
+ */
+function createParseCache(
+  storageUri: vscode.Uri | undefined
+): ParseCache | undefined {
+  if (!storageUri) {
+    return undefined;
+  }
+
+  const cacheUri = vscode.Uri.joinPath(storageUri, "parse-cache.json");
+
+  return new ParseCache({
+    read: async () => {
+      try {
+        const content = await vscode.workspace.fs.readFile(cacheUri);
+        return Buffer.from(content).toString("utf-8");
+      } catch {
+        return undefined;
+      }
+    },
+    write: async (content) => {
+      await vscode.workspace.fs.createDirectory(storageUri);
+      await vscode.workspace.fs.writeFile(
+        cacheUri,
+        Buffer.from(content, "utf-8")
+      );
+    },
+  });
+}
+
+/**
+ * Queue an analysis step so full scans and incremental updates never overlap
+ */
+function enqueueAnalysis(step: () => Promise<void>): Promise<void> {
+  analysisQueue = analysisQueue.then(step, step);
+  return analysisQueue;
+}
+
+/**
+ * Refresh the workspace analysis with a full scan
  */
-async function refreshAnalysis(): Promise<void> {
+function refreshAnalysis(): Promise<void> {
+  return enqueueAnalysis(runFullAnalysis);
+}
+
+/**
+ * Re-parse only the changed files and push the deltas to the views
+ */
+function applyFileChanges(changes: ALFileChanges): Promise<void> {
+  return enqueueAnalysis(async () => {
+    if (!hasScanned) {
+      await runFullAnalysis();
+      return;
+    }
+
+    try {
+      const deltas = await workspaceScanner.applyFileChanges(
+        currentProjects,
+        changes.changed,
+        changes.deleted
+      );
+      usedIdsProvider.applyDelta(deltas);
+      unusedIdsProvider.applyDelta(deltas);
+      fieldGapsProvider.applyDelta(deltas);
+      enumValueGapsProvider.applyDelta(deltas);
+      codeLensProvider.applyDelta(deltas);
+      if (deltas.length > 0) {
+        diagnosticsProvider.update(currentProjects);
+        notifyRangeExhaustion(currentProjects);
+      }
+      // The completion provider reads the patched projects directly
+    } catch (error) {
+      console.error("Error applying BC Object Range file changes:", error);
+      await runFullAnalysis();
+    }
+  });
+}
+
+/**
+ * Scan the whole workspace and replace the projects in all views
+ */
+async function runFullAnalysis(): Promise<void> {
   try {
     const projects = await workspaceScanner.scanWorkspace();
+    currentProjects = projects;
+    hasScanned = true;
     usedIdsProvider.setProjects(projects);
     unusedIdsProvider.setProjects(projects);
+    fieldGapsProvider.setProjects(projects);
+    enumValueGapsProvider.setProjects(projects);
     completionProvider.setProjects(projects);
+    codeActionProvider.setProjects(projects);
+    codeLensProvider.setProjects(projects);
+    diagnosticsProvider.update(projects);
+    notifyRangeExhaustion(projects);
 
     // Show summary message if there are projects
     if (projects.length > 0) {
@@ -194,6 +529,49 @@ async function refreshAnalysis(): Promise<void> {
   }
 }
 
+/**
+ * Notify about ranges that crossed a usage threshold. Each app, object type
+ * and level is notified once per session, so a warning that turns into an
+ * error is notified again.
+ */
+function notifyRangeExhaustion(projects: ALProject[]): void {
+  const exhaustion = workspaceScanner
+    .findRangeExhaustion(projects)
+    .filter((entry) => {
+      const key = [
+        entry.project?.rootPath ?? "",
+        entry.objectType ?? "",
+        entry.level,
+      ].join("|");
+      if (notifiedRangeExhaustion.has(key)) {
+        return false;
+      }
+      notifiedRangeExhaustion.add(key);
+      return true;
+    });
+  if (exhaustion.length === 0) {
+    return;
+  }
+
+  // Lead with an error if there is one
+  const isError = exhaustion.some((entry) => entry.level === "error");
+  const first =
+    exhaustion.find((entry) => entry.level === "error") ?? exhaustion[0];
+  const more =
+    exhaustion.length > 1 ? ` (and ${exhaustion.length - 1} more)` : "";
+  const message = `BC Object Range: ${describeRangeExhaustion(first)}${more}`;
+  const action = "Show Unused IDs";
+
+  const shown = isError
+    ? vscode.window.showErrorMessage(message, action)
+    : vscode.window.showWarningMessage(message, action);
+  void shown.then((selected) => {
+    if (selected === action) {
+      void vscode.commands.executeCommand("bcObjectRange.unusedIds.focus");
+    }
+  });
+}
+
 /**
  * Extension deactivation
  */
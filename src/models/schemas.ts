@@ -12,6 +12,28 @@ export const IdRangeSchema = z
     message: "'to' must be greater than or equal to 'from'",
   });
 
+/**
+ * Schema for an entry of the dependencies in app.json. Older app.json files
+ * name the app ID "appId" instead of "id".
+ */
+export const AppDependencySchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    appId: z.string().min(1).optional(),
+    name: z.string().optional(),
+    publisher: z.string().optional(),
+    version: z.string().optional(),
+  })
+  .refine((data) => data.id ?? data.appId, {
+    message: "A dependency needs an 'id'",
+  })
+  .transform((data) => ({
+    id: (data.id ?? data.appId)!.toLowerCase(),
+    name: data.name ?? "",
+    publisher: data.publisher ?? "",
+    version: data.version ?? "",
+  }));
+
 /**
  * Schema for app.json validation
  */
@@ -23,6 +45,11 @@ export const AppJsonSchema = z
     version: z.string().min(1),
     idRanges: z.array(IdRangeSchema).optional(),
     idRange: IdRangeSchema.optional(),
+    preprocessorSymbols: z.array(z.string()).optional(),
+    dependencies: z.array(AppDependencySchema).optional(),
+    application: z.string().optional(),
+    platform: z.string().optional(),
+    runtime: z.string().optional(),
   })
   .transform((data) => {
     // Normalize idRange to idRanges array
@@ -33,9 +60,23 @@ export const AppJsonSchema = z
       publisher: data.publisher,
       version: data.version,
       idRanges: ranges,
+      preprocessorSymbols: data.preprocessorSymbols ?? [],
+      dependencies: data.dependencies ?? [],
+      application: data.application,
+      platform: data.platform,
+      runtime: data.runtime,
     };
   });
 
+/**
+ * Schema for the Obsolete* properties of an object, field or enum value
+ */
+export const ObsoleteInfoSchema = z.object({
+  state: z.enum(["Pending", "Moved", "Removed"]),
+  reason: z.string().optional(),
+  tag: z.string().optional(),
+});
+
 /**
  * Schema for parsed AL object
  */
@@ -58,7 +99,12 @@ export const ALObjectSchema = z.object({
   id: z.number().int().positive(),
   name: z.string().min(1),
   lineNumber: z.number().int().positive(),
+  column: z.number().int().positive().optional(),
+  idLineNumber: z.number().int().positive().optional(),
+  idColumn: z.number().int().positive().optional(),
   filePath: z.string().min(1),
+  namespace: z.string().optional(),
+  obsolete: ObsoleteInfoSchema.optional(),
 });
 
 /**
@@ -69,7 +115,11 @@ export const ALFieldSchema = z.object({
   name: z.string().min(1),
   dataType: z.string().min(1),
   lineNumber: z.number().int().positive(),
+  column: z.number().int().positive().optional(),
+  idLineNumber: z.number().int().positive().optional(),
+  idColumn: z.number().int().positive().optional(),
   filePath: z.string().min(1),
+  obsolete: ObsoleteInfoSchema.optional(),
 });
 
 /**
@@ -79,7 +129,11 @@ export const ALEnumValueSchema = z.object({
   id: z.number().int().positive(),
   name: z.string().min(1),
   lineNumber: z.number().int().positive(),
+  column: z.number().int().positive().optional(),
+  idLineNumber: z.number().int().positive().optional(),
+  idColumn: z.number().int().positive().optional(),
   filePath: z.string().min(1),
+  obsolete: ObsoleteInfoSchema.optional(),
 });
 
 /**
@@ -87,6 +141,8 @@ export const ALEnumValueSchema = z.object({
  */
 export const ALObjectWithFieldsSchema = ALObjectSchema.extend({
   extendsObject: z.string().optional(),
+  extendsNamespace: z.string().optional(),
+  usings: z.array(z.string()).optional(),
   fields: z.array(ALFieldSchema).optional(),
   enumValues: z.array(ALEnumValueSchema).optional(),
 });
@@ -101,6 +157,78 @@ export const ALProjectSchema = z.object({
   objects: z.array(ALObjectSchema),
 });
 
+/**
+ * Schema for the retired IDs ledger of an app. Missing sections are empty.
+ */
+export const RetiredIdsSchema = z.object({
+  objects: z
+    .record(ALObjectSchema.shape.type, z.array(z.number().int().nonnegative()))
+    .default({}),
+  fields: z.record(z.array(z.number().int().nonnegative())).default({}),
+  enumValues: z.record(z.array(z.number().int().nonnegative())).default({}),
+});
+
+/**
+ * Schema for the ID allocation file of an app. A block without assignees is
+ * reserved: it is listed, but no developer draws IDs from it.
+ */
+export const IdAllocationsSchema = z.object({
+  blocks: z.array(
+    z
+      .object({
+        name: z.string().min(1),
+        from: z.number().int().positive(),
+        to: z.number().int().positive(),
+        objectTypes: z.array(ALObjectSchema.shape.type).optional(),
+        assignees: z.array(z.string()).default([]),
+      })
+      .refine((data) => data.to >= data.from, {
+        message: "'to' must be greater than or equal to 'from'",
+      }),
+  ),
+});
+
+/**
+ * Schema for a range usage threshold in percent; null turns the level off
+ */
+const RangeUsageLevelSchema = z.number().min(0).max(100).nullable();
+
+/**
+ * Schema for the range usage thresholds, with overrides per app name.
+ * Missing levels keep their defaults.
+ */
+const RangeUsageThresholdsSchema = z.object({
+  warning: RangeUsageLevelSchema.optional(),
+  error: RangeUsageLevelSchema.optional(),
+  projects: z
+    .record(
+      z.object({
+        warning: RangeUsageLevelSchema.optional(),
+        error: RangeUsageLevelSchema.optional(),
+      }),
+    )
+    .optional(),
+});
+
+/**
+ * Schema for the configuration file of the command line interface.
+ * Uses the names of the extension settings, without the "bcObjectRange." prefix.
+ * Unknown keys are ignored.
+ */
+export const AnalyzerConfigSchema = z.object({
+  excludePatterns: z.array(z.string()).optional(),
+  excludeFolders: z.array(z.string()).optional(),
+  sharedRangeMode: z.boolean().optional(),
+  includeDependencies: z.boolean().optional(),
+  dependencyExcludePublishers: z.array(z.string()).optional(),
+  preprocessorSymbols: z.array(z.string()).optional(),
+  includeAllPreprocessorBranches: z.boolean().optional(),
+  memberConflictSeverity: z
+    .enum(["error", "warning", "information", "hint", "off"])
+    .optional(),
+  rangeUsageThresholds: RangeUsageThresholdsSchema.optional(),
+});
+
 /**
  * Validate and parse app.json content
  */
@@ -115,6 +243,59 @@ export function parseAppJson(
   }
 }
 
+/**
+ * Validate and parse the content of a retired IDs ledger
+ */
+export function parseRetiredIds(
+  content: string,
+): z.infer<typeof RetiredIdsSchema> | null {
+  try {
+    const json = JSON.parse(content);
+    return RetiredIdsSchema.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate and parse the content of an ID allocation file
+ */
+export function parseIdAllocations(
+  content: string,
+): z.infer<typeof IdAllocationsSchema> | null {
+  try {
+    const json = JSON.parse(content);
+    return IdAllocationsSchema.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate and parse the configuration file of the command line interface.
+ * Keys may also be written with the "bcObjectRange." prefix, so the settings
+ * can be copied from a VS Code settings file.
+ */
+export function parseAnalyzerConfig(
+  content: string,
+): z.infer<typeof AnalyzerConfigSchema> | null {
+  try {
+    const json = JSON.parse(content);
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+      return null;
+    }
+    const settings = Object.fromEntries(
+      Object.entries(json).map(([key, value]) => [
+        key.replace(/^bcObjectRange\./, ""),
+        value,
+      ]),
+    );
+    return AnalyzerConfigSchema.parse(settings);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Validate an AL object
  */
@@ -155,6 +336,9 @@ export function validateALEnumValue(
 }
 
 export type ValidatedAppJson = z.infer<typeof AppJsonSchema>;
+export type ValidatedRetiredIds = z.infer<typeof RetiredIdsSchema>;
+export type ValidatedIdAllocations = z.infer<typeof IdAllocationsSchema>;
+export type ValidatedAnalyzerConfig = z.infer<typeof AnalyzerConfigSchema>;
 export type ValidatedALObject = z.infer<typeof ALObjectSchema>;
 export type ValidatedALProject = z.infer<typeof ALProjectSchema>;
 export type ValidatedALField = z.infer<typeof ALFieldSchema>;
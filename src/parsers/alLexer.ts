@@ -0,0 +1,327 @@
+import { Preprocessor } from "./preprocessor.js";
+
+/**
+ * Kinds of tokens produced by the AL lexer
+ */
+export type ALTokenKind =
+  /** Keyword or unquoted identifier, e.g. table, Customer */
+  | "identifier"
+  /** Double-quoted identifier, e.g. "Sales Header" (value without quotes) */
+  | "quotedIdentifier"
+  /** Single-quoted string literal (value without quotes, '' unescaped) */
+  | "string"
+  /** Integer or decimal number */
+  | "number"
+  /** Operator or punctuation, e.g. { ( ; := :: .. */
+  | "punctuation";
+
+/**
+ * A token with its position in the source
+ */
+export interface ALToken {
+  kind: ALTokenKind;
+  /** The token text; quotes are removed from identifiers and strings */
+  value: string;
+  /** 1-based line of the first character */
+  line: number;
+  /** 1-based column of the first character */
+  column: number;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset after the last character in the source */
+  end: number;
+}
+
+/**
+ * Operators of two characters, matched before single characters
+ */
+const TWO_CHARACTER_OPERATORS = new Set([
+  ":=",
+  "::",
+  "..",
+  "<=",
+  ">=",
+  "<>",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+]);
+
+const IDENTIFIER_START = /[\p{L}_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_]/u;
+const DIGIT = /[0-9]/;
+
+/**
+ * Lexer for AL source code. Skips whitespace, // and /* *\/ comments, and
+ * lines in inactive preprocessor branches; every preprocessor directive
+ * (a line starting with #) is handed to the preprocessor and not returned
+ * as a token. Unterminated strings and quoted identifiers end at the end of
+ * the line, so one typo does not swallow the rest of the file.
+ */
+export class ALLexer {
+  private position = 0;
+  private line = 1;
+  private lineStart = 0;
+  /** Whether only whitespace was seen since the start of the current line */
+  private atLineStart = true;
+
+  constructor(
+    private readonly content: string,
+    private readonly preprocessor: Preprocessor = new Preprocessor(),
+  ) {}
+
+  /**
+   * Read all tokens of the content
+   */
+  public tokenize(): ALToken[] {
+    const tokens: ALToken[] = [];
+    let token: ALToken | null;
+    while ((token = this.next()) !== null) {
+      tokens.push(token);
+    }
+    return tokens;
+  }
+
+  /**
+   * Read the next token
+   *
+   * @returns The token, or null at the end of the content
+   */
+  private next(): ALToken | null {
+    const content = this.content;
+
+    while (this.position < content.length) {
+      const char = content[this.position];
+
+      if (char === "\n") {
+        this.newLine(this.position + 1);
+        continue;
+      }
+      if (char === " " || char === "\t" || char === "\r" || char === "\f") {
+        this.position++;
+        continue;
+      }
+
+      if (char === "#" && this.atLineStart) {
+        this.readDirective();
+        continue;
+      }
+      this.atLineStart = false;
+
+      if (char === "/" && content[this.position + 1] === "/") {
+        this.skipToLineEnd();
+        continue;
+      }
+      if (char === "/" && content[this.position + 1] === "*") {
+        this.skipBlockComment();
+        continue;
+      }
+
+      const start = this.position;
+      const column = start - this.lineStart + 1;
+
+      if (char === '"' || char === "'") {
+        const value = this.readQuoted(char);
+        return this.createToken(
+          char === '"' ? "quotedIdentifier" : "string",
+          value,
+          start,
+          column,
+        );
+      }
+
+      if (IDENTIFIER_START.test(char)) {
+        while (
+          this.position < content.length &&
+          IDENTIFIER_PART.test(content[this.position])
+        ) {
+          this.position++;
+        }
+        return this.createToken(
+          "identifier",
+          content.slice(start, this.position),
+          start,
+          column,
+        );
+      }
+
+      if (DIGIT.test(char)) {
+        this.readNumber();
+        return this.createToken(
+          "number",
+          content.slice(start, this.position),
+          start,
+          column,
+        );
+      }
+
+      const operator = content.slice(start, start + 2);
+      this.position += TWO_CHARACTER_OPERATORS.has(operator) ? 2 : 1;
+      return this.createToken(
+        "punctuation",
+        content.slice(start, this.position),
+        start,
+        column,
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a token that starts at the given offset and ends at the current position
+   */
+  private createToken(
+    kind: ALTokenKind,
+    value: string,
+    start: number,
+    column: number,
+  ): ALToken {
+    return { kind, value, line: this.line, column, start, end: this.position };
+  }
+
+  /**
+   * Move to the start of a new line. Lines in inactive preprocessor branches
+   * are skipped up to the next directive.
+   */
+  private newLine(lineStart: number): void {
+    this.position = lineStart;
+    this.line++;
+    this.lineStart = lineStart;
+    this.atLineStart = true;
+
+    if (!this.preprocessor.isActive) {
+      this.skipInactiveLines();
+    }
+  }
+
+  /**
+   * Skip lines until a line that starts with # (a directive)
+   */
+  private skipInactiveLines(): void {
+    const content = this.content;
+    while (this.position < content.length) {
+      const lineEnd = this.findLineEnd(this.position);
+      if (content.slice(this.position, lineEnd).trimStart().startsWith("#")) {
+        return;
+      }
+      if (lineEnd >= content.length) {
+        this.position = content.length;
+        return;
+      }
+      this.position = lineEnd + 1;
+      this.line++;
+      this.lineStart = this.position;
+    }
+  }
+
+  /**
+   * Read a directive line and pass it to the preprocessor without its
+   * trailing // comment
+   */
+  private readDirective(): void {
+    const lineEnd = this.findLineEnd(this.position);
+    const text = this.content.slice(this.position, lineEnd);
+    const commentIndex = text.indexOf("//");
+    this.preprocessor.processLine(
+      (commentIndex === -1 ? text : text.slice(0, commentIndex)).trimEnd(),
+    );
+    this.position = lineEnd;
+
+    if (this.position >= this.content.length) {
+      return;
+    }
+    // Continue with the next line, skipping it if the branch is inactive
+    this.newLine(this.position + 1);
+  }
+
+  /**
+   * Skip a // comment up to (not including) the line break
+   */
+  private skipToLineEnd(): void {
+    this.position = this.findLineEnd(this.position);
+  }
+
+  /**
+   * Skip a block comment, which may span several lines. Comments do not nest.
+   */
+  private skipBlockComment(): void {
+    const content = this.content;
+    this.position += 2;
+    while (this.position < content.length) {
+      if (
+        content[this.position] === "*" &&
+        content[this.position + 1] === "/"
+      ) {
+        this.position += 2;
+        return;
+      }
+      if (content[this.position] === "\n") {
+        this.line++;
+        this.lineStart = this.position + 1;
+      }
+      this.position++;
+    }
+  }
+
+  /**
+   * Read a quoted identifier or string literal. A doubled quote inside a
+   * string literal stands for one quote.
+   *
+   * @returns The text between the quotes
+   */
+  private readQuoted(quote: string): string {
+    const content = this.content;
+    let value = "";
+    this.position++;
+
+    while (this.position < content.length) {
+      const char = content[this.position];
+      if (char === "\n" || char === "\r") {
+        // Unterminated - end at the line break
+        return value;
+      }
+      this.position++;
+      if (char === quote) {
+        if (quote === "'" && content[this.position] === "'") {
+          value += "'";
+          this.position++;
+          continue;
+        }
+        return value;
+      }
+      value += char;
+    }
+
+    return value;
+  }
+
+  /**
+   * Read an integer or decimal number. The dot of a range (1..10) is not
+   * part of the number.
+   */
+  private readNumber(): void {
+    const content = this.content;
+    while (DIGIT.test(content[this.position] ?? "")) {
+      this.position++;
+    }
+    if (
+      content[this.position] === "." &&
+      DIGIT.test(content[this.position + 1] ?? "")
+    ) {
+      this.position++;
+      while (DIGIT.test(content[this.position] ?? "")) {
+        this.position++;
+      }
+    }
+  }
+
+  /**
+   * Find the offset of the line break that ends the line containing the offset
+   */
+  private findLineEnd(offset: number): number {
+    const lineEnd = this.content.indexOf("\n", offset);
+    return lineEnd === -1 ? this.content.length : lineEnd;
+  }
+}
@@ -4,274 +4,692 @@ import {
   ALField,
   ALEnumValue,
   ALObjectWithFields,
+  ObsoleteInfo,
 } from "../types/index.js";
+import { ALLexer, ALToken } from "./alLexer.js";
+import { getObsoleteInfo } from "./obsoleteInfo.js";
+import { Preprocessor, PreprocessorOptions } from "./preprocessor.js";
+
+/**
+ * Version of the parsing rules. Increment whenever a change to the parser
+ * changes its output, so persisted parse results are invalidated.
+ */
+export const PARSER_VERSION = 8;
 
 /**
  * Parser for AL (Application Language) files in Business Central projects.
- * Extracts object declarations and their fields/values while properly handling comments.
+ * Extracts object declarations and their fields/values from the tokens of
+ * the AL lexer, so comments, string literals and line breaks inside
+ * declarations are handled like the AL compiler does.
  */
 export class ALObjectParser {
   /**
-   * Regex pattern to match AL object declarations with IDs.
-   * Captures: [1] object type, [2] object ID, [3] quoted name or [4] unquoted name
+   * Parse AL content and extract all object declarations with their fields/values.
+   * Supports multiple objects defined in a single file.
+   * Lines in inactive #if/#elif/#else branches are skipped, unless all
+   * branches are included.
+   *
+   * @param content The raw content of an AL file
+   * @param filePath The absolute path to the AL file
+   * @param options The preprocessor symbols of the active configuration
+   * @returns Array of parsed AL objects with fields/values
    */
-  private static readonly OBJECT_PATTERN = new RegExp(
-    `^\\s*(${AL_OBJECT_TYPES_WITH_ID.join(
-      "|",
-    )})\\s+(\\d+)\\s+(?:"([^"]+)"|([a-zA-Z_][a-zA-Z0-9_]*))`,
-    "i",
-  );
+  public parseContent(
+    content: string,
+    filePath: string,
+    options: PreprocessorOptions = {},
+  ): ALObjectWithFields[] {
+    const tokens = new ALLexer(content, new Preprocessor(options)).tokenize();
+    return new ALObjectReader(content, tokens, filePath).readObjects();
+  }
 
   /**
-   * Regex pattern to match "extends" clause for extension objects.
-   * Captures: [1] quoted base object name or [2] unquoted base object name
+   * Validate if a string is a valid AL object type with ID
    */
-  private static readonly EXTENDS_PATTERN =
-    /extends\s+(?:"([^"]+)"|([a-zA-Z_][a-zA-Z0-9_]*))/i;
+  public static isValidObjectType(type: string): type is ALObjectTypeWithId {
+    return AL_OBJECT_TYPES_WITH_ID.includes(
+      type.toLowerCase() as ALObjectTypeWithId,
+    );
+  }
 
   /**
-   * Regex pattern to match field declarations inside tables/tableextensions.
-   * Captures: [1] field ID, [2] quoted name or [3] unquoted name, [4] data type
+   * Get all supported object types
    */
-  private static readonly FIELD_PATTERN =
-    /^\s*field\s*\(\s*(\d+)\s*;\s*(?:"([^"]+)"|([a-zA-Z_][a-zA-Z0-9_]*))\s*;\s*([^)]+)\)/i;
+  public static getSupportedObjectTypes(): readonly string[] {
+    return AL_OBJECT_TYPES_WITH_ID;
+  }
+}
+
+/**
+ * Tokens after which an object type keyword is part of an expression or a
+ * property value (e.g. Page::"Customer Card", RunObject = page 22) rather
+ * than the start of an object declaration
+ */
+const NON_DECLARATION_PREDECESSORS = new Set([".", "::", "=", ",", "("]);
+
+/**
+ * Tokens after which a property can start: the opening brace of a block, the
+ * end of the previous property or the closing brace of a nested block
+ */
+const PROPERTY_PREDECESSORS = new Set(["{", "}", ";"]);
+
+/**
+ * Recursive-descent reader for the parts of an AL file that declare IDs:
+ * object headers, fields blocks, enum values and property blocks (for the
+ * Obsolete* properties). Everything else is skipped with balanced braces.
+ *
+ * Reading recovers from malformed code: a declaration that cannot be read is
+ * skipped up to its closing parenthesis, an object header always starts a
+ * new object (even if the previous object misses its closing brace), and a
+ * truncated file still returns the objects read so far.
+ */
+class ALObjectReader {
+  private position = 0;
+  private namespace: string | undefined;
+  private readonly usings: string[] = [];
+  private readonly objects: ALObjectWithFields[] = [];
+
+  constructor(
+    private readonly content: string,
+    private readonly tokens: ALToken[],
+    private readonly filePath: string,
+  ) {}
 
   /**
-   * Regex pattern to match enum value declarations inside enums/enumextensions.
-   * Captures: [1] ordinal ID, [2] quoted name or [3] unquoted name
+   * Read all objects of the file
    */
-  private static readonly ENUM_VALUE_PATTERN =
-    /^\s*value\s*\(\s*(\d+)\s*;\s*(?:"([^"]+)"|([a-zA-Z_][a-zA-Z0-9_]*))\s*\)/i;
+  public readObjects(): ALObjectWithFields[] {
+    while (!this.isAtEnd()) {
+      if (this.isObjectHeader()) {
+        this.readObject();
+      } else if (this.isKeyword("namespace") || this.isKeyword("using")) {
+        this.readNamespaceDeclaration();
+      } else if (this.isPunctuation("{")) {
+        // Body of an object without an ID, e.g. an interface
+        this.skipBlock();
+      } else {
+        this.position++;
+      }
+    }
+
+    return this.objects;
+  }
 
   /**
-   * Parse AL content and extract all object declarations with their fields/values.
-   * Handles single-line (//) and multi-line comments.
-   * Supports multiple objects defined in a single file.
-   *
-   * @param content The raw content of an AL file
-   * @param filePath The absolute path to the AL file
-   * @returns Array of parsed AL objects with fields/values
+   * Read a `namespace` or `using` declaration. Both apply to every object
+   * that follows in the file.
+   */
+  private readNamespaceDeclaration(): void {
+    const keyword = this.tokens[this.position++].value.toLowerCase();
+    const name = this.readQualifiedName();
+    if (!name || !this.isPunctuation(";")) {
+      return;
+    }
+    this.position++;
+
+    const namespace = name.join(".");
+    if (keyword === "namespace") {
+      this.namespace = namespace;
+    } else {
+      this.usings.push(namespace);
+    }
+  }
+
+  /**
+   * Read an object: `<type> <id> <name> [extends <base>] { <body> }`
    */
-  public parseContent(content: string, filePath: string): ALObjectWithFields[] {
-    const objects: ALObjectWithFields[] = [];
-    const lines = content.split(/\r?\n/);
-
-    let inMultiLineComment = false;
-    let currentObject: ALObjectWithFields | null = null;
-    let braceDepth = 0;
-    let inFieldsBlock = false;
-    let fieldsBlockDepth = 0;
-    let expectingFieldsBlockBrace = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      let line = lines[i];
-      const lineNumber = i + 1; // 1-based line number
-
-      // Handle multi-line comment continuation
-      if (inMultiLineComment) {
-        const endIndex = line.indexOf("*/");
-        if (endIndex !== -1) {
-          line = line.substring(endIndex + 2);
-          inMultiLineComment = false;
-        } else {
-          // Entire line is inside a comment
-          continue;
+  private readObject(): void {
+    const keyword = this.tokens[this.position];
+    const type = keyword.value.toLowerCase() as ALObjectTypeWithId;
+    const idToken = this.tokens[this.position + 1];
+    const id = parseInt(idToken.value, 10);
+    const name = this.tokens[this.position + 2].value;
+    this.position += 3;
+
+    let extendsObject: string | undefined;
+    let extendsNamespace: string | undefined;
+    if (this.isKeyword("extends")) {
+      this.position++;
+      const target = this.readQualifiedName();
+      if (target) {
+        extendsObject = target[target.length - 1];
+        if (target.length > 1) {
+          extendsNamespace = target.slice(0, -1).join(".");
         }
       }
+    }
+
+    const obj: ALObjectWithFields = {
+      type,
+      id,
+      name,
+      lineNumber: keyword.line,
+      column: keyword.column,
+      idLineNumber: idToken.line,
+      idColumn: idToken.column,
+      filePath: this.filePath,
+      namespace: this.namespace,
+      extendsObject,
+      extendsNamespace,
+      usings:
+        extendsObject && this.usings.length > 0 ? [...this.usings] : undefined,
+      fields: type === "table" || type === "tableextension" ? [] : undefined,
+      enumValues: type === "enum" || type === "enumextension" ? [] : undefined,
+    };
+    this.objects.push(obj);
+
+    // Skip the rest of the header, e.g. an implements clause
+    while (!this.isAtEnd() && !this.isPunctuation("{")) {
+      if (this.isObjectHeader()) {
+        return;
+      }
+      this.position++;
+    }
+    if (!this.isAtEnd()) {
+      this.position++;
+      const obsolete = getObsoleteInfo(this.readObjectBody(obj));
+      if (obsolete) {
+        obj.obsolete = obsolete;
+      }
+    }
+  }
+
+  /**
+   * Read an object body after its opening brace, up to and including the
+   * closing brace
+   *
+   * @returns The object's properties by lowercase name
+   */
+  private readObjectBody(obj: ALObjectWithFields): Map<string, string> {
+    const properties = new Map<string, string>();
 
-      // Process the line, handling comments
-      const cleanedLine = this.stripComments(line);
+    while (!this.isAtEnd()) {
+      if (this.isPunctuation("}")) {
+        this.position++;
+        break;
+      }
+      if (this.isObjectHeader()) {
+        break;
+      }
 
-      // Check if we entered a multi-line comment that doesn't close on this line
-      if (this.hasUnclosedMultiLineComment(line)) {
-        inMultiLineComment = true;
+      if (obj.fields && this.isKeyword("fields") && this.isNext("{")) {
+        this.position += 2;
+        this.readFieldsBlock(obj.fields);
+      } else if (obj.enumValues && this.isDeclaration("value")) {
+        this.readEnumValue(obj.enumValues);
+      } else if (this.isProperty()) {
+        const property = this.readProperty();
+        properties.set(property.name.toLowerCase(), property.value);
+      } else if (this.isKeyword("trigger") || this.isKeyword("procedure")) {
+        this.skipRoutine();
+      } else if (this.isPunctuation("{")) {
+        this.skipBlock();
+      } else {
+        this.position++;
       }
+    }
 
-      // Try to match an object declaration
-      const objectMatch = ALObjectParser.OBJECT_PATTERN.exec(cleanedLine);
-      if (objectMatch) {
-        const objectType = objectMatch[1].toLowerCase() as ALObjectTypeWithId;
-        const objectId = parseInt(objectMatch[2], 10);
-        const objectName = objectMatch[3] || objectMatch[4]; // Quoted or unquoted name
-
-        // Check for extends clause
-        let extendsObject: string | undefined;
-        const extendsMatch = ALObjectParser.EXTENDS_PATTERN.exec(cleanedLine);
-        if (extendsMatch) {
-          extendsObject = extendsMatch[1] || extendsMatch[2];
-        }
+    return properties;
+  }
 
-        currentObject = {
-          type: objectType,
-          id: objectId,
-          name: objectName,
-          lineNumber,
-          filePath,
-          extendsObject,
-          fields:
-            objectType === "table" || objectType === "tableextension"
-              ? []
-              : undefined,
-          enumValues:
-            objectType === "enum" || objectType === "enumextension"
-              ? []
-              : undefined,
-        };
-        objects.push(currentObject);
-        braceDepth = 0;
-        inFieldsBlock = false;
-        expectingFieldsBlockBrace = false;
+  /**
+   * Read a fields block after its opening brace, up to and including the
+   * closing brace
+   */
+  private readFieldsBlock(fields: ALField[]): void {
+    while (!this.isAtEnd()) {
+      if (this.isPunctuation("}")) {
+        this.position++;
+        return;
+      }
+      if (this.isObjectHeader()) {
+        return;
       }
 
-      // Track brace depth changes
-      const openBraces = (cleanedLine.match(/{/g) || []).length;
-      const closeBraces = (cleanedLine.match(/}/g) || []).length;
-      const netBraceChange = openBraces - closeBraces;
+      if (this.isDeclaration("field")) {
+        this.readField(fields);
+      } else if (this.isPunctuation("{")) {
+        this.skipBlock();
+      } else {
+        this.position++;
+      }
+    }
+  }
 
-      // If we're expecting a fields block brace and we see an open brace, enter fields block
-      if (expectingFieldsBlockBrace && openBraces > 0) {
-        inFieldsBlock = true;
-        fieldsBlockDepth = braceDepth + 1; // The depth at which fields block starts
-        expectingFieldsBlockBrace = false;
+  /**
+   * Read a field: `field(<id>; <name>; <data type>) [{ <properties> }]`
+   */
+  private readField(fields: ALField[]): void {
+    const keyword = this.tokens[this.position];
+    this.position += 2;
+
+    const idToken = this.tokens[this.position];
+    const id = this.readId();
+    const name = id !== null ? this.readName() : null;
+    const dataType = name !== null ? this.readDataType() : null;
+
+    const field: ALField | null =
+      id !== null && name !== null && dataType
+        ? {
+            id,
+            name,
+            dataType,
+            lineNumber: keyword.line,
+            column: keyword.column,
+            idLineNumber: idToken.line,
+            idColumn: idToken.column,
+            filePath: this.filePath,
+          }
+        : null;
+
+    this.skipToClosingParenthesis();
+    const obsolete = this.readDeclarationProperties();
+    if (field) {
+      if (obsolete) {
+        field.obsolete = obsolete;
       }
+      fields.push(field);
+    }
+  }
 
-      // Update brace depth
-      braceDepth += netBraceChange;
-
-      // Check for 'fields {' on same line (table/tableextension only)
-      if (
-        currentObject &&
-        (currentObject.type === "table" ||
-          currentObject.type === "tableextension") &&
-        !inFieldsBlock
-      ) {
-        if (/\bfields\s*\{/i.test(cleanedLine)) {
-          // 'fields {' on same line - we're now in fields block
-          inFieldsBlock = true;
-          fieldsBlockDepth = braceDepth; // Current depth after adding braces
-        } else if (/\bfields\s*$/i.test(cleanedLine)) {
-          // 'fields' keyword alone - expect { on next line
-          expectingFieldsBlockBrace = true;
-        }
+  /**
+   * Read an enum value: `value(<ordinal>; <name>) [{ <properties> }]`
+   */
+  private readEnumValue(values: ALEnumValue[]): void {
+    const keyword = this.tokens[this.position];
+    this.position += 2;
+
+    const idToken = this.tokens[this.position];
+    const id = this.readId();
+    const name = id !== null ? this.readName() : null;
+
+    const value: ALEnumValue | null =
+      id !== null && name !== null && this.isPunctuation(")")
+        ? {
+            id,
+            name,
+            lineNumber: keyword.line,
+            column: keyword.column,
+            idLineNumber: idToken.line,
+            idColumn: idToken.column,
+            filePath: this.filePath,
+          }
+        : null;
+
+    this.skipToClosingParenthesis();
+    const obsolete = this.readDeclarationProperties();
+    if (value) {
+      if (obsolete) {
+        value.obsolete = obsolete;
       }
+      values.push(value);
+    }
+  }
 
-      // Parse field declarations if inside fields block of table/tableextension
-      if (
-        inFieldsBlock &&
-        currentObject &&
-        (currentObject.type === "table" ||
-          currentObject.type === "tableextension")
-      ) {
-        const fieldMatch = ALObjectParser.FIELD_PATTERN.exec(cleanedLine);
-        if (fieldMatch) {
-          const field: ALField = {
-            id: parseInt(fieldMatch[1], 10),
-            name: fieldMatch[2] || fieldMatch[3],
-            dataType: fieldMatch[4].trim(),
-            lineNumber,
-            filePath,
-          };
-          currentObject.fields!.push(field);
-        }
+  /**
+   * Read the optional property block after a field or enum value declaration
+   *
+   * @returns The obsolete info from the properties, if any
+   */
+  private readDeclarationProperties(): ObsoleteInfo | undefined {
+    return this.isPunctuation("{")
+      ? getObsoleteInfo(this.readPropertyBlock())
+      : undefined;
+  }
+
+  /**
+   * Read the properties of a block, starting at its opening brace, up to
+   * and including the closing brace. Nested blocks are skipped.
+   *
+   * @returns The property values by lowercase name
+   */
+  private readPropertyBlock(): Map<string, string> {
+    const properties = new Map<string, string>();
+    this.position++;
+
+    while (!this.isAtEnd()) {
+      if (this.isPunctuation("}")) {
+        this.position++;
+        break;
+      }
+      if (this.isObjectHeader()) {
+        break;
       }
 
-      // Parse enum value declarations if inside enum/enumextension
-      if (
-        currentObject &&
-        (currentObject.type === "enum" ||
-          currentObject.type === "enumextension") &&
-        braceDepth > 0
-      ) {
-        const enumValueMatch =
-          ALObjectParser.ENUM_VALUE_PATTERN.exec(cleanedLine);
-        if (enumValueMatch) {
-          const enumValue: ALEnumValue = {
-            id: parseInt(enumValueMatch[1], 10),
-            name: enumValueMatch[2] || enumValueMatch[3],
-            lineNumber,
-            filePath,
-          };
-          currentObject.enumValues!.push(enumValue);
+      if (this.isProperty()) {
+        const property = this.readProperty();
+        properties.set(property.name.toLowerCase(), property.value);
+      } else if (this.isKeyword("trigger") || this.isKeyword("procedure")) {
+        this.skipRoutine();
+      } else if (this.isPunctuation("{")) {
+        this.skipBlock();
+      } else {
+        this.position++;
+      }
+    }
+
+    return properties;
+  }
+
+  /**
+   * Read a property: `<name> = <value>;`
+   *
+   * @returns The property name and its value: the text of a string literal
+   * (e.g. ObsoleteReason = 'Replaced', Locked = true), otherwise the source text
+   */
+  private readProperty(): { name: string; value: string } {
+    const name = this.tokens[this.position].value;
+    this.position += 2;
+
+    const start = this.position;
+    while (
+      !this.isAtEnd() &&
+      !this.isPunctuation(";") &&
+      !this.isPunctuation("}") &&
+      !this.isObjectHeader()
+    ) {
+      this.position++;
+    }
+    const value =
+      this.tokens[start]?.kind === "string" && start < this.position
+        ? this.tokens[start].value
+        : this.getSourceText(start, this.position);
+    if (this.isPunctuation(";")) {
+      this.position++;
+    }
+
+    return { name, value };
+  }
+
+  /**
+   * Read a numeric ID followed by a semicolon or closing parenthesis
+   *
+   * @returns The ID, or null if the tokens do not form one
+   */
+  private readId(): number | null {
+    const token = this.tokens[this.position];
+    if (token?.kind !== "number" || !/^\d+$/.test(token.value)) {
+      return null;
+    }
+    this.position++;
+    if (this.isPunctuation(";")) {
+      this.position++;
+    }
+    return parseInt(token.value, 10);
+  }
+
+  /**
+   * Read a quoted or unquoted name followed by an optional semicolon
+   *
+   * @returns The name without quotes, or null if the next token is no name
+   */
+  private readName(): string | null {
+    const token = this.tokens[this.position];
+    if (
+      (token?.kind !== "identifier" && token?.kind !== "quotedIdentifier") ||
+      this.isMemberDeclaration()
+    ) {
+      return null;
+    }
+    this.position++;
+    if (this.isPunctuation(";")) {
+      this.position++;
+    }
+    return token.value;
+  }
+
+  /**
+   * Read a data type up to the parenthesis that closes the declaration,
+   * e.g. `Code[20]` or `Enum "Sales Document Type"`
+   *
+   * @returns The source text of the data type, with whitespace collapsed
+   */
+  private readDataType(): string | null {
+    const start = this.position;
+    let depth = 0;
+    while (
+      !this.isAtEnd() &&
+      !this.isPunctuation("{") &&
+      !this.isMemberDeclaration()
+    ) {
+      if (this.isPunctuation("(")) {
+        depth++;
+      } else if (this.isPunctuation(")")) {
+        if (depth === 0) {
+          break;
         }
+        depth--;
       }
+      this.position++;
+    }
+    return this.getSourceText(start, this.position) || null;
+  }
 
-      // Check if we exited the fields block
-      if (inFieldsBlock && braceDepth < fieldsBlockDepth) {
-        inFieldsBlock = false;
+  /**
+   * Read a dotted name, e.g. `Microsoft.Sales.Customer` or `"Sales Header"`
+   *
+   * @returns The segments without quotes, or null if no name follows
+   */
+  private readQualifiedName(): string[] | null {
+    const segments: string[] = [];
+    while (!this.isAtEnd()) {
+      const token = this.tokens[this.position];
+      if (token.kind !== "identifier" && token.kind !== "quotedIdentifier") {
+        break;
+      }
+      segments.push(token.value);
+      this.position++;
+      if (!this.isPunctuation(".")) {
+        break;
       }
+      this.position++;
+    }
+    return segments.length > 0 ? segments : null;
+  }
 
-      // Reset current object when we exit its scope
-      if (currentObject && braceDepth <= 0 && closeBraces > 0) {
-        currentObject = null;
-        braceDepth = 0;
-        inFieldsBlock = false;
-        expectingFieldsBlockBrace = false;
+  /**
+   * Skip to after the parenthesis that closes a declaration. Braces and the
+   * next field or enum value are not crossed, so a malformed or half-typed
+   * declaration does not swallow the rest of its block.
+   */
+  private skipToClosingParenthesis(): void {
+    let depth = 0;
+    while (
+      !this.isAtEnd() &&
+      !this.isPunctuation("{") &&
+      !this.isPunctuation("}") &&
+      !this.isObjectHeader() &&
+      !this.isMemberDeclaration()
+    ) {
+      if (this.isPunctuation("(")) {
+        depth++;
+      } else if (this.isPunctuation(")")) {
+        if (depth === 0) {
+          this.position++;
+          return;
+        }
+        depth--;
       }
+      this.position++;
     }
+  }
 
-    return objects;
+  /**
+   * Skip a block with balanced braces, starting at its opening brace. Stops
+   * early at an object header, which means a closing brace is missing.
+   */
+  private skipBlock(): void {
+    let depth = 0;
+    while (!this.isAtEnd()) {
+      if (this.isPunctuation("{")) {
+        depth++;
+      } else if (this.isPunctuation("}")) {
+        depth--;
+        if (depth === 0) {
+          this.position++;
+          return;
+        }
+      } else if (this.isObjectHeader()) {
+        return;
+      }
+      this.position++;
+    }
   }
 
   /**
-   * Strip comments from a line while preserving content outside comments.
-   * Handles both single-line (//) and inline multi-line comments.
+   * Skip a trigger or procedure, starting at its keyword, up to and including
+   * the `end` of its code. Assignments and comparisons in the code are thus
+   * never read as properties. Stops early at a brace or object header, and
+   * at the next trigger or procedure if this one has no code.
    */
-  private stripComments(line: string): string {
-    let result = line;
-
-    // Remove multi-line comments that start and end on the same line
-    // Use a loop to handle multiple inline comments
-    let prevLength: number;
-    do {
-      prevLength = result.length;
-      result = result.replace(/\/\*[\s\S]*?\*\//g, "");
-    } while (result.length !== prevLength);
-
-    // Remove single-line comments (everything after //)
-    const singleLineIndex = result.indexOf("//");
-    if (singleLineIndex !== -1) {
-      result = result.substring(0, singleLineIndex);
+  private skipRoutine(): void {
+    this.position++;
+    while (
+      !this.isAtEnd() &&
+      !this.isKeyword("begin") &&
+      !this.isKeyword("trigger") &&
+      !this.isKeyword("procedure") &&
+      !this.isPunctuation("{") &&
+      !this.isPunctuation("}") &&
+      !this.isObjectHeader()
+    ) {
+      this.position++;
     }
 
-    return result;
+    // begin ... end and case ... end can be nested
+    let depth = 0;
+    while (
+      !this.isAtEnd() &&
+      !this.isPunctuation("{") &&
+      !this.isPunctuation("}") &&
+      !this.isObjectHeader()
+    ) {
+      const previous = this.tokens[this.position - 1];
+      const isMember =
+        previous?.kind === "punctuation" && previous.value === ".";
+      if (!isMember && (this.isKeyword("begin") || this.isKeyword("case"))) {
+        depth++;
+      } else if (!isMember && this.isKeyword("end") && depth > 0) {
+        depth--;
+        if (depth === 0) {
+          this.position++;
+          return;
+        }
+      } else if (depth === 0) {
+        return;
+      }
+      this.position++;
+    }
   }
 
   /**
-   * Check if a line starts a multi-line comment that doesn't close on the same line.
+   * Check whether the current token starts an object declaration:
+   * an object type keyword, a numeric ID and a name
    */
-  private hasUnclosedMultiLineComment(line: string): boolean {
-    // First, remove any complete multi-line comments
-    const withoutComplete = line.replace(/\/\*[\s\S]*?\*\//g, "");
-
-    // Check if there's an opening /* without a closing */
-    const openIndex = withoutComplete.lastIndexOf("/*");
-    if (openIndex === -1) {
+  private isObjectHeader(): boolean {
+    const [keyword, id, name] = this.tokens.slice(
+      this.position,
+      this.position + 3,
+    );
+    if (
+      keyword?.kind !== "identifier" ||
+      !ALObjectParser.isValidObjectType(keyword.value) ||
+      id?.kind !== "number" ||
+      !/^\d+$/.test(id.value) ||
+      (name?.kind !== "identifier" && name?.kind !== "quotedIdentifier")
+    ) {
       return false;
     }
 
-    // Check if there's a single-line comment before the /*
-    const singleLineIndex = withoutComplete.indexOf("//");
-    if (singleLineIndex !== -1 && singleLineIndex < openIndex) {
-      return false; // The /* is inside a single-line comment
-    }
+    const previous = this.tokens[this.position - 1];
+    return !(
+      previous?.kind === "punctuation" &&
+      NON_DECLARATION_PREDECESSORS.has(previous.value)
+    );
+  }
 
-    return true;
+  /**
+   * Check whether the current token starts a declaration call such as
+   * `field(` or `value(`, and is not a member access like `Rec.Value(`
+   */
+  private isDeclaration(keyword: string): boolean {
+    const previous = this.tokens[this.position - 1];
+    return (
+      this.isKeyword(keyword) &&
+      this.isNext("(") &&
+      !(previous?.kind === "punctuation" && previous.value === ".")
+    );
   }
 
   /**
-   * Validate if a string is a valid AL object type with ID
+   * Check whether the current token starts a field or enum value declaration
    */
-  public static isValidObjectType(type: string): type is ALObjectTypeWithId {
-    return AL_OBJECT_TYPES_WITH_ID.includes(
-      type.toLowerCase() as ALObjectTypeWithId,
+  private isMemberDeclaration(): boolean {
+    return this.isDeclaration("field") || this.isDeclaration("value");
+  }
+
+  /**
+   * Check whether the current token starts a property assignment at the
+   * property level of a block, and not e.g. a label's `Comment = '…'`
+   */
+  private isProperty(): boolean {
+    const previous = this.tokens[this.position - 1];
+    return (
+      this.tokens[this.position].kind === "identifier" &&
+      this.isNext("=") &&
+      (previous === undefined ||
+        (previous.kind === "punctuation" &&
+          PROPERTY_PREDECESSORS.has(previous.value)))
     );
   }
 
   /**
-   * Get all supported object types
+   * Check whether the current token is the given keyword (case-insensitive)
    */
-  public static getSupportedObjectTypes(): readonly string[] {
-    return AL_OBJECT_TYPES_WITH_ID;
+  private isKeyword(keyword: string): boolean {
+    const token = this.tokens[this.position];
+    return (
+      token?.kind === "identifier" && token.value.toLowerCase() === keyword
+    );
+  }
+
+  /**
+   * Check whether the current token is the given punctuation
+   */
+  private isPunctuation(value: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === "punctuation" && token.value === value;
+  }
+
+  /**
+   * Check whether the token after the current one is the given punctuation
+   */
+  private isNext(value: string): boolean {
+    const token = this.tokens[this.position + 1];
+    return token?.kind === "punctuation" && token.value === value;
+  }
+
+  /**
+   * Check whether all tokens were read
+   */
+  private isAtEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  /**
+   * Get the source text of a token range with whitespace collapsed
+   *
+   * @param start Index of the first token
+   * @param end Index after the last token
+   */
+  private getSourceText(start: number, end: number): string {
+    if (end <= start) {
+      return "";
+    }
+    return this.content
+      .slice(this.tokens[start].start, this.tokens[end - 1].end)
+      .replace(/\s+/g, " ")
+      .trim();
   }
 }
 
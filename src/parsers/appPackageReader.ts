@@ -0,0 +1,429 @@
+import { inflateRawSync } from "zlib";
+import {
+  AppDependency,
+  ALObjectTypeWithId,
+  ALField,
+  ALEnumValue,
+  ALObjectWithFields,
+  IdRange,
+  ObsoleteInfo,
+} from "../types/index.js";
+import { getObsoleteInfo } from "./obsoleteInfo.js";
+
+/**
+ * App information from the NavxManifest.xml of an .app package
+ */
+export interface AppPackageManifest {
+  id: string;
+  name: string;
+  publisher: string;
+  version: string;
+  idRanges: IdRange[];
+  dependencies: AppDependency[];
+  application?: string;
+  platform?: string;
+  runtime?: string;
+}
+
+/**
+ * Object collections in SymbolReference.json and the object type they hold
+ */
+const SYMBOL_COLLECTIONS: Record<string, ALObjectTypeWithId> = {
+  Tables: "table",
+  TableExtensions: "tableextension",
+  Pages: "page",
+  PageExtensions: "pageextension",
+  Reports: "report",
+  ReportExtensions: "reportextension",
+  Codeunits: "codeunit",
+  Queries: "query",
+  XmlPorts: "xmlport",
+  EnumTypes: "enum",
+  EnumExtensionTypes: "enumextension",
+  PermissionSets: "permissionset",
+  PermissionSetExtensions: "permissionsetextension",
+};
+
+/**
+ * Shape of the parts of SymbolReference.json that are read
+ */
+interface SymbolObject {
+  Id?: number;
+  Name?: string;
+  TargetObject?: string;
+  Properties?: SymbolProperty[];
+  Fields?: Array<{
+    Id?: number;
+    Name?: string;
+    TypeDefinition?: { Name?: string };
+    Properties?: SymbolProperty[];
+  }>;
+  Values?: Array<{
+    Name?: string;
+    Ordinal?: number;
+    Properties?: SymbolProperty[];
+  }>;
+}
+
+interface SymbolProperty {
+  Name?: string;
+  Value?: string;
+}
+
+interface SymbolContainer {
+  Name?: string;
+  Namespaces?: SymbolContainer[];
+  [collection: string]: unknown;
+}
+
+/**
+ * Compare two app versions ("major.minor.build.revision") numerically
+ *
+ * @returns A negative number if a < b, 0 if equal, a positive number if a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map((part) => parseInt(part, 10) || 0);
+  const partsB = b.split(".").map((part) => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Reader for compiled AL packages (.app files).
+ * An .app file is a NAVX header followed by a zip archive that contains
+ * NavxManifest.xml and SymbolReference.json. Only stored and deflated zip
+ * entries are supported.
+ */
+export class AppPackageReader {
+  private static readonly EOCD_SIGNATURE = 0x06054b50;
+  private static readonly CENTRAL_SIGNATURE = 0x02014b50;
+  private static readonly LOCAL_SIGNATURE = 0x04034b50;
+
+  /**
+   * Read the app information of a package without reading its symbols
+   *
+   * @returns The manifest, or null if the package cannot be read
+   */
+  public readManifest(content: Buffer): AppPackageManifest | null {
+    const xml = this.readEntry(content, "NavxManifest.xml");
+    if (!xml) {
+      return null;
+    }
+
+    const manifest = xml.toString("utf-8");
+    const appTag = /<App\s[^>]*>/i.exec(manifest);
+    if (!appTag) {
+      return null;
+    }
+
+    const id = this.getAttribute(appTag[0], "Id");
+    const name = this.getAttribute(appTag[0], "Name");
+    if (!id || !name) {
+      return null;
+    }
+
+    const idRanges: IdRange[] = [];
+    const rangePattern = /<IdRange\s[^>]*>/gi;
+    let rangeTag: RegExpExecArray | null;
+    while ((rangeTag = rangePattern.exec(manifest))) {
+      const from = parseInt(
+        this.getAttribute(rangeTag[0], "MinObjectId") ?? "",
+        10,
+      );
+      const to = parseInt(
+        this.getAttribute(rangeTag[0], "MaxObjectId") ?? "",
+        10,
+      );
+      if (!isNaN(from) && !isNaN(to)) {
+        idRanges.push({ from, to });
+      }
+    }
+
+    const dependencies: AppDependency[] = [];
+    const dependencyPattern = /<Dependency\s[^>]*>/gi;
+    let dependencyTag: RegExpExecArray | null;
+    while ((dependencyTag = dependencyPattern.exec(manifest))) {
+      const dependencyId = this.getAttribute(dependencyTag[0], "Id");
+      if (dependencyId) {
+        dependencies.push({
+          id: dependencyId.toLowerCase(),
+          name: this.getAttribute(dependencyTag[0], "Name") ?? "",
+          publisher: this.getAttribute(dependencyTag[0], "Publisher") ?? "",
+          version: this.getAttribute(dependencyTag[0], "MinVersion") ?? "",
+        });
+      }
+    }
+
+    const application = this.getAttribute(appTag[0], "Application");
+    const platform = this.getAttribute(appTag[0], "Platform");
+    const runtime = this.getAttribute(appTag[0], "Runtime");
+
+    return {
+      id: id.toLowerCase(),
+      name,
+      publisher: this.getAttribute(appTag[0], "Publisher") ?? "",
+      version: this.getAttribute(appTag[0], "Version") ?? "",
+      idRanges,
+      dependencies,
+      ...(application && { application }),
+      ...(platform && { platform }),
+      ...(runtime && { runtime }),
+    };
+  }
+
+  /**
+   * Read the objects, tableextension fields and enum values declared in a
+   * package. Every object gets the package path as its file path.
+   *
+   * @returns The objects, or null if the package has no readable symbols
+   */
+  public readObjects(
+    content: Buffer,
+    packagePath: string,
+  ): ALObjectWithFields[] | null {
+    const json = this.readEntry(content, "SymbolReference.json");
+    if (!json) {
+      return null;
+    }
+
+    try {
+      // SymbolReference.json is written with a byte order mark
+      const symbols = JSON.parse(
+        json.toString("utf-8").replace(/^\uFEFF/, ""),
+      ) as SymbolContainer;
+      const objects: ALObjectWithFields[] = [];
+      this.collectObjects(symbols, packagePath, objects);
+      return objects;
+    } catch (error) {
+      console.warn(`Failed to read symbols from ${packagePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Collect objects from a symbol container and its nested namespaces
+   *
+   * @param namespace - The dotted name of the container's namespace
+   */
+  private collectObjects(
+    container: SymbolContainer,
+    packagePath: string,
+    objects: ALObjectWithFields[],
+    namespace?: string,
+  ): void {
+    for (const [collection, type] of Object.entries(SYMBOL_COLLECTIONS)) {
+      const symbols = container[collection];
+      if (!Array.isArray(symbols)) {
+        continue;
+      }
+
+      for (const symbol of symbols as SymbolObject[]) {
+        if (typeof symbol.Id !== "number" || !symbol.Name) {
+          continue;
+        }
+        const obj = this.toObject(symbol, type, packagePath);
+        if (namespace) {
+          obj.namespace = namespace;
+        }
+        objects.push(obj);
+      }
+    }
+
+    for (const child of container.Namespaces ?? []) {
+      const childNamespace =
+        namespace && child.Name ? `${namespace}.${child.Name}` : child.Name;
+      this.collectObjects(child, packagePath, objects, childNamespace);
+    }
+  }
+
+  /**
+   * Convert a symbol to an AL object
+   */
+  private toObject(
+    symbol: SymbolObject,
+    type: ALObjectTypeWithId,
+    packagePath: string,
+  ): ALObjectWithFields {
+    const obj: ALObjectWithFields = {
+      type,
+      id: symbol.Id!,
+      name: symbol.Name!,
+      lineNumber: 1,
+      filePath: packagePath,
+    };
+
+    if (symbol.TargetObject) {
+      obj.extendsObject = symbol.TargetObject;
+    }
+
+    const obsolete = this.readObsoleteInfo(symbol.Properties);
+    if (obsolete) {
+      obj.obsolete = obsolete;
+    }
+
+    if (type === "table" || type === "tableextension") {
+      obj.fields = (symbol.Fields ?? [])
+        .filter((field) => typeof field.Id === "number" && field.Name)
+        .map((field): ALField => {
+          const result: ALField = {
+            id: field.Id!,
+            name: field.Name!,
+            dataType: field.TypeDefinition?.Name ?? "",
+            lineNumber: 1,
+            filePath: packagePath,
+          };
+          const obsolete = this.readObsoleteInfo(field.Properties);
+          if (obsolete) {
+            result.obsolete = obsolete;
+          }
+          return result;
+        });
+    }
+
+    if (type === "enum" || type === "enumextension") {
+      obj.enumValues = (symbol.Values ?? [])
+        .filter((value) => typeof value.Ordinal === "number" && value.Name)
+        .map((value): ALEnumValue => {
+          const result: ALEnumValue = {
+            id: value.Ordinal!,
+            name: value.Name!,
+            lineNumber: 1,
+            filePath: packagePath,
+          };
+          const obsolete = this.readObsoleteInfo(value.Properties);
+          if (obsolete) {
+            result.obsolete = obsolete;
+          }
+          return result;
+        });
+    }
+
+    return obj;
+  }
+
+  /**
+   * Read the Obsolete* properties from the properties of a symbol
+   */
+  private readObsoleteInfo(
+    properties: SymbolProperty[] | undefined,
+  ): ObsoleteInfo | undefined {
+    return getObsoleteInfo(
+      new Map(
+        (properties ?? [])
+          .filter((property) => property.Name && property.Value !== undefined)
+          .map((property) => [property.Name!.toLowerCase(), property.Value!]),
+      ),
+    );
+  }
+
+  /**
+   * Read a zip entry by name (case-insensitive). The zip archive may be
+   * preceded by other data such as the NAVX header; offsets are corrected
+   * using the end of central directory record.
+   */
+  private readEntry(content: Buffer, entryName: string): Buffer | null {
+    try {
+      const eocd = this.findEndOfCentralDirectory(content);
+      if (eocd < 0) {
+        return null;
+      }
+
+      const entryCount = content.readUInt16LE(eocd + 10);
+      const centralSize = content.readUInt32LE(eocd + 12);
+      const centralOffset = content.readUInt32LE(eocd + 16);
+      const zipStart = eocd - centralSize - centralOffset;
+
+      let pos = zipStart + centralOffset;
+      for (let i = 0; i < entryCount; i++) {
+        if (content.readUInt32LE(pos) !== AppPackageReader.CENTRAL_SIGNATURE) {
+          return null;
+        }
+
+        const method = content.readUInt16LE(pos + 10);
+        const compressedSize = content.readUInt32LE(pos + 20);
+        const nameLength = content.readUInt16LE(pos + 28);
+        const extraLength = content.readUInt16LE(pos + 30);
+        const commentLength = content.readUInt16LE(pos + 32);
+        const localOffset = content.readUInt32LE(pos + 42);
+        const name = content.toString("utf-8", pos + 46, pos + 46 + nameLength);
+
+        if (name.toLowerCase() === entryName.toLowerCase()) {
+          return this.readLocalEntry(
+            content,
+            zipStart + localOffset,
+            method,
+            compressedSize,
+          );
+        }
+
+        pos += 46 + nameLength + extraLength + commentLength;
+      }
+    } catch (error) {
+      console.warn(`Failed to read ${entryName} from package:`, error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Read and decompress the data of a zip entry from its local header
+   */
+  private readLocalEntry(
+    content: Buffer,
+    offset: number,
+    method: number,
+    compressedSize: number,
+  ): Buffer | null {
+    if (content.readUInt32LE(offset) !== AppPackageReader.LOCAL_SIGNATURE) {
+      return null;
+    }
+
+    const nameLength = content.readUInt16LE(offset + 26);
+    const extraLength = content.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const data = content.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      return data;
+    }
+    if (method === 8) {
+      return inflateRawSync(data);
+    }
+    return null;
+  }
+
+  /**
+   * Find the end of central directory record, searching backwards past an
+   * optional archive comment
+   */
+  private findEndOfCentralDirectory(content: Buffer): number {
+    const minPos = Math.max(0, content.length - 22 - 0xffff);
+    for (let pos = content.length - 22; pos >= minPos; pos--) {
+      if (content.readUInt32LE(pos) === AppPackageReader.EOCD_SIGNATURE) {
+        return pos;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Get an XML attribute value from a tag, decoding the basic entities
+   */
+  private getAttribute(tag: string, attribute: string): string | undefined {
+    const match = new RegExp(`\\s${attribute}="([^"]*)"`, "i").exec(tag);
+    return match?.[1]
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&");
+  }
+}
+
+export const appPackageReader = new AppPackageReader();
@@ -0,0 +1,28 @@
+import { OBSOLETE_STATES, ObsoleteInfo } from "../types/index.js";
+
+/**
+ * Read the Obsolete* properties of an object, field or enum value
+ *
+ * @param properties - The declaration's property values by lowercase property name
+ * @returns The obsolete info, or undefined if ObsoleteState is missing or No
+ */
+export function getObsoleteInfo(
+  properties: ReadonlyMap<string, string>,
+): ObsoleteInfo | undefined {
+  const value = properties.get("obsoletestate")?.toLowerCase();
+  const state = OBSOLETE_STATES.find((s) => s.toLowerCase() === value);
+  if (!state) {
+    return undefined;
+  }
+
+  const info: ObsoleteInfo = { state };
+  const reason = properties.get("obsoletereason");
+  if (reason) {
+    info.reason = reason;
+  }
+  const tag = properties.get("obsoletetag");
+  if (tag) {
+    info.tag = tag;
+  }
+  return info;
+}
@@ -0,0 +1,173 @@
+/**
+ * Options that control how preprocessor directives are evaluated
+ */
+export interface PreprocessorOptions {
+  /** Symbols defined for the configuration (app.json preprocessorSymbols and settings) */
+  preprocessorSymbols?: readonly string[];
+  /** Treat every branch of #if/#elif/#else as active, so everything declared in any branch is reported */
+  includeAllBranches?: boolean;
+}
+
+/**
+ * State of one #if ... #endif block
+ */
+interface ConditionalBlock {
+  /** Whether the enclosing code is active */
+  parentActive: boolean;
+  /** Whether a branch of this block was already taken */
+  branchTaken: boolean;
+  /** Whether the current branch is active */
+  active: boolean;
+}
+
+/**
+ * Regex pattern to match preprocessor directives.
+ * Captures: [1] directive name, [2] the rest of the line
+ */
+const DIRECTIVE_PATTERN = /^\s*#\s*(if|elif|else|endif|define|undef)\b(.*)$/i;
+
+/**
+ * Tracks AL preprocessor directives (#if, #elif, #else, #endif, #define and
+ * #undef) line by line and tells whether the current line is in an active
+ * branch. Symbols are matched case-insensitively. Other directives such as
+ * #region and #pragma do not affect the active state.
+ */
+export class Preprocessor {
+  private readonly symbols: Set<string>;
+  private readonly blocks: ConditionalBlock[] = [];
+
+  constructor(private readonly options: PreprocessorOptions = {}) {
+    this.symbols = new Set(
+      (options.preprocessorSymbols ?? []).map((symbol) => symbol.toLowerCase()),
+    );
+  }
+
+  /**
+   * Whether lines outside directives are currently part of the compiled code
+   */
+  public get isActive(): boolean {
+    return (
+      this.blocks.length === 0 || this.blocks[this.blocks.length - 1].active
+    );
+  }
+
+  /**
+   * Process a line with comments stripped. Directives update the state.
+   *
+   * @returns True if the line is a conditional or symbol directive
+   */
+  public processLine(line: string): boolean {
+    const match = DIRECTIVE_PATTERN.exec(line);
+    if (!match) {
+      return false;
+    }
+
+    const directive = match[1].toLowerCase();
+    const argument = match[2].trim();
+    const current = this.blocks[this.blocks.length - 1];
+
+    switch (directive) {
+      case "if": {
+        const parentActive = this.isActive;
+        const active = parentActive && this.evaluate(argument);
+        this.blocks.push({ parentActive, branchTaken: active, active });
+        break;
+      }
+      case "elif":
+        if (current) {
+          current.active =
+            current.parentActive &&
+            !current.branchTaken &&
+            this.evaluate(argument);
+          current.branchTaken ||= current.active;
+        }
+        break;
+      case "else":
+        if (current) {
+          current.active = current.parentActive && !current.branchTaken;
+          current.branchTaken = true;
+        }
+        break;
+      case "endif":
+        // An unmatched #endif is ignored
+        this.blocks.pop();
+        break;
+      case "define":
+        if (this.isActive && /^\w+$/.test(argument)) {
+          this.symbols.add(argument.toLowerCase());
+        }
+        break;
+      case "undef":
+        if (this.isActive && /^\w+$/.test(argument)) {
+          this.symbols.delete(argument.toLowerCase());
+        }
+        break;
+    }
+
+    if (this.options.includeAllBranches) {
+      // Every branch is read, but directives are still recognized
+      for (const block of this.blocks) {
+        block.active = true;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Evaluate the condition of an #if or #elif directive.
+   * Supports symbols, "not", "and", "or" and parentheses.
+   * An invalid condition evaluates to false.
+   */
+  private evaluate(expression: string): boolean {
+    const tokens = expression.match(/\(|\)|[A-Za-z_]\w*|\S/g) ?? [];
+    let position = 0;
+
+    const parseOr = (): boolean => {
+      let value = parseAnd();
+      while (tokens[position]?.toLowerCase() === "or") {
+        position++;
+        // Evaluate the right side first so it is always consumed
+        value = parseAnd() || value;
+      }
+      return value;
+    };
+
+    const parseAnd = (): boolean => {
+      let value = parseUnary();
+      while (tokens[position]?.toLowerCase() === "and") {
+        position++;
+        value = parseUnary() && value;
+      }
+      return value;
+    };
+
+    const parseUnary = (): boolean => {
+      const token = tokens[position++];
+      if (token === undefined) {
+        throw new Error("Unexpected end of condition");
+      }
+      if (token.toLowerCase() === "not") {
+        return !parseUnary();
+      }
+      if (token === "(") {
+        const value = parseOr();
+        if (tokens[position++] !== ")") {
+          throw new Error("Missing closing parenthesis");
+        }
+        return value;
+      }
+      if (!/^[A-Za-z_]\w*$/.test(token)) {
+        throw new Error(`Unexpected token "${token}"`);
+      }
+      return this.symbols.has(token.toLowerCase());
+    };
+
+    try {
+      const value = parseOr();
+      return position === tokens.length && value;
+    } catch {
+      return false;
+    }
+  }
+}
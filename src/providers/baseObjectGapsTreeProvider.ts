@@ -0,0 +1,297 @@
+import * as vscode from "vscode";
+import {
+  ALProject,
+  BaseObjectAppUsage,
+  BaseObjectUsage,
+  ProjectDelta,
+} from "../types/index.js";
+import { workspaceScanner } from "../services/workspaceScanner.js";
+import { ALProjectWithFields } from "../services/rangeAnalyzer.js";
+import { toIdRuns } from "../services/idIntervals.js";
+
+/**
+ * Tree item types for the Field ID Gaps and Enum Ordinal Gaps views
+ */
+type TreeItemType =
+  | "baseObject"
+  | "app"
+  | "usedIds"
+  | "gap"
+  | "noGaps"
+  | "info";
+
+/**
+ * Base tree item for the Field ID Gaps and Enum Ordinal Gaps views
+ */
+interface BaseObjectGapsTreeItemData {
+  type: TreeItemType;
+  label: string;
+  usage?: BaseObjectUsage;
+  app?: BaseObjectAppUsage;
+  gap?: { start: number; end: number; count: number };
+}
+
+/**
+ * TreeDataProvider for the free field IDs on extended base tables, or the
+ * free ordinals on extended base enums. Lists each base object that a
+ * workspace app extends (Base Object → App → used IDs and gaps), so the IDs
+ * still free on e.g. "Customer" can be seen across all apps.
+ */
+export class BaseObjectGapsTreeProvider
+  implements vscode.TreeDataProvider<BaseObjectGapsTreeItemData>
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    BaseObjectGapsTreeItemData | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private projects: ALProject[] = [];
+  /** The usage per base object, calculated on first display after a change */
+  private usage: BaseObjectUsage[] | undefined;
+
+  /**
+   * @param member - Whether the view shows field IDs of tableextensions or
+   *   ordinals of enumextensions
+   */
+  constructor(private readonly member: "fields" | "enumValues") {}
+
+  /**
+   * Update the projects data and refresh the tree
+   */
+  public setProjects(projects: ALProject[]): void {
+    this.projects = projects;
+    this.refresh();
+  }
+
+  /**
+   * Apply the deltas of an incremental re-scan. The projects were patched in
+   * place, so the usage only needs to be recalculated for display.
+   */
+  public applyDelta(deltas: ProjectDelta[]): void {
+    if (deltas.length > 0) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Refresh the tree view
+   */
+  public refresh(): void {
+    this.usage = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get the tree item representation
+   */
+  public getTreeItem(element: BaseObjectGapsTreeItemData): vscode.TreeItem {
+    const treeItem = new vscode.TreeItem(element.label);
+    const idName = this.member === "fields" ? "field IDs" : "ordinals";
+
+    switch (element.type) {
+      case "baseObject": {
+        const usage = element.usage!;
+        const usedCount = usage.apps.reduce(
+          (sum, app) => sum + app.usedIds.length,
+          0
+        );
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        treeItem.iconPath = new vscode.ThemeIcon(
+          this.member === "fields" ? "database" : "symbol-enum"
+        );
+        treeItem.description = `${usage.apps.length} app(s) · ${usedCount} ${idName} used`;
+        treeItem.tooltip = `${usage.baseName}\nExtended by ${usage.apps
+          .map((app) => app.project.name)
+          .join(", ")}`;
+        treeItem.contextValue = "baseObject";
+        break;
+      }
+
+      case "app": {
+        const app = element.app!;
+        const available = app.gaps.reduce((sum, gap) => sum + gap.count, 0);
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        treeItem.iconPath = new vscode.ThemeIcon(
+          app.project.dependency ? "package" : "folder-library"
+        );
+        treeItem.description = app.project.dependency
+          ? `${app.usedIds.length} used · dependency`
+          : `${app.usedIds.length} used · ${available} available`;
+        treeItem.tooltip = app.project.dependency
+          ? `${app.project.name} (dependency)`
+          : `${app.project.name}\nRanges: ${app.project.idRanges
+              .map((r) => `${r.from}-${r.to}`)
+              .join(", ")}`;
+        treeItem.contextValue = "app";
+        break;
+      }
+
+      case "usedIds": {
+        const app = element.app!;
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        treeItem.iconPath = new vscode.ThemeIcon("circle-filled");
+        treeItem.description = this.formatIds(app.usedIds);
+        treeItem.tooltip = `${app.usedIds.length} ${idName} used by ${app.project.name}`;
+        treeItem.contextValue = "info";
+        break;
+      }
+
+      case "gap": {
+        const gap = element.gap!;
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        treeItem.iconPath = new vscode.ThemeIcon("circle-outline");
+        treeItem.tooltip = `${
+          this.member === "fields" ? "Field IDs" : "Ordinals"
+        } ${gap.start} to ${gap.end} are unused\nClick to copy ${gap.start}`;
+        treeItem.description = gap.count === 1 ? "1 ID" : `${gap.count} IDs`;
+        treeItem.contextValue = "gapItem";
+        treeItem.command = {
+          command: "bcObjectRange.copyNextId",
+          title: "Copy Next Available ID",
+          arguments: [{ start: gap.start, end: gap.end, count: gap.count }],
+        };
+        break;
+      }
+
+      case "noGaps":
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        treeItem.iconPath = new vscode.ThemeIcon("check");
+        treeItem.tooltip = `All IDs in the app's ranges are used on this base ${
+          this.member === "fields" ? "table" : "enum"
+        }`;
+        treeItem.contextValue = "info";
+        break;
+
+      case "info":
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        treeItem.iconPath = new vscode.ThemeIcon("info");
+        treeItem.contextValue = "info";
+        break;
+    }
+
+    return treeItem;
+  }
+
+  /**
+   * Get children for a tree item
+   */
+  public getChildren(
+    element?: BaseObjectGapsTreeItemData
+  ): BaseObjectGapsTreeItemData[] {
+    if (!element) {
+      const usage = this.getUsage();
+      if (usage.length === 0 && this.projects.length > 0) {
+        return [
+          {
+            type: "info" as const,
+            label:
+              this.member === "fields"
+                ? "No tableextensions found"
+                : "No enumextensions found",
+          },
+        ];
+      }
+      return usage.map((baseUsage) => ({
+        type: "baseObject" as const,
+        label: baseUsage.baseName,
+        usage: baseUsage,
+      }));
+    }
+
+    if (element.type === "baseObject") {
+      return element.usage!.apps.map((app) => ({
+        type: "app" as const,
+        label: app.project.name,
+        usage: element.usage,
+        app,
+      }));
+    }
+
+    if (element.type === "app") {
+      const app = element.app!;
+      const children: BaseObjectGapsTreeItemData[] = [];
+      if (app.usedIds.length > 0) {
+        children.push({
+          type: "usedIds",
+          label: "Used",
+          usage: element.usage,
+          app,
+        });
+      }
+      if (app.project.dependency) {
+        return children;
+      }
+      if (app.gaps.length === 0) {
+        children.push({
+          type: "noGaps",
+          label: "All IDs are used",
+          usage: element.usage,
+          app,
+        });
+      }
+      for (const gap of app.gaps) {
+        children.push({
+          type: "gap",
+          label:
+            gap.start === gap.end
+              ? `${gap.start}`
+              : `${gap.start} - ${gap.end}`,
+          usage: element.usage,
+          app,
+          gap,
+        });
+      }
+      return children;
+    }
+
+    return [];
+  }
+
+  /**
+   * Get the parent of an element
+   */
+  public getParent(
+    element: BaseObjectGapsTreeItemData
+  ): BaseObjectGapsTreeItemData | null {
+    if (element.type === "app") {
+      return {
+        type: "baseObject",
+        label: element.usage!.baseName,
+        usage: element.usage,
+      };
+    }
+
+    if (element.app) {
+      return {
+        type: "app",
+        label: element.app.project.name,
+        usage: element.usage,
+        app: element.app,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the usage per base object, calculating it once per refresh
+   */
+  private getUsage(): BaseObjectUsage[] {
+    this.usage ??= workspaceScanner.getExtendedBaseObjectUsage(
+      this.projects as ALProjectWithFields[],
+      this.member
+    );
+    return this.usage;
+  }
+
+  /**
+   * Format used IDs as runs, e.g. "50000-50003, 50010"
+   */
+  private formatIds(sortedIds: number[]): string {
+    return toIdRuns(sortedIds)
+      .map((run) =>
+        run.start === run.end ? `${run.start}` : `${run.start}-${run.end}`
+      )
+      .join(", ");
+  }
+}
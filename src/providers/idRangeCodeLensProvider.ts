@@ -0,0 +1,145 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { ALProject, ProjectDelta, RangeUsage } from "../types/index.js";
+import { workspaceScanner } from "../services/workspaceScanner.js";
+import { formatRange, locateIdRanges } from "../services/idRangeCheck.js";
+
+/**
+ * Shows a CodeLens above every idRanges entry in app.json with how much of
+ * the range is used and its next free ID. The hover lists the usage per
+ * object type, and a click reveals the range in the Unused IDs view.
+ */
+export class IdRangeCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  private projects: ALProject[] = [];
+
+  /**
+   * Update the projects data and refresh the CodeLenses
+   */
+  public setProjects(projects: ALProject[]): void {
+    this.projects = projects;
+    this.refresh();
+  }
+
+  /**
+   * Apply the deltas of an incremental re-scan. The projects were patched in
+   * place, so the usage only needs to be recalculated for display.
+   */
+  public applyDelta(deltas: ProjectDelta[]): void {
+    if (deltas.length > 0) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Refresh the CodeLenses of open app.json files
+   */
+  public refresh(): void {
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  /**
+   * Provide a CodeLens for every idRanges entry of a scanned app's app.json
+   */
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const rootPath = path.dirname(document.uri.fsPath);
+    const project = this.projects.find(
+      (candidate) => !candidate.dependency && candidate.rootPath === rootPath
+    );
+    const location = project ? locateIdRanges(document.getText()) : null;
+    if (!project || !location) {
+      return [];
+    }
+
+    const sharedMode = vscode.workspace
+      .getConfiguration("bcObjectRange")
+      .get<boolean>("sharedRangeMode", false);
+
+    const lenses: vscode.CodeLens[] = [];
+    location.entries.forEach((entry, index) => {
+      // The entries only match the scanned ranges while app.json is saved
+      const range = project.idRanges[index];
+      if (!range) {
+        return;
+      }
+
+      const usage = workspaceScanner.getRangeUsage(
+        this.projects,
+        project,
+        range,
+        sharedMode
+      );
+      const position = document.positionAt(entry.start);
+      lenses.push(
+        new vscode.CodeLens(new vscode.Range(position, position), {
+          title: this.formatTitle(usage),
+          tooltip: this.formatTooltip(usage, sharedMode),
+          command: "bcObjectRange.revealIdRange",
+          arguments: [project.rootPath, range],
+        })
+      );
+    });
+    return lenses;
+  }
+
+  /**
+   * Format the CodeLens text, e.g. "12 / 100 (12%) · next free: 50012"
+   */
+  private formatTitle(usage: RangeUsage): string {
+    const nextFree =
+      usage.nextFree === null
+        ? "range is full"
+        : `next free: ${usage.nextFree}`;
+    return `${usage.used} / ${usage.total} (${this.formatPercent(
+      usage.used,
+      usage.total
+    )}) · ${nextFree}`;
+  }
+
+  /**
+   * Format the hover with the usage per object type that uses the range
+   */
+  private formatTooltip(usage: RangeUsage, sharedMode: boolean): string {
+    const lines = [
+      `Range ${formatRange(usage.range)}${
+        sharedMode ? " (shared by all projects)" : ""
+      }`,
+    ];
+
+    const usedTypes = usage.byType.filter((type) => type.used > 0);
+    if (usedTypes.length === 0) {
+      lines.push("No IDs used yet");
+    }
+    for (const type of usedTypes) {
+      const nextFree =
+        type.nextFree === null ? "full" : `next free: ${type.nextFree}`;
+      lines.push(
+        `${type.objectType}: ${type.used} (${this.formatPercent(
+          type.used,
+          usage.total
+        )}) · ${nextFree}`
+      );
+    }
+
+    lines.push("", "Click to reveal in the Unused IDs view");
+    return lines.join("\n");
+  }
+
+  /**
+   * Format a share as a percentage. Very small and very large shares show
+   * as "<1%" and ">99%", so only an unused range shows 0% and only a full
+   * range 100%.
+   */
+  private formatPercent(used: number, total: number): string {
+    const percent = Math.round((used / total) * 100);
+    if (used > 0 && percent === 0) {
+      return "<1%";
+    }
+    if (used < total && percent === 100) {
+      return ">99%";
+    }
+    return `${percent}%`;
+  }
+}
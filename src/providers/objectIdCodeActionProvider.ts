@@ -0,0 +1,529 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  ALProject,
+  ALObjectTypeWithId,
+  ALObjectWithFields,
+  AL_OBJECT_TYPES_WITH_ID,
+} from "../types/index.js";
+import {
+  ALProjectWithFields,
+  WorkspaceScanner,
+} from "../services/workspaceScanner.js";
+import { IdInterval } from "../services/idIntervals.js";
+import { locateDeclarationId } from "../services/renumberPlan.js";
+import { DiagnosticCodes } from "./objectIdDiagnosticsProvider.js";
+import {
+  findIdRangeProblems,
+  formatRange,
+  getRemoveReplacement,
+  getTrimReplacements,
+  IdRangeProblemCodes,
+  locateIdRanges,
+  TextReplacement,
+} from "../services/idRangeCheck.js";
+
+/**
+ * Provides code actions on AL object declaration lines to change the object ID
+ * to a free ID, using the same gap logic as the views and IntelliSense, and on
+ * field and enum value declaration lines to change the field ID or ordinal to
+ * the next free one on the base table or enum. In app.json, it offers to
+ * trim or remove an idRanges entry that overlaps another range or lies
+ * outside the ID bands.
+ */
+export class ObjectIdCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+    vscode.CodeActionKind.RefactorRewrite,
+  ];
+
+  /**
+   * Regex pattern for lines that may hold part of a declaration: a keyword
+   * or an ID. Other lines are not parsed.
+   */
+  private static readonly DECLARATION_LINE_PATTERN = new RegExp(
+    `\\d|\\b(${[...AL_OBJECT_TYPES_WITH_ID, "field", "value"].join("|")})\\b`,
+    "i"
+  );
+
+  /**
+   * Diagnostic codes of field and enum value problems that renumbering fixes.
+   * Name clashes are not among them, as a new ID leaves the name unchanged.
+   */
+  private static readonly MEMBER_DIAGNOSTIC_CODES: ReadonlySet<unknown> =
+    new Set([
+      DiagnosticCodes.fieldOutOfRange,
+      DiagnosticCodes.enumValueOutOfRange,
+      DiagnosticCodes.duplicateFieldId,
+      DiagnosticCodes.fieldConflict,
+      DiagnosticCodes.enumValueConflict,
+    ]);
+
+  /**
+   * Diagnostic codes of idRanges entry problems in app.json
+   */
+  private static readonly ID_RANGE_DIAGNOSTIC_CODES: ReadonlySet<unknown> =
+    new Set(Object.values(IdRangeProblemCodes));
+
+  private projects: ALProject[] = [];
+  private workspaceScanner: WorkspaceScanner;
+
+  constructor(workspaceScanner: WorkspaceScanner) {
+    this.workspaceScanner = workspaceScanner;
+  }
+
+  /**
+   * Update the list of projects used for ID suggestions
+   */
+  public setProjects(projects: ALProject[]): void {
+    this.projects = projects;
+  }
+
+  /**
+   * Provide code actions for the object declaration on the selected line
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    _token: vscode.CancellationToken
+  ): vscode.CodeAction[] | undefined {
+    if (path.basename(document.uri.fsPath).toLowerCase() === "app.json") {
+      return this.provideIdRangeCodeActions(document, context);
+    }
+
+    const line = range.start.line;
+    if (
+      !ObjectIdCodeActionProvider.DECLARATION_LINE_PATTERN.test(
+        document.lineAt(line).text
+      )
+    ) {
+      return undefined;
+    }
+
+    // Parse the document as it is in the editor; a declaration may be split
+    // across lines, so the parser tells where its ID is
+    const text = document.getText();
+    const objects = this.workspaceScanner.parseDocument(
+      this.projects,
+      document.uri.fsPath,
+      text
+    );
+    const lines = text.split(/\r?\n/);
+
+    const declaration = this.findDeclaration(document, objects, lines, line);
+    if (!declaration) {
+      return this.provideMemberCodeActions(
+        document,
+        objects,
+        lines,
+        line,
+        context
+      );
+    }
+
+    const { objectType, declarationLine, idRange } = declaration;
+    const nextId = this.getNextAvailableId(document.uri.fsPath, objectType);
+
+    // Offer the actions as quick fixes for our own ID diagnostics, and as
+    // refactorings on any other declaration line
+    const diagnostics = context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.range.start.line === declarationLine &&
+        (diagnostic.code === DiagnosticCodes.outOfRange ||
+          diagnostic.code === DiagnosticCodes.duplicateId ||
+          diagnostic.code === DiagnosticCodes.idConflict)
+    );
+    const kind =
+      diagnostics.length > 0
+        ? vscode.CodeActionKind.QuickFix
+        : vscode.CodeActionKind.RefactorRewrite;
+
+    const actions: vscode.CodeAction[] = [];
+
+    if (nextId !== null) {
+      const changeAction = new vscode.CodeAction(
+        `Change ID to next available ${objectType} ID (${nextId})`,
+        kind
+      );
+      changeAction.edit = new vscode.WorkspaceEdit();
+      changeAction.edit.replace(document.uri, idRange, nextId.toString());
+      changeAction.diagnostics = diagnostics;
+      changeAction.isPreferred = diagnostics.length > 0;
+      actions.push(changeAction);
+    }
+
+    const pickAction = new vscode.CodeAction("Pick ID from gap…", kind);
+    pickAction.command = {
+      command: "bcObjectRange.pickIdFromGap",
+      title: "Pick ID from gap…",
+      arguments: [document.uri, idRange, objectType],
+    };
+    pickAction.diagnostics = diagnostics;
+    actions.push(pickAction);
+
+    return actions;
+  }
+
+  /**
+   * Provide the action to renumber the field or enum value declared on a
+   * line to the next free ID on its base table or enum
+   */
+  private provideMemberCodeActions(
+    document: vscode.TextDocument,
+    objects: ALObjectWithFields[],
+    lines: readonly string[],
+    line: number,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] | undefined {
+    const declaration = this.findMemberDeclaration(objects, lines, line);
+    if (!declaration) {
+      return undefined;
+    }
+
+    const { obj, member, declarationLine, idRange } = declaration;
+    const sharedMode = this.isSharedRangeMode();
+    const projects = this.projects as ALProjectWithFields[];
+    const nextId =
+      member === "fields"
+        ? this.workspaceScanner.getNextAvailableFieldId(
+            projects,
+            obj,
+            sharedMode
+          )
+        : this.workspaceScanner.getNextAvailableEnumValueId(
+            projects,
+            obj,
+            sharedMode
+          );
+    if (nextId === null) {
+      return undefined;
+    }
+
+    const diagnostics = context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.range.start.line === declarationLine &&
+        ObjectIdCodeActionProvider.MEMBER_DIAGNOSTIC_CODES.has(diagnostic.code)
+    );
+    const action = new vscode.CodeAction(
+      member === "fields"
+        ? `Change field ID to next available field ID (${nextId})`
+        : `Change ordinal to next available ordinal (${nextId})`,
+      diagnostics.length > 0
+        ? vscode.CodeActionKind.QuickFix
+        : vscode.CodeActionKind.RefactorRewrite
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(document.uri, idRange, nextId.toString());
+    action.diagnostics = diagnostics;
+    action.isPreferred = diagnostics.length > 0;
+
+    return [action];
+  }
+
+  /**
+   * Provide the quick fixes to trim or remove the idRanges entries that our
+   * diagnostics in app.json report. The problems are recalculated from the
+   * scanned projects, and an entry is only changed while its numbers in the
+   * editor still match the scanned range.
+   */
+  private provideIdRangeCodeActions(
+    document: vscode.TextDocument,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] | undefined {
+    const diagnostics = context.diagnostics.filter((diagnostic) =>
+      ObjectIdCodeActionProvider.ID_RANGE_DIAGNOSTIC_CODES.has(diagnostic.code)
+    );
+    const location =
+      diagnostics.length > 0 ? locateIdRanges(document.getText()) : null;
+    if (!location) {
+      return undefined;
+    }
+
+    const rootPath = path.dirname(document.uri.fsPath);
+    const problems = findIdRangeProblems(this.projects, {
+      sharedRangeMode: this.isSharedRangeMode(),
+    }).filter((problem) => problem.project.rootPath === rootPath);
+
+    const actions: vscode.CodeAction[] = [];
+    const removedIndexes = new Set<number>();
+    for (const diagnostic of diagnostics) {
+      const problem = problems.find(
+        (candidate) =>
+          candidate.code === diagnostic.code &&
+          candidate.message === diagnostic.message
+      );
+      const entry = problem && location.entries[problem.index];
+      if (
+        !problem ||
+        !entry?.from ||
+        !entry.to ||
+        document.getText(this.getSpanRange(document, entry.from)) !==
+          problem.range.from.toString() ||
+        document.getText(this.getSpanRange(document, entry.to)) !==
+          problem.range.to.toString()
+      ) {
+        continue;
+      }
+
+      if (problem.trimmed) {
+        const trimAction = new vscode.CodeAction(
+          `Trim range to ${formatRange(problem.trimmed)}`,
+          vscode.CodeActionKind.QuickFix
+        );
+        trimAction.edit = this.createEdit(
+          document,
+          getTrimReplacements(entry, problem.trimmed)
+        );
+        trimAction.diagnostics = [diagnostic];
+        trimAction.isPreferred = true;
+        actions.push(trimAction);
+      }
+
+      const removal = getRemoveReplacement(location, problem.index);
+      if (removal && !removedIndexes.has(problem.index)) {
+        removedIndexes.add(problem.index);
+        const removeAction = new vscode.CodeAction(
+          `Remove range ${formatRange(problem.range)}`,
+          vscode.CodeActionKind.QuickFix
+        );
+        removeAction.edit = this.createEdit(document, [removal]);
+        removeAction.diagnostics = diagnostics.filter(
+          (other) =>
+            other.range.start.isEqual(diagnostic.range.start) &&
+            other.range.end.isEqual(diagnostic.range.end)
+        );
+        actions.push(removeAction);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Create a workspace edit from replacements of text spans
+   */
+  private createEdit(
+    document: vscode.TextDocument,
+    replacements: TextReplacement[]
+  ): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    for (const replacement of replacements) {
+      edit.replace(
+        document.uri,
+        this.getSpanRange(document, replacement),
+        replacement.text
+      );
+    }
+    return edit;
+  }
+
+  /**
+   * Get the range of a span of text in a document
+   */
+  private getSpanRange(
+    document: vscode.TextDocument,
+    span: { start: number; end: number }
+  ): vscode.Range {
+    return new vscode.Range(
+      document.positionAt(span.start),
+      document.positionAt(span.end)
+    );
+  }
+
+  /**
+   * Find the field or enum value declaration on a line: the line of its
+   * `field(` or `value(` keyword, or of its ID. The declaration must belong
+   * to a table, tableextension, enum or enumextension of the parsed
+   * document.
+   */
+  private findMemberDeclaration(
+    objects: ALObjectWithFields[],
+    lines: readonly string[],
+    line: number
+  ):
+    | {
+        obj: ALObjectWithFields;
+        member: "fields" | "enumValues";
+        declarationLine: number;
+        idRange: vscode.Range;
+      }
+    | undefined {
+    for (const obj of objects) {
+      for (const member of ["fields", "enumValues"] as const) {
+        const item = obj[member]?.find((candidate) =>
+          this.isDeclaredOnLine(candidate, line)
+        );
+        const span = item && locateDeclarationId(lines, item);
+        if (item && span) {
+          return {
+            obj,
+            member,
+            declarationLine: item.lineNumber - 1,
+            idRange: new vscode.Range(
+              span.line,
+              span.start,
+              span.line,
+              span.end
+            ),
+          };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Let the user pick a gap for the object type and replace the object ID
+   * with the first ID of that gap
+   */
+  public async pickIdFromGap(
+    uri: vscode.Uri,
+    idRange: vscode.Range,
+    objectType: ALObjectTypeWithId
+  ): Promise<void> {
+    const gaps = this.getGaps(uri.fsPath, objectType);
+
+    if (gaps.length === 0) {
+      vscode.window.showWarningMessage(
+        `No available ${objectType} IDs in the configured ranges or your ID blocks`
+      );
+      return;
+    }
+
+    const items = gaps.map((gap) => ({
+      label:
+        gap.start === gap.end ? `${gap.start}` : `${gap.start} - ${gap.end}`,
+      description: `${gap.count} ${gap.count === 1 ? "ID" : "IDs"}`,
+      gap,
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select a gap to take the ${objectType} ID from`,
+      title: "Pick ID from Gap",
+    });
+
+    if (!selected) {
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, idRange, selected.gap.start.toString());
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  /**
+   * Find the object declaration on a line: the line of its object type
+   * keyword, or of its ID. Only declarations the parser finds are
+   * considered, so keywords inside object bodies (e.g. in permissionsets)
+   * are ignored, and the file must belong to a scanned project.
+   */
+  private findDeclaration(
+    document: vscode.TextDocument,
+    objects: ALObjectWithFields[],
+    lines: readonly string[],
+    line: number
+  ):
+    | {
+        objectType: ALObjectTypeWithId;
+        declarationLine: number;
+        idRange: vscode.Range;
+      }
+    | undefined {
+    const obj = objects.find((candidate) =>
+      this.isDeclaredOnLine(candidate, line)
+    );
+    const span = obj && locateDeclarationId(lines, obj);
+    if (
+      !obj ||
+      !span ||
+      !this.workspaceScanner.findProjectForFile(
+        this.projects,
+        document.uri.fsPath
+      )
+    ) {
+      return undefined;
+    }
+
+    return {
+      objectType: obj.type,
+      declarationLine: obj.lineNumber - 1,
+      idRange: new vscode.Range(span.line, span.start, span.line, span.end),
+    };
+  }
+
+  /**
+   * Check whether the keyword or the ID of a declaration is on a line
+   * (0-based)
+   */
+  private isDeclaredOnLine(
+    declaration: { lineNumber: number; idLineNumber?: number },
+    line: number
+  ): boolean {
+    return (
+      declaration.lineNumber === line + 1 ||
+      declaration.idLineNumber === line + 1
+    );
+  }
+
+  /**
+   * Get the next available ID for an object type, for the project of the
+   * given file or across all projects in shared mode. The ID comes from the
+   * current developer's ID blocks, if any are assigned.
+   */
+  private getNextAvailableId(
+    filePath: string,
+    objectType: ALObjectTypeWithId
+  ): number | null {
+    if (this.isSharedRangeMode()) {
+      return this.workspaceScanner.getNextAvailableIdForType(
+        this.projects,
+        objectType
+      );
+    }
+
+    const project = this.workspaceScanner.findProjectForFile(
+      this.projects,
+      filePath
+    );
+    return project
+      ? this.workspaceScanner.getNextAvailableId(project, objectType)
+      : null;
+  }
+
+  /**
+   * Get the gaps for an object type, for the project of the given file or
+   * across all projects in shared mode. When the ID allocation files assign
+   * blocks to the current developer, only gaps in those blocks are returned.
+   */
+  private getGaps(
+    filePath: string,
+    objectType: ALObjectTypeWithId
+  ): IdInterval[] {
+    if (this.isSharedRangeMode()) {
+      return this.workspaceScanner.calculateSharedGaps(
+        this.projects,
+        objectType,
+        { developerBlocks: true }
+      );
+    }
+
+    const project = this.workspaceScanner.findProjectForFile(
+      this.projects,
+      filePath
+    );
+    return project
+      ? this.workspaceScanner.calculateGaps(project, objectType, {
+          developerBlocks: true,
+        })
+      : [];
+  }
+
+  /**
+   * Check if shared range mode is enabled
+   */
+  private isSharedRangeMode(): boolean {
+    const config = vscode.workspace.getConfiguration("bcObjectRange");
+    return config.get<boolean>("sharedRangeMode", false);
+  }
+}
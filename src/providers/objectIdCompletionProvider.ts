@@ -2,13 +2,35 @@ import * as vscode from "vscode";
 import {
   ALProject,
   ALObjectTypeWithId,
+  ALObjectWithFields,
   AL_OBJECT_TYPES_WITH_ID,
+  IdAllocationBlock,
 } from "../types/index.js";
 import { WorkspaceScanner } from "../services/workspaceScanner.js";
+import { ALProjectWithFields } from "../services/rangeAnalyzer.js";
+
+/**
+ * Data types offered by the field declaration snippet
+ */
+const FIELD_DATA_TYPES = [
+  "Code[20]",
+  "Text[100]",
+  "Integer",
+  "Decimal",
+  "Boolean",
+  "Date",
+  "DateTime",
+  "Enum",
+  "Option",
+  "Blob",
+  "Guid",
+];
 
 /**
  * Provides IntelliSense completions for AL object IDs.
- * Suggests the next available ID when the user types an AL object type keyword.
+ * Suggests the next available ID when the user types an AL object type keyword,
+ * the next available field ID after `field(` in a table or tableextension,
+ * and the next available ordinal after `value(` in an enum or enumextension.
  */
 export class ObjectIdCompletionProvider
   implements vscode.CompletionItemProvider
@@ -40,6 +62,15 @@ export class ObjectIdCompletionProvider
     const lineText = document.lineAt(position.line).text;
     const textBeforeCursor = lineText.substring(0, position.character);
 
+    if (ObjectIdCompletionProvider.matchesFieldDeclaration(textBeforeCursor)) {
+      return this.provideFieldCompletionItems(document, position);
+    }
+    if (
+      ObjectIdCompletionProvider.matchesEnumValueDeclaration(textBeforeCursor)
+    ) {
+      return this.provideEnumValueCompletionItems(document, position);
+    }
+
     // Check if the text before cursor matches an AL object type pattern
     const objectTypeMatch = this.matchObjectType(textBeforeCursor);
     if (!objectTypeMatch) {
@@ -60,6 +91,8 @@ export class ObjectIdCompletionProvider
 
     let nextId: number | null = null;
     let projectName: string | undefined;
+    // The current developer's blocks the ID is drawn from, if any
+    let blocks: IdAllocationBlock[] = [];
 
     if (sharedMode) {
       // In shared mode, get the next available ID for this object type across all projects
@@ -68,14 +101,23 @@ export class ObjectIdCompletionProvider
         objectType
       );
       projectName = "Shared Range";
+      blocks = this.workspaceScanner.getDeveloperBlocks(
+        this.projects,
+        objectType
+      );
     } else {
-      // In normal mode, find the project for the current document
+      // In normal mode, get the next available ID for this object type in the document's project
       const project = this.findProjectForDocument(document);
       if (project) {
-        nextId = this.workspaceScanner.getNextAvailableId(project);
+        nextId = this.workspaceScanner.getNextAvailableId(project, objectType);
         projectName = project.name;
+        blocks = this.workspaceScanner.getDeveloperBlocks(
+          [project],
+          objectType
+        );
       }
     }
+    const blockNames = blocks.map((block) => `"${block.name}"`).join(", ");
 
     if (nextId === null) {
       // No IDs available - show a warning completion item
@@ -83,11 +125,14 @@ export class ObjectIdCompletionProvider
         "⚠️ No available IDs",
         vscode.CompletionItemKind.Issue
       );
-      warningItem.detail = sharedMode
-        ? "All IDs in the shared range are used"
-        : projectName
-        ? `All IDs in "${projectName}" ranges are used`
-        : "Could not determine project for this file";
+      warningItem.detail =
+        blocks.length > 0
+          ? `All ${objectType} IDs in your ID block ${blockNames} are used`
+          : sharedMode
+          ? "All IDs in the shared range are used"
+          : projectName
+          ? `All ${objectType} IDs in "${projectName}" ranges are used`
+          : "Could not determine project for this file";
       warningItem.documentation = new vscode.MarkdownString(
         "No available object IDs found in the configured ranges. " +
           "Please extend your ID ranges in app.json or remove unused objects."
@@ -109,7 +154,9 @@ export class ObjectIdCompletionProvider
         (sharedMode
           ? `Mode: Shared Range (all projects)\n\n`
           : `Project: ${projectName}\n\n`) +
-        `This ID is the first available ID in the configured ranges.`
+        (blocks.length > 0
+          ? `This ID is the first available ID in your ID block ${blockNames}.`
+          : `This ID is the first available ID in the configured ranges.`)
     );
 
     // Insert just the ID number
@@ -124,6 +171,187 @@ export class ObjectIdCompletionProvider
     return [completionItem];
   }
 
+  /**
+   * Provide the next available field ID, and a field declaration snippet,
+   * after `field(` in a table or tableextension
+   */
+  private provideFieldCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.CompletionItem[] | undefined {
+    const obj = this.findDocumentObject(document, position);
+    if (obj?.type !== "table" && obj?.type !== "tableextension") {
+      return undefined;
+    }
+
+    const config = vscode.workspace.getConfiguration("bcObjectRange");
+    const sharedMode = config.get<boolean>("sharedRangeMode", false);
+    const nextId = this.workspaceScanner.getNextAvailableFieldId(
+      this.projects as ALProjectWithFields[],
+      obj,
+      sharedMode
+    );
+    const target =
+      obj.type === "table"
+        ? `table "${obj.name}"`
+        : `extensions of "${obj.extendsObject}"`;
+
+    if (nextId === null) {
+      const warningItem = new vscode.CompletionItem(
+        "⚠️ No available field IDs",
+        vscode.CompletionItemKind.Issue
+      );
+      warningItem.detail =
+        obj.type === "table"
+          ? `All field IDs of ${target} are used`
+          : sharedMode
+          ? `All IDs in the shared range are used by ${target}`
+          : `All IDs in the app's ranges are used by ${target}`;
+      warningItem.sortText = "0";
+      return [warningItem];
+    }
+
+    const documentation = new vscode.MarkdownString(
+      `**Next Available Field ID: ${nextId}**\n\n` +
+        (obj.type === "table"
+          ? `The first ID after the fields of ${target}.`
+          : `The first ID in the ${
+              sharedMode ? "shared range" : "app's ranges"
+            } that no other field of the base table or its extensions uses.`)
+    );
+
+    const idItem = new vscode.CompletionItem(
+      nextId.toString(),
+      vscode.CompletionItemKind.Value
+    );
+    idItem.detail = `Next available field ID for ${target}`;
+    idItem.documentation = documentation;
+    idItem.insertText = nextId.toString();
+    idItem.sortText = "0";
+    idItem.preselect = true;
+
+    // The snippet completes the declaration, replacing an auto-closed ")"
+    const snippetItem = new vscode.CompletionItem(
+      `${nextId}; "Name"; Type`,
+      vscode.CompletionItemKind.Snippet
+    );
+    snippetItem.detail = `Field declaration with the next available ID`;
+    snippetItem.documentation = documentation;
+    snippetItem.insertText = new vscode.SnippetString()
+      .appendText(`${nextId}; "`)
+      .appendPlaceholder("Field Name")
+      .appendText(`"; `)
+      .appendChoice(FIELD_DATA_TYPES)
+      .appendText(")");
+    const hasClosingParenthesis =
+      document.lineAt(position.line).text[position.character] === ")";
+    if (hasClosingParenthesis) {
+      snippetItem.range = new vscode.Range(position, position.translate(0, 1));
+    }
+    snippetItem.sortText = "1";
+
+    return [idItem, snippetItem];
+  }
+
+  /**
+   * Provide the next available ordinal after `value(` in an enum or
+   * enumextension. The detail names the apps that declare the closest
+   * ordinals below and above it.
+   */
+  private provideEnumValueCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.CompletionItem[] | undefined {
+    const obj = this.findDocumentObject(document, position);
+    if (obj?.type !== "enum" && obj?.type !== "enumextension") {
+      return undefined;
+    }
+
+    const config = vscode.workspace.getConfiguration("bcObjectRange");
+    const sharedMode = config.get<boolean>("sharedRangeMode", false);
+    const projects = this.projects as ALProjectWithFields[];
+    const nextId = this.workspaceScanner.getNextAvailableEnumValueId(
+      projects,
+      obj,
+      sharedMode
+    );
+    const target =
+      obj.type === "enum"
+        ? `enum "${obj.name}"`
+        : `extensions of "${obj.extendsObject}"`;
+
+    if (nextId === null) {
+      const warningItem = new vscode.CompletionItem(
+        "⚠️ No available ordinals",
+        vscode.CompletionItemKind.Issue
+      );
+      warningItem.detail =
+        obj.type === "enum"
+          ? `All ordinals of ${target} are used`
+          : sharedMode
+          ? `All IDs in the shared range are used by ${target}`
+          : `All IDs in the app's ranges are used by ${target}`;
+      warningItem.sortText = "0";
+      return [warningItem];
+    }
+
+    const { below, above } = this.workspaceScanner.getNeighbouringMemberIds(
+      projects,
+      obj,
+      "enumValues",
+      nextId
+    );
+    const neighbours = [
+      ...(below ? [`after ${below.id} in ${below.projectName}`] : []),
+      ...(above ? [`before ${above.id} in ${above.projectName}`] : []),
+    ];
+
+    const completionItem = new vscode.CompletionItem(
+      nextId.toString(),
+      vscode.CompletionItemKind.EnumMember
+    );
+    completionItem.detail =
+      `Next available ordinal for ${target}` +
+      (neighbours.length > 0 ? ` (${neighbours.join(", ")})` : "");
+    completionItem.documentation = new vscode.MarkdownString(
+      `**Next Available Ordinal: ${nextId}**\n\n` +
+        (obj.type === "enum"
+          ? `The first ordinal after the values of ${target}.`
+          : `The first ID in the ${
+              sharedMode ? "shared range" : "app's ranges"
+            } that no other value of the base enum or its extensions uses.`) +
+        (below
+          ? `\n\nPrevious ordinal: ${below.id} (${below.projectName})`
+          : "") +
+        (above
+          ? `\n\nNext used ordinal: ${above.id} (${above.projectName})`
+          : "")
+    );
+    completionItem.insertText = nextId.toString();
+    completionItem.sortText = "0";
+    completionItem.preselect = true;
+
+    return [completionItem];
+  }
+
+  /**
+   * Find the object that contains the cursor. The document is parsed as it
+   * is in the editor, so fields and values that are not saved yet count.
+   */
+  private findDocumentObject(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): ALObjectWithFields | undefined {
+    const objects = this.workspaceScanner.parseDocument(
+      this.projects,
+      document.uri.fsPath,
+      document.getText()
+    );
+    // Objects are returned in declaration order; the last one declared at
+    // or above the cursor contains it
+    return objects.filter((obj) => obj.lineNumber <= position.line + 1).pop();
+  }
+
   /**
    * Match an AL object type keyword at the end of the text
    * Returns the matched object type or null if no match
@@ -263,13 +491,29 @@ export class ObjectIdCompletionProvider
       // Find project by path
       for (const project of this.projects) {
         if (documentPath.startsWith(project.rootPath)) {
-          return this.workspaceScanner.getNextAvailableId(project);
+          return this.workspaceScanner.getNextAvailableId(project, objectType);
         }
       }
       return null;
     }
   }
 
+  /**
+   * Check if the text before the cursor opens a field declaration, e.g.
+   * `    field(`
+   */
+  public static matchesFieldDeclaration(text: string): boolean {
+    return /^\s*field\s*\(\s*$/i.test(text);
+  }
+
+  /**
+   * Check if the text before the cursor opens an enum value declaration,
+   * e.g. `    value(`
+   */
+  public static matchesEnumValueDeclaration(text: string): boolean {
+    return /^\s*value\s*\(\s*$/i.test(text);
+  }
+
   /**
    * Check if the given text matches an AL object type that requires an ID
    */
@@ -0,0 +1,264 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { ALProject, MemberConflictSeverity } from "../types/index.js";
+import {
+  ALProjectWithFields,
+  workspaceScanner,
+} from "../services/workspaceScanner.js";
+import {
+  findRangeProblems,
+  getProblemSeverity,
+  ProblemCodes,
+  ProblemSeverity,
+  RangeProblem,
+} from "../services/rangeCheck.js";
+import {
+  findIdRangeProblems,
+  formatRange,
+  IdRangesLocation,
+  locateIdRanges,
+  TextSpan,
+} from "../services/idRangeCheck.js";
+
+/**
+ * Source shown next to every diagnostic in the Problems panel
+ */
+const DIAGNOSTIC_SOURCE = "BC Object Range";
+
+/**
+ * Diagnostic codes, usable by code actions to recognize our diagnostics
+ */
+export const DiagnosticCodes = ProblemCodes;
+
+/**
+ * Diagnostic severity of each problem severity
+ */
+const DIAGNOSTIC_SEVERITIES: Record<
+  ProblemSeverity,
+  vscode.DiagnosticSeverity
+> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+/**
+ * An app.json opened to locate its ID ranges
+ */
+interface LocatedAppJson {
+  document: vscode.TextDocument;
+  location: IdRangesLocation;
+}
+
+/**
+ * Publishes object ID problems found by the scanner to the Problems panel,
+ * and problems with the ID ranges on their entries in app.json.
+ * Diagnostics are recalculated from scratch on every refresh.
+ */
+export class ObjectIdDiagnosticsProvider implements vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+  /**
+   * Counts the updates, so the app.json diagnostics of an older update that
+   * finish late do not replace those of a newer one
+   */
+  private updateCount = 0;
+
+  constructor() {
+    this.collection =
+      vscode.languages.createDiagnosticCollection("bcObjectRange");
+  }
+
+  /**
+   * Recalculate all diagnostics for the given projects
+   */
+  public update(projects: ALProject[]): void {
+    const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+
+    const add = (filePath: string, diagnostic: vscode.Diagnostic) => {
+      const existing = diagnosticsByFile.get(filePath) || [];
+      existing.push(diagnostic);
+      diagnosticsByFile.set(filePath, existing);
+    };
+
+    const memberConflictSeverity = vscode.workspace
+      .getConfiguration("bcObjectRange")
+      .get<MemberConflictSeverity>("memberConflictSeverity", "error");
+
+    for (const problem of findRangeProblems(
+      workspaceScanner,
+      projects as ALProjectWithFields[],
+      {
+        crossAppConflicts: true,
+        memberConflictSeverity,
+      }
+    )) {
+      const severity =
+        DIAGNOSTIC_SEVERITIES[
+          getProblemSeverity(problem.code, memberConflictSeverity)
+        ];
+      add(problem.filePath, this.createDiagnostic(problem, severity));
+    }
+
+    this.collection.clear();
+    for (const [filePath, diagnostics] of diagnosticsByFile) {
+      this.collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+
+    void this.updateIdRangeDiagnostics(projects, ++this.updateCount);
+  }
+
+  /**
+   * Publish the problems with the ID ranges on their entries in app.json.
+   * The app.json files are opened to locate the entries, so this finishes
+   * after the other diagnostics are published.
+   */
+  private async updateIdRangeDiagnostics(
+    projects: ALProject[],
+    updateCount: number
+  ): Promise<void> {
+    const problems = findIdRangeProblems(projects, {
+      sharedRangeMode: vscode.workspace
+        .getConfiguration("bcObjectRange")
+        .get<boolean>("sharedRangeMode", false),
+    });
+
+    const located = new Map<string, Promise<LocatedAppJson | null>>();
+    const locate = (project: ALProject) => {
+      if (!located.has(project.rootPath)) {
+        located.set(project.rootPath, this.locateAppJson(project));
+      }
+      return located.get(project.rootPath)!;
+    };
+
+    const diagnosticsByDocument = new Map<
+      vscode.TextDocument,
+      vscode.Diagnostic[]
+    >();
+    for (const problem of problems) {
+      const appJson = await locate(problem.project);
+      const entry = appJson?.location.entries[problem.index];
+      if (!appJson || !entry) {
+        continue;
+      }
+
+      const diagnostic = new vscode.Diagnostic(
+        this.getSpanRange(appJson.document, entry),
+        problem.message,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = problem.code;
+
+      if (problem.other) {
+        const other = await locate(problem.other.project);
+        const otherEntry = other?.location.entries[problem.other.index];
+        if (other && otherEntry) {
+          const otherRange =
+            problem.other.project.idRanges[problem.other.index];
+          diagnostic.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(
+              new vscode.Location(
+                other.document.uri,
+                this.getSpanRange(other.document, otherEntry)
+              ),
+              `Range ${formatRange(otherRange)} of "${
+                problem.other.project.name
+              }"`
+            ),
+          ];
+        }
+      }
+
+      const existing = diagnosticsByDocument.get(appJson.document) || [];
+      existing.push(diagnostic);
+      diagnosticsByDocument.set(appJson.document, existing);
+    }
+
+    if (updateCount !== this.updateCount) {
+      return;
+    }
+    for (const [document, diagnostics] of diagnosticsByDocument) {
+      this.collection.set(document.uri, diagnostics);
+    }
+  }
+
+  /**
+   * Open the app.json of a project and locate its ID ranges
+   *
+   * @returns The document and locations, or null if it cannot be read or
+   *   is not valid JSON
+   */
+  private async locateAppJson(
+    project: ALProject
+  ): Promise<LocatedAppJson | null> {
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(path.join(project.rootPath, "app.json"))
+      );
+      const location = locateIdRanges(document.getText());
+      return location ? { document, location } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create the diagnostic for a problem found by the range check. Other
+   * declarations involved are attached as related information.
+   */
+  private createDiagnostic(
+    problem: RangeProblem,
+    severity: vscode.DiagnosticSeverity
+  ): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      this.getLineRange(problem.lineNumber),
+      problem.message,
+      severity
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = problem.code;
+    if (problem.related.length > 0) {
+      diagnostic.relatedInformation = problem.related.map(
+        (related) =>
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(
+              vscode.Uri.file(related.filePath),
+              this.getLineRange(related.lineNumber)
+            ),
+            related.message
+          )
+      );
+    }
+    return diagnostic;
+  }
+
+  /**
+   * Get the range of a whole line from a 1-based line number.
+   * The end column is clamped to the actual line length by VS Code.
+   */
+  private getLineRange(lineNumber: number): vscode.Range {
+    const line = Math.max(lineNumber - 1, 0);
+    return new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+  }
+
+  /**
+   * Get the range of a span of text in a document
+   */
+  private getSpanRange(
+    document: vscode.TextDocument,
+    span: TextSpan
+  ): vscode.Range {
+    return new vscode.Range(
+      document.positionAt(span.start),
+      document.positionAt(span.end)
+    );
+  }
+
+  /**
+   * Dispose the diagnostic collection
+   */
+  public dispose(): void {
+    this.collection.dispose();
+  }
+}
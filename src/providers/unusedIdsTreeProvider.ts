@@ -5,8 +5,14 @@ import {
   SharedIdGap,
   ALObjectTypeWithId,
   AL_OBJECT_TYPES_WITH_ID,
+  IdRange,
+  ProjectDelta,
+  RangeExhaustion,
+  IdAllocationUsage,
 } from "../types/index.js";
 import { workspaceScanner } from "../services/workspaceScanner.js";
+import { describeRangeExhaustion } from "../services/rangeCheck.js";
+import { ID_ALLOCATIONS_FILE_NAME } from "../services/idAllocations.js";
 
 /**
  * Tree item types for the Unused IDs view
@@ -18,7 +24,9 @@ type TreeItemType =
   | "noGaps"
   | "sharedRoot"
   | "objectType"
-  | "sharedGap";
+  | "sharedGap"
+  | "blocksRoot"
+  | "block";
 
 /**
  * Base tree item for the Unused IDs view
@@ -30,12 +38,14 @@ interface UnusedIdsTreeItemData {
   gap?: IdGap;
   sharedGap?: SharedIdGap;
   objectType?: ALObjectTypeWithId;
+  allocation?: IdAllocationUsage;
 }
 
 /**
  * TreeDataProvider for displaying unused ID gaps within configured ranges.
- * Shows available ID ranges that can be used for new objects.
- * Supports both per-project mode and shared range mode.
+ * Shows available ID ranges that can be used for new objects, per object type.
+ * Supports both per-project mode (App → Object Type → gaps) and shared range
+ * mode (Shared Range → Object Type → gaps).
  */
 export class UnusedIdsTreeProvider
   implements vscode.TreeDataProvider<UnusedIdsTreeItemData>
@@ -46,6 +56,7 @@ export class UnusedIdsTreeProvider
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private projects: ALProject[] = [];
+  private rangeExhaustion: RangeExhaustion[] = [];
 
   constructor() {}
 
@@ -62,9 +73,23 @@ export class UnusedIdsTreeProvider
    */
   public setProjects(projects: ALProject[]): void {
     this.projects = projects;
+    this.rangeExhaustion = workspaceScanner.findRangeExhaustion(projects);
     this.refresh();
   }
 
+  /**
+   * Apply the deltas of an incremental re-scan. The projects were patched in
+   * place, so the gaps only need to be recalculated for display.
+   */
+  public applyDelta(deltas: ProjectDelta[]): void {
+    if (deltas.length > 0) {
+      this.rangeExhaustion = workspaceScanner.findRangeExhaustion(
+        this.projects
+      );
+      this.refresh();
+    }
+  }
+
   /**
    * Refresh the tree view
    */
@@ -85,18 +110,28 @@ export class UnusedIdsTreeProvider
           .map((r) => `${r.from}-${r.to}`)
           .join(", ");
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
-        treeItem.iconPath = new vscode.ThemeIcon("layers");
-        treeItem.tooltip = `Shared range mode: IDs are shared across all projects\nRanges: ${rangeStr}`;
+        treeItem.iconPath =
+          this.getRangeExhaustionIcon(this.rangeExhaustion) ??
+          new vscode.ThemeIcon("layers");
+        treeItem.tooltip = [
+          `Shared range mode: IDs are shared across all projects\nRanges: ${rangeStr}`,
+          ...this.rangeExhaustion.map((exhaustion) =>
+            describeRangeExhaustion(exhaustion)
+          ),
+        ].join("\n");
         treeItem.description = `${this.projects.length} projects`;
         treeItem.contextValue = "sharedRoot";
         break;
       }
 
       case "objectType": {
-        const gaps = workspaceScanner.calculateSharedGaps(
-          this.projects,
-          element.objectType!
-        );
+        // Normal mode object types belong to a project, shared mode ones don't
+        const gaps = element.project
+          ? this.getProjectGaps(element.project, element.objectType!)
+          : workspaceScanner.calculateSharedGaps(
+              this.projects,
+              element.objectType!
+            );
         const totalAvailable = gaps.reduce((sum, gap) => sum + gap.count, 0);
         treeItem.collapsibleState =
           gaps.length > 0
@@ -125,21 +160,25 @@ export class UnusedIdsTreeProvider
       }
 
       case "project": {
-        const gaps = this.getProjectGaps(element.project!);
-        const totalAvailable = gaps.reduce((sum, gap) => sum + gap.count, 0);
+        const project = element.project!;
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
-        treeItem.iconPath = new vscode.ThemeIcon("folder-library");
-        treeItem.tooltip = this.formatProjectTooltip(element.project!);
-        treeItem.description = `${totalAvailable} IDs available`;
+        treeItem.iconPath =
+          this.getRangeExhaustionIcon(this.getRangeExhaustion(project)) ??
+          new vscode.ThemeIcon("folder-library");
+        treeItem.tooltip = this.formatProjectTooltip(project);
+        treeItem.description = project.idRanges
+          .map((r) => `${r.from}-${r.to}`)
+          .join(", ");
         treeItem.contextValue = "project";
         break;
       }
 
       case "gap": {
         const gap = element.gap!;
+        const unusedFor = gap.objectType ? ` for ${gap.objectType}` : "";
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
         treeItem.iconPath = new vscode.ThemeIcon("circle-outline");
-        treeItem.tooltip = `IDs ${gap.start} to ${gap.end} are unused\nClick to copy ${gap.start}`;
+        treeItem.tooltip = `IDs ${gap.start} to ${gap.end} are unused${unusedFor}\nClick to copy ${gap.start}`;
         treeItem.description = gap.count === 1 ? "1 ID" : `${gap.count} IDs`;
         treeItem.contextValue = "gapItem";
         treeItem.command = {
@@ -150,6 +189,52 @@ export class UnusedIdsTreeProvider
         break;
       }
 
+      case "blocksRoot": {
+        const usage = workspaceScanner.getAllocationUsage(
+          this.projects,
+          element.project
+        );
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+        treeItem.iconPath = new vscode.ThemeIcon("organization");
+        treeItem.tooltip = `ID blocks assigned to developers in ${ID_ALLOCATIONS_FILE_NAME}. New IDs are drawn from your own blocks.`;
+        treeItem.description =
+          usage.length === 1 ? "1 block" : `${usage.length} blocks`;
+        treeItem.contextValue = "blocksRoot";
+        break;
+      }
+
+      case "block": {
+        const { block, assigned, total, used, nextFree } = element.allocation!;
+        const percent = total > 0 ? Math.round((used / total) * 100) : 0;
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        treeItem.iconPath = new vscode.ThemeIcon(
+          assigned ? "account" : "person"
+        );
+        treeItem.description = `${block.from}-${
+          block.to
+        } · ${used} / ${total} (${percent}%)${assigned ? " · yours" : ""}`;
+        treeItem.tooltip = [
+          `Block "${block.name}": ${block.from}-${block.to}`,
+          `Object types: ${block.objectTypes?.join(", ") ?? "all"}`,
+          `Assigned to: ${block.assignees.join(", ") || "nobody"}`,
+          `Used: ${used} of ${total} IDs`,
+          total === 0
+            ? "The block is outside the ID ranges"
+            : nextFree === null
+            ? "The block is full"
+            : `Next free: ${nextFree}\nClick to copy ${nextFree}`,
+        ].join("\n");
+        treeItem.contextValue = "block";
+        if (nextFree !== null) {
+          treeItem.command = {
+            command: "bcObjectRange.copyNextId",
+            title: "Copy Next Available ID",
+            arguments: [{ start: nextFree, end: nextFree, count: 1 }],
+          };
+        }
+        break;
+      }
+
       case "noRanges":
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
         treeItem.iconPath = new vscode.ThemeIcon("warning");
@@ -210,8 +295,25 @@ export class UnusedIdsTreeProvider
         ];
       }
 
-      // Calculate gaps
-      const gaps = this.getProjectGaps(project);
+      // Each object type has its own ID namespace, so gaps are listed per type
+      return [
+        ...this.getBlocksRoot(project),
+        ...AL_OBJECT_TYPES_WITH_ID.map((objectType) => ({
+          type: "objectType" as const,
+          label: this.formatObjectTypeName(objectType),
+          project,
+          objectType,
+        })),
+      ];
+    }
+
+    if (element.type === "blocksRoot") {
+      return this.getBlocks(element.project);
+    }
+
+    if (element.type === "objectType") {
+      const project = element.project!;
+      const gaps = this.getProjectGaps(project, element.objectType!);
 
       if (gaps.length === 0) {
         return [
@@ -219,16 +321,17 @@ export class UnusedIdsTreeProvider
             type: "noGaps" as const,
             label: "All IDs are used",
             project,
+            objectType: element.objectType,
           },
         ];
       }
 
       return gaps.map((gap) => ({
         type: "gap" as const,
-        label:
-          gap.start === gap.end ? `${gap.start}` : `${gap.start} - ${gap.end}`,
+        label: this.formatGapLabel(gap),
         project,
         gap,
+        objectType: element.objectType,
       }));
     }
 
@@ -265,11 +368,18 @@ export class UnusedIdsTreeProvider
 
     if (element.type === "sharedRoot") {
       // Show object types that have gaps
-      return AL_OBJECT_TYPES_WITH_ID.map((objectType) => ({
-        type: "objectType" as const,
-        label: this.formatObjectTypeName(objectType),
-        objectType,
-      }));
+      return [
+        ...this.getBlocksRoot(),
+        ...AL_OBJECT_TYPES_WITH_ID.map((objectType) => ({
+          type: "objectType" as const,
+          label: this.formatObjectTypeName(objectType),
+          objectType,
+        })),
+      ];
+    }
+
+    if (element.type === "blocksRoot") {
+      return this.getBlocks();
     }
 
     if (element.type === "objectType") {
@@ -291,8 +401,7 @@ export class UnusedIdsTreeProvider
 
       return gaps.map((gap) => ({
         type: "sharedGap" as const,
-        label:
-          gap.start === gap.end ? `${gap.start}` : `${gap.start} - ${gap.end}`,
+        label: this.formatGapLabel(gap),
         sharedGap: gap,
         objectType: element.objectType,
       }));
@@ -302,14 +411,52 @@ export class UnusedIdsTreeProvider
   }
 
   /**
-   * Get gaps for a project
+   * Get the ID blocks node of a project (normal mode) or of the shared range
+   * (shared mode), or nothing if no ID allocation file declares blocks
+   */
+  private getBlocksRoot(project?: ALProject): UnusedIdsTreeItemData[] {
+    const hasBlocks = (project ? [project] : this.projects).some(
+      (candidate) => (candidate.idAllocations?.blocks.length ?? 0) > 0
+    );
+    return hasBlocks
+      ? [
+          {
+            type: "blocksRoot",
+            label: "ID Blocks",
+            ...(project && { project }),
+          },
+        ]
+      : [];
+  }
+
+  /**
+   * Get the ID blocks of a project (normal mode) or of all projects (shared
+   * mode) with their consumption
    */
-  private getProjectGaps(project: ALProject): IdGap[] {
-    const rawGaps = workspaceScanner.calculateGaps(project);
+  private getBlocks(project?: ALProject): UnusedIdsTreeItemData[] {
+    return workspaceScanner
+      .getAllocationUsage(this.projects, project)
+      .map((allocation) => ({
+        type: "block" as const,
+        label: allocation.block.name,
+        ...(project && { project }),
+        allocation,
+      }));
+  }
+
+  /**
+   * Get gaps for one object type of a project
+   */
+  private getProjectGaps(
+    project: ALProject,
+    objectType: ALObjectTypeWithId
+  ): IdGap[] {
+    const rawGaps = workspaceScanner.calculateGaps(project, objectType);
     return rawGaps.map((gap) => ({
       ...gap,
       projectName: project.name,
       projectPath: project.rootPath,
+      objectType,
     }));
   }
 
@@ -362,9 +509,49 @@ export class UnusedIdsTreeProvider
       md.appendMarkdown("*No ID ranges configured in app.json*");
     }
 
+    const exhaustion = this.getRangeExhaustion(project);
+    if (exhaustion.length > 0) {
+      md.appendMarkdown("\n\n**Running Out of IDs:**\n");
+      for (const entry of exhaustion) {
+        md.appendMarkdown("- ");
+        md.appendText(describeRangeExhaustion(entry));
+        md.appendMarkdown("\n");
+      }
+    }
+
     return md;
   }
 
+  /**
+   * Get the usage thresholds crossed by a project's ranges
+   */
+  private getRangeExhaustion(project: ALProject): RangeExhaustion[] {
+    return this.rangeExhaustion.filter(
+      (exhaustion) => exhaustion.project?.rootPath === project.rootPath
+    );
+  }
+
+  /**
+   * Get the warning or error icon for crossed usage thresholds, or undefined
+   * if none were crossed
+   */
+  private getRangeExhaustionIcon(
+    exhaustion: RangeExhaustion[]
+  ): vscode.ThemeIcon | undefined {
+    if (exhaustion.length === 0) {
+      return undefined;
+    }
+    return exhaustion.some((entry) => entry.level === "error")
+      ? new vscode.ThemeIcon(
+          "error",
+          new vscode.ThemeColor("editorError.foreground")
+        )
+      : new vscode.ThemeIcon(
+          "warning",
+          new vscode.ThemeColor("editorWarning.foreground")
+        );
+  }
+
   /**
    * Get the parent of an element
    */
@@ -380,7 +567,7 @@ export class UnusedIdsTreeProvider
       };
     }
 
-    if (element.type === "objectType") {
+    if (element.type === "objectType" && !element.project) {
       const sharedRanges = workspaceScanner.getSharedRanges(this.projects);
       const rangeStr = sharedRanges.map((r) => `${r.from}-${r.to}`).join(", ");
       return {
@@ -393,11 +580,40 @@ export class UnusedIdsTreeProvider
       return null;
     }
 
+    if (element.type === "block") {
+      return {
+        type: "blocksRoot",
+        label: "ID Blocks",
+        ...(element.project && { project: element.project }),
+      };
+    }
+
+    if (element.type === "blocksRoot" && !element.project) {
+      return (
+        this.getChildrenSharedMode().find(
+          (candidate) => candidate.type === "sharedRoot"
+        ) ?? null
+      );
+    }
+
     // Normal mode parent relationships
     if (
-      element.type === "gap" ||
+      (element.type === "gap" || element.type === "noGaps") &&
+      element.project &&
+      element.objectType
+    ) {
+      return {
+        type: "objectType",
+        label: this.formatObjectTypeName(element.objectType),
+        project: element.project,
+        objectType: element.objectType,
+      };
+    }
+
+    if (
+      element.type === "objectType" ||
       element.type === "noRanges" ||
-      element.type === "noGaps"
+      element.type === "blocksRoot"
     ) {
       if (element.project) {
         return {
@@ -412,18 +628,73 @@ export class UnusedIdsTreeProvider
   }
 
   /**
-   * Get the next available ID for a project (normal mode)
+   * Find the element to reveal for one of a project's ID ranges: the first
+   * gap inside the range, taking the object types in view order, or the
+   * project (the shared range root in shared mode) when the range is full
    */
-  public getNextAvailableId(project: ALProject): number | null {
-    const gaps = this.getProjectGaps(project);
-    if (gaps.length === 0) {
-      return null;
+  public findRangeElement(
+    project: ALProject,
+    range: IdRange
+  ): UnusedIdsTreeItemData | undefined {
+    const sharedMode = this.isSharedRangeMode();
+    const overlaps = (gap: { start: number; end: number }) =>
+      gap.start <= range.to && gap.end >= range.from;
+
+    for (const objectType of AL_OBJECT_TYPES_WITH_ID) {
+      if (sharedMode) {
+        const sharedGap = workspaceScanner
+          .calculateSharedGaps(this.projects, objectType)
+          .find(overlaps);
+        if (sharedGap) {
+          return {
+            type: "sharedGap",
+            label: this.formatGapLabel(sharedGap),
+            sharedGap,
+            objectType,
+          };
+        }
+      } else {
+        const gap = this.getProjectGaps(project, objectType).find(overlaps);
+        if (gap) {
+          return {
+            type: "gap",
+            label: this.formatGapLabel(gap),
+            project,
+            gap,
+            objectType,
+          };
+        }
+      }
     }
-    return gaps[0].start;
+
+    return sharedMode
+      ? this.getChildrenSharedMode().find(
+          (element) => element.type === "sharedRoot"
+        )
+      : { type: "project", label: project.name, project };
+  }
+
+  /**
+   * Format the label of a gap, e.g. "50010 - 50099"
+   */
+  private formatGapLabel(gap: { start: number; end: number }): string {
+    return gap.start === gap.end ? `${gap.start}` : `${gap.start} - ${gap.end}`;
+  }
+
+  /**
+   * Get the next available ID for an object type in a project (normal mode),
+   * from the current developer's ID blocks if any are assigned
+   */
+  public getNextAvailableId(
+    project: ALProject,
+    objectType: ALObjectTypeWithId
+  ): number | null {
+    return workspaceScanner.getNextAvailableId(project, objectType);
   }
 
   /**
-   * Get the next available ID for a specific object type (shared mode)
+   * Get the next available ID for a specific object type (shared mode), from
+   * the current developer's ID blocks if any are assigned
    */
   public getNextAvailableIdForType(
     objectType: ALObjectTypeWithId
@@ -4,35 +4,62 @@ import {
   ALObject,
   ObjectsByType,
   IdConflict,
+  DuplicateIdConflict,
   ALObjectWithFields,
   ALField,
   ALEnumValue,
   FieldConflict,
   EnumValueConflict,
+  ProjectDelta,
+  MemberConflictSeverity,
+  ObsoleteInfo,
+  AL_OBJECT_TYPES_WITH_ID,
+  ALObjectTypeWithId,
+  RangeExhaustion,
 } from "../types/index.js";
 import {
   workspaceScanner,
   ALProjectWithFields,
 } from "../services/workspaceScanner.js";
+import {
+  ExtendsTargetResolver,
+  getQualifiedName,
+} from "../services/qualifiedNames.js";
+import {
+  RETIRED_IDS_FILE_NAME,
+  getRetiredObjectIds,
+} from "../services/retiredIdsLedger.js";
+import { describeRangeExhaustion } from "../services/rangeCheck.js";
 
 /**
  * Tree item types for the Used IDs view
  */
 type TreeItemType =
   | "project"
+  | "namespace"
   | "objectType"
   | "object"
   | "conflictsRoot"
   | "conflict"
+  | "duplicatesRoot"
+  | "duplicate"
   | "fieldConflictsRoot"
   | "fieldConflict"
   | "enumValueConflictsRoot"
   | "enumValueConflict"
+  | "dependenciesRoot"
   | "baseTable"
   | "baseEnum"
   | "extensionObject"
   | "field"
-  | "enumValue";
+  | "enumValue"
+  | "retiredRoot"
+  | "retiredId";
+
+/**
+ * Which obsolete items and retired IDs are shown
+ */
+type ObsoleteFilter = "show" | "hide" | "only";
 
 /**
  * Base tree item for the Used IDs view
@@ -41,20 +68,30 @@ interface UsedIdsTreeItemData {
   type: TreeItemType;
   label: string;
   project?: ALProject;
+  /** The namespace grouped by ("" for objects without a namespace); undefined when not grouping */
+  namespace?: string;
   objectType?: string;
   object?: ALObject | ALObjectWithFields;
   conflict?: IdConflict;
+  duplicate?: DuplicateIdConflict;
   fieldConflict?: FieldConflict;
   enumValueConflict?: EnumValueConflict;
   baseObjectName?: string;
   field?: ALField & { projectName?: string; extensionName?: string };
   enumValue?: ALEnumValue & { projectName?: string; extensionName?: string };
+  /** For retired IDs: the retired object ID */
+  retiredId?: number;
 }
 
 /**
  * TreeDataProvider for displaying used object IDs organized by project and object type.
- * Hierarchy: App → Object Type → Objects (ID + name)
+ * Hierarchy: App → Object Type → Objects (ID + fully qualified name), or
+ * App → Namespace → Object Type → Objects (ID + name) when grouping by namespace.
+ * Always shows IDs declared more than once inside the same app.
  * In shared mode, also shows ID conflicts across projects, including field/enum value conflicts.
+ * Dependency apps read from .app packages are shown read-only in their own section.
+ * Obsolete objects, fields and values and retired IDs are struck through and
+ * can be hidden or shown exclusively.
  */
 export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeItemData> {
   private _onDidChangeTreeData = new vscode.EventEmitter<
@@ -63,18 +100,41 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private projects: ALProjectWithFields[] = [];
+  private dependencies: ALProjectWithFields[] = [];
   private conflicts: IdConflict[] = [];
+  private duplicates: DuplicateIdConflict[] = [];
   private fieldConflicts: FieldConflict[] = [];
   private enumValueConflicts: EnumValueConflict[] = [];
+  private rangeExhaustion: RangeExhaustion[] = [];
+  private resolver = new ExtendsTargetResolver([]);
 
   constructor() {}
 
   /**
-   * Check if shared range mode is enabled
+   * Check if field and enum value conflicts across apps are checked
+   */
+  private isMemberConflictCheckEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration("bcObjectRange");
+    return (
+      config.get<MemberConflictSeverity>("memberConflictSeverity", "error") !==
+      "off"
+    );
+  }
+
+  /**
+   * Check if objects are grouped by namespace below each project
+   */
+  private isGroupByNamespace(): boolean {
+    const config = vscode.workspace.getConfiguration("bcObjectRange");
+    return config.get<boolean>("groupByNamespace", false);
+  }
+
+  /**
+   * Get which obsolete items and retired IDs are shown
    */
-  private isSharedRangeMode(): boolean {
+  private getObsoleteFilter(): ObsoleteFilter {
     const config = vscode.workspace.getConfiguration("bcObjectRange");
-    return config.get<boolean>("sharedRangeMode", false);
+    return config.get<ObsoleteFilter>("obsoleteFilter", "show");
   }
 
   /**
@@ -83,23 +143,51 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
   public setProjects(projects: ALProject[]): void {
     // Cast to ALProjectWithFields since the parser now returns objects with fields
     this.projects = projects as ALProjectWithFields[];
-    // Detect conflicts in shared mode
-    if (this.isSharedRangeMode()) {
-      this.conflicts = workspaceScanner.detectConflicts(projects);
-      this.fieldConflicts = workspaceScanner.detectFieldConflicts(
-        this.projects,
-      );
-      this.enumValueConflicts = workspaceScanner.detectEnumValueConflicts(
-        this.projects,
-      );
-    } else {
-      this.conflicts = [];
-      this.fieldConflicts = [];
-      this.enumValueConflicts = [];
+    this.updateConflicts();
+    this.refresh();
+  }
+
+  /**
+   * Apply the deltas of an incremental re-scan. The projects were patched in
+   * place, so only the derived conflict state needs to be recalculated.
+   */
+  public applyDelta(deltas: ProjectDelta[]): void {
+    if (deltas.length === 0) {
+      return;
     }
+    this.updateConflicts();
     this.refresh();
   }
 
+  /**
+   * Recalculate conflicts for the current projects
+   */
+  private updateConflicts(): void {
+    this.dependencies =
+      workspaceScanner.getDependencies() as ALProjectWithFields[];
+    this.resolver = new ExtendsTargetResolver([
+      ...this.projects,
+      ...this.dependencies,
+    ]);
+
+    // Duplicates inside one app are an error in both modes
+    this.duplicates = workspaceScanner.detectDuplicateIds(this.projects);
+
+    // Detect conflicts across apps: object conflicts between all apps in
+    // shared mode and between apps that are installed together otherwise,
+    // field and enum value conflicts between all apps in both modes.
+    // Dependency apps take part, but only conflicts that involve a workspace
+    // project are reported. Field and enum value conflicts can be turned off.
+    const memberConflicts = this.isMemberConflictCheckEnabled();
+    const { conflicts, fieldConflicts, enumValueConflicts } =
+      workspaceScanner.detectWorkspaceConflicts(this.projects);
+    this.conflicts = conflicts;
+    this.fieldConflicts = memberConflicts ? fieldConflicts : [];
+    this.enumValueConflicts = memberConflicts ? enumValueConflicts : [];
+
+    this.rangeExhaustion = workspaceScanner.findRangeExhaustion(this.projects);
+  }
+
   /**
    * Refresh the tree view
    */
@@ -111,7 +199,15 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
    * Get the tree item representation
    */
   public getTreeItem(element: UsedIdsTreeItemData): vscode.TreeItem {
-    const treeItem = new vscode.TreeItem(element.label);
+    const obsolete =
+      element.object?.obsolete ??
+      element.field?.obsolete ??
+      element.enumValue?.obsolete;
+    const treeItem = new vscode.TreeItem(
+      obsolete || element.type === "retiredId"
+        ? this.strikeThrough(element.label)
+        : element.label,
+    );
 
     switch (element.type) {
       case "conflictsRoot":
@@ -121,11 +217,23 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
           new vscode.ThemeColor("editorWarning.foreground"),
         );
         treeItem.tooltip =
-          "Objects with the same type and ID exist in multiple projects";
+          "Objects with the same type and ID exist in apps that share a range or are installed together";
         treeItem.description = `${this.conflicts.length} conflicts`;
         treeItem.contextValue = "conflictsRoot";
         break;
 
+      case "duplicatesRoot":
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+        treeItem.iconPath = new vscode.ThemeIcon(
+          "warning",
+          new vscode.ThemeColor("editorWarning.foreground"),
+        );
+        treeItem.tooltip =
+          "Objects with the same type and ID are declared more than once in the same project";
+        treeItem.description = `${this.duplicates.length} duplicates`;
+        treeItem.contextValue = "duplicatesRoot";
+        break;
+
       case "fieldConflictsRoot":
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
         treeItem.iconPath = new vscode.ThemeIcon(
@@ -133,7 +241,7 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
           new vscode.ThemeColor("editorWarning.foreground"),
         );
         treeItem.tooltip =
-          "Fields with the same ID exist in multiple tableextensions for the same base table";
+          "Fields with the same ID or name exist in tableextensions of different apps for the same base table";
         treeItem.description = `${this.fieldConflicts.length} conflicts`;
         treeItem.contextValue = "fieldConflictsRoot";
         break;
@@ -145,23 +253,14 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
           new vscode.ThemeColor("editorWarning.foreground"),
         );
         treeItem.tooltip =
-          "Enum values with the same ID exist in multiple enumextensions for the same base enum";
+          "Enum values with the same ID or name exist in enumextensions of different apps for the same base enum";
         treeItem.description = `${this.enumValueConflicts.length} conflicts`;
         treeItem.contextValue = "enumValueConflictsRoot";
         break;
 
       case "conflict": {
         const conflict = element.conflict!;
-        const projectNames = [
-          ...new Set(
-            conflict.objects.map((o) => {
-              const project = this.projects.find((p) =>
-                o.filePath.startsWith(p.rootPath),
-              );
-              return project?.name || "Unknown";
-            }),
-          ),
-        ].join(", ");
+        const projectNames = conflict.projectNames.join(", ");
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
         treeItem.iconPath = new vscode.ThemeIcon(
           "error",
@@ -171,7 +270,10 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
           `**Conflict:** ${conflict.type} ${conflict.id}\n\n` +
             `Used in: ${projectNames}\n\n` +
             conflict.objects
-              .map((o) => `- ${o.name} (${o.filePath})`)
+              .map(
+                (o) =>
+                  `- ${getQualifiedName(o.name, o.namespace)} (${o.filePath})`,
+              )
               .join("\n"),
         );
         treeItem.description = projectNames;
@@ -185,6 +287,28 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
         break;
       }
 
+      case "duplicate": {
+        const duplicate = element.duplicate!;
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        treeItem.iconPath = new vscode.ThemeIcon(
+          "error",
+          new vscode.ThemeColor("editorError.foreground"),
+        );
+        treeItem.tooltip = new vscode.MarkdownString(
+          `**Duplicate:** ${duplicate.type} ${duplicate.id}\n\n` +
+            `Declared ${duplicate.objects.length} times in: ${duplicate.projectName}\n\n` +
+            duplicate.objects
+              .map(
+                (o) =>
+                  `- ${getQualifiedName(o.name, o.namespace)} (${o.filePath})`,
+              )
+              .join("\n"),
+        );
+        treeItem.description = duplicate.projectName;
+        treeItem.contextValue = "duplicate";
+        break;
+      }
+
       case "fieldConflict": {
         const fieldConflict = element.fieldConflict!;
         const projectNames = [
@@ -196,7 +320,7 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
           new vscode.ThemeColor("editorError.foreground"),
         );
         treeItem.tooltip = new vscode.MarkdownString(
-          `**Field Conflict:** ID ${fieldConflict.fieldId} in "${fieldConflict.baseTable}" extensions\n\n` +
+          `**Field Conflict:** ${this.describeMemberConflict(fieldConflict.kind, fieldConflict.fieldId, fieldConflict.fieldName)} in "${fieldConflict.baseTable}" extensions\n\n` +
             `Used in: ${projectNames}\n\n` +
             fieldConflict.fields
               .map(
@@ -220,7 +344,7 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
           new vscode.ThemeColor("editorError.foreground"),
         );
         treeItem.tooltip = new vscode.MarkdownString(
-          `**Enum Value Conflict:** ID ${enumConflict.valueId} in "${enumConflict.baseEnum}" extensions\n\n` +
+          `**Enum Value Conflict:** ${this.describeMemberConflict(enumConflict.kind, enumConflict.valueId, enumConflict.valueName)} in "${enumConflict.baseEnum}" extensions\n\n` +
             `Used in: ${projectNames}\n\n` +
             enumConflict.values
               .map(
@@ -246,9 +370,13 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
             `Extension: ${field.extensionName || "Unknown"}\n\n` +
             `Project: ${field.projectName || "Unknown"}\n\n` +
             `File: ${field.filePath}\n\n` +
-            `Line: ${field.lineNumber}`,
+            `Line: ${field.lineNumber}` +
+            this.getObsoleteTooltip(field.obsolete),
+        );
+        treeItem.description = this.withObsoleteDescription(
+          `${field.projectName} / ${field.extensionName}`,
+          field.obsolete,
         );
-        treeItem.description = `${field.projectName} / ${field.extensionName}`;
         treeItem.contextValue = "field";
         treeItem.command = {
           command: "bcObjectRange.openFile",
@@ -272,9 +400,13 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
             `Extension: ${enumValue.extensionName || "Unknown"}\n\n` +
             `Project: ${enumValue.projectName || "Unknown"}\n\n` +
             `File: ${enumValue.filePath}\n\n` +
-            `Line: ${enumValue.lineNumber}`,
+            `Line: ${enumValue.lineNumber}` +
+            this.getObsoleteTooltip(enumValue.obsolete),
+        );
+        treeItem.description = this.withObsoleteDescription(
+          `${enumValue.projectName} / ${enumValue.extensionName}`,
+          enumValue.obsolete,
         );
-        treeItem.description = `${enumValue.projectName} / ${enumValue.extensionName}`;
         treeItem.contextValue = "enumValue";
         treeItem.command = {
           command: "bcObjectRange.openFile",
@@ -286,21 +418,79 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
         break;
       }
 
-      case "project":
+      case "retiredRoot": {
+        const count = this.getRetiredIds(element.project!).length;
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        treeItem.iconPath = new vscode.ThemeIcon("archive");
+        treeItem.tooltip = `IDs recorded in ${RETIRED_IDS_FILE_NAME} that are no longer declared. They are never offered as free again.`;
+        treeItem.description = `${count}`;
+        treeItem.contextValue = "retiredRoot";
+        break;
+      }
+
+      case "retiredId":
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        treeItem.iconPath = this.getObjectTypeIcon(element.objectType!);
+        treeItem.tooltip = new vscode.MarkdownString(
+          `**Retired:** ${element.objectType} ${element.retiredId}\n\n` +
+            `Recorded in ${RETIRED_IDS_FILE_NAME} of ${element.project!.name} but no longer declared. The ID must not be reused.`,
+        );
+        treeItem.description = "retired";
+        treeItem.contextValue = "retiredId";
+        break;
+
+      case "dependenciesRoot":
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        treeItem.iconPath = new vscode.ThemeIcon("package");
+        treeItem.tooltip =
+          "Read-only apps from the .alpackages folders of the projects";
+        treeItem.description = `${this.dependencies.length} apps`;
+        treeItem.contextValue = "dependenciesRoot";
+        break;
+
+      case "project": {
+        const dependency = element.project?.dependency;
+        const objectCount = element.project?.objects.length ?? 0;
+        if (dependency) {
+          treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+          treeItem.iconPath = new vscode.ThemeIcon("package");
+          treeItem.tooltip = new vscode.MarkdownString(
+            `**${element.project!.name}** (read-only)\n\n` +
+              `Publisher: ${dependency.publisher}\n\n` +
+              `Version: ${dependency.version}\n\n` +
+              `Package: ${dependency.packagePath}`,
+          );
+          treeItem.description = `${dependency.publisher} ${dependency.version} · ${objectCount} objects`;
+          treeItem.contextValue = "dependencyProject";
+          break;
+        }
+
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
-        treeItem.iconPath = new vscode.ThemeIcon("folder-library");
-        treeItem.tooltip = element.project?.rootPath;
-        treeItem.description = `${
-          element.project?.objects.length ?? 0
-        } objects`;
+        treeItem.iconPath =
+          this.getRangeExhaustionIcon(element.project!) ??
+          new vscode.ThemeIcon("folder-library");
+        treeItem.tooltip = this.getProjectTooltip(element.project!);
+        treeItem.description = `${objectCount} objects`;
         treeItem.contextValue = "project";
         break;
+      }
+
+      case "namespace": {
+        const objectCount = this.getNamespaceObjects(element).length;
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        treeItem.iconPath = new vscode.ThemeIcon("symbol-namespace");
+        treeItem.tooltip = element.namespace
+          ? `Namespace ${element.namespace}`
+          : "Objects declared without a namespace";
+        treeItem.description = `${objectCount}`;
+        treeItem.contextValue = "namespace";
+        break;
+      }
 
       case "objectType": {
-        const objectCount =
-          element.project?.objects.filter(
-            (obj) => obj.type === element.objectType,
-          ).length ?? 0;
+        const objectCount = this.getNamespaceObjects(element).filter(
+          (obj) => obj.type === element.objectType,
+        ).length;
         treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
         treeItem.iconPath = this.getObjectTypeIcon(element.objectType!);
         treeItem.description = `${objectCount}`;
@@ -310,44 +500,59 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
 
       case "object": {
         const obj = element.object! as ALObjectWithFields;
-        // Check if this object has a conflict in shared mode
-        const hasConflict =
-          this.isSharedRangeMode() &&
-          this.conflicts.some((c) => c.type === obj.type && c.id === obj.id);
+        const baseName = this.resolver.resolve(obj);
+        // Check if this object has a conflict with another app
+        const hasConflict = this.conflicts.some(
+          (c) =>
+            c.type === obj.type && c.id === obj.id && c.objects.includes(obj),
+        );
+
+        // Check if this object is declared more than once in its project
+        const isDuplicate = this.duplicates.some(
+          (d) =>
+            d.type === obj.type && d.id === obj.id && d.objects.includes(obj),
+        );
 
         // Check if any fields/values have conflicts
         const hasFieldConflicts =
-          this.isSharedRangeMode() &&
           obj.type === "tableextension" &&
-          obj.extendsObject &&
+          baseName &&
           obj.fields &&
           obj.fields.some((f) =>
             this.fieldConflicts.some(
-              (fc) => fc.baseTable === obj.extendsObject && fc.fieldId === f.id,
+              (fc) =>
+                fc.baseTable.toLowerCase() === baseName.toLowerCase() &&
+                (fc.kind === "id"
+                  ? fc.fieldId === f.id
+                  : fc.fieldName.toLowerCase() === f.name.toLowerCase()),
             ),
           );
 
         const hasEnumValueConflicts =
-          this.isSharedRangeMode() &&
           obj.type === "enumextension" &&
-          obj.extendsObject &&
+          baseName &&
           obj.enumValues &&
           obj.enumValues.some((v) =>
             this.enumValueConflicts.some(
-              (ec) => ec.baseEnum === obj.extendsObject && ec.valueId === v.id,
+              (ec) =>
+                ec.baseEnum.toLowerCase() === baseName.toLowerCase() &&
+                (ec.kind === "id"
+                  ? ec.valueId === v.id
+                  : ec.valueName.toLowerCase() === v.name.toLowerCase()),
             ),
           );
 
-        // Determine collapsibility based on whether object has fields/values
-        const hasChildren =
-          (obj.fields && obj.fields.length > 0) ||
-          (obj.enumValues && obj.enumValues.length > 0);
+        // Determine collapsibility based on whether object has visible fields/values
+        const hasChildren = this.getChildren(element).length > 0;
         treeItem.collapsibleState = hasChildren
           ? vscode.TreeItemCollapsibleState.Collapsed
           : vscode.TreeItemCollapsibleState.None;
 
         treeItem.iconPath =
-          hasConflict || hasFieldConflicts || hasEnumValueConflicts
+          hasConflict ||
+          isDuplicate ||
+          hasFieldConflicts ||
+          hasEnumValueConflicts
             ? new vscode.ThemeIcon(
                 "warning",
                 new vscode.ThemeColor("editorWarning.foreground"),
@@ -355,12 +560,12 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
             : this.getObjectTypeIcon(obj.type);
 
         let tooltipText =
-          `**${obj.type}** ${obj.id} "${obj.name}"\n\n` +
+          `**${obj.type}** ${obj.id} "${getQualifiedName(obj.name, obj.namespace)}"\n\n` +
           `File: ${obj.filePath}\n\n` +
           `Line: ${obj.lineNumber}`;
 
-        if (obj.extendsObject) {
-          tooltipText += `\n\nExtends: "${obj.extendsObject}"`;
+        if (baseName) {
+          tooltipText += `\n\nExtends: "${baseName}"`;
         }
 
         if (obj.fields && obj.fields.length > 0) {
@@ -376,24 +581,41 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
             "\n\n⚠️ **Conflict:** This object ID is used by another project";
         }
 
+        if (isDuplicate) {
+          tooltipText +=
+            "\n\n⚠️ **Duplicate:** This object ID is declared more than once in this project";
+        }
+
         if (hasFieldConflicts) {
           tooltipText +=
-            "\n\n⚠️ **Field Conflicts:** Some fields have conflicting IDs with other extensions";
+            "\n\n⚠️ **Field Conflicts:** Some fields have conflicting IDs or names with other extensions";
         }
 
         if (hasEnumValueConflicts) {
           tooltipText +=
-            "\n\n⚠️ **Value Conflicts:** Some values have conflicting IDs with other extensions";
+            "\n\n⚠️ **Value Conflicts:** Some values have conflicting IDs or names with other extensions";
         }
 
+        if (element.project?.dependency) {
+          tooltipText += `\n\n📦 Read-only, from ${element.project.name}`;
+        }
+
+        tooltipText += this.getObsoleteTooltip(obj.obsolete);
+
         treeItem.tooltip = new vscode.MarkdownString(tooltipText);
+        if (obj.obsolete) {
+          treeItem.description = this.withObsoleteDescription("", obj.obsolete);
+        }
         treeItem.command = {
           command: "bcObjectRange.openFile",
           title: "Open File",
           arguments: [obj],
         };
         treeItem.contextValue =
-          hasConflict || hasFieldConflicts || hasEnumValueConflicts
+          hasConflict ||
+          isDuplicate ||
+          hasFieldConflicts ||
+          hasEnumValueConflicts
             ? "objectConflict"
             : "object";
         break;
@@ -411,25 +633,33 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
       // Root level
       const items: UsedIdsTreeItemData[] = [];
 
-      // In shared mode, show conflicts sections first if there are any
-      if (this.isSharedRangeMode() && this.conflicts.length > 0) {
+      // Show duplicates inside a single app first, in both modes
+      if (this.duplicates.length > 0) {
+        items.push({
+          type: "duplicatesRoot" as const,
+          label: "⚠️ Duplicate IDs",
+        });
+      }
+
+      // Show conflicts sections if there are any
+      if (this.conflicts.length > 0) {
         items.push({
           type: "conflictsRoot" as const,
           label: "⚠️ ID Conflicts",
         });
       }
 
-      if (this.isSharedRangeMode() && this.fieldConflicts.length > 0) {
+      if (this.fieldConflicts.length > 0) {
         items.push({
           type: "fieldConflictsRoot" as const,
-          label: "⚠️ Field ID Conflicts",
+          label: "⚠️ Field Conflicts",
         });
       }
 
-      if (this.isSharedRangeMode() && this.enumValueConflicts.length > 0) {
+      if (this.enumValueConflicts.length > 0) {
         items.push({
           type: "enumValueConflictsRoot" as const,
-          label: "⚠️ Enum Value ID Conflicts",
+          label: "⚠️ Enum Value Conflicts",
         });
       }
 
@@ -442,9 +672,25 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
         })),
       );
 
+      // Read-only dependency apps last
+      if (this.dependencies.length > 0) {
+        items.push({
+          type: "dependenciesRoot" as const,
+          label: "Dependencies",
+        });
+      }
+
       return items;
     }
 
+    if (element.type === "dependenciesRoot") {
+      return this.dependencies.map((project) => ({
+        type: "project" as const,
+        label: project.name,
+        project,
+      }));
+    }
+
     if (element.type === "conflictsRoot") {
       // Show individual conflicts
       return this.conflicts.map((conflict) => ({
@@ -454,11 +700,37 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
       }));
     }
 
+    if (element.type === "duplicatesRoot") {
+      // Show individual duplicates
+      return this.duplicates.map((duplicate) => ({
+        type: "duplicate" as const,
+        label: `${this.formatObjectTypeName(duplicate.type)} ${duplicate.id}`,
+        duplicate,
+      }));
+    }
+
+    if (element.type === "duplicate") {
+      // Show every declaration of the duplicated ID
+      const duplicate = element.duplicate!;
+      const project = this.projects.find((p) =>
+        p.objects.includes(duplicate.objects[0]),
+      );
+      return duplicate.objects.map((obj) => ({
+        type: "object" as const,
+        label: `${obj.id} ${getQualifiedName(obj.name, obj.namespace)}`,
+        project,
+        object: obj,
+      }));
+    }
+
     if (element.type === "fieldConflictsRoot") {
       // Show individual field conflicts
       return this.fieldConflicts.map((fieldConflict) => ({
         type: "fieldConflict" as const,
-        label: `Field ${fieldConflict.fieldId}`,
+        label:
+          fieldConflict.kind === "id"
+            ? `Field ${fieldConflict.fieldId}`
+            : `Field "${fieldConflict.fieldName}"`,
         fieldConflict,
       }));
     }
@@ -467,7 +739,10 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
       // Show individual enum value conflicts
       return this.enumValueConflicts.map((enumValueConflict) => ({
         type: "enumValueConflict" as const,
-        label: `Value ${enumValueConflict.valueId}`,
+        label:
+          enumValueConflict.kind === "id"
+            ? `Value ${enumValueConflict.valueId}`
+            : `Value "${enumValueConflict.valueName}"`,
         enumValueConflict,
       }));
     }
@@ -492,29 +767,68 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
       }));
     }
 
-    if (element.type === "project") {
-      // Project level: return object types that have objects
-      const objectsByType = this.groupObjectsByType(element.project!.objects);
+    if (element.type === "project" && this.isGroupByNamespace()) {
+      // Project level when grouping: return the namespaces that have objects
+      const namespaces = [
+        ...new Set(
+          this.getNamespaceObjects(element).map((obj) => obj.namespace ?? ""),
+        ),
+      ].sort((a, b) => (a && b ? a.localeCompare(b) : a ? -1 : 1));
+
+      return [
+        ...namespaces.map((namespace) =>
+          this.createNamespaceItem(element.project!, namespace),
+        ),
+        ...this.getRetiredRootItems(element.project!),
+      ];
+    }
+
+    if (element.type === "project" || element.type === "namespace") {
+      // Project or namespace level: return object types that have objects
+      const objectsByType = this.groupObjectsByType(
+        this.getNamespaceObjects(element),
+      );
       const types = Object.keys(objectsByType).sort();
 
-      return types.map((objectType) => ({
+      const items: UsedIdsTreeItemData[] = types.map((objectType) => ({
         type: "objectType" as const,
         label: this.formatObjectTypeName(objectType),
         project: element.project,
+        namespace: element.namespace,
         objectType,
       }));
+      if (element.type === "project") {
+        items.push(...this.getRetiredRootItems(element.project!));
+      }
+      return items;
+    }
+
+    if (element.type === "retiredRoot") {
+      // Retired IDs of the project, by object type and ID
+      return this.getRetiredIds(element.project!).map(({ type, id }) => ({
+        type: "retiredId" as const,
+        label: `${this.formatObjectTypeName(type)} ${id}`,
+        project: element.project,
+        objectType: type,
+        retiredId: id,
+      }));
     }
 
     if (element.type === "objectType") {
       // Object type level: return individual objects sorted by ID
-      const objects = element
-        .project!.objects.filter((obj) => obj.type === element.objectType)
+      const objects = this.getNamespaceObjects(element)
+        .filter((obj) => obj.type === element.objectType)
         .sort((a, b) => a.id - b.id);
 
       return objects.map((obj) => ({
         type: "object" as const,
-        label: `${obj.id} ${obj.name}`,
+        // The namespace is already shown by the parent when grouping
+        label:
+          element.namespace === undefined
+            ? `${obj.id} ${getQualifiedName(obj.name, obj.namespace)}`
+            : `${obj.id} ${obj.name}`,
         project: element.project,
+        namespace: element.namespace,
         object: obj,
       }));
     }
@@ -523,13 +837,21 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
       // Object level: show fields for tableextension, values for enumextension
       const obj = element.object as ALObjectWithFields;
       const items: UsedIdsTreeItemData[] = [];
+      const filter = this.getObsoleteFilter();
+      const isVisible = (child: { obsolete?: ObsoleteInfo }) =>
+        filter === "show" ||
+        (filter === "hide"
+          ? !child.obsolete
+          : Boolean(obj.obsolete || child.obsolete));
 
       if (
         (obj.type === "table" || obj.type === "tableextension") &&
         obj.fields &&
         obj.fields.length > 0
       ) {
-        for (const field of obj.fields.sort((a, b) => a.id - b.id)) {
+        for (const field of obj.fields
+          .filter(isVisible)
+          .sort((a, b) => a.id - b.id)) {
           items.push({
             type: "field" as const,
             label: `${field.id} ${field.name}`,
@@ -547,7 +869,9 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
         obj.enumValues &&
         obj.enumValues.length > 0
       ) {
-        for (const value of obj.enumValues.sort((a, b) => a.id - b.id)) {
+        for (const value of obj.enumValues
+          .filter(isVisible)
+          .sort((a, b) => a.id - b.id)) {
           items.push({
             type: "enumValue" as const,
             label: `${value.id} ${value.name}`,
@@ -566,6 +890,123 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
     return [];
   }
 
+  /**
+   * Get the objects of an element's project that pass the obsolete filter,
+   * limited to the element's namespace when grouping by namespace
+   */
+  private getNamespaceObjects(element: UsedIdsTreeItemData): ALObject[] {
+    const objects = (element.project?.objects ?? []).filter((obj) =>
+      this.matchesObsoleteFilter(obj),
+    );
+    if (element.namespace === undefined) {
+      return objects;
+    }
+    return objects.filter((obj) => (obj.namespace ?? "") === element.namespace);
+  }
+
+  /**
+   * Check whether an object is shown with the current obsolete filter. When
+   * only obsolete items are shown, objects with obsolete fields or values
+   * are shown as well.
+   */
+  private matchesObsoleteFilter(obj: ALObjectWithFields): boolean {
+    switch (this.getObsoleteFilter()) {
+      case "hide":
+        return !obj.obsolete;
+      case "only":
+        return Boolean(
+          obj.obsolete ||
+          obj.fields?.some((field) => field.obsolete) ||
+          obj.enumValues?.some((value) => value.obsolete),
+        );
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Get the retired object IDs of a project, sorted by type and ID
+   */
+  private getRetiredIds(
+    project: ALProject,
+  ): { type: ALObjectTypeWithId; id: number }[] {
+    return [...AL_OBJECT_TYPES_WITH_ID].sort().flatMap((type) =>
+      getRetiredObjectIds(project, type)
+        .sort((a, b) => a - b)
+        .map((id) => ({ type, id })),
+    );
+  }
+
+  /**
+   * Get the "Retired IDs" item of a project, if it has retired IDs and the
+   * obsolete filter does not hide them
+   */
+  private getRetiredRootItems(project: ALProject): UsedIdsTreeItemData[] {
+    if (
+      this.getObsoleteFilter() === "hide" ||
+      this.getRetiredIds(project).length === 0
+    ) {
+      return [];
+    }
+    return [{ type: "retiredRoot", label: "Retired IDs", project }];
+  }
+
+  /**
+   * Strike a label through with combining characters, since tree items
+   * cannot be styled
+   */
+  private strikeThrough(text: string): string {
+    return [...text].map((char) => `${char}\u0336`).join("");
+  }
+
+  /**
+   * Append the obsolete state (and tag) to a tree item description
+   */
+  private withObsoleteDescription(
+    description: string,
+    obsolete: ObsoleteInfo | undefined,
+  ): string {
+    if (!obsolete) {
+      return description;
+    }
+    const state = obsolete.tag
+      ? `Obsolete ${obsolete.state} (${obsolete.tag})`
+      : `Obsolete ${obsolete.state}`;
+    return description ? `${description} · ${state}` : state;
+  }
+
+  /**
+   * Get the tooltip lines that describe an obsolete declaration
+   */
+  private getObsoleteTooltip(obsolete: ObsoleteInfo | undefined): string {
+    if (!obsolete) {
+      return "";
+    }
+    let text = `\n\n🚫 **Obsolete (${obsolete.state})**`;
+    if (obsolete.reason) {
+      text += `: ${obsolete.reason}`;
+    }
+    if (obsolete.tag) {
+      text += `\n\nObsolete tag: ${obsolete.tag}`;
+    }
+    return text;
+  }
+
+  /**
+   * Create the tree item of a namespace inside a project
+   */
+  private createNamespaceItem(
+    project: ALProject,
+    namespace: string,
+  ): UsedIdsTreeItemData {
+    return {
+      type: "namespace",
+      label: namespace || "(no namespace)",
+      project,
+      namespace,
+    };
+  }
+
   /**
    * Group objects by their type
    */
@@ -582,6 +1023,81 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
     return grouped;
   }
 
+  /**
+   * Get the tooltip of a workspace project: its folder, the apps it depends
+   * on and the versions it targets
+   */
+  private getProjectTooltip(project: ALProject): string {
+    const lines = [project.rootPath];
+    if (project.dependencies && project.dependencies.length > 0) {
+      lines.push(
+        `Depends on: ${project.dependencies
+          .map((dependency) => dependency.name || dependency.id)
+          .join(", ")}`,
+      );
+    }
+    if (project.application) {
+      lines.push(`Application: ${project.application}`);
+    }
+    if (project.platform) {
+      lines.push(`Platform: ${project.platform}`);
+    }
+    if (project.runtime) {
+      lines.push(`Runtime: ${project.runtime}`);
+    }
+    lines.push(
+      ...this.getRangeExhaustion(project).map((exhaustion) =>
+        describeRangeExhaustion(exhaustion),
+      ),
+    );
+    return lines.join("\n");
+  }
+
+  /**
+   * Get the usage thresholds crossed by a project's ranges. In shared range
+   * mode the shared range applies to every project.
+   */
+  private getRangeExhaustion(project: ALProject): RangeExhaustion[] {
+    return this.rangeExhaustion.filter(
+      (exhaustion) =>
+        !exhaustion.project || exhaustion.project.rootPath === project.rootPath,
+    );
+  }
+
+  /**
+   * Get the warning or error icon of a project whose ranges crossed a usage
+   * threshold, or undefined if they didn't
+   */
+  private getRangeExhaustionIcon(
+    project: ALProject,
+  ): vscode.ThemeIcon | undefined {
+    const exhaustion = this.getRangeExhaustion(project);
+    if (exhaustion.length === 0) {
+      return undefined;
+    }
+    return exhaustion.some((entry) => entry.level === "error")
+      ? new vscode.ThemeIcon(
+          "error",
+          new vscode.ThemeColor("editorError.foreground"),
+        )
+      : new vscode.ThemeIcon(
+          "warning",
+          new vscode.ThemeColor("editorWarning.foreground"),
+        );
+  }
+
+  /**
+   * Describe what a field or enum value conflict shares, e.g. `ID 50000` or
+   * `name "Code"`
+   */
+  private describeMemberConflict(
+    kind: "id" | "name",
+    id: number,
+    name: string,
+  ): string {
+    return kind === "id" ? `ID ${id}` : `name "${name}"`;
+  }
+
   /**
    * Format object type name for display (capitalize first letter)
    */
@@ -619,15 +1135,35 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
    */
   public getParent(element: UsedIdsTreeItemData): UsedIdsTreeItemData | null {
     if (element.type === "object") {
+      const namespace = this.isGroupByNamespace()
+        ? (element.object!.namespace ?? "")
+        : undefined;
       return {
         type: "objectType",
         label: this.formatObjectTypeName(element.object!.type),
         project: element.project,
+        namespace,
         objectType: element.object!.type,
       };
     }
 
-    if (element.type === "objectType") {
+    if (element.type === "retiredId") {
+      return {
+        type: "retiredRoot",
+        label: "Retired IDs",
+        project: element.project,
+      };
+    }
+
+    if (element.type === "objectType" && element.namespace !== undefined) {
+      return this.createNamespaceItem(element.project!, element.namespace);
+    }
+
+    if (
+      element.type === "objectType" ||
+      element.type === "namespace" ||
+      element.type === "retiredRoot"
+    ) {
       return {
         type: "project",
         label: element.project!.name,
@@ -635,6 +1171,13 @@ export class UsedIdsTreeProvider implements vscode.TreeDataProvider<UsedIdsTreeI
       };
     }
 
+    if (element.type === "project" && element.project?.dependency) {
+      return {
+        type: "dependenciesRoot",
+        label: "Dependencies",
+      };
+    }
+
     return null;
   }
 }
@@ -0,0 +1,205 @@
+import * as path from "path";
+import {
+  ALProject,
+  IdRange,
+  MemberConflictSeverity,
+  WorkspaceAnalysis,
+} from "../types/index.js";
+import {
+  getProblemSeverity,
+  PROBLEM_DESCRIPTIONS,
+  ProblemCode,
+  ProblemSeverity,
+  RangeProblem,
+} from "../services/rangeCheck.js";
+
+/**
+ * Version of the report format. Increased whenever a property is removed or
+ * changes meaning; new optional properties do not change the version.
+ */
+export const REPORT_SCHEMA_VERSION = 1;
+
+/**
+ * Name of the tool in generated reports
+ */
+export const REPORT_TOOL_NAME = "BC Object Range Analyzer";
+
+/**
+ * A file location in a report. Paths inside the report root are relative and
+ * use forward slashes; other paths (e.g. dependency packages) are absolute.
+ */
+export interface ReportLocation {
+  /** The file path */
+  filePath: string;
+  /** The line number (1-based) */
+  lineNumber: number;
+}
+
+/**
+ * A rule that was checked
+ */
+export interface ReportRule {
+  /** The problem code */
+  id: ProblemCode;
+  /** Short description of the rule */
+  description: string;
+  /** The severity problems of the rule are reported with */
+  level: ProblemSeverity;
+}
+
+/**
+ * A problem found by the analysis
+ */
+export interface ReportProblem extends ReportLocation {
+  /** The problem code */
+  rule: ProblemCode;
+  /** The name of the app the problem is reported in */
+  app: string;
+  /** Human-readable description */
+  message: string;
+  /** Other declarations involved in the problem */
+  related: Array<ReportLocation & { message: string }>;
+}
+
+/**
+ * An object declared by an app
+ */
+export interface ReportObject extends ReportLocation {
+  type: string;
+  id: number;
+  name: string;
+}
+
+/**
+ * An analyzed app
+ */
+export interface ReportApp {
+  name: string;
+  /** The app ID from app.json (lowercase) */
+  appId?: string;
+  /** The project folder */
+  rootPath: string;
+  idRanges: IdRange[];
+  objects: ReportObject[];
+}
+
+/**
+ * A dependency app read from an .app package
+ */
+export interface ReportDependency {
+  name: string;
+  appId?: string;
+  publisher: string;
+  version: string;
+  objectCount: number;
+}
+
+/**
+ * Result of an analysis in a stable, versioned format. This is the JSON
+ * report and the source of the SARIF and JUnit reports.
+ */
+export interface AnalysisReport {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  tool: { name: string; version?: string };
+  /** Time of the analysis (ISO 8601) */
+  generatedAt: string;
+  /** Absolute path that relative paths in the report are based on */
+  rootPath: string;
+  sharedRangeMode: boolean;
+  /** The rules that were checked */
+  rules: ReportRule[];
+  apps: ReportApp[];
+  dependencies: ReportDependency[];
+  problems: ReportProblem[];
+}
+
+/**
+ * Options for creating a report
+ */
+export interface AnalysisReportOptions {
+  /** Absolute path that file paths are made relative to */
+  rootPath: string;
+  sharedRangeMode: boolean;
+  /** The problem codes that were checked */
+  checkedCodes: ProblemCode[];
+  /** The configured severity of field and enum value conflicts */
+  memberConflictSeverity: MemberConflictSeverity;
+  /** Dependency apps that took part in the analysis */
+  dependencies: ALProject[];
+  /** Version of the extension or command line tool */
+  toolVersion?: string;
+}
+
+/**
+ * Create a report from an analysis and the problems found in it
+ */
+export function createAnalysisReport(
+  analysis: WorkspaceAnalysis,
+  problems: RangeProblem[],
+  options: AnalysisReportOptions,
+): AnalysisReport {
+  const toReportPath = (filePath: string) =>
+    toRelativePath(options.rootPath, filePath);
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    tool: { name: REPORT_TOOL_NAME, version: options.toolVersion },
+    generatedAt: analysis.timestamp.toISOString(),
+    rootPath: options.rootPath,
+    sharedRangeMode: options.sharedRangeMode,
+    rules: options.checkedCodes.map((id) => ({
+      id,
+      description: PROBLEM_DESCRIPTIONS[id],
+      level: getProblemSeverity(id, options.memberConflictSeverity),
+    })),
+    apps: analysis.projects.map((project) => ({
+      name: project.name,
+      appId: project.appId,
+      rootPath: toReportPath(project.rootPath),
+      idRanges: project.idRanges,
+      objects: project.objects.map((obj) => ({
+        type: obj.type,
+        id: obj.id,
+        name: obj.name,
+        filePath: toReportPath(obj.filePath),
+        lineNumber: obj.lineNumber,
+      })),
+    })),
+    dependencies: options.dependencies.map((dependency) => ({
+      name: dependency.name,
+      appId: dependency.appId,
+      publisher: dependency.dependency?.publisher ?? "",
+      version: dependency.dependency?.version ?? "",
+      objectCount: dependency.objects.length,
+    })),
+    problems: [...problems]
+      .sort(
+        (a, b) =>
+          a.filePath.localeCompare(b.filePath) || a.lineNumber - b.lineNumber,
+      )
+      .map((problem) => ({
+        rule: problem.code,
+        app: problem.projectName,
+        message: problem.message,
+        filePath: toReportPath(problem.filePath),
+        lineNumber: problem.lineNumber,
+        related: problem.related.map((related) => ({
+          filePath: toReportPath(related.filePath),
+          lineNumber: related.lineNumber,
+          message: related.message,
+        })),
+      })),
+  };
+}
+
+/**
+ * Make a path relative to the root with forward slashes. Paths outside the
+ * root stay absolute.
+ */
+function toRelativePath(rootPath: string, filePath: string): string {
+  const relative = path.relative(rootPath, filePath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return filePath;
+  }
+  return relative.replace(/\\/g, "/") || ".";
+}
@@ -0,0 +1,92 @@
+import { AnalysisReport, ReportProblem } from "./analysisReport.js";
+
+/**
+ * Write a report as JUnit XML. Each app is a test suite with one test case
+ * per checked rule; a test case fails when an error rule found problems in
+ * the app, listing every problem in the failure text. Problems of warning,
+ * information and hint rules are listed in the output of a passing test case.
+ */
+export function writeJUnitReport(report: AnalysisReport): string {
+  // Map: app name -> rule -> problems
+  const problemsByApp = new Map<string, Map<string, ReportProblem[]>>();
+  for (const problem of report.problems) {
+    const byRule = problemsByApp.get(problem.app) || new Map();
+    const existing = byRule.get(problem.rule) || [];
+    existing.push(problem);
+    byRule.set(problem.rule, existing);
+    problemsByApp.set(problem.app, byRule);
+  }
+
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  for (const app of report.apps) {
+    const byRule = problemsByApp.get(app.name);
+    const cases: string[] = [];
+    let failures = 0;
+
+    for (const rule of report.rules) {
+      const problems = byRule?.get(rule.id) ?? [];
+      const testCase =
+        `    <testcase classname="${escapeXml(app.name)}" ` +
+        `name="${escapeXml(rule.id)}"`;
+
+      if (problems.length === 0) {
+        cases.push(`${testCase} />`);
+        continue;
+      }
+
+      const details = problems
+        .map((p) => `${p.filePath}:${p.lineNumber}: ${p.message}`)
+        .join("\n");
+      if (rule.level !== "error") {
+        cases.push(
+          `${testCase}>\n` +
+            `      <system-out>${escapeXml(details)}</system-out>\n` +
+            `    </testcase>`,
+        );
+        continue;
+      }
+
+      failures++;
+      cases.push(
+        `${testCase}>\n` +
+          `      <failure type="${escapeXml(rule.id)}" ` +
+          `message="${escapeXml(`${problems.length} problem(s): ${rule.description}`)}">` +
+          `${escapeXml(details)}</failure>\n` +
+          `    </testcase>`,
+      );
+    }
+
+    totalTests += report.rules.length;
+    totalFailures += failures;
+    suites.push(
+      `  <testsuite name="${escapeXml(app.name)}" ` +
+        `tests="${report.rules.length}" failures="${failures}" errors="0" ` +
+        `skipped="0" timestamp="${report.generatedAt}">\n` +
+        cases.join("\n") +
+        `\n  </testsuite>`,
+    );
+  }
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<testsuites name="${escapeXml(report.tool.name)}" ` +
+    `tests="${totalTests}" failures="${totalFailures}">\n` +
+    suites.map((suite) => suite + "\n").join("") +
+    `</testsuites>\n`
+  );
+}
+
+/**
+ * Escape text for use in XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,46 @@
+import { AnalysisReport } from "./analysisReport.js";
+import { writeJUnitReport } from "./junitReport.js";
+import { writeSarifReport } from "./sarifReport.js";
+
+/**
+ * Supported report formats
+ */
+export type ReportFormat = "json" | "sarif" | "junit";
+
+/**
+ * Describes a report format
+ */
+export interface ReportFormatInfo {
+  /** Display name */
+  label: string;
+  /** Default file name of the report */
+  fileName: string;
+  /** File extensions for save dialogs, without the dot */
+  extensions: string[];
+  /** Convert a report to the file content */
+  write(report: AnalysisReport): string;
+}
+
+/**
+ * All report formats, in display order
+ */
+export const REPORT_FORMATS: Record<ReportFormat, ReportFormatInfo> = {
+  sarif: {
+    label: "SARIF 2.1",
+    fileName: "bc-object-range.sarif",
+    extensions: ["sarif"],
+    write: writeSarifReport,
+  },
+  junit: {
+    label: "JUnit XML",
+    fileName: "bc-object-range-junit.xml",
+    extensions: ["xml"],
+    write: writeJUnitReport,
+  },
+  json: {
+    label: "JSON",
+    fileName: "bc-object-range-report.json",
+    extensions: ["json"],
+    write: (report) => JSON.stringify(report, null, 2) + "\n",
+  },
+};
@@ -0,0 +1,102 @@
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { ProblemSeverity } from "../services/rangeCheck.js";
+import { AnalysisReport, ReportLocation } from "./analysisReport.js";
+
+/**
+ * Base ID of the URIs of files inside the report root
+ */
+const SOURCE_ROOT_ID = "SRCROOT";
+
+/**
+ * SARIF level of each problem severity; SARIF has no hint level
+ */
+const SARIF_LEVELS: Record<ProblemSeverity, string> = {
+  error: "error",
+  warning: "warning",
+  information: "note",
+  hint: "note",
+};
+
+/**
+ * Information URI of the tool in SARIF logs
+ */
+const TOOL_INFORMATION_URI =
+  "https://github.com/andrijantasevski-bs/bc-object-range";
+
+/**
+ * Write a report as a SARIF 2.1.0 log with one run. Every problem is a
+ * result with the level of its rule, located at the declaration line; other
+ * declarations involved are related locations.
+ */
+export function writeSarifReport(report: AnalysisReport): string {
+  const ruleIndex = new Map(
+    report.rules.map((rule, index) => [rule.id, index]),
+  );
+  const ruleLevel = new Map(
+    report.rules.map((rule) => [rule.id, SARIF_LEVELS[rule.level]]),
+  );
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: report.tool.name,
+            version: report.tool.version,
+            informationUri: TOOL_INFORMATION_URI,
+            rules: report.rules.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: SARIF_LEVELS[rule.level] },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          [SOURCE_ROOT_ID]: {
+            uri: pathToFileURL(report.rootPath + path.sep).href,
+          },
+        },
+        results: report.problems.map((problem) => ({
+          ruleId: problem.rule,
+          ruleIndex: ruleIndex.get(problem.rule),
+          level: ruleLevel.get(problem.rule) ?? "error",
+          message: { text: problem.message },
+          locations: [{ physicalLocation: toPhysicalLocation(problem) }],
+          relatedLocations:
+            problem.related.length > 0
+              ? problem.related.map((related, index) => ({
+                  id: index + 1,
+                  physicalLocation: toPhysicalLocation(related),
+                  message: { text: related.message },
+                }))
+              : undefined,
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + "\n";
+}
+
+/**
+ * Convert a report location to a SARIF physical location
+ */
+function toPhysicalLocation(location: ReportLocation) {
+  const artifactLocation = path.isAbsolute(location.filePath)
+    ? { uri: pathToFileURL(location.filePath).href }
+    : {
+        uri: location.filePath
+          .split("/")
+          .map((segment) => encodeURIComponent(segment))
+          .join("/"),
+        uriBaseId: SOURCE_ROOT_ID,
+      };
+
+  return {
+    artifactLocation,
+    region: { startLine: location.lineNumber },
+  };
+}
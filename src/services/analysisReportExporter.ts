@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+import { ALProject, MemberConflictSeverity } from "../types/index.js";
+import { ALProjectWithFields, workspaceScanner } from "./workspaceScanner.js";
+import { findRangeProblems, getCheckedProblemCodes } from "./rangeCheck.js";
+import { createAnalysisReport } from "../reports/analysisReport.js";
+import { REPORT_FORMATS, ReportFormat } from "../reports/reportFormats.js";
+
+/**
+ * Exports the current analysis results as a SARIF, JUnit XML or JSON report
+ * file chosen by the user
+ */
+export class AnalysisReportExporter {
+  /**
+   * @param toolVersion - The extension version, written to the reports
+   */
+  constructor(private readonly toolVersion?: string) {}
+
+  /**
+   * Ask for the format and target file, then write the report
+   */
+  public async exportReport(projects: ALProject[]): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder || projects.length === 0) {
+      vscode.window.showWarningMessage(
+        "No AL projects found. Run the analysis before exporting a report.",
+      );
+      return;
+    }
+
+    const formatItem = await vscode.window.showQuickPick(
+      (Object.keys(REPORT_FORMATS) as ReportFormat[]).map((format) => ({
+        label: REPORT_FORMATS[format].label,
+        description: REPORT_FORMATS[format].fileName,
+        format,
+      })),
+      {
+        title: "Export Analysis Report",
+        placeHolder: "Select the report format",
+      },
+    );
+    if (!formatItem) {
+      return;
+    }
+
+    const { label, fileName, extensions, write } =
+      REPORT_FORMATS[formatItem.format];
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, fileName),
+      filters: { [label]: extensions },
+      saveLabel: "Export",
+    });
+    if (!target) {
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration("bcObjectRange");
+    const sharedRangeMode = config.get<boolean>("sharedRangeMode", false);
+    const memberConflictSeverity = config.get<MemberConflictSeverity>(
+      "memberConflictSeverity",
+      "error",
+    );
+    const checkOptions = {
+      crossAppConflicts: true,
+      memberConflictSeverity,
+      rangeUsage: true,
+    };
+    const problems = findRangeProblems(
+      workspaceScanner,
+      projects as ALProjectWithFields[],
+      checkOptions,
+    );
+
+    // Paths are relative to the first workspace folder
+    const report = createAnalysisReport(
+      { projects, timestamp: new Date() },
+      problems,
+      {
+        rootPath: workspaceFolder.uri.fsPath,
+        sharedRangeMode,
+        checkedCodes: getCheckedProblemCodes(checkOptions),
+        memberConflictSeverity,
+        dependencies: workspaceScanner.getDependencies(),
+        toolVersion: this.toolVersion,
+      },
+    );
+
+    await vscode.workspace.fs.writeFile(
+      target,
+      Buffer.from(write(report), "utf-8"),
+    );
+
+    const choice = await vscode.window.showInformationMessage(
+      `Exported ${label} report with ${problems.length} problem(s)`,
+      "Open",
+    );
+    if (choice === "Open") {
+      await vscode.window.showTextDocument(target);
+    }
+  }
+}
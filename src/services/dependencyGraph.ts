@@ -0,0 +1,87 @@
+/**
+ * Which apps are installed together.
+ *
+ * An app can only be installed with every app it depends on, directly or
+ * through other apps. Two apps are therefore installed together when one
+ * depends on the other, or when a third app depends on both. Their object,
+ * field and enum value IDs must not clash, even if each app has its own
+ * ID ranges.
+ */
+
+import { ALProject } from "../types/index.js";
+
+/**
+ * The dependency graph of the workspace apps and the dependency apps read
+ * from .app packages. Apps are identified by their app ID; dependencies on
+ * apps that were not scanned end the graph there.
+ */
+export class DependencyGraph {
+  /** App key -> keys of the apps it is installed together with */
+  private readonly installedWith = new Map<string, Set<string>>();
+
+  /**
+   * @param projects - The workspace apps and the dependency apps
+   */
+  constructor(projects: ReadonlyArray<ALProject>) {
+    // Map: app key -> app IDs of its direct dependencies
+    const edges = new Map<string, string[]>();
+    for (const project of projects) {
+      edges.set(
+        this.getKey(project),
+        (project.dependencies ?? []).map((dependency) => dependency.id),
+      );
+    }
+
+    // Each app is installed together with all of its dependencies, and
+    // those dependencies with each other
+    for (const key of edges.keys()) {
+      const installed = [key, ...this.collectDependencies(key, edges)];
+      for (const member of installed) {
+        const together = this.installedWith.get(member) ?? new Set<string>();
+        for (const other of installed) {
+          if (other !== member) {
+            together.add(other);
+          }
+        }
+        this.installedWith.set(member, together);
+      }
+    }
+  }
+
+  /**
+   * Check whether two different apps are installed together: one depends on
+   * the other, directly or indirectly, or a third app depends on both
+   */
+  public canBeInstalledTogether(a: ALProject, b: ALProject): boolean {
+    return this.installedWith.get(this.getKey(a))?.has(this.getKey(b)) ?? false;
+  }
+
+  /**
+   * Collect the app IDs an app depends on, directly or indirectly. Cycles
+   * are tolerated.
+   */
+  private collectDependencies(
+    key: string,
+    edges: Map<string, string[]>,
+  ): Set<string> {
+    const collected = new Set<string>();
+    const pending = [...(edges.get(key) ?? [])];
+    while (pending.length > 0) {
+      const next = pending.pop()!;
+      if (next === key || collected.has(next)) {
+        continue;
+      }
+      collected.add(next);
+      pending.push(...(edges.get(next) ?? []));
+    }
+    return collected;
+  }
+
+  /**
+   * Get the key of an app in the graph: its app ID, or its root path when
+   * app.json has none
+   */
+  private getKey(project: ALProject): string {
+    return project.appId ?? project.rootPath;
+  }
+}
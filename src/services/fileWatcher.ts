@@ -1,16 +1,46 @@
 import * as vscode from "vscode";
+import { ID_ALLOCATIONS_FILE_NAME } from "./idAllocations.js";
+
+/**
+ * The file changes collected during one debounce window
+ */
+export interface ALFileChanges {
+  /** .al files that were created or changed */
+  changed: vscode.Uri[];
+  /** .al files that were deleted */
+  deleted: vscode.Uri[];
+  /** Whether any app.json or ID allocation file was created, changed or deleted (requires a full scan) */
+  appJsonChanged: boolean;
+  /** Whether any .app package in .alpackages changed (requires a full scan) */
+  packagesChanged: boolean;
+}
 
 /**
  * File watcher for AL files with configurable debounced refresh.
  * Supports automatic and manual refresh modes via configuration.
+ * Collects the changed file URIs during the debounce window so the
+ * consumer can re-scan incrementally; `changes` is undefined when a
+ * full refresh is requested.
  */
 export class ALFileWatcher implements vscode.Disposable {
   private watcher: vscode.FileSystemWatcher | undefined;
   private debounceTimer: NodeJS.Timeout | undefined;
   private configListener: vscode.Disposable | undefined;
   private readonly disposables: vscode.Disposable[] = [];
+  /** The file system watchers and their event subscriptions, disposed when watching stops */
+  private readonly watchDisposables: vscode.Disposable[] = [];
 
-  constructor(private readonly onFilesChanged: () => void) {
+  /** Pending .al changes keyed by URI string; the last event for a file wins */
+  private readonly pendingChanges = new Map<
+    string,
+    { uri: vscode.Uri; deleted: boolean }
+  >();
+  private pendingAppJsonChange = false;
+  private pendingPackagesChange = false;
+
+  constructor(
+    private readonly onFilesChanged: (changes?: ALFileChanges) => void
+  ) {
     this.setupConfigListener();
     this.applyConfiguration();
   }
@@ -58,34 +88,69 @@ export class ALFileWatcher implements vscode.Disposable {
     );
 
     // Subscribe to file events
-    this.watcher.onDidCreate(() => this.handleChange(), this, this.disposables);
-    this.watcher.onDidChange(() => this.handleChange(), this, this.disposables);
-    this.watcher.onDidDelete(() => this.handleChange(), this, this.disposables);
+    this.watcher.onDidCreate(
+      (uri) => this.handleChange(uri, false),
+      this,
+      this.watchDisposables
+    );
+    this.watcher.onDidChange(
+      (uri) => this.handleChange(uri, false),
+      this,
+      this.watchDisposables
+    );
+    this.watcher.onDidDelete(
+      (uri) => this.handleChange(uri, true),
+      this,
+      this.watchDisposables
+    );
 
-    // Also watch app.json changes
+    // Also watch app.json and ID allocation file changes
     const appJsonWatcher = vscode.workspace.createFileSystemWatcher(
-      "**/app.json",
+      `**/{app.json,${ID_ALLOCATIONS_FILE_NAME}}`,
       false,
       false,
       false
     );
     appJsonWatcher.onDidCreate(
-      () => this.handleChange(),
+      () => this.handleAppJsonChange(),
       this,
-      this.disposables
+      this.watchDisposables
     );
     appJsonWatcher.onDidChange(
-      () => this.handleChange(),
+      () => this.handleAppJsonChange(),
       this,
-      this.disposables
+      this.watchDisposables
     );
     appJsonWatcher.onDidDelete(
-      () => this.handleChange(),
+      () => this.handleAppJsonChange(),
       this,
-      this.disposables
+      this.watchDisposables
     );
 
-    this.disposables.push(this.watcher, appJsonWatcher);
+    // Also watch dependency packages (e.g. after downloading symbols)
+    const packageWatcher = vscode.workspace.createFileSystemWatcher(
+      "**/.alpackages/*.app",
+      false,
+      false,
+      false
+    );
+    packageWatcher.onDidCreate(
+      () => this.handlePackageChange(),
+      this,
+      this.watchDisposables
+    );
+    packageWatcher.onDidChange(
+      () => this.handlePackageChange(),
+      this,
+      this.watchDisposables
+    );
+    packageWatcher.onDidDelete(
+      () => this.handlePackageChange(),
+      this,
+      this.watchDisposables
+    );
+
+    this.watchDisposables.push(this.watcher, appJsonWatcher, packageWatcher);
   }
 
   /**
@@ -97,16 +162,46 @@ export class ALFileWatcher implements vscode.Disposable {
       this.debounceTimer = undefined;
     }
 
-    if (this.watcher) {
-      this.watcher.dispose();
-      this.watcher = undefined;
+    // Dispose all watchers, not only the .al watcher, so starting again
+    // does not add another app.json and package watcher
+    for (const disposable of this.watchDisposables) {
+      disposable.dispose();
     }
+    this.watchDisposables.length = 0;
+    this.watcher = undefined;
+
+    this.clearPendingChanges();
+  }
+
+  /**
+   * Record an .al file change and schedule a debounced refresh
+   */
+  private handleChange(uri: vscode.Uri, deleted: boolean): void {
+    this.pendingChanges.set(uri.toString(), { uri, deleted });
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Record an app.json or ID allocation file change and schedule a
+   * debounced refresh
+   */
+  private handleAppJsonChange(): void {
+    this.pendingAppJsonChange = true;
+    this.scheduleRefresh();
   }
 
   /**
-   * Handle file change with debouncing
+   * Record a dependency package change and schedule a debounced refresh
    */
-  private handleChange(): void {
+  private handlePackageChange(): void {
+    this.pendingPackagesChange = true;
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Restart the debounce timer
+   */
+  private scheduleRefresh(): void {
     const config = vscode.workspace.getConfiguration("bcObjectRange");
     const delay = config.get<number>("autoRefreshDelay", 300);
 
@@ -117,18 +212,48 @@ export class ALFileWatcher implements vscode.Disposable {
 
     // Set new debounced timer
     this.debounceTimer = setTimeout(() => {
-      this.onFilesChanged();
+      this.debounceTimer = undefined;
+      this.onFilesChanged(this.takePendingChanges());
     }, delay);
   }
 
   /**
-   * Force an immediate refresh (for manual refresh command)
+   * Return the changes collected so far and reset the pending state
+   */
+  private takePendingChanges(): ALFileChanges {
+    const changes: ALFileChanges = {
+      changed: [],
+      deleted: [],
+      appJsonChanged: this.pendingAppJsonChange,
+      packagesChanged: this.pendingPackagesChange,
+    };
+
+    for (const { uri, deleted } of this.pendingChanges.values()) {
+      (deleted ? changes.deleted : changes.changed).push(uri);
+    }
+
+    this.clearPendingChanges();
+    return changes;
+  }
+
+  /**
+   * Drop all collected changes
+   */
+  private clearPendingChanges(): void {
+    this.pendingChanges.clear();
+    this.pendingAppJsonChange = false;
+    this.pendingPackagesChange = false;
+  }
+
+  /**
+   * Force an immediate full refresh (for manual refresh command)
    */
   public forceRefresh(): void {
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
       this.debounceTimer = undefined;
     }
+    this.clearPendingChanges();
     this.onFilesChanged();
   }
 
@@ -144,14 +269,11 @@ export class ALFileWatcher implements vscode.Disposable {
    * Dispose all resources
    */
   public dispose(): void {
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
-    }
+    this.stopWatching();
 
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
     this.disposables.length = 0;
-    this.watcher = undefined;
   }
 }
@@ -0,0 +1,70 @@
+/**
+ * The ID allocation file of an app.
+ *
+ * Developers working in parallel branches all get the same next free ID, so
+ * their objects collide when the branches are merged. The allocation file is
+ * a file next to app.json, meant to be committed, that splits the app's ID
+ * ranges into named blocks assigned to developers or feature teams. New IDs
+ * are then drawn from the current developer's blocks only.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { ALObjectTypeWithId, IdAllocationBlock } from "../types/index.js";
+
+/**
+ * Name of the allocation file in the root folder of each app
+ */
+export const ID_ALLOCATIONS_FILE_NAME = "id-allocations.json";
+
+/**
+ * Check whether a block is assigned to a developer: the developer is one of
+ * its assignees, or is the block's name. Both are compared
+ * case-insensitively, like e-mail addresses.
+ */
+export function isAssignedTo(
+  block: IdAllocationBlock,
+  developer: string | undefined,
+): boolean {
+  if (!developer) {
+    return false;
+  }
+  const key = developer.trim().toLowerCase();
+  return [block.name, ...block.assignees].some(
+    (candidate) => candidate.trim().toLowerCase() === key,
+  );
+}
+
+/**
+ * Check whether a block is for an object type. Blocks without object types
+ * are for all of them, and every block applies when no type is given.
+ */
+export function isForObjectType(
+  block: IdAllocationBlock,
+  objectType: ALObjectTypeWithId | undefined,
+): boolean {
+  return (
+    !objectType || !block.objectTypes || block.objectTypes.includes(objectType)
+  );
+}
+
+/**
+ * Read the git user.email that applies to a folder
+ *
+ * @returns The address, or undefined if git is not installed or no address
+ * is configured
+ */
+export async function readGitUserEmail(
+  folderPath: string,
+): Promise<string | undefined> {
+  try {
+    const { stdout } = await promisify(execFile)(
+      "git",
+      ["config", "user.email"],
+      { cwd: folderPath, timeout: 5000 },
+    );
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
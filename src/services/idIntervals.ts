@@ -0,0 +1,219 @@
+/**
+ * Interval arithmetic for ID ranges.
+ *
+ * All functions work on sorted arrays of used IDs and walk only the IDs that
+ * fall inside a range, so their cost depends on the number of objects and
+ * ranges - never on the width of a range. An AppSource range such as
+ * 70000000-74999999 costs the same as 50000-50099 with the same objects.
+ */
+
+import { IdRange } from "../types/index.js";
+
+/**
+ * A contiguous run of unused IDs (inclusive on both ends)
+ */
+export interface IdInterval {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Sort and de-duplicate a collection of IDs
+ */
+export function toSortedUniqueIds(ids: Iterable<number>): number[] {
+  return Array.from(new Set(ids)).sort((a, b) => a - b);
+}
+
+/**
+ * Group sorted, de-duplicated IDs into runs of consecutive IDs, e.g.
+ * 1, 2, 3, 7 becomes 1-3 and 7-7
+ */
+export function toIdRuns(sortedIds: readonly number[]): IdInterval[] {
+  const runs: IdInterval[] = [];
+  for (const id of sortedIds) {
+    const last = runs[runs.length - 1];
+    if (last && id === last.end + 1) {
+      last.end = id;
+      last.count++;
+    } else {
+      runs.push({ start: id, end: id, count: 1 });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Find the index of the first element in a sorted array that is >= value
+ */
+export function lowerBound(
+  sortedIds: readonly number[],
+  value: number,
+): number {
+  let low = 0;
+  let high = sortedIds.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sortedIds[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Merge overlapping and adjacent ranges into a sorted list of disjoint ranges
+ */
+export function mergeRanges(ranges: readonly IdRange[]): IdRange[] {
+  if (ranges.length === 0) {
+    return [];
+  }
+
+  const sorted = [...ranges].sort((a, b) => a.from - b.from);
+  const merged: IdRange[] = [{ ...sorted[0] }];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const current = sorted[i];
+    const last = merged[merged.length - 1];
+
+    if (current.from <= last.to + 1) {
+      // Ranges overlap or are adjacent - merge them
+      last.to = Math.max(last.to, current.to);
+    } else {
+      merged.push({ ...current });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Intersect two lists of ranges: the IDs that are in both, as a sorted list
+ * of disjoint ranges
+ */
+export function intersectRanges(
+  ranges: readonly IdRange[],
+  within: readonly IdRange[],
+): IdRange[] {
+  const result: IdRange[] = [];
+  for (const range of mergeRanges(ranges)) {
+    for (const other of mergeRanges(within)) {
+      const from = Math.max(range.from, other.from);
+      const to = Math.min(range.to, other.to);
+      if (from <= to) {
+        result.push({ from, to });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Calculate the unused intervals of a single range
+ *
+ * @param range - The range to search
+ * @param sortedUsedIds - Used IDs, sorted ascending without duplicates
+ */
+export function findRangeGaps(
+  range: IdRange,
+  sortedUsedIds: readonly number[],
+): IdInterval[] {
+  const gaps: IdInterval[] = [];
+  let cursor = range.from;
+
+  for (
+    let i = lowerBound(sortedUsedIds, range.from);
+    i < sortedUsedIds.length && sortedUsedIds[i] <= range.to;
+    i++
+  ) {
+    const usedId = sortedUsedIds[i];
+    if (usedId > cursor) {
+      gaps.push({ start: cursor, end: usedId - 1, count: usedId - cursor });
+    }
+    cursor = usedId + 1;
+  }
+
+  // Close any gap that extends to the end of the range
+  if (cursor <= range.to) {
+    gaps.push({ start: cursor, end: range.to, count: range.to - cursor + 1 });
+  }
+
+  return gaps;
+}
+
+/**
+ * Calculate the unused intervals of several ranges, in the order the ranges
+ * are given. Ranges are processed independently.
+ */
+export function findGaps(
+  ranges: readonly IdRange[],
+  sortedUsedIds: readonly number[],
+): IdInterval[] {
+  const gaps: IdInterval[] = [];
+  for (const range of ranges) {
+    gaps.push(...findRangeGaps(range, sortedUsedIds));
+  }
+  return gaps;
+}
+
+/**
+ * Find the first unused ID, searching ranges in the order they are given.
+ * Equivalent to `findGaps(ranges, sortedUsedIds)[0]?.start` without building
+ * the full gap list.
+ */
+export function findFirstFreeId(
+  ranges: readonly IdRange[],
+  sortedUsedIds: readonly number[],
+): number | null {
+  for (const range of ranges) {
+    let candidate = range.from;
+
+    for (
+      let i = lowerBound(sortedUsedIds, range.from);
+      i < sortedUsedIds.length && sortedUsedIds[i] === candidate;
+      i++
+    ) {
+      candidate++;
+    }
+
+    if (candidate <= range.to) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether an ID lies inside any of the given ranges
+ */
+export function isInRanges(ranges: readonly IdRange[], id: number): boolean {
+  return ranges.some((range) => id >= range.from && id <= range.to);
+}
+
+/**
+ * Find the range closest to an ID (the range itself if the ID is inside it).
+ * On a tie, the earlier range in the given order wins.
+ */
+export function findNearestRange(
+  ranges: readonly IdRange[],
+  id: number,
+): IdRange | undefined {
+  let nearest: IdRange | undefined;
+  let nearestDistance = Infinity;
+
+  for (const range of ranges) {
+    const distance =
+      id < range.from ? range.from - id : id > range.to ? id - range.to : 0;
+    if (distance < nearestDistance) {
+      nearest = range;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
@@ -0,0 +1,524 @@
+/**
+ * Checks of the ID ranges declared in app.json.
+ *
+ * The checks point at the exact idRanges entry, so the app.json text is
+ * scanned for the offsets of each entry. Its numbers are left to the app.json
+ * schema; only the positions are taken from the text.
+ */
+
+import { ALProject, IdRange } from "../types/index.js";
+
+/**
+ * The ID bands apps get their ranges from
+ */
+export const ID_RANGE_BANDS: ReadonlyArray<IdRange & { name: string }> = [
+  { name: "per-tenant", from: 50000, to: 99999 },
+  { name: "AppSource", from: 70000000, to: 74999999 },
+];
+
+/**
+ * Codes of the problems reported on idRanges entries
+ */
+export const IdRangeProblemCodes = {
+  rangeOverlap: "range-overlap",
+  rangeSelfOverlap: "range-self-overlap",
+  rangeOutsideBands: "range-outside-bands",
+} as const;
+
+export type IdRangeProblemCode =
+  (typeof IdRangeProblemCodes)[keyof typeof IdRangeProblemCodes];
+
+/**
+ * A problem with one idRanges entry of an app
+ */
+export interface IdRangeProblem {
+  /** The problem code */
+  code: IdRangeProblemCode;
+  /** The app whose app.json declares the range */
+  project: ALProject;
+  /** The index of the entry in idRanges */
+  index: number;
+  /** The declared range */
+  range: IdRange;
+  /** Human-readable description */
+  message: string;
+  /**
+   * The range with the offending IDs trimmed off, or null when nothing
+   * would remain or the rest would be split in two
+   */
+  trimmed: IdRange | null;
+  /** For overlaps with another app: that app and the index of its entry */
+  other?: { project: ALProject; index: number };
+}
+
+/**
+ * Options for the idRanges check
+ */
+export interface IdRangeCheckOptions {
+  /**
+   * Whether all apps share their ranges. Overlaps between apps are then
+   * expected and not reported.
+   */
+  sharedRangeMode: boolean;
+}
+
+/**
+ * Check the idRanges of the workspace apps: overlaps with the ranges of
+ * other workspace apps, overlaps and duplicates within the same app.json,
+ * and ranges outside the per-tenant and AppSource bands. Dependency apps
+ * are only compared against, never checked themselves.
+ */
+export function findIdRangeProblems(
+  projects: ReadonlyArray<ALProject>,
+  options: IdRangeCheckOptions,
+): IdRangeProblem[] {
+  const problems: IdRangeProblem[] = [];
+  const workspaceApps = projects.filter((project) => !project.dependency);
+
+  for (const project of workspaceApps) {
+    for (let index = 0; index < project.idRanges.length; index++) {
+      problems.push(
+        ...findSelfOverlaps(project, index),
+        ...(options.sharedRangeMode
+          ? []
+          : findOverlapsWithOtherApps(project, index, workspaceApps)),
+      );
+
+      const bandProblem = checkBands(project, index);
+      if (bandProblem) {
+        problems.push(bandProblem);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Report an entry that overlaps or repeats an earlier entry of the same
+ * app.json. Only the later entry is reported, so trimming it keeps the
+ * earlier one intact.
+ */
+function findSelfOverlaps(project: ALProject, index: number): IdRangeProblem[] {
+  const range = project.idRanges[index];
+  const problems: IdRangeProblem[] = [];
+
+  for (let earlier = 0; earlier < index; earlier++) {
+    const other = project.idRanges[earlier];
+    const overlap = intersect(range, other);
+    if (!overlap) {
+      continue;
+    }
+
+    const duplicate = range.from === other.from && range.to === other.to;
+    problems.push({
+      code: IdRangeProblemCodes.rangeSelfOverlap,
+      project,
+      index,
+      range,
+      message: duplicate
+        ? `Range ${formatRange(range)} duplicates idRanges entry ${earlier + 1}`
+        : `Range ${formatRange(range)} overlaps ${formatRange(overlap)} of idRanges entry ${earlier + 1} (${formatRange(other)})`,
+      trimmed: subtract(range, overlap),
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Report the overlaps of an entry with the ranges of the other workspace
+ * apps, one problem per overlapping range
+ */
+function findOverlapsWithOtherApps(
+  project: ALProject,
+  index: number,
+  workspaceApps: ReadonlyArray<ALProject>,
+): IdRangeProblem[] {
+  const range = project.idRanges[index];
+  const problems: IdRangeProblem[] = [];
+
+  for (const otherProject of workspaceApps) {
+    if (otherProject.rootPath === project.rootPath) {
+      continue;
+    }
+
+    otherProject.idRanges.forEach((other, otherIndex) => {
+      const overlap = intersect(range, other);
+      if (!overlap) {
+        return;
+      }
+
+      problems.push({
+        code: IdRangeProblemCodes.rangeOverlap,
+        project,
+        index,
+        range,
+        message: `Range ${formatRange(range)} overlaps ${formatRange(overlap)} of "${otherProject.name}" (${formatRange(other)})`,
+        trimmed: subtract(range, overlap),
+        other: { project: otherProject, index: otherIndex },
+      });
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Report an entry that is not completely inside one of the ID bands. The
+ * trimmed range keeps the part inside the band it shares the most IDs with.
+ */
+function checkBands(
+  project: ALProject,
+  index: number,
+): IdRangeProblem | undefined {
+  const range = project.idRanges[index];
+  const inside = ID_RANGE_BANDS.map((band) => intersect(range, band))
+    .filter((overlap): overlap is IdRange => overlap !== null)
+    .sort((a, b) => b.to - b.from - (a.to - a.from));
+
+  if (inside.some((part) => part.from === range.from && part.to === range.to)) {
+    return undefined;
+  }
+
+  const bands = ID_RANGE_BANDS.map(
+    (band) => `${band.name} (${formatRange(band)})`,
+  ).join(" and ");
+  return {
+    code: IdRangeProblemCodes.rangeOutsideBands,
+    project,
+    index,
+    range,
+    message:
+      inside.length > 0
+        ? `Range ${formatRange(range)} is partly outside the ${bands} ID bands`
+        : `Range ${formatRange(range)} is outside the ${bands} ID bands`,
+    trimmed: inside[0] ?? null,
+  };
+}
+
+/**
+ * Get the IDs two ranges have in common, or null if they do not overlap
+ */
+function intersect(a: IdRange, b: IdRange): IdRange | null {
+  const from = Math.max(a.from, b.from);
+  const to = Math.min(a.to, b.to);
+  return from <= to ? { from, to } : null;
+}
+
+/**
+ * Remove a part from a range. Returns null when nothing remains, or when
+ * the part lies strictly inside and the rest would be split in two.
+ */
+function subtract(range: IdRange, part: IdRange): IdRange | null {
+  if (part.from <= range.from && part.to >= range.to) {
+    return null;
+  }
+  if (part.from <= range.from) {
+    return { from: part.to + 1, to: range.to };
+  }
+  if (part.to >= range.to) {
+    return { from: range.from, to: part.from - 1 };
+  }
+  return null;
+}
+
+/**
+ * Format a range as "from-to"
+ */
+export function formatRange(range: IdRange): string {
+  return `${range.from}-${range.to}`;
+}
+
+/**
+ * A span of text by offsets (end exclusive)
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * The location of one idRanges entry in the app.json text
+ */
+export interface IdRangeEntryLocation extends TextSpan {
+  /** The span of the "from" value, if the entry has one */
+  from?: TextSpan;
+  /** The span of the "to" value, if the entry has one */
+  to?: TextSpan;
+}
+
+/**
+ * The locations of the ID ranges in the app.json text
+ */
+export interface IdRangesLocation {
+  /** The span of the idRanges array; undefined for a legacy idRange object */
+  array?: TextSpan;
+  /** The entries, in the order of the ranges read from app.json */
+  entries: IdRangeEntryLocation[];
+}
+
+/**
+ * A replacement of a span of text
+ */
+export interface TextReplacement extends TextSpan {
+  text: string;
+}
+
+/**
+ * Locate the ID ranges in the app.json text. Like the app.json schema,
+ * idRanges is used when present and the legacy idRange otherwise.
+ *
+ * @returns The locations, or null if the text is not valid JSON
+ */
+export function locateIdRanges(content: string): IdRangesLocation | null {
+  let root: JsonNode;
+  try {
+    root = new JsonScanner(content).scanDocument();
+  } catch {
+    return null;
+  }
+
+  const idRanges = getProperty(root, "idRanges");
+  if (idRanges?.type === "array") {
+    return {
+      array: { start: idRanges.start, end: idRanges.end },
+      entries: idRanges.items.map(toEntryLocation),
+    };
+  }
+
+  const idRange = getProperty(root, "idRange");
+  return { entries: idRange ? [toEntryLocation(idRange)] : [] };
+}
+
+/**
+ * Get the line of idRanges, or of the legacy idRange, in the app.json text
+ *
+ * @returns The line number (1-based), or undefined if there are no ranges or
+ *   the text is not valid JSON
+ */
+export function getIdRangesLineNumber(content: string): number | undefined {
+  const location = locateIdRanges(content);
+  const offset = location?.array?.start ?? location?.entries[0]?.start;
+  return offset === undefined
+    ? undefined
+    : content.slice(0, offset).split("\n").length;
+}
+
+/**
+ * Get the replacements that change the numbers of an entry to a range
+ */
+export function getTrimReplacements(
+  entry: IdRangeEntryLocation,
+  range: IdRange,
+): TextReplacement[] {
+  if (!entry.from || !entry.to) {
+    return [];
+  }
+  return [
+    { ...entry.from, text: range.from.toString() },
+    { ...entry.to, text: range.to.toString() },
+  ];
+}
+
+/**
+ * Get the replacement that removes an entry from the idRanges array,
+ * together with the comma that separates it from its neighbour
+ *
+ * @returns The replacement, or null for a legacy idRange object, which
+ *   cannot be removed on its own
+ */
+export function getRemoveReplacement(
+  location: IdRangesLocation,
+  index: number,
+): TextReplacement | null {
+  const { array, entries } = location;
+  const entry = entries[index];
+  if (!array || !entry) {
+    return null;
+  }
+
+  if (entries.length === 1) {
+    return { start: array.start + 1, end: array.end - 1, text: "" };
+  }
+  if (index < entries.length - 1) {
+    return { start: entry.start, end: entries[index + 1].start, text: "" };
+  }
+  return { start: entries[index - 1].end, end: entry.end, text: "" };
+}
+
+/**
+ * A JSON value with its span in the text
+ */
+type JsonNode = TextSpan &
+  (
+    | { type: "object"; properties: { key: string; value: JsonNode }[] }
+    | { type: "array"; items: JsonNode[] }
+    | { type: "value" }
+  );
+
+/**
+ * Get the value of an object property by its exact key
+ */
+function getProperty(node: JsonNode, key: string): JsonNode | undefined {
+  return node.type === "object"
+    ? node.properties.find((property) => property.key === key)?.value
+    : undefined;
+}
+
+/**
+ * Get the location of an idRanges entry from its JSON value
+ */
+function toEntryLocation(node: JsonNode): IdRangeEntryLocation {
+  const from = getProperty(node, "from");
+  const to = getProperty(node, "to");
+  return {
+    start: node.start,
+    end: node.end,
+    ...(from?.type === "value" && {
+      from: { start: from.start, end: from.end },
+    }),
+    ...(to?.type === "value" && { to: { start: to.start, end: to.end } }),
+  };
+}
+
+/**
+ * Scans JSON text into values with their spans. Throws on invalid JSON.
+ */
+class JsonScanner {
+  private offset = 0;
+
+  constructor(private readonly text: string) {}
+
+  /**
+   * Scan the whole text as one value
+   */
+  public scanDocument(): JsonNode {
+    const node = this.scanValue();
+    this.skipWhitespace();
+    if (this.offset < this.text.length) {
+      throw new SyntaxError(`Unexpected text at offset ${this.offset}`);
+    }
+    return node;
+  }
+
+  /**
+   * Scan the value at the current offset
+   */
+  private scanValue(): JsonNode {
+    this.skipWhitespace();
+    const start = this.offset;
+    const char = this.text[start];
+
+    if (char === "{") {
+      return this.scanObject(start);
+    }
+    if (char === "[") {
+      return this.scanArray(start);
+    }
+    if (char === '"') {
+      this.scanString();
+      return { type: "value", start, end: this.offset };
+    }
+
+    const literal =
+      /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(
+        this.text.slice(start, start + 64),
+      );
+    if (!literal) {
+      throw new SyntaxError(`Unexpected character at offset ${start}`);
+    }
+    this.offset += literal[0].length;
+    return { type: "value", start, end: this.offset };
+  }
+
+  /**
+   * Scan an object starting at its opening brace
+   */
+  private scanObject(start: number): JsonNode {
+    const properties: { key: string; value: JsonNode }[] = [];
+    this.offset++;
+    this.skipWhitespace();
+
+    if (this.text[this.offset] !== "}") {
+      for (;;) {
+        this.skipWhitespace();
+        const key = this.scanString();
+        this.expect(":");
+        properties.push({ key, value: this.scanValue() });
+        this.skipWhitespace();
+        if (this.text[this.offset] !== ",") {
+          break;
+        }
+        this.offset++;
+      }
+    }
+
+    this.expect("}");
+    return { type: "object", start, end: this.offset, properties };
+  }
+
+  /**
+   * Scan an array starting at its opening bracket
+   */
+  private scanArray(start: number): JsonNode {
+    const items: JsonNode[] = [];
+    this.offset++;
+    this.skipWhitespace();
+
+    if (this.text[this.offset] !== "]") {
+      for (;;) {
+        items.push(this.scanValue());
+        this.skipWhitespace();
+        if (this.text[this.offset] !== ",") {
+          break;
+        }
+        this.offset++;
+      }
+    }
+
+    this.expect("]");
+    return { type: "array", start, end: this.offset, items };
+  }
+
+  /**
+   * Scan a string at the current offset and return its value
+   */
+  private scanString(): string {
+    const start = this.offset;
+    if (this.text[start] !== '"') {
+      throw new SyntaxError(`Expected a string at offset ${start}`);
+    }
+
+    let end = start + 1;
+    while (end < this.text.length && this.text[end] !== '"') {
+      end += this.text[end] === "\\" ? 2 : 1;
+    }
+    if (end >= this.text.length) {
+      throw new SyntaxError(`Unterminated string at offset ${start}`);
+    }
+
+    this.offset = end + 1;
+    return JSON.parse(this.text.slice(start, this.offset)) as string;
+  }
+
+  /**
+   * Skip whitespace and expect a character
+   */
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.text[this.offset] !== char) {
+      throw new SyntaxError(`Expected "${char}" at offset ${this.offset}`);
+    }
+    this.offset++;
+  }
+
+  /**
+   * Skip whitespace, including a byte order mark
+   */
+  private skipWhitespace(): void {
+    while (/\s/.test(this.text[this.offset] ?? "")) {
+      this.offset++;
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { createHash } from "crypto";
+import { ALObjectWithFields } from "../types/index.js";
+import { PARSER_VERSION } from "../parsers/alObjectParser.js";
+import { PreprocessorOptions } from "../parsers/preprocessor.js";
+
+/**
+ * Backing store for the serialized parse cache (e.g. a file in the
+ * extension's storage folder)
+ */
+export interface ParseCacheStorage {
+  /** Read the serialized cache, or undefined if nothing was stored yet */
+  read(): Promise<string | undefined>;
+  /** Replace the serialized cache */
+  write(content: string): Promise<void>;
+}
+
+/**
+ * File metadata used for the fast "unchanged" check
+ */
+export interface FileStamp {
+  /** Modification time in milliseconds */
+  mtime: number;
+  /** File size in bytes */
+  size: number;
+}
+
+/**
+ * Cached parse result of a single AL file
+ */
+interface ParseCacheEntry extends FileStamp {
+  /** SHA-1 hash of the file content */
+  hash: string;
+  /** Key of the preprocessor options the file was parsed with */
+  optionsKey: string;
+  /** The objects parsed from the file */
+  objects: ALObjectWithFields[];
+}
+
+/**
+ * Serialized cache format
+ */
+interface ParseCacheFile {
+  parserVersion: number;
+  entries: Record<string, ParseCacheEntry>;
+}
+
+/**
+ * Persistent cache of AL parse results, keyed by file path, mtime, size,
+ * content hash and preprocessor options. A file whose mtime and size are
+ * unchanged is not read again; a file whose content hash is unchanged is not
+ * parsed again. An entry parsed with other preprocessor symbols is not used.
+ * The whole cache is discarded when the parser version changes.
+ */
+export class ParseCache {
+  private entries = new Map<string, ParseCacheEntry>();
+  private dirty = false;
+
+  constructor(
+    private readonly storage: ParseCacheStorage,
+    private readonly parserVersion: number = PARSER_VERSION,
+  ) {}
+
+  /**
+   * Load the cache from storage. Invalid or outdated content is ignored.
+   */
+  public async load(): Promise<void> {
+    this.entries.clear();
+    this.dirty = false;
+
+    try {
+      const content = await this.storage.read();
+      if (!content) {
+        return;
+      }
+
+      const data = JSON.parse(content) as ParseCacheFile;
+      if (data.parserVersion !== this.parserVersion || !data.entries) {
+        // Parsing rules changed - everything has to be parsed again
+        this.dirty = true;
+        return;
+      }
+
+      for (const [filePath, entry] of Object.entries(data.entries)) {
+        this.entries.set(filePath, entry);
+      }
+    } catch (error) {
+      console.warn("Failed to load BC Object Range parse cache:", error);
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Write the cache to storage if it changed since it was loaded or saved
+   */
+  public async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const data: ParseCacheFile = {
+      parserVersion: this.parserVersion,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      await this.storage.write(JSON.stringify(data));
+      this.dirty = false;
+    } catch (error) {
+      console.warn("Failed to save BC Object Range parse cache:", error);
+    }
+  }
+
+  /**
+   * Get the cached objects of a file if its mtime, size and preprocessor
+   * options are unchanged
+   */
+  public getIfUnchanged(
+    filePath: string,
+    stamp: FileStamp,
+    options: PreprocessorOptions = {},
+  ): ALObjectWithFields[] | undefined {
+    const entry = this.entries.get(filePath);
+    if (
+      entry &&
+      entry.mtime === stamp.mtime &&
+      entry.size === stamp.size &&
+      entry.optionsKey === ParseCache.getOptionsKey(options)
+    ) {
+      return entry.objects;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the objects of a file whose content was read. The cached objects are
+   * reused when the content hash and preprocessor options are unchanged;
+   * otherwise the content is parsed and the result is stored.
+   */
+  public resolve(
+    filePath: string,
+    stamp: FileStamp,
+    content: string,
+    parse: (content: string) => ALObjectWithFields[],
+    options: PreprocessorOptions = {},
+  ): ALObjectWithFields[] {
+    const hash = ParseCache.hashContent(content);
+    const optionsKey = ParseCache.getOptionsKey(options);
+    const entry = this.entries.get(filePath);
+
+    if (entry && entry.hash === hash && entry.optionsKey === optionsKey) {
+      // Touched but not modified - only the stamp changed
+      this.entries.set(filePath, { ...entry, ...stamp });
+      this.dirty = true;
+      return entry.objects;
+    }
+
+    const objects = parse(content);
+    this.entries.set(filePath, { ...stamp, hash, optionsKey, objects });
+    this.dirty = true;
+    return objects;
+  }
+
+  /**
+   * Remove the entry of a deleted file
+   */
+  public delete(filePath: string): void {
+    if (this.entries.delete(filePath)) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Remove all entries whose file is not in the given set
+   */
+  public retain(filePaths: ReadonlySet<string>): void {
+    for (const filePath of this.entries.keys()) {
+      if (!filePaths.has(filePath)) {
+        this.entries.delete(filePath);
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Remove all entries and persist the empty cache
+   */
+  public async clear(): Promise<void> {
+    this.entries.clear();
+    this.dirty = true;
+    await this.save();
+  }
+
+  /**
+   * Number of cached files
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Build a cache key for preprocessor options. The order and case of the
+   * symbols do not matter.
+   */
+  public static getOptionsKey(options: PreprocessorOptions): string {
+    if (options.includeAllBranches) {
+      return "*";
+    }
+    const symbols = new Set(
+      (options.preprocessorSymbols ?? []).map((symbol) => symbol.toLowerCase()),
+    );
+    return [...symbols].sort().join(",");
+  }
+
+  /**
+   * Hash file content for change detection
+   */
+  public static hashContent(content: string): string {
+    return createHash("sha1").update(content).digest("hex");
+  }
+}
@@ -0,0 +1,327 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  ALObjectTypeWithId,
+  ALObjectWithFields,
+  IdRange,
+} from "../types/index.js";
+import { ALProjectWithFields } from "./workspaceScanner.js";
+import {
+  IdPosition,
+  locateDeclarationId,
+  planIdMapping,
+  parseIdRangeInput,
+  RenumberMode,
+} from "./renumberPlan.js";
+
+/**
+ * A single ID to replace in a file
+ */
+interface IdReplacement {
+  /** The declaration whose ID is replaced, with its current ID */
+  declaration: IdPosition & { filePath: string };
+  newId: number;
+  label: string;
+}
+
+/**
+ * Renumbers all objects of a project into a new ID range. Object IDs,
+ * tableextension field IDs, enumextension value IDs and the idRanges in
+ * app.json are changed in a single WorkspaceEdit that is shown in the
+ * refactor preview before it is applied.
+ */
+export class ProjectRenumberer {
+  /**
+   * Ask for the target range and mode, then preview and apply the edit
+   */
+  public async renumberProject(project: ALProjectWithFields): Promise<void> {
+    const currentRanges = project.idRanges
+      .map((range) => `${range.from}-${range.to}`)
+      .join(", ");
+
+    const input = await vscode.window.showInputBox({
+      title: `Renumber "${project.name}"`,
+      prompt: currentRanges
+        ? `Target ID range (current: ${currentRanges})`
+        : "Target ID range",
+      placeHolder: "e.g. 70000000-70000199",
+      validateInput: (value) =>
+        parseIdRangeInput(value)
+          ? undefined
+          : "Enter a range as from-to, e.g. 70000000-70000199",
+    });
+    const target = input ? parseIdRangeInput(input) : null;
+    if (!target) {
+      return;
+    }
+
+    const modeItem = await vscode.window.showQuickPick(
+      [
+        {
+          label: "Keep relative layout",
+          description: "Gaps between IDs are preserved",
+          mode: "keepLayout" as RenumberMode,
+        },
+        {
+          label: "Pack densely",
+          description: "IDs are assigned consecutively",
+          mode: "pack" as RenumberMode,
+        },
+      ],
+      {
+        title: `Renumber "${project.name}" into ${target.from}-${target.to}`,
+        placeHolder: "How should IDs be assigned in the target range?",
+      },
+    );
+    if (!modeItem) {
+      return;
+    }
+
+    const replacements = this.planReplacements(project, target, modeItem.mode);
+    if (!replacements) {
+      vscode.window.showErrorMessage(
+        `The range ${target.from}-${target.to} is too small for the IDs of "${project.name}"`,
+      );
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const skipped = await this.addIdReplacements(edit, replacements);
+    await this.addAppJsonRangeUpdate(edit, project, target);
+
+    if (skipped > 0) {
+      vscode.window.showWarningMessage(
+        `${skipped} declarations changed since the last scan and are not renumbered. Save all files and refresh to include them.`,
+      );
+    }
+
+    // Entries need confirmation, so VS Code opens the refactor preview
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  /**
+   * Map every object, tableextension field and enumextension value of the
+   * project to a new ID. Each object type has its own mapping; fields and
+   * values share one mapping across all extensions of the project.
+   *
+   * @returns The replacements, or null if the IDs do not fit in the target range
+   */
+  private planReplacements(
+    project: ALProjectWithFields,
+    target: IdRange,
+    mode: RenumberMode,
+  ): IdReplacement[] | null {
+    const replacements: IdReplacement[] = [];
+
+    // Objects, per type
+    const objectsByType = new Map<ALObjectTypeWithId, ALObjectWithFields[]>();
+    for (const obj of project.objects) {
+      const existing = objectsByType.get(obj.type) || [];
+      existing.push(obj);
+      objectsByType.set(obj.type, existing);
+    }
+
+    for (const objects of objectsByType.values()) {
+      const mapping = planIdMapping(
+        objects.map((obj) => obj.id),
+        project.idRanges,
+        target,
+        mode,
+      );
+      if (!mapping) {
+        return null;
+      }
+
+      for (const obj of objects) {
+        replacements.push({
+          declaration: obj,
+          newId: mapping.get(obj.id)!,
+          label: "Renumber objects",
+        });
+      }
+    }
+
+    // Tableextension fields
+    const fields = project.objects
+      .filter((obj) => obj.type === "tableextension")
+      .flatMap((obj) => obj.fields ?? []);
+    const fieldMapping = planIdMapping(
+      fields.map((field) => field.id),
+      project.idRanges,
+      target,
+      mode,
+    );
+    if (!fieldMapping) {
+      return null;
+    }
+    for (const field of fields) {
+      replacements.push({
+        declaration: field,
+        newId: fieldMapping.get(field.id)!,
+        label: "Renumber tableextension fields",
+      });
+    }
+
+    // Enumextension values
+    const values = project.objects
+      .filter((obj) => obj.type === "enumextension")
+      .flatMap((obj) => obj.enumValues ?? []);
+    const valueMapping = planIdMapping(
+      values.map((value) => value.id),
+      project.idRanges,
+      target,
+      mode,
+    );
+    if (!valueMapping) {
+      return null;
+    }
+    for (const value of values) {
+      replacements.push({
+        declaration: value,
+        newId: valueMapping.get(value.id)!,
+        label: "Renumber enumextension values",
+      });
+    }
+
+    return replacements.filter((r) => r.declaration.id !== r.newId);
+  }
+
+  /**
+   * Add the ID replacements to the edit, at the position of each ID found by
+   * the last scan. IDs that are no longer at that position (e.g. unsaved
+   * changes) are skipped.
+   *
+   * @returns The number of skipped replacements
+   */
+  private async addIdReplacements(
+    edit: vscode.WorkspaceEdit,
+    replacements: IdReplacement[],
+  ): Promise<number> {
+    let skipped = 0;
+
+    // Map: filePath -> replacements in that file
+    const byFile = new Map<string, IdReplacement[]>();
+    for (const replacement of replacements) {
+      const existing = byFile.get(replacement.declaration.filePath) || [];
+      existing.push(replacement);
+      byFile.set(replacement.declaration.filePath, existing);
+    }
+
+    for (const [filePath, fileReplacements] of byFile) {
+      const uri = vscode.Uri.file(filePath);
+      const document = await vscode.workspace.openTextDocument(uri);
+      const lines = document.getText().split(/\r?\n/);
+
+      for (const { declaration, newId, label } of fileReplacements) {
+        const span = locateDeclarationId(lines, declaration);
+        if (!span) {
+          skipped++;
+          continue;
+        }
+
+        edit.replace(
+          uri,
+          new vscode.Range(span.line, span.start, span.line, span.end),
+          newId.toString(),
+          {
+            needsConfirmation: true,
+            label,
+            description: `${declaration.id} → ${newId}`,
+          },
+        );
+      }
+    }
+
+    return skipped;
+  }
+
+  /**
+   * Replace the idRanges (or legacy idRange) in the project's app.json with
+   * the target range
+   */
+  private async addAppJsonRangeUpdate(
+    edit: vscode.WorkspaceEdit,
+    project: ALProjectWithFields,
+    target: IdRange,
+  ): Promise<void> {
+    const uri = vscode.Uri.file(path.join(project.rootPath, "app.json"));
+    const document = await vscode.workspace.openTextDocument(uri);
+    const text = document.getText();
+
+    const metadata: vscode.WorkspaceEditEntryMetadata = {
+      needsConfirmation: true,
+      label: "Update idRanges in app.json",
+      description: `${target.from}-${target.to}`,
+    };
+
+    const property = /"(idRanges|idRange)"\s*:\s*(\[[^\]]*\]|\{[^}]*\})/.exec(
+      text,
+    );
+    if (property) {
+      // Indentation of the property line, if it starts on its own line
+      const lineStart = text.lastIndexOf("\n", property.index) + 1;
+      const linePrefix = text.substring(lineStart, property.index);
+      const baseIndent = /^[ \t]*$/.test(linePrefix) ? linePrefix : "";
+      const indent = baseIndent || "  ";
+
+      const replacement =
+        property[1] === "idRanges"
+          ? this.formatIdRanges(target, indent, baseIndent)
+          : this.formatIdRange(target, indent, baseIndent);
+      const valueStart =
+        property.index + property[0].length - property[2].length;
+      edit.replace(
+        uri,
+        new vscode.Range(
+          document.positionAt(valueStart),
+          document.positionAt(valueStart + property[2].length),
+        ),
+        replacement,
+        metadata,
+      );
+      return;
+    }
+
+    // No ranges yet - add them as the first property
+    const openBrace = text.indexOf("{");
+    if (openBrace >= 0) {
+      edit.insert(
+        uri,
+        document.positionAt(openBrace + 1),
+        `\n  "idRanges": ${this.formatIdRanges(target, "  ", "  ")},`,
+        metadata,
+      );
+    }
+  }
+
+  /**
+   * Format an idRanges array with a single range
+   */
+  private formatIdRanges(
+    target: IdRange,
+    indent: string,
+    baseIndent: string,
+  ): string {
+    return (
+      `[\n${baseIndent}${indent}` +
+      this.formatIdRange(target, indent, baseIndent + indent) +
+      `\n${baseIndent}]`
+    );
+  }
+
+  /**
+   * Format a single range object
+   */
+  private formatIdRange(
+    target: IdRange,
+    indent: string,
+    baseIndent: string,
+  ): string {
+    return (
+      `{\n${baseIndent}${indent}"from": ${target.from},\n` +
+      `${baseIndent}${indent}"to": ${target.to}\n${baseIndent}}`
+    );
+  }
+}
+
+export const projectRenumberer = new ProjectRenumberer();
@@ -0,0 +1,138 @@
+/**
+ * Fully qualified names of AL objects.
+ *
+ * Objects declared in a file that starts with `namespace Contoso.Sales;` are
+ * identified by their namespace and name. Extension objects may refer to
+ * their base object by a qualified name or by a plain name that is resolved
+ * through the file's own namespace and its `using` declarations.
+ */
+
+import {
+  ALObject,
+  ALObjectTypeWithId,
+  ALObjectWithFields,
+} from "../types/index.js";
+
+/**
+ * The base object type of each extension object type
+ */
+const EXTENSION_BASE_TYPES: Partial<
+  Record<ALObjectTypeWithId, ALObjectTypeWithId>
+> = {
+  tableextension: "table",
+  pageextension: "page",
+  reportextension: "report",
+  enumextension: "enum",
+  permissionsetextension: "permissionset",
+};
+
+/**
+ * Join a namespace and an object name into a fully qualified name
+ */
+export function getQualifiedName(name: string, namespace?: string): string {
+  return namespace ? `${namespace}.${name}` : name;
+}
+
+/**
+ * Resolves the base objects of extension objects to fully qualified names,
+ * so extensions that refer to the same base object in different ways are
+ * grouped together.
+ *
+ * A plain base object name is looked up among the known objects in the
+ * extension's own namespace, then in its using namespaces, then in the
+ * global namespace. A base object that is not declared in any known app
+ * (e.g. one from an excluded Microsoft package) is resolved through the
+ * qualified names other extensions use for it. If none match, the plain
+ * name is used.
+ */
+export class ExtendsTargetResolver {
+  /** "type:lowercase name" -> lowercase namespace -> declared name and namespace */
+  private readonly declared = new Map<
+    string,
+    Map<string, { name: string; namespace: string }>
+  >();
+
+  /**
+   * @param projects - The apps whose objects can be extended, including dependencies
+   */
+  constructor(projects: ReadonlyArray<{ objects: ALObject[] }>) {
+    for (const project of projects) {
+      for (const obj of project.objects as ALObjectWithFields[]) {
+        this.declare(obj.type, obj.name, obj.namespace ?? "");
+
+        // A qualified extends clause tells where a base object lives, even
+        // if the base object itself is not known
+        const baseType = EXTENSION_BASE_TYPES[obj.type];
+        if (baseType && obj.extendsObject && obj.extendsNamespace) {
+          this.declare(baseType, obj.extendsObject, obj.extendsNamespace);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the fully qualified name of the base object of an extension object
+   *
+   * @returns The qualified name, or undefined if the object extends nothing
+   */
+  public resolve(obj: ALObjectWithFields): string | undefined {
+    if (!obj.extendsObject) {
+      return undefined;
+    }
+    if (obj.extendsNamespace) {
+      return getQualifiedName(obj.extendsObject, obj.extendsNamespace);
+    }
+
+    const baseType = EXTENSION_BASE_TYPES[obj.type];
+    const declarations = baseType
+      ? this.declared.get(this.getKey(baseType, obj.extendsObject))
+      : undefined;
+    if (!declarations) {
+      return obj.extendsObject;
+    }
+
+    const candidates = [
+      ...(obj.namespace ? [obj.namespace] : []),
+      ...(obj.usings ?? []),
+      "",
+    ];
+    for (const candidate of candidates) {
+      const declaration = declarations.get(candidate.toLowerCase());
+      if (declaration) {
+        return getQualifiedName(declaration.name, declaration.namespace);
+      }
+    }
+
+    // Not imported: a name that exists in a single namespace is unambiguous
+    if (declarations.size === 1) {
+      const [declaration] = declarations.values();
+      return getQualifiedName(declaration.name, declaration.namespace);
+    }
+
+    return obj.extendsObject;
+  }
+
+  /**
+   * Record that an object with the given name exists in a namespace
+   */
+  private declare(
+    type: ALObjectTypeWithId,
+    name: string,
+    namespace: string,
+  ): void {
+    const key = this.getKey(type, name);
+    const declarations = this.declared.get(key) ?? new Map();
+    if (!declarations.has(namespace.toLowerCase())) {
+      declarations.set(namespace.toLowerCase(), { name, namespace });
+    }
+    this.declared.set(key, declarations);
+  }
+
+  /**
+   * Build the lookup key of an object type and name. AL names are
+   * case-insensitive.
+   */
+  private getKey(type: ALObjectTypeWithId, name: string): string {
+    return `${type}:${name.toLowerCase()}`;
+  }
+}
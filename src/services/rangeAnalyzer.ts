@@ -0,0 +1,1765 @@
+import * as path from "path";
+import { minimatch } from "minimatch";
+import {
+  ALProject,
+  ALObject,
+  ALObjectTypeWithId,
+  IdRange,
+  SharedIdGap,
+  IdConflict,
+  DuplicateIdConflict,
+  NeighbouringIds,
+  BaseObjectUsage,
+  ALObjectWithFields,
+  FieldConflict,
+  EnumValueConflict,
+  OutOfRangeObject,
+  OutOfRangeMember,
+  DuplicateField,
+  ALField,
+  ProjectDelta,
+  WorkspaceConflicts,
+  RetiredIds,
+  MemberConflictSeverity,
+  RangeUsage,
+  AL_OBJECT_TYPES_WITH_ID,
+  RangeExhaustion,
+  RangeUsageLevels,
+  RangeUsageThresholds,
+  IdAllocationBlock,
+  IdAllocationUsage,
+} from "../types/index.js";
+import { parseIdAllocations, parseRetiredIds } from "../models/schemas.js";
+import {
+  appPackageReader,
+  compareVersions,
+  AppPackageManifest,
+} from "../parsers/appPackageReader.js";
+import { alObjectParser } from "../parsers/alObjectParser.js";
+import { PreprocessorOptions } from "../parsers/preprocessor.js";
+import { FileStamp } from "./parseCache.js";
+import {
+  findFirstFreeId,
+  findGaps,
+  findNearestRange,
+  intersectRanges,
+  isInRanges,
+  mergeRanges,
+  toSortedUniqueIds,
+} from "./idIntervals.js";
+import { ExtendsTargetResolver, getQualifiedName } from "./qualifiedNames.js";
+import { DependencyGraph } from "./dependencyGraph.js";
+import {
+  RETIRED_IDS_FILE_NAME,
+  createRetiredIds,
+  getRecordedIds,
+  getRetiredIdsKey,
+  recordIds,
+  serializeRetiredIds,
+} from "./retiredIdsLedger.js";
+import {
+  ID_ALLOCATIONS_FILE_NAME,
+  isAssignedTo,
+  isForObjectType,
+  readGitUserEmail,
+} from "./idAllocations.js";
+
+/**
+ * Extended AL project that stores objects with field/value information
+ */
+export interface ALProjectWithFields extends Omit<ALProject, "objects"> {
+  objects: ALObjectWithFields[];
+}
+
+/**
+ * Settings that control which projects are analyzed and how
+ */
+export interface AnalyzerSettings {
+  /** Glob patterns of files and folders to skip */
+  excludePatterns: string[];
+  /** Folder names to skip, matched against every path segment */
+  excludeFolders: string[];
+  /** Whether all projects share one ID range */
+  sharedRangeMode: boolean;
+  /** Whether .app packages in .alpackages are read */
+  includeDependencies: boolean;
+  /** Publishers whose packages are not read */
+  dependencyExcludePublishers: string[];
+  /** Preprocessor symbols defined in addition to those in app.json */
+  preprocessorSymbols: string[];
+  /** Whether objects and fields in every #if branch are read */
+  includeAllPreprocessorBranches: boolean;
+  /** Whether full scans record the declared IDs in the retired IDs ledgers */
+  updateRetiredIdsLedger: boolean;
+  /** Severity of field and enum value conflicts across apps */
+  memberConflictSeverity: MemberConflictSeverity;
+  /** Shares of used IDs at which an app's ranges are reported as running out */
+  rangeUsageThresholds: RangeUsageThresholds;
+  /** Identifies the current developer in ID allocation files; git user.email if empty */
+  developerId: string;
+}
+
+/**
+ * The IDs a table can give its fields and an enum its values. Field IDs
+ * from 2000000000 are reserved for system fields.
+ */
+const MEMBER_ID_LIMITS = {
+  fields: { first: 1, last: 1999999999 },
+  enumValues: { first: 0, last: 2147483647 },
+};
+
+/**
+ * Defaults of the analyzer settings, matching the extension's configuration
+ */
+export const DEFAULT_ANALYZER_SETTINGS: AnalyzerSettings = {
+  excludePatterns: [
+    "**/node_modules/**",
+    "**/.altestrunner/**",
+    "**/.alpackages/**",
+  ],
+  excludeFolders: [],
+  sharedRangeMode: false,
+  includeDependencies: true,
+  dependencyExcludePublishers: ["Microsoft"],
+  preprocessorSymbols: [],
+  includeAllPreprocessorBranches: false,
+  updateRetiredIdsLedger: false,
+  memberConflictSeverity: "error",
+  rangeUsageThresholds: { warning: 80, error: 95 },
+  developerId: "",
+};
+
+/**
+ * Get the usage levels of an app: the app's overrides, matched by name
+ * case-insensitively, on top of the global thresholds
+ */
+export function getProjectUsageLevels(
+  thresholds: RangeUsageThresholds,
+  projectName: string,
+): RangeUsageLevels {
+  const override = Object.entries(thresholds.projects ?? {}).find(
+    ([name]) => name.toLowerCase() === projectName.toLowerCase(),
+  )?.[1];
+  return {
+    warning:
+      override?.warning !== undefined ? override.warning : thresholds.warning,
+    error: override?.error !== undefined ? override.error : thresholds.error,
+  };
+}
+
+/**
+ * Gap, conflict and range analysis over scanned AL projects.
+ * Independent of VS Code: subclasses discover the projects and provide
+ * settings and file access, e.g. through the VS Code workspace or plain fs.
+ */
+export abstract class RangeAnalyzer {
+  protected dependencies: ALProject[] = [];
+
+  /** Read .app packages keyed by path, reused while mtime and size are unchanged */
+  private readonly packageCache = new Map<
+    string,
+    {
+      mtime: number;
+      size: number;
+      manifest: AppPackageManifest | null;
+      objects?: ALObjectWithFields[] | null;
+    }
+  >();
+
+  /**
+   * Get the current analyzer settings
+   */
+  protected abstract getSettings(): AnalyzerSettings;
+
+  /**
+   * List the names of the files (not folders) in a folder
+   *
+   * @returns The file names, or an empty array if the folder does not exist
+   */
+  protected abstract listFiles(folderPath: string): Promise<string[]>;
+
+  /**
+   * Get the modification time and size of a file
+   */
+  protected abstract statFile(filePath: string): Promise<FileStamp>;
+
+  /**
+   * Read the content of a file
+   */
+  protected abstract readFile(filePath: string): Promise<Uint8Array>;
+
+  /**
+   * Write the content of a file, replacing an existing file
+   */
+  protected abstract writeFile(
+    filePath: string,
+    content: Uint8Array,
+  ): Promise<void>;
+
+  /**
+   * Get the read-only dependency apps found by the last scan
+   */
+  public getDependencies(): ALProject[] {
+    return this.dependencies;
+  }
+
+  /**
+   * Replace the dependency apps (e.g. for tests)
+   */
+  public setDependencies(dependencies: ALProject[]): void {
+    this.dependencies = dependencies;
+  }
+
+  /**
+   * Read the .app packages in the .alpackages folder of each project.
+   * Packages of workspace apps and of excluded publishers are skipped; when
+   * several versions of an app are found, the highest version is used.
+   *
+   * @param projects - The workspace projects
+   * @returns The dependency apps, also kept for gap calculation
+   */
+  public async scanDependencies(projects: ALProject[]): Promise<ALProject[]> {
+    const settings = this.getSettings();
+    if (!settings.includeDependencies) {
+      this.dependencies = [];
+      return this.dependencies;
+    }
+
+    const excludedPublishers = new Set(
+      settings.dependencyExcludePublishers.map((publisher) =>
+        publisher.toLowerCase(),
+      ),
+    );
+    const workspaceAppIds = new Set(projects.map((project) => project.appId));
+
+    // Map: app ID -> the package to use and the projects referencing it
+    const packages = new Map<
+      string,
+      {
+        packagePath: string;
+        manifest: AppPackageManifest;
+        referencedBy: string[];
+      }
+    >();
+
+    for (const project of projects) {
+      for (const packagePath of await this.findPackages(project.rootPath)) {
+        const manifest = await this.readPackage(packagePath, false);
+        if (
+          !manifest ||
+          workspaceAppIds.has(manifest.id) ||
+          excludedPublishers.has(manifest.publisher.toLowerCase())
+        ) {
+          continue;
+        }
+
+        const existing = packages.get(manifest.id);
+        if (!existing) {
+          packages.set(manifest.id, {
+            packagePath,
+            manifest,
+            referencedBy: [project.rootPath],
+          });
+          continue;
+        }
+
+        if (!existing.referencedBy.includes(project.rootPath)) {
+          existing.referencedBy.push(project.rootPath);
+        }
+        if (compareVersions(manifest.version, existing.manifest.version) > 0) {
+          existing.packagePath = packagePath;
+          existing.manifest = manifest;
+        }
+      }
+    }
+
+    const dependencies: ALProject[] = [];
+    for (const { packagePath, manifest, referencedBy } of packages.values()) {
+      await this.readPackage(packagePath, true);
+      const objects = this.packageCache.get(packagePath)?.objects;
+      if (!objects) {
+        continue;
+      }
+
+      const sortedObjects = [...objects];
+      this.sortObjects(sortedObjects);
+
+      dependencies.push({
+        name: manifest.name,
+        rootPath: packagePath,
+        idRanges: manifest.idRanges,
+        objects: sortedObjects,
+        appId: manifest.id,
+        dependencies: manifest.dependencies,
+        ...(manifest.application && { application: manifest.application }),
+        ...(manifest.platform && { platform: manifest.platform }),
+        ...(manifest.runtime && { runtime: manifest.runtime }),
+        dependency: {
+          packagePath,
+          publisher: manifest.publisher,
+          version: manifest.version,
+          referencedBy,
+        },
+      });
+    }
+
+    dependencies.sort((a, b) => a.name.localeCompare(b.name));
+    this.dependencies = dependencies;
+    return dependencies;
+  }
+
+  /**
+   * Find the .app files in a project's .alpackages folder
+   */
+  private async findPackages(projectRoot: string): Promise<string[]> {
+    const packageFolder = path.join(projectRoot, ".alpackages");
+    return (await this.listFiles(packageFolder))
+      .filter((name) => name.toLowerCase().endsWith(".app"))
+      .map((name) => path.join(packageFolder, name));
+  }
+
+  /**
+   * Read the manifest (and optionally the objects) of an .app package,
+   * reusing earlier results while the file is unchanged
+   */
+  private async readPackage(
+    packagePath: string,
+    withObjects: boolean,
+  ): Promise<AppPackageManifest | null> {
+    try {
+      const stat = await this.statFile(packagePath);
+      let entry = this.packageCache.get(packagePath);
+      if (!entry || entry.mtime !== stat.mtime || entry.size !== stat.size) {
+        entry = { mtime: stat.mtime, size: stat.size, manifest: null };
+        this.packageCache.set(packagePath, entry);
+      }
+
+      if (entry.manifest && (!withObjects || entry.objects !== undefined)) {
+        return entry.manifest;
+      }
+
+      const content = Buffer.from(await this.readFile(packagePath));
+      entry.manifest = appPackageReader.readManifest(content);
+      if (withObjects) {
+        entry.objects = appPackageReader.readObjects(content, packagePath);
+      }
+      return entry.manifest;
+    } catch (error) {
+      console.warn(`Failed to read package ${packagePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Read the retired IDs ledger of each project. When `update` is set, the
+   * IDs the project declares now in its ID ranges are added and the ledger
+   * file is written (created if missing). It defaults to the
+   * `updateRetiredIdsLedger` setting. A ledger file that cannot be parsed is
+   * left untouched.
+   */
+  public async loadRetiredIds(
+    projects: ALProject[],
+    update = this.getSettings().updateRetiredIdsLedger,
+  ): Promise<void> {
+    for (const project of projects) {
+      const ledgerPath = path.join(project.rootPath, RETIRED_IDS_FILE_NAME);
+      let ledger: RetiredIds | null | undefined;
+      try {
+        ledger = parseRetiredIds(
+          Buffer.from(await this.readFile(ledgerPath)).toString("utf-8"),
+        );
+        if (!ledger) {
+          console.warn(`Failed to parse retired IDs ledger at ${ledgerPath}`);
+        }
+      } catch {
+        // No ledger yet
+        ledger = undefined;
+      }
+
+      if (ledger === null) {
+        project.retiredIds = undefined;
+        continue;
+      }
+
+      if (update) {
+        const existed = ledger !== undefined;
+        ledger ??= createRetiredIds();
+        if (recordIds(ledger, project.objects, project.idRanges) || !existed) {
+          try {
+            await this.writeFile(
+              ledgerPath,
+              Buffer.from(serializeRetiredIds(ledger), "utf-8"),
+            );
+          } catch (error) {
+            console.warn(
+              `Failed to write retired IDs ledger at ${ledgerPath}:`,
+              error,
+            );
+          }
+        }
+      }
+
+      project.retiredIds = ledger;
+    }
+  }
+
+  /**
+   * Read the ID allocation file of each project and determine the current
+   * developer: the configured developer ID, or else the git user.email of
+   * the project's folder. A file that cannot be parsed is ignored.
+   */
+  public async loadIdAllocations(projects: ALProject[]): Promise<void> {
+    const { developerId } = this.getSettings();
+
+    for (const project of projects) {
+      const filePath = path.join(project.rootPath, ID_ALLOCATIONS_FILE_NAME);
+      project.idAllocations = undefined;
+
+      let content: string;
+      try {
+        content = Buffer.from(await this.readFile(filePath)).toString("utf-8");
+      } catch {
+        // No allocation file
+        continue;
+      }
+
+      const allocations = parseIdAllocations(content);
+      if (!allocations) {
+        console.warn(`Failed to parse ID allocation file at ${filePath}`);
+        continue;
+      }
+
+      const developer =
+        developerId.trim() || (await this.readGitUserEmail(project.rootPath));
+      project.idAllocations = {
+        blocks: allocations.blocks,
+        ...(developer && { developer }),
+      };
+    }
+  }
+
+  /**
+   * Read the git user.email that applies to a project folder
+   */
+  protected readGitUserEmail(folderPath: string): Promise<string | undefined> {
+    return readGitUserEmail(folderPath);
+  }
+
+  /**
+   * Determine if a project should be excluded based on its file path.
+   * This handles both excludePatterns (glob patterns) and excludeFolders (folder names)
+   * and properly excludes workspace root folders that vscode.workspace.findFiles cannot.
+   *
+   * @param projectPath - The absolute path to the app.json file or project root
+   * @returns true if the project should be excluded, false otherwise
+   */
+  public shouldExcludeProject(projectPath: string): boolean {
+    const { excludeFolders, excludePatterns } = this.getSettings();
+
+    // Normalize path for consistent matching (use forward slashes)
+    const normalizedPath = projectPath.replace(/\\/g, "/");
+
+    // Check excludeFolders (simple folder name matching)
+    if (excludeFolders.length > 0) {
+      // Get all path segments
+      const pathSegments = normalizedPath
+        .split("/")
+        .filter((s) => s.length > 0);
+
+      for (const folderName of excludeFolders) {
+        // Check if any segment matches the folder name (case-insensitive on Windows)
+        const normalizedFolderName = folderName.toLowerCase();
+        if (
+          pathSegments.some(
+            (segment) => segment.toLowerCase() === normalizedFolderName,
+          )
+        ) {
+          return true;
+        }
+      }
+    }
+
+    // Check excludePatterns (glob pattern matching against full path)
+    for (const pattern of excludePatterns) {
+      if (minimatch(normalizedPath, pattern, { dot: true, nocase: true })) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Replace all objects of one file in a project with a freshly parsed set,
+   * keeping the project's objects sorted by type and ID.
+   *
+   * @returns The delta, or null if the file had no objects before or after
+   */
+  public replaceFileObjects(
+    project: ALProject,
+    filePath: string,
+    objects: ALObject[],
+  ): ProjectDelta | null {
+    const removed = project.objects.filter((obj) => obj.filePath === filePath);
+    if (removed.length === 0 && objects.length === 0) {
+      return null;
+    }
+
+    project.objects = project.objects
+      .filter((obj) => obj.filePath !== filePath)
+      .concat(objects);
+    this.sortObjects(project.objects);
+
+    return { project, added: objects, removed };
+  }
+
+  /**
+   * Find the project that owns a file.
+   * When multiple projects match (nested paths), prefer the most specific one.
+   */
+  public findProjectForFile(
+    projects: ALProject[],
+    filePath: string,
+  ): ALProject | undefined {
+    let bestMatch: ALProject | undefined;
+
+    for (const project of projects) {
+      const relative = path.relative(project.rootPath, filePath);
+      const isInside =
+        relative.length > 0 &&
+        !relative.startsWith("..") &&
+        !path.isAbsolute(relative);
+      if (
+        isInside &&
+        (!bestMatch || project.rootPath.length > bestMatch.rootPath.length)
+      ) {
+        bestMatch = project;
+      }
+    }
+
+    return bestMatch;
+  }
+
+  /**
+   * Parse the content of a document, e.g. an unsaved editor, with the
+   * preprocessor symbols of the project that contains it
+   */
+  public parseDocument(
+    projects: ALProject[],
+    filePath: string,
+    content: string,
+  ): ALObjectWithFields[] {
+    const project = this.findProjectForFile(projects, filePath);
+    return alObjectParser.parseContent(
+      content,
+      filePath,
+      this.getParseOptions(project ?? {}),
+    );
+  }
+
+  /**
+   * Get the preprocessor options to parse the files of a project with:
+   * the symbols from its app.json plus the configured symbols
+   */
+  protected getParseOptions(
+    project: Pick<ALProject, "preprocessorSymbols">,
+  ): PreprocessorOptions {
+    const settings = this.getSettings();
+    return {
+      preprocessorSymbols: [
+        ...(project.preprocessorSymbols ?? []),
+        ...settings.preprocessorSymbols,
+      ],
+      includeAllBranches: settings.includeAllPreprocessorBranches,
+    };
+  }
+
+  /**
+   * Sort objects by type, then by ID (in place)
+   */
+  protected sortObjects(objects: ALObject[]): void {
+    objects.sort((a, b) => {
+      const typeCompare = a.type.localeCompare(b.type);
+      if (typeCompare !== 0) {
+        return typeCompare;
+      }
+      return a.id - b.id;
+    });
+  }
+
+  /**
+   * Calculate unused ID gaps within configured ranges for a project.
+   * When an object type is given, only objects of that type block an ID,
+   * since each AL object type has its own ID namespace.
+   *
+   * @param options.developerBlocks - Only search the current developer's
+   * blocks in the app's ID allocation file, if it assigns any
+   */
+  public calculateGaps(
+    project: ALProject,
+    objectType?: ALObjectTypeWithId,
+    options: { developerBlocks?: boolean } = {},
+  ): { start: number; end: number; count: number }[] {
+    if (project.idRanges.length === 0) {
+      return [];
+    }
+
+    const ranges = options.developerBlocks
+      ? this.getDeveloperRanges([project], project.idRanges, objectType)
+      : project.idRanges;
+    return findGaps(
+      ranges,
+      this.getUsedIds(this.withDependencies([project]), objectType),
+    );
+  }
+
+  /**
+   * Get the next available ID in a project's ranges, optionally for a
+   * specific object type. When the app's ID allocation file assigns blocks
+   * to the current developer, the ID comes from those blocks.
+   */
+  public getNextAvailableId(
+    project: ALProject,
+    objectType?: ALObjectTypeWithId,
+  ): number | null {
+    return findFirstFreeId(
+      this.getDeveloperRanges([project], project.idRanges, objectType),
+      this.getUsedIds(this.withDependencies([project]), objectType),
+    );
+  }
+
+  /**
+   * Get the union of all ID ranges across all projects (for shared mode)
+   */
+  public getSharedRanges(projects: ALProject[]): IdRange[] {
+    return mergeRanges(projects.flatMap((project) => project.idRanges));
+  }
+
+  /**
+   * Calculate gaps for a specific object type across all projects (shared mode)
+   *
+   * @param options.developerBlocks - Only search the current developer's
+   * blocks in the ID allocation files, if they assign any
+   */
+  public calculateSharedGaps(
+    projects: ALProject[],
+    objectType: ALObjectTypeWithId,
+    options: { developerBlocks?: boolean } = {},
+  ): SharedIdGap[] {
+    const sharedRanges = this.getSharedRanges(projects);
+    const ranges = options.developerBlocks
+      ? this.getDeveloperRanges(projects, sharedRanges, objectType)
+      : sharedRanges;
+
+    return findGaps(
+      ranges,
+      this.getUsedIds(this.withDependencies(projects), objectType),
+    ).map((gap) => ({ ...gap, objectType }));
+  }
+
+  /**
+   * Get the next available ID for a specific object type across all projects
+   * (shared mode). When the ID allocation files assign blocks to the current
+   * developer, the ID comes from those blocks.
+   */
+  public getNextAvailableIdForType(
+    projects: ALProject[],
+    objectType: ALObjectTypeWithId,
+  ): number | null {
+    return findFirstFreeId(
+      this.getDeveloperRanges(
+        projects,
+        this.getSharedRanges(projects),
+        objectType,
+      ),
+      this.getUsedIds(this.withDependencies(projects), objectType),
+    );
+  }
+
+  /**
+   * Get the blocks the ID allocation files of the projects assign to the
+   * current developer, optionally only those for an object type
+   */
+  public getDeveloperBlocks(
+    projects: ALProject[],
+    objectType?: ALObjectTypeWithId,
+  ): IdAllocationBlock[] {
+    return projects
+      .filter((project) => !project.dependency)
+      .flatMap((project) =>
+        (project.idAllocations?.blocks ?? []).filter(
+          (block) =>
+            isAssignedTo(block, project.idAllocations?.developer) &&
+            isForObjectType(block, objectType),
+        ),
+      );
+  }
+
+  /**
+   * Narrow ranges to the current developer's blocks. Ranges are returned
+   * unchanged when no block is assigned to the developer, so apps without
+   * an allocation file keep drawing from their full ranges.
+   */
+  private getDeveloperRanges(
+    projects: ALProject[],
+    ranges: IdRange[],
+    objectType?: ALObjectTypeWithId,
+  ): IdRange[] {
+    const blocks = this.getDeveloperBlocks(projects, objectType);
+    return blocks.length > 0 ? intersectRanges(blocks, ranges) : ranges;
+  }
+
+  /**
+   * Get how much of each block in the ID allocation files is used. In normal
+   * mode the blocks of one app are measured within its ranges, against the
+   * IDs of the app and its dependencies; in shared mode the blocks of all
+   * apps within the shared range, against the IDs of all projects; a block
+   * repeated in several files is listed once. A block for some object types
+   * only counts the IDs of those types.
+   *
+   * @param projects - The workspace projects
+   * @param project - The app in normal mode, or undefined in shared mode
+   */
+  public getAllocationUsage(
+    projects: ALProject[],
+    project?: ALProject,
+  ): IdAllocationUsage[] {
+    const files = project
+      ? [project]
+      : projects.filter((candidate) => !candidate.dependency);
+    const ranges = project ? project.idRanges : this.getSharedRanges(projects);
+    const owners = this.withDependencies(project ? [project] : projects);
+    const listed = new Set<string>();
+
+    return files.flatMap((file) =>
+      (file.idAllocations?.blocks ?? []).flatMap((block) => {
+        const key = JSON.stringify([block.name, block.from, block.to]);
+        if (listed.has(key)) {
+          return [];
+        }
+        listed.add(key);
+
+        const blockRanges = intersectRanges([block], ranges);
+        const usedIds = block.objectTypes
+          ? toSortedUniqueIds(
+              block.objectTypes.flatMap((objectType) =>
+                this.getUsedIds(owners, objectType),
+              ),
+            )
+          : this.getUsedIds(owners);
+        const gaps = findGaps(blockRanges, usedIds);
+        const total = blockRanges.reduce(
+          (sum, range) => sum + range.to - range.from + 1,
+          0,
+        );
+        return [
+          {
+            block,
+            project: file,
+            assigned: isAssignedTo(block, file.idAllocations?.developer),
+            total,
+            used: total - gaps.reduce((sum, gap) => sum + gap.count, 0),
+            nextFree: gaps[0]?.start ?? null,
+          },
+        ];
+      }),
+    );
+  }
+
+  /**
+   * Get how much of one of an app's ID ranges is used, in total and per
+   * object type. IDs are counted like in the gap calculation: those of the
+   * app and its dependencies in normal mode, of all projects in shared mode,
+   * and retired IDs count as used.
+   *
+   * @param projects - The workspace projects
+   * @param project - The app that declares the range
+   * @param range - One of the app's ID ranges
+   * @param sharedMode - Whether all projects share one ID range
+   */
+  public getRangeUsage(
+    projects: ALProject[],
+    project: ALProject,
+    range: IdRange,
+    sharedMode: boolean,
+  ): RangeUsage {
+    const owners = this.withDependencies(sharedMode ? projects : [project]);
+    const { total, used, nextFree } = this.measureRanges(owners, [range]);
+
+    return {
+      range,
+      total,
+      used,
+      nextFree,
+      byType: AL_OBJECT_TYPES_WITH_ID.map((objectType) => {
+        const usage = this.measureRanges(owners, [range], objectType);
+        return { objectType, used: usage.used, nextFree: usage.nextFree };
+      }),
+    };
+  }
+
+  /**
+   * Find the apps whose ID ranges are running out. The share of IDs used by
+   * any object type, and the share used by each object type, is compared
+   * against the app's warning and error thresholds. IDs are counted like in
+   * the gap calculation. In shared mode the shared range is checked once,
+   * against the thresholds without app overrides.
+   */
+  public findRangeExhaustion(projects: ALProject[]): RangeExhaustion[] {
+    const { sharedRangeMode, rangeUsageThresholds } = this.getSettings();
+
+    if (sharedRangeMode) {
+      return this.checkRangeUsage(
+        undefined,
+        this.getSharedRanges(projects),
+        this.withDependencies(projects),
+        rangeUsageThresholds,
+      );
+    }
+
+    return projects
+      .filter((project) => !project.dependency)
+      .flatMap((project) =>
+        this.checkRangeUsage(
+          project,
+          mergeRanges(project.idRanges),
+          this.withDependencies([project]),
+          getProjectUsageLevels(rangeUsageThresholds, project.name),
+        ),
+      );
+  }
+
+  /**
+   * Compare the share of used IDs in the ranges, by any object type and by
+   * each object type, against the usage levels
+   *
+   * @param project - The app, or undefined for the shared range
+   * @param ranges - The ranges, merged so no ID is counted twice
+   * @param owners - The projects whose IDs count as used
+   * @param levels - The warning and error thresholds
+   */
+  private checkRangeUsage(
+    project: ALProject | undefined,
+    ranges: IdRange[],
+    owners: ALProject[],
+    levels: RangeUsageLevels,
+  ): RangeExhaustion[] {
+    if (ranges.length === 0) {
+      return [];
+    }
+
+    const result: RangeExhaustion[] = [];
+    for (const objectType of [undefined, ...AL_OBJECT_TYPES_WITH_ID]) {
+      const { total, used } = this.measureRanges(owners, ranges, objectType);
+      const percent = (used / total) * 100;
+      const level =
+        levels.error !== null && percent >= levels.error
+          ? "error"
+          : levels.warning !== null && percent >= levels.warning
+            ? "warning"
+            : undefined;
+      if (level) {
+        result.push({
+          ...(project && { project }),
+          ...(objectType && { objectType }),
+          used,
+          total,
+          percent,
+          level,
+          threshold: levels[level]!,
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Count the IDs in the ranges and how many of them are used, and find the
+   * first free ID, optionally for one object type
+   */
+  private measureRanges(
+    owners: ALProject[],
+    ranges: IdRange[],
+    objectType?: ALObjectTypeWithId,
+  ): { total: number; used: number; nextFree: number | null } {
+    const gaps = findGaps(ranges, this.getUsedIds(owners, objectType));
+    const total = ranges.reduce(
+      (sum, range) => sum + range.to - range.from + 1,
+      0,
+    );
+    return {
+      total,
+      used: total - gaps.reduce((sum, gap) => sum + gap.count, 0),
+      nextFree: gaps[0]?.start ?? null,
+    };
+  }
+
+  /**
+   * Get the next available field ID for a field declared in a table or
+   * tableextension.
+   *
+   * A table numbers its own fields, so the first ID after its highest field
+   * is returned. The fields of a tableextension must lie in the app's ID
+   * ranges (the shared ranges in shared mode) and must not reuse an ID of
+   * the base table or of any other extension of it, in the workspace or in
+   * a dependency. IDs in the app's retired IDs ledger are never returned.
+   *
+   * @param projects - The workspace projects
+   * @param obj - The table or tableextension as parsed from the open
+   *   document, so fields that are not saved yet are taken into account
+   * @param sharedMode - Whether all projects share one ID range
+   */
+  public getNextAvailableFieldId(
+    projects: ALProjectWithFields[],
+    obj: ALObjectWithFields,
+    sharedMode: boolean,
+  ): number | null {
+    return this.getNextAvailableMemberId(projects, obj, "fields", sharedMode);
+  }
+
+  /**
+   * Get the next available ordinal for a value declared in an enum or
+   * enumextension, following the same rules as field IDs: an enum continues
+   * after its highest ordinal, an enumextension uses the app's ID ranges and
+   * skips the ordinals of the base enum and of every other extension of it.
+   *
+   * @param projects - The workspace projects
+   * @param obj - The enum or enumextension as parsed from the open document
+   * @param sharedMode - Whether all projects share one ID range
+   */
+  public getNextAvailableEnumValueId(
+    projects: ALProjectWithFields[],
+    obj: ALObjectWithFields,
+    sharedMode: boolean,
+  ): number | null {
+    return this.getNextAvailableMemberId(
+      projects,
+      obj,
+      "enumValues",
+      sharedMode,
+    );
+  }
+
+  /**
+   * Find the used field or enum value IDs closest to an ID on the base
+   * object of a table, tableextension, enum or enumextension, with the app
+   * that declares them
+   */
+  public getNeighbouringMemberIds(
+    projects: ALProjectWithFields[],
+    obj: ALObjectWithFields,
+    member: "fields" | "enumValues",
+    id: number,
+  ): NeighbouringIds {
+    const neighbours: NeighbouringIds = {};
+    for (const used of this.getBaseMembers(projects, obj, member)) {
+      if (
+        used.id < id &&
+        (!neighbours.below || used.id > neighbours.below.id)
+      ) {
+        neighbours.below = used;
+      }
+      if (
+        used.id > id &&
+        (!neighbours.above || used.id < neighbours.above.id)
+      ) {
+        neighbours.above = used;
+      }
+    }
+    return neighbours;
+  }
+
+  /**
+   * Get, for every base table (or enum) that a workspace project extends,
+   * the field IDs (or ordinals) each app declares on it and the gaps left in
+   * each workspace app's ID ranges. A gap excludes the IDs declared on the
+   * base object by any app or dependency and the app's retired IDs.
+   * Extensions are grouped like in getTableExtensionsByBase and
+   * getEnumExtensionsByBase.
+   */
+  public getExtendedBaseObjectUsage(
+    projects: ALProjectWithFields[],
+    member: "fields" | "enumValues",
+  ): BaseObjectUsage[] {
+    const allProjects = [
+      ...projects,
+      ...(this.dependencies as ALProjectWithFields[]),
+    ];
+    const extensionsByBase =
+      member === "fields"
+        ? this.getTableExtensionsByBase(allProjects)
+        : this.getEnumExtensionsByBase(allProjects);
+    const projectsByPath = new Map(
+      allProjects.map((project) => [project.rootPath, project]),
+    );
+
+    const usage: BaseObjectUsage[] = [];
+    for (const [baseName, extensions] of extensionsByBase) {
+      if (
+        extensions.every(
+          ({ projectPath }) => projectsByPath.get(projectPath)?.dependency,
+        )
+      ) {
+        continue;
+      }
+
+      const usedOnBase = this.getBaseMembers(
+        projects,
+        extensions[0].obj,
+        member,
+      ).map((used) => used.id);
+
+      const appPaths = [
+        ...new Set(extensions.map(({ projectPath }) => projectPath)),
+      ];
+      const apps = appPaths.map((projectPath) => {
+        const project = projectsByPath.get(projectPath)!;
+        const ownExtensions = extensions
+          .filter((extension) => extension.projectPath === projectPath)
+          .map((extension) => extension.obj);
+        const usedIds = toSortedUniqueIds(
+          ownExtensions.flatMap((obj) =>
+            (obj[member] ?? []).map((item) => item.id),
+          ),
+        );
+        if (project.dependency) {
+          return { project, usedIds, gaps: [] };
+        }
+
+        const retiredIds = ownExtensions.flatMap((obj) =>
+          project.retiredIds
+            ? this.getRetiredMemberIds(
+                project.retiredIds[member],
+                projects,
+                obj,
+              )
+            : [],
+        );
+        return {
+          project,
+          usedIds,
+          gaps: findGaps(
+            project.idRanges,
+            toSortedUniqueIds([...usedOnBase, ...retiredIds]),
+          ),
+        };
+      });
+
+      apps.sort((a, b) => a.project.name.localeCompare(b.project.name));
+      usage.push({ baseName, apps });
+    }
+
+    return usage.sort((a, b) => a.baseName.localeCompare(b.baseName));
+  }
+
+  /**
+   * Get the next available field ID or enum ordinal on the base object of
+   * the given object
+   */
+  private getNextAvailableMemberId(
+    projects: ALProjectWithFields[],
+    obj: ALObjectWithFields,
+    member: "fields" | "enumValues",
+    sharedMode: boolean,
+  ): number | null {
+    const project = this.findProjectForFile(projects, obj.filePath);
+    const retiredIds = project?.retiredIds
+      ? this.getRetiredMemberIds(project.retiredIds[member], projects, obj)
+      : [];
+    const usedIds = toSortedUniqueIds([
+      ...this.getBaseMembers(projects, obj, member).map((used) => used.id),
+      ...retiredIds,
+    ]);
+
+    if (obj.type === "table" || obj.type === "enum") {
+      // A table or enum numbers its own members after the highest one
+      const ownIds = [
+        ...(obj[member] ?? []).map((item) => item.id),
+        ...retiredIds,
+      ];
+      const { first, last } = MEMBER_ID_LIMITS[member];
+      const from = ownIds.length > 0 ? Math.max(...ownIds) + 1 : first;
+      return from <= last
+        ? findFirstFreeId([{ from, to: last }], usedIds)
+        : null;
+    }
+
+    const ranges = sharedMode
+      ? this.getSharedRanges(projects)
+      : (project?.idRanges ?? []);
+    return findFirstFreeId(ranges, usedIds);
+  }
+
+  /**
+   * Collect the fields or enum values declared on the base object of a
+   * table, tableextension, enum or enumextension: by the base object itself
+   * and by every extension of it, in the workspace projects and in the
+   * dependencies, with the name of the declaring app. Extensions are grouped
+   * by their resolved base object, like in getTableExtensionsByBase and
+   * getEnumExtensionsByBase. The members of the given object are taken from
+   * the object itself, not from its (possibly outdated) copy in the projects.
+   */
+  private getBaseMembers(
+    projects: ALProjectWithFields[],
+    obj: ALObjectWithFields,
+    member: "fields" | "enumValues",
+  ): Array<{ id: number; projectName: string }> {
+    const allProjects = [
+      ...projects,
+      ...(this.dependencies as ALProjectWithFields[]),
+    ];
+    const resolver = new ExtendsTargetResolver(allProjects);
+    const getBaseName = (candidate: ALObjectWithFields) =>
+      (
+        resolver.resolve(candidate) ??
+        getQualifiedName(candidate.name, candidate.namespace)
+      ).toLowerCase();
+    const baseName = getBaseName(obj);
+    const memberTypes: ALObjectTypeWithId[] =
+      member === "fields"
+        ? ["table", "tableextension"]
+        : ["enum", "enumextension"];
+
+    const ownProjectName =
+      this.findProjectForFile(projects, obj.filePath)?.name ?? "";
+    const members = (obj[member] ?? []).map((item) => ({
+      id: item.id,
+      projectName: ownProjectName,
+    }));
+    for (const project of allProjects) {
+      for (const other of project.objects) {
+        const isSameObject =
+          other.type === obj.type &&
+          other.id === obj.id &&
+          other.filePath === obj.filePath;
+        if (
+          !isSameObject &&
+          memberTypes.includes(other.type) &&
+          getBaseName(other) === baseName
+        ) {
+          for (const item of other[member] ?? []) {
+            members.push({ id: item.id, projectName: project.name });
+          }
+        }
+      }
+    }
+    return members;
+  }
+
+  /**
+   * Get the IDs that an app's ledger records for the base object of a
+   * table, tableextension, enum or enumextension. The ledger keys extensions
+   * on their extends clause as written, so both that and the resolved name
+   * are looked up.
+   */
+  private getRetiredMemberIds(
+    record: Record<string, number[]>,
+    projects: ALProjectWithFields[],
+    obj: ALObjectWithFields,
+  ): number[] {
+    const resolved = new ExtendsTargetResolver([
+      ...projects,
+      ...this.dependencies,
+    ]).resolve(obj);
+    const keys = new Set([
+      getRetiredIdsKey(obj),
+      ...(resolved ? [resolved] : []),
+    ]);
+    return [...keys].flatMap((key) => getRecordedIds(record, key));
+  }
+
+  /**
+   * Add the dependency apps referenced by the given projects. Their objects
+   * block IDs, but their ranges are never offered.
+   */
+  protected withDependencies(projects: ALProject[]): ALProject[] {
+    const rootPaths = new Set(projects.map((project) => project.rootPath));
+    return [
+      ...projects,
+      ...this.dependencies.filter((dependency) =>
+        dependency.dependency!.referencedBy.some((rootPath) =>
+          rootPaths.has(rootPath),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Collect the sorted, de-duplicated IDs used by the given projects,
+   * optionally restricted to one object type. IDs in the projects' retired
+   * IDs ledgers count as used, so they are never offered again.
+   */
+  private getUsedIds(
+    projects: ALProject[],
+    objectType?: ALObjectTypeWithId,
+  ): number[] {
+    const ids: number[] = [];
+    for (const project of projects) {
+      for (const obj of project.objects) {
+        if (!objectType || obj.type === objectType) {
+          ids.push(obj.id);
+        }
+      }
+      for (const [type, retired] of Object.entries(
+        project.retiredIds?.objects ?? {},
+      )) {
+        if (!objectType || type === objectType) {
+          ids.push(...retired);
+        }
+      }
+    }
+    return toSortedUniqueIds(ids);
+  }
+
+  /**
+   * Find objects whose ID lies outside every ID range configured in their
+   * project's app.json. Projects without ranges are not validated.
+   */
+  public findOutOfRangeObjects(projects: ALProject[]): OutOfRangeObject[] {
+    const result: OutOfRangeObject[] = [];
+
+    for (const project of projects) {
+      if (project.idRanges.length === 0) {
+        continue;
+      }
+
+      for (const obj of project.objects) {
+        if (!isInRanges(project.idRanges, obj.id)) {
+          result.push({
+            object: obj,
+            projectName: project.name,
+            nearestRange: findNearestRange(project.idRanges, obj.id)!,
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Find fields of tableextensions and values of enumextensions whose ID lies
+   * outside every ID range of their project. Tables and enums number their
+   * own members freely, so only extensions are checked. Projects without
+   * ranges are not validated.
+   */
+  public findOutOfRangeMembers(
+    projects: ALProjectWithFields[],
+  ): OutOfRangeMember[] {
+    const result: OutOfRangeMember[] = [];
+
+    for (const project of projects) {
+      if (project.idRanges.length === 0) {
+        continue;
+      }
+
+      for (const obj of project.objects) {
+        const members =
+          obj.type === "tableextension"
+            ? obj.fields
+            : obj.type === "enumextension"
+              ? obj.enumValues
+              : undefined;
+        for (const member of members ?? []) {
+          if (!isInRanges(project.idRanges, member.id)) {
+            result.push({
+              member,
+              object: obj,
+              projectName: project.name,
+              nearestRange: findNearestRange(project.idRanges, member.id)!,
+            });
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Detect fields that share an ID, or a name, within a single table or
+   * tableextension. Names are compared case-insensitively, like AL does.
+   */
+  public detectDuplicateFields(
+    projects: ALProjectWithFields[],
+  ): DuplicateField[] {
+    const duplicates: DuplicateField[] = [];
+
+    for (const project of projects) {
+      for (const obj of project.objects) {
+        if (obj.type !== "table" && obj.type !== "tableextension") {
+          continue;
+        }
+
+        const byId = new Map<number, ALField[]>();
+        const byName = new Map<string, ALField[]>();
+        for (const field of obj.fields ?? []) {
+          byId.set(field.id, [...(byId.get(field.id) ?? []), field]);
+          const name = field.name.toLowerCase();
+          byName.set(name, [...(byName.get(name) ?? []), field]);
+        }
+
+        for (const [kind, groups] of [
+          ["id", byId],
+          ["name", byName],
+        ] as const) {
+          for (const fields of groups.values()) {
+            if (fields.length > 1) {
+              duplicates.push({
+                kind,
+                object: obj,
+                fields,
+                projectName: project.name,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return duplicates;
+  }
+
+  /**
+   * Detect ID conflicts across projects (same object type + ID in multiple projects)
+   *
+   * @param graph - Only report apps that are installed together; without a
+   *   graph, every pair of apps is checked (shared mode)
+   */
+  public detectConflicts(
+    projects: ALProject[],
+    graph?: DependencyGraph,
+  ): IdConflict[] {
+    const conflicts: IdConflict[] = [];
+
+    for (const declarations of this.groupObjectsByTypeAndId(
+      projects,
+    ).values()) {
+      const owners = this.getClashingOwners(
+        declarations.map((d) => d.project),
+        graph,
+      );
+      if (owners.length > 1) {
+        const clashing = declarations.filter((d) => owners.includes(d.project));
+        conflicts.push({
+          id: clashing[0].object.id,
+          type: clashing[0].object.type,
+          objects: clashing.map((d) => d.object),
+          projectNames: owners.map((project) => project.name),
+        });
+      }
+    }
+
+    return this.sortByTypeAndId(conflicts);
+  }
+
+  /**
+   * Get the distinct apps among the owners of an ID that clash with another
+   * owner: all of them without a graph, otherwise only those installed
+   * together with another owner
+   */
+  private getClashingOwners(
+    owners: ALProject[],
+    graph?: DependencyGraph,
+  ): ALProject[] {
+    const distinct = [...new Set(owners)];
+    if (!graph) {
+      return distinct;
+    }
+    return distinct.filter((owner) =>
+      distinct.some(
+        (other) =>
+          other !== owner && graph.canBeInstalledTogether(owner, other),
+      ),
+    );
+  }
+
+  /**
+   * Detect IDs declared more than once inside the same project (same object
+   * type + ID in one app). This is always an error, regardless of the mode.
+   */
+  public detectDuplicateIds(projects: ALProject[]): DuplicateIdConflict[] {
+    const duplicates: DuplicateIdConflict[] = [];
+
+    for (const declarations of this.groupObjectsByTypeAndId(
+      projects,
+    ).values()) {
+      if (declarations.length < 2) {
+        continue;
+      }
+
+      // Map: project -> its declarations of this type + ID
+      const byProject = new Map<ALProject, ALObject[]>();
+      for (const { object, project } of declarations) {
+        const existing = byProject.get(project) || [];
+        existing.push(object);
+        byProject.set(project, existing);
+      }
+
+      for (const [project, objects] of byProject) {
+        if (objects.length > 1) {
+          duplicates.push({
+            id: objects[0].id,
+            type: objects[0].type,
+            objects,
+            projectName: project.name,
+          });
+        }
+      }
+    }
+
+    return this.sortByTypeAndId(duplicates);
+  }
+
+  /**
+   * Group all objects by "type:id", keeping the owning project of each object
+   */
+  private groupObjectsByTypeAndId(
+    projects: ALProject[],
+  ): Map<string, Array<{ object: ALObject; project: ALProject }>> {
+    const objectMap = new Map<
+      string,
+      Array<{ object: ALObject; project: ALProject }>
+    >();
+
+    for (const project of projects) {
+      for (const object of project.objects) {
+        const key = `${object.type}:${object.id}`;
+        const existing = objectMap.get(key) || [];
+        existing.push({ object, project });
+        objectMap.set(key, existing);
+      }
+    }
+
+    return objectMap;
+  }
+
+  /**
+   * Sort conflicts by type, then by ID
+   */
+  private sortByTypeAndId<T extends { type: string; id: number }>(
+    conflicts: T[],
+  ): T[] {
+    return conflicts.sort((a, b) => {
+      const typeCompare = a.type.localeCompare(b.type);
+      return typeCompare !== 0 ? typeCompare : a.id - b.id;
+    });
+  }
+
+  /**
+   * Detect field conflicts in tableextensions extending the same base table
+   * across multiple projects: the same field ID, or the same field name
+   * (compared case-insensitively, like AL names), used by more than one app.
+   *
+   * @param projects - The projects to analyze (must have objects with fields parsed)
+   * @returns Array of field conflicts grouped by base table
+   */
+  public detectFieldConflicts(
+    projects: ALProjectWithFields[],
+  ): FieldConflict[] {
+    const conflicts: FieldConflict[] = [];
+    const resolver = new ExtendsTargetResolver(projects);
+
+    // Maps: "baseTable:fieldId" and "baseTable:fieldName" -> base table and
+    // field info array, keyed on the fully qualified base table name
+    type FieldGroup = {
+      baseTable: string;
+      fields: Array<{
+        field: FieldConflict["fields"][number];
+        project: ALProjectWithFields;
+      }>;
+    };
+    const fieldMaps: Record<FieldConflict["kind"], Map<string, FieldGroup>> = {
+      id: new Map(),
+      name: new Map(),
+    };
+
+    for (const project of projects) {
+      for (const obj of project.objects) {
+        // Only process tableextensions with an extends clause and fields
+        if (
+          obj.type === "tableextension" &&
+          obj.extendsObject &&
+          obj.fields &&
+          obj.fields.length > 0
+        ) {
+          const baseTable = resolver.resolve(obj)!;
+          for (const field of obj.fields) {
+            const info = {
+              ...field,
+              projectName: project.name,
+              extensionId: obj.id,
+              extensionName: obj.name,
+            };
+            const keys: Record<FieldConflict["kind"], string> = {
+              id: `${baseTable.toLowerCase()}:${field.id}`,
+              name: `${baseTable.toLowerCase()}:${field.name.toLowerCase()}`,
+            };
+            for (const kind of ["id", "name"] as const) {
+              const existing = fieldMaps[kind].get(keys[kind]) || {
+                baseTable,
+                fields: [],
+              };
+              existing.fields.push({ field: info, project });
+              fieldMaps[kind].set(keys[kind], existing);
+            }
+          }
+        }
+      }
+    }
+
+    // Find entries with fields from different projects (conflicts)
+    for (const kind of ["id", "name"] as const) {
+      for (const { baseTable, fields: entries } of fieldMaps[kind].values()) {
+        const owners = this.getClashingOwners(
+          entries.map((entry) => entry.project),
+        );
+        if (owners.length > 1) {
+          const fields = entries
+            .filter((entry) => owners.includes(entry.project))
+            .map((entry) => entry.field);
+          conflicts.push({
+            kind,
+            fieldId: fields[0].id,
+            fieldName: fields[0].name,
+            baseTable,
+            fields,
+          });
+        }
+      }
+    }
+
+    // Sort by base table, ID conflicts before name conflicts, then by field
+    // ID or name
+    conflicts.sort(
+      (a, b) =>
+        a.baseTable.localeCompare(b.baseTable) ||
+        a.kind.localeCompare(b.kind) ||
+        (a.kind === "id"
+          ? a.fieldId - b.fieldId
+          : a.fieldName.localeCompare(b.fieldName)),
+    );
+
+    return conflicts;
+  }
+
+  /**
+   * Detect enum value conflicts in enumextensions extending the same base
+   * enum across multiple projects: the same ordinal, or the same value name
+   * (compared case-insensitively, like AL names), used by more than one app.
+   *
+   * @param projects - The projects to analyze (must have objects with enumValues parsed)
+   * @returns Array of enum value conflicts grouped by base enum
+   */
+  public detectEnumValueConflicts(
+    projects: ALProjectWithFields[],
+  ): EnumValueConflict[] {
+    const conflicts: EnumValueConflict[] = [];
+    const resolver = new ExtendsTargetResolver(projects);
+
+    // Maps: "baseEnum:valueId" and "baseEnum:valueName" -> base enum and
+    // value info array, keyed on the fully qualified base enum name
+    type ValueGroup = {
+      baseEnum: string;
+      values: Array<{
+        value: EnumValueConflict["values"][number];
+        project: ALProjectWithFields;
+      }>;
+    };
+    const valueMaps: Record<
+      EnumValueConflict["kind"],
+      Map<string, ValueGroup>
+    > = {
+      id: new Map(),
+      name: new Map(),
+    };
+
+    for (const project of projects) {
+      for (const obj of project.objects) {
+        // Only process enumextensions with an extends clause and values
+        if (
+          obj.type === "enumextension" &&
+          obj.extendsObject &&
+          obj.enumValues &&
+          obj.enumValues.length > 0
+        ) {
+          const baseEnum = resolver.resolve(obj)!;
+          for (const value of obj.enumValues) {
+            const info = {
+              ...value,
+              projectName: project.name,
+              extensionId: obj.id,
+              extensionName: obj.name,
+            };
+            const keys: Record<EnumValueConflict["kind"], string> = {
+              id: `${baseEnum.toLowerCase()}:${value.id}`,
+              name: `${baseEnum.toLowerCase()}:${value.name.toLowerCase()}`,
+            };
+            for (const kind of ["id", "name"] as const) {
+              const existing = valueMaps[kind].get(keys[kind]) || {
+                baseEnum,
+                values: [],
+              };
+              existing.values.push({ value: info, project });
+              valueMaps[kind].set(keys[kind], existing);
+            }
+          }
+        }
+      }
+    }
+
+    // Find entries with values from different projects (conflicts)
+    for (const kind of ["id", "name"] as const) {
+      for (const { baseEnum, values: entries } of valueMaps[kind].values()) {
+        const owners = this.getClashingOwners(
+          entries.map((entry) => entry.project),
+        );
+        if (owners.length > 1) {
+          const values = entries
+            .filter((entry) => owners.includes(entry.project))
+            .map((entry) => entry.value);
+          conflicts.push({
+            kind,
+            valueId: values[0].id,
+            valueName: values[0].name,
+            baseEnum,
+            values,
+          });
+        }
+      }
+    }
+
+    // Sort by base enum, ID conflicts before name conflicts, then by value
+    // ID or name
+    conflicts.sort(
+      (a, b) =>
+        a.baseEnum.localeCompare(b.baseEnum) ||
+        a.kind.localeCompare(b.kind) ||
+        (a.kind === "id"
+          ? a.valueId - b.valueId
+          : a.valueName.localeCompare(b.valueName)),
+    );
+
+    return conflicts;
+  }
+
+  /**
+   * Detect object, field and enum value conflicts across the given projects
+   * and the dependency apps. Field and enum value conflicts are checked
+   * between every pair of apps in both modes, as unrelated per-tenant apps
+   * can be installed on the same tenant. Object conflicts are checked between
+   * every pair of apps in shared mode; otherwise the dependencies in app.json
+   * and the package manifests add the apps that are installed together, whose
+   * objects must not clash even with separate ID ranges. Only conflicts that
+   * involve at least one declaration in a workspace project are returned.
+   */
+  public detectWorkspaceConflicts(
+    projects: ALProjectWithFields[],
+  ): WorkspaceConflicts {
+    const dependencies = this.dependencies as ALProjectWithFields[];
+    const allProjects = [...projects, ...dependencies];
+    const graph = this.getSettings().sharedRangeMode
+      ? undefined
+      : new DependencyGraph(allProjects);
+    const packagePaths = new Set(
+      dependencies.map((dependency) => dependency.rootPath),
+    );
+    const isWorkspaceFile = (filePath: string) => !packagePaths.has(filePath);
+
+    return {
+      conflicts: this.detectConflicts(allProjects, graph).filter((c) =>
+        c.objects.some((o) => isWorkspaceFile(o.filePath)),
+      ),
+      fieldConflicts: this.detectFieldConflicts(allProjects).filter((c) =>
+        c.fields.some((f) => isWorkspaceFile(f.filePath)),
+      ),
+      enumValueConflicts: this.detectEnumValueConflicts(allProjects).filter(
+        (c) => c.values.some((v) => isWorkspaceFile(v.filePath)),
+      ),
+    };
+  }
+
+  /**
+   * Get all tableextensions grouped by the base table they extend.
+   * Useful for displaying in tree views.
+   *
+   * @param projects - The projects to analyze
+   * @returns Map of fully qualified base table name to list of extensions with their project info
+   */
+  public getTableExtensionsByBase(
+    projects: ALProjectWithFields[],
+  ): Map<
+    string,
+    Array<{ obj: ALObjectWithFields; projectName: string; projectPath: string }>
+  > {
+    const result = new Map<
+      string,
+      Array<{
+        obj: ALObjectWithFields;
+        projectName: string;
+        projectPath: string;
+      }>
+    >();
+
+    const resolver = new ExtendsTargetResolver(projects);
+
+    for (const project of projects) {
+      for (const obj of project.objects) {
+        if (obj.type === "tableextension" && obj.extendsObject) {
+          const baseName = resolver.resolve(obj)!;
+          const existing = result.get(baseName) || [];
+          existing.push({
+            obj,
+            projectName: project.name,
+            projectPath: project.rootPath,
+          });
+          result.set(baseName, existing);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get all enumextensions grouped by the base enum they extend.
+   * Useful for displaying in tree views.
+   *
+   * @param projects - The projects to analyze
+   * @returns Map of fully qualified base enum name to list of extensions with their project info
+   */
+  public getEnumExtensionsByBase(
+    projects: ALProjectWithFields[],
+  ): Map<
+    string,
+    Array<{ obj: ALObjectWithFields; projectName: string; projectPath: string }>
+  > {
+    const result = new Map<
+      string,
+      Array<{
+        obj: ALObjectWithFields;
+        projectName: string;
+        projectPath: string;
+      }>
+    >();
+
+    const resolver = new ExtendsTargetResolver(projects);
+
+    for (const project of projects) {
+      for (const obj of project.objects) {
+        if (obj.type === "enumextension" && obj.extendsObject) {
+          const baseName = resolver.resolve(obj)!;
+          const existing = result.get(baseName) || [];
+          existing.push({
+            obj,
+            projectName: project.name,
+            projectPath: project.rootPath,
+          });
+          result.set(baseName, existing);
+        }
+      }
+    }
+
+    return result;
+  }
+}
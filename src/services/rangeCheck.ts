@@ -0,0 +1,443 @@
+import * as path from "path";
+import {
+  ALObject,
+  MemberConflictSeverity,
+  RangeExhaustion,
+} from "../types/index.js";
+import { ALProjectWithFields, RangeAnalyzer } from "./rangeAnalyzer.js";
+
+/**
+ * Codes of the problems reported by the range check
+ */
+export const ProblemCodes = {
+  outOfRange: "out-of-range",
+  duplicateId: "duplicate-id",
+  fieldOutOfRange: "field-out-of-range",
+  enumValueOutOfRange: "enum-value-out-of-range",
+  duplicateFieldId: "duplicate-field-id",
+  duplicateFieldName: "duplicate-field-name",
+  idConflict: "id-conflict",
+  fieldConflict: "field-conflict",
+  enumValueConflict: "enum-value-conflict",
+  fieldNameConflict: "field-name-conflict",
+  enumValueNameConflict: "enum-value-name-conflict",
+  rangeUsageWarning: "range-usage-warning",
+  rangeUsageError: "range-usage-error",
+} as const;
+
+export type ProblemCode = (typeof ProblemCodes)[keyof typeof ProblemCodes];
+
+/**
+ * Short description of each problem code, e.g. for report rule metadata
+ */
+export const PROBLEM_DESCRIPTIONS: Record<ProblemCode, string> = {
+  "out-of-range": "Object ID is outside the app's idRanges",
+  "duplicate-id": "Object type + ID is declared more than once in an app",
+  "field-out-of-range": "Tableextension field ID is outside the app's idRanges",
+  "enum-value-out-of-range":
+    "Enumextension value ID is outside the app's idRanges",
+  "duplicate-field-id":
+    "Field ID is declared more than once in a table or tableextension",
+  "duplicate-field-name":
+    "Field name is declared more than once in a table or tableextension",
+  "id-conflict": "Object type + ID is used by more than one app",
+  "field-conflict":
+    "Field ID on the same base table is used by more than one app",
+  "enum-value-conflict":
+    "Enum value ID on the same base enum is used by more than one app",
+  "field-name-conflict":
+    "Field name on the same base table is used by more than one app",
+  "enum-value-name-conflict":
+    "Enum value name on the same base enum is used by more than one app",
+  "range-usage-warning":
+    "The share of used IDs in an app's idRanges reached the warning threshold",
+  "range-usage-error":
+    "The share of used IDs in an app's idRanges reached the error threshold",
+};
+
+/**
+ * Severity of a problem. Only errors make the command line check fail.
+ */
+export type ProblemSeverity = Exclude<MemberConflictSeverity, "off">;
+
+/**
+ * Codes of the problems that are warnings; all other problems are errors,
+ * except member conflicts
+ */
+const WARNING_PROBLEM_CODES: ReadonlySet<ProblemCode> = new Set([
+  ProblemCodes.rangeUsageWarning,
+]);
+
+/**
+ * Codes of field and enum value conflicts across apps, reported with the
+ * configured member conflict severity
+ */
+const MEMBER_CONFLICT_CODES: ReadonlySet<ProblemCode> = new Set([
+  ProblemCodes.fieldConflict,
+  ProblemCodes.enumValueConflict,
+  ProblemCodes.fieldNameConflict,
+  ProblemCodes.enumValueNameConflict,
+]);
+
+/**
+ * Get the severity a problem code is reported with: member conflicts use
+ * the configured severity, range usage below the error threshold is a
+ * warning, and all other problems are errors
+ */
+export function getProblemSeverity(
+  code: ProblemCode,
+  memberConflictSeverity: MemberConflictSeverity,
+): ProblemSeverity {
+  if (MEMBER_CONFLICT_CODES.has(code) && memberConflictSeverity !== "off") {
+    return memberConflictSeverity;
+  }
+  return WARNING_PROBLEM_CODES.has(code) ? "warning" : "error";
+}
+
+/**
+ * A location related to a problem, e.g. another declaration of the same ID
+ */
+export interface RelatedLocation {
+  /** The absolute file path */
+  filePath: string;
+  /** The line number (1-based) */
+  lineNumber: number;
+  /** Describes what is at this location */
+  message: string;
+}
+
+/**
+ * A problem found in a workspace file
+ */
+export interface RangeProblem {
+  /** The problem code */
+  code: ProblemCode;
+  /** The name of the app that declares the problem location */
+  projectName: string;
+  /** Human-readable description */
+  message: string;
+  /** The absolute file path of the declaration */
+  filePath: string;
+  /** The line number of the declaration (1-based) */
+  lineNumber: number;
+  /** Other declarations involved in the problem */
+  related: RelatedLocation[];
+}
+
+/**
+ * Options for the range check
+ */
+export interface RangeCheckOptions {
+  /**
+   * Report object IDs used by more than one app: by any two apps in shared
+   * mode, by apps that are installed together otherwise
+   */
+  crossAppConflicts: boolean;
+  /**
+   * Severity of field and enum value IDs and names used by more than one app
+   * on the same base object, in any mode; "off" skips the check
+   */
+  memberConflictSeverity: MemberConflictSeverity;
+  /**
+   * Report apps whose ID ranges reached the warning or error threshold of
+   * the range usage thresholds
+   */
+  rangeUsage?: boolean;
+}
+
+/**
+ * Get the problem codes that are checked with the given options
+ */
+export function getCheckedProblemCodes(
+  options: RangeCheckOptions,
+): ProblemCode[] {
+  const codes: ProblemCode[] = [
+    ProblemCodes.outOfRange,
+    ProblemCodes.duplicateId,
+    ProblemCodes.fieldOutOfRange,
+    ProblemCodes.enumValueOutOfRange,
+    ProblemCodes.duplicateFieldId,
+    ProblemCodes.duplicateFieldName,
+  ];
+  if (options.crossAppConflicts) {
+    codes.push(ProblemCodes.idConflict);
+  }
+  if (options.memberConflictSeverity !== "off") {
+    codes.push(
+      ProblemCodes.fieldConflict,
+      ProblemCodes.enumValueConflict,
+      ProblemCodes.fieldNameConflict,
+      ProblemCodes.enumValueNameConflict,
+    );
+  }
+  if (options.rangeUsage) {
+    codes.push(ProblemCodes.rangeUsageWarning, ProblemCodes.rangeUsageError);
+  }
+  return codes;
+}
+
+/**
+ * Check the projects for out-of-range IDs and duplicate IDs of objects,
+ * extension fields and enum values, and for object, field and enum value
+ * IDs and names used by more than one app. In normal mode, objects are only
+ * checked between apps that are installed together. Problems are only
+ * reported on workspace files, never on dependency packages.
+ */
+export function findRangeProblems(
+  analyzer: RangeAnalyzer,
+  projects: ALProjectWithFields[],
+  options: RangeCheckOptions,
+): RangeProblem[] {
+  const problems: RangeProblem[] = [];
+
+  for (const outOfRange of analyzer.findOutOfRangeObjects(projects)) {
+    const { object, projectName, nearestRange } = outOfRange;
+    problems.push({
+      code: ProblemCodes.outOfRange,
+      projectName,
+      message:
+        `${formatTypeName(object.type)} ID ${object.id} is outside ` +
+        `the ID ranges of "${projectName}". ` +
+        `Nearest valid range: ${nearestRange.from}-${nearestRange.to}`,
+      filePath: object.filePath,
+      lineNumber: object.lineNumber,
+      related: [],
+    });
+  }
+
+  for (const duplicate of analyzer.detectDuplicateIds(projects)) {
+    for (const object of duplicate.objects) {
+      problems.push({
+        code: ProblemCodes.duplicateId,
+        projectName: duplicate.projectName,
+        message:
+          `${formatTypeName(object.type)} ID ${object.id} is declared ` +
+          `${duplicate.objects.length} times in "${duplicate.projectName}"`,
+        filePath: object.filePath,
+        lineNumber: object.lineNumber,
+        related: duplicate.objects
+          .filter((other) => other !== object)
+          .map((other) => ({
+            filePath: other.filePath,
+            lineNumber: other.lineNumber,
+            message: `Also declared as ${describeObject(other)}`,
+          })),
+      });
+    }
+  }
+
+  for (const outOfRange of analyzer.findOutOfRangeMembers(projects)) {
+    const { member, object, projectName, nearestRange } = outOfRange;
+    const isField = object.type === "tableextension";
+    problems.push({
+      code: isField
+        ? ProblemCodes.fieldOutOfRange
+        : ProblemCodes.enumValueOutOfRange,
+      projectName,
+      message:
+        `${isField ? "Field" : "Enum value"} ${member.id} "${member.name}" ` +
+        `of ${describeObject(object)} is outside the ID ranges of ` +
+        `"${projectName}". Nearest valid range: ` +
+        `${nearestRange.from}-${nearestRange.to}`,
+      filePath: member.filePath,
+      lineNumber: member.lineNumber,
+      related: [],
+    });
+  }
+
+  for (const duplicate of analyzer.detectDuplicateFields(projects)) {
+    const { kind, object, fields, projectName } = duplicate;
+    const message =
+      kind === "id"
+        ? `Field ID ${fields[0].id} is declared ${fields.length} times in ` +
+          describeObject(object)
+        : `Field name "${fields[0].name}" is declared ${fields.length} ` +
+          `times in ${describeObject(object)}`;
+    for (const field of fields) {
+      problems.push({
+        code:
+          kind === "id"
+            ? ProblemCodes.duplicateFieldId
+            : ProblemCodes.duplicateFieldName,
+        projectName,
+        message,
+        filePath: field.filePath,
+        lineNumber: field.lineNumber,
+        related: fields
+          .filter((other) => other !== field)
+          .map((other) => ({
+            filePath: other.filePath,
+            lineNumber: other.lineNumber,
+            message: `Also declared as field ${other.id} "${other.name}"`,
+          })),
+      });
+    }
+  }
+
+  // Usage of the shared range is reported in every app's app.json
+  for (const exhaustion of options.rangeUsage
+    ? analyzer.findRangeExhaustion(projects)
+    : []) {
+    const affected = exhaustion.project
+      ? [exhaustion.project]
+      : projects.filter((project) => !project.dependency);
+    for (const project of affected) {
+      problems.push({
+        code:
+          exhaustion.level === "error"
+            ? ProblemCodes.rangeUsageError
+            : ProblemCodes.rangeUsageWarning,
+        projectName: project.name,
+        message: describeRangeExhaustion(exhaustion),
+        filePath: path.join(project.rootPath, "app.json"),
+        lineNumber: project.idRangesLineNumber ?? 1,
+        related: [],
+      });
+    }
+  }
+
+  const memberConflicts = options.memberConflictSeverity !== "off";
+  if (!options.crossAppConflicts && !memberConflicts) {
+    return problems;
+  }
+
+  const packagePaths = new Set(
+    analyzer.getDependencies().map((dependency) => dependency.rootPath),
+  );
+  const isWorkspaceFile = (filePath: string) => !packagePaths.has(filePath);
+  const { conflicts, fieldConflicts, enumValueConflicts } =
+    analyzer.detectWorkspaceConflicts(projects);
+
+  for (const conflict of options.crossAppConflicts ? conflicts : []) {
+    const message =
+      `${formatTypeName(conflict.type)} ID ${conflict.id} is used by ` +
+      `${conflict.projectNames.length} apps: ${conflict.projectNames.join(", ")}`;
+    for (const object of conflict.objects.filter((o) =>
+      isWorkspaceFile(o.filePath),
+    )) {
+      problems.push({
+        code: ProblemCodes.idConflict,
+        projectName:
+          analyzer.findProjectForFile(projects, object.filePath)?.name ?? "",
+        message,
+        filePath: object.filePath,
+        lineNumber: object.lineNumber,
+        related: conflict.objects
+          .filter((other) => other !== object)
+          .map((other) => ({
+            filePath: other.filePath,
+            lineNumber: other.lineNumber,
+            message: `Also declared as ${describeObject(other)}`,
+          })),
+      });
+    }
+  }
+
+  for (const conflict of memberConflicts ? fieldConflicts : []) {
+    const projectNames = [
+      ...new Set(conflict.fields.map((f) => f.projectName)),
+    ];
+    const message =
+      (conflict.kind === "id"
+        ? `Field ID ${conflict.fieldId}`
+        : `Field name "${conflict.fieldName}"`) +
+      ` on "${conflict.baseTable}" is used by ` +
+      `${projectNames.length} apps: ${projectNames.join(", ")}`;
+    for (const field of conflict.fields.filter((f) =>
+      isWorkspaceFile(f.filePath),
+    )) {
+      problems.push({
+        code:
+          conflict.kind === "id"
+            ? ProblemCodes.fieldConflict
+            : ProblemCodes.fieldNameConflict,
+        projectName: field.projectName,
+        message,
+        filePath: field.filePath,
+        lineNumber: field.lineNumber,
+        related: conflict.fields
+          .filter((other) => other !== field)
+          .map((other) => ({
+            filePath: other.filePath,
+            lineNumber: other.lineNumber,
+            message:
+              `Also declared as field ${other.id} "${other.name}" in ` +
+              `tableextension ${other.extensionId} "${other.extensionName}" ` +
+              `(${other.projectName})`,
+          })),
+      });
+    }
+  }
+
+  for (const conflict of memberConflicts ? enumValueConflicts : []) {
+    const projectNames = [
+      ...new Set(conflict.values.map((v) => v.projectName)),
+    ];
+    const message =
+      (conflict.kind === "id"
+        ? `Enum value ID ${conflict.valueId}`
+        : `Enum value name "${conflict.valueName}"`) +
+      ` on "${conflict.baseEnum}" is used by ` +
+      `${projectNames.length} apps: ${projectNames.join(", ")}`;
+    for (const value of conflict.values.filter((v) =>
+      isWorkspaceFile(v.filePath),
+    )) {
+      problems.push({
+        code:
+          conflict.kind === "id"
+            ? ProblemCodes.enumValueConflict
+            : ProblemCodes.enumValueNameConflict,
+        projectName: value.projectName,
+        message,
+        filePath: value.filePath,
+        lineNumber: value.lineNumber,
+        related: conflict.values
+          .filter((other) => other !== value)
+          .map((other) => ({
+            filePath: other.filePath,
+            lineNumber: other.lineNumber,
+            message:
+              `Also declared as value ${other.id} "${other.name}" in ` +
+              `enumextension ${other.extensionId} "${other.extensionName}" ` +
+              `(${other.projectName})`,
+          })),
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Describe a range usage threshold that was crossed, e.g. "My App" has used
+ * 96% of its table IDs (96 of 100); the error threshold is 95%
+ */
+export function describeRangeExhaustion(exhaustion: RangeExhaustion): string {
+  const owner = exhaustion.project
+    ? `"${exhaustion.project.name}"`
+    : "The shared range";
+  const ids = exhaustion.objectType
+    ? `its ${exhaustion.objectType} IDs`
+    : exhaustion.project
+      ? "the IDs in its ranges"
+      : "its IDs";
+  return (
+    `${owner} has used ${Math.floor(exhaustion.percent)}% of ${ids} ` +
+    `(${exhaustion.used} of ${exhaustion.total}); ` +
+    `the ${exhaustion.level} threshold is ${exhaustion.threshold}%`
+  );
+}
+
+/**
+ * Format an object type name for display (capitalize first letter)
+ */
+function formatTypeName(objectType: string): string {
+  return objectType.charAt(0).toUpperCase() + objectType.slice(1);
+}
+
+/**
+ * Describe an object as "type id "name""
+ */
+function describeObject(object: ALObject): string {
+  return `${object.type} ${object.id} "${object.name}"`;
+}
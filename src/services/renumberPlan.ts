@@ -0,0 +1,145 @@
+import { ALObject, IdRange } from "../types/index.js";
+import { IdRangeSchema } from "../models/schemas.js";
+import { mergeRanges } from "./idIntervals.js";
+
+/**
+ * How IDs are assigned in the target range when renumbering
+ *
+ * - keepLayout: each ID keeps its offset within the current ranges, so gaps
+ *   between IDs are preserved
+ * - pack: IDs are assigned consecutively from the start of the target range
+ */
+export type RenumberMode = "keepLayout" | "pack";
+
+/**
+ * The ID of an object, field or enum value and where the parser found it
+ */
+export type IdPosition = Pick<ALObject, "id" | "idLineNumber" | "idColumn">;
+
+/**
+ * The text of an ID in a file (0-based line and characters)
+ */
+export interface IdSpan {
+  line: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a range typed by the user, e.g. "70000000-70000199" or
+ * "70000000..70000199". Returns null for invalid input.
+ */
+export function parseIdRangeInput(text: string): IdRange | null {
+  const match = /^\s*(\d+)\s*(?:-|\.\.)\s*(\d+)\s*$/.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const result = IdRangeSchema.safeParse({
+    from: parseInt(match[1], 10),
+    to: parseInt(match[2], 10),
+  });
+  return result.success ? result.data : null;
+}
+
+/**
+ * Map every ID to a new ID in the target range, keeping the order of the IDs.
+ *
+ * In keepLayout mode an ID's offset is its position within the merged source
+ * ranges. An ID outside the source ranges takes the offset after the ID
+ * before it, and the IDs after it move up as far as needed, keeping their
+ * gaps.
+ *
+ * @returns Map of old ID to new ID, or null if the IDs do not fit in the target range
+ */
+export function planIdMapping(
+  ids: readonly number[],
+  sourceRanges: readonly IdRange[],
+  target: IdRange,
+  mode: RenumberMode,
+): Map<number, number> | null {
+  const sortedIds = [...new Set(ids)].sort((a, b) => a - b);
+  const offsets =
+    mode === "pack"
+      ? sortedIds.map((_, index) => index)
+      : getLayoutOffsets(sortedIds, sourceRanges);
+
+  const mapping = new Map<number, number>();
+  for (let i = 0; i < sortedIds.length; i++) {
+    const newId = target.from + offsets[i];
+    if (newId > target.to) {
+      return null;
+    }
+    mapping.set(sortedIds[i], newId);
+  }
+
+  return mapping;
+}
+
+/**
+ * Get the offset of each sorted ID within the merged source ranges, shifted
+ * up where needed to stay after the IDs outside the ranges
+ */
+function getLayoutOffsets(
+  sortedIds: readonly number[],
+  sourceRanges: readonly IdRange[],
+): number[] {
+  const merged = mergeRanges(sourceRanges);
+  const offsets: number[] = [];
+  let shift = 0;
+
+  for (const id of sortedIds) {
+    const nextOffset = offsets.length > 0 ? offsets[offsets.length - 1] + 1 : 0;
+    const layoutOffset = getRangeOffset(id, merged);
+    if (layoutOffset === null) {
+      offsets.push(nextOffset);
+      continue;
+    }
+
+    shift = Math.max(shift, nextOffset - layoutOffset);
+    offsets.push(layoutOffset + shift);
+  }
+
+  return offsets;
+}
+
+/**
+ * Get the position of an ID within merged ranges, or null if it is outside
+ * them
+ */
+function getRangeOffset(id: number, merged: readonly IdRange[]): number | null {
+  let rangeStartOffset = 0;
+  for (const range of merged) {
+    if (id >= range.from && id <= range.to) {
+      return rangeStartOffset + (id - range.from);
+    }
+    rangeStartOffset += range.to - range.from + 1;
+  }
+  return null;
+}
+
+/**
+ * Locate the ID of a declaration at the position the parser recorded for
+ * it, which may be on a later line than the declaration keyword
+ *
+ * @param lines - The current lines of the file
+ * @returns The span of the ID, or null if the position is unknown or no
+ *   longer holds the ID (e.g. the file changed since it was parsed)
+ */
+export function locateDeclarationId(
+  lines: readonly string[],
+  declaration: IdPosition,
+): IdSpan | null {
+  if (!declaration.idLineNumber || !declaration.idColumn) {
+    return null;
+  }
+
+  const line = declaration.idLineNumber - 1;
+  const start = declaration.idColumn - 1;
+  const match = /^\d+(?!\w)/.exec(lines[line]?.slice(start) ?? "");
+  if (!match || parseInt(match[0], 10) !== declaration.id) {
+    return null;
+  }
+
+  return { line, start, end: start + match[0].length };
+}
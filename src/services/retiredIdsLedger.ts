@@ -0,0 +1,169 @@
+/**
+ * The retired IDs ledger of an app.
+ *
+ * AppSource does not allow the IDs of removed objects, fields and enum values
+ * to be reused. The ledger is a file next to app.json, meant to be committed,
+ * that records the IDs the app has declared in its ID ranges. IDs are never
+ * removed from it, so an ID stays taken after its declaration is deleted.
+ */
+
+import {
+  ALObject,
+  ALObjectTypeWithId,
+  ALObjectWithFields,
+  AL_OBJECT_TYPES_WITH_ID,
+  IdRange,
+  RetiredIds,
+} from "../types/index.js";
+import { isInRanges } from "./idIntervals.js";
+import { getQualifiedName } from "./qualifiedNames.js";
+
+/**
+ * Name of the ledger file in the root folder of each app
+ */
+export const RETIRED_IDS_FILE_NAME = "retired-ids.json";
+
+/**
+ * Create an empty ledger
+ */
+export function createRetiredIds(): RetiredIds {
+  return { objects: {}, fields: {}, enumValues: {} };
+}
+
+/**
+ * Get the ledger key of the table that holds an object's fields, or of the
+ * enum that holds its values: the object's own name for tables and enums,
+ * the extended base object for extensions
+ */
+export function getRetiredIdsKey(obj: ALObjectWithFields): string {
+  return obj.extendsObject
+    ? getQualifiedName(obj.extendsObject, obj.extendsNamespace)
+    : getQualifiedName(obj.name, obj.namespace);
+}
+
+/**
+ * Add the object, field and enum value IDs declared by the objects to the
+ * ledger (in place). Object IDs and the member IDs of extensions are only
+ * added when they lie in the app's ID ranges, so a mistyped ID is not
+ * retired for good; tables and enums number their own members freely, so
+ * all of those are added.
+ *
+ * @returns Whether any ID was added
+ */
+export function recordIds(
+  ledger: RetiredIds,
+  objects: ALObjectWithFields[],
+  idRanges: IdRange[],
+): boolean {
+  let changed = false;
+
+  for (const obj of objects) {
+    if (isInRanges(idRanges, obj.id)) {
+      changed =
+        addId(ledger.objects as Record<string, number[]>, obj.type, obj.id) ||
+        changed;
+    }
+
+    const key = getRetiredIdsKey(obj);
+    const isExtension =
+      obj.type === "tableextension" || obj.type === "enumextension";
+    const isRecorded = (id: number) => !isExtension || isInRanges(idRanges, id);
+    for (const field of obj.fields ?? []) {
+      if (isRecorded(field.id)) {
+        changed = addId(ledger.fields, key, field.id) || changed;
+      }
+    }
+    for (const value of obj.enumValues ?? []) {
+      if (isRecorded(value.id)) {
+        changed = addId(ledger.enumValues, key, value.id) || changed;
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Get the field or enum value IDs a ledger records for a table or enum.
+ * Names are compared case-insensitively, like AL names.
+ */
+export function getRecordedIds(
+  record: Record<string, number[]>,
+  key: string,
+): number[] {
+  return Object.entries(record)
+    .filter(([candidate]) => candidate.toLowerCase() === key.toLowerCase())
+    .flatMap(([, ids]) => ids);
+}
+
+/**
+ * Get the object IDs of a type that are in the app's ledger but no longer
+ * declared by any of its objects
+ */
+export function getRetiredObjectIds(
+  project: { objects: ALObject[]; retiredIds?: RetiredIds },
+  objectType: ALObjectTypeWithId,
+): number[] {
+  const declared = new Set(
+    project.objects
+      .filter((obj) => obj.type === objectType)
+      .map((obj) => obj.id),
+  );
+  return (project.retiredIds?.objects[objectType] ?? []).filter(
+    (id) => !declared.has(id),
+  );
+}
+
+/**
+ * Serialize a ledger as stable, sorted JSON so it diffs well in source control
+ */
+export function serializeRetiredIds(ledger: RetiredIds): string {
+  const objects: RetiredIds["objects"] = {};
+  for (const type of AL_OBJECT_TYPES_WITH_ID) {
+    if (ledger.objects[type]?.length) {
+      objects[type] = [...ledger.objects[type]!].sort((a, b) => a - b);
+    }
+  }
+
+  const sortRecord = (record: Record<string, number[]>) =>
+    Object.fromEntries(
+      Object.keys(record)
+        .sort((a, b) => a.localeCompare(b))
+        .map((key) => [key, [...record[key]].sort((a, b) => a - b)]),
+    );
+
+  return (
+    JSON.stringify(
+      {
+        objects,
+        fields: sortRecord(ledger.fields),
+        enumValues: sortRecord(ledger.enumValues),
+      },
+      null,
+      2,
+    ) + "\n"
+  );
+}
+
+/**
+ * Add an ID to the list of a key. Keys are names and compared
+ * case-insensitively, like AL names.
+ *
+ * @returns Whether the ID was added
+ */
+function addId(
+  record: Record<string, number[]>,
+  key: string,
+  id: number,
+): boolean {
+  const existingKey =
+    Object.keys(record).find(
+      (candidate) => candidate.toLowerCase() === key.toLowerCase(),
+    ) ?? key;
+  const ids = (record[existingKey] ??= []);
+  if (ids.includes(id)) {
+    return false;
+  }
+  ids.push(id);
+  return true;
+}
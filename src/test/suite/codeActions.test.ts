@@ -0,0 +1,131 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { ALProject } from "../../types/index.js";
+import { WorkspaceScanner } from "../../services/workspaceScanner.js";
+import { ObjectIdCodeActionProvider } from "../../providers/objectIdCodeActionProvider.js";
+import { DiagnosticCodes } from "../../providers/objectIdDiagnosticsProvider.js";
+
+suite("Code Action Provider Test Suite", () => {
+  let rootPath: string;
+  let filePath: string;
+  let provider: ObjectIdCodeActionProvider;
+
+  const context: vscode.CodeActionContext = {
+    diagnostics: [],
+    triggerKind: vscode.CodeActionTriggerKind.Invoke,
+    only: undefined,
+  };
+  const token = new vscode.CancellationTokenSource().token;
+
+  setup(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "bc-object-range-"));
+    filePath = path.join(rootPath, "MyCodeunit.Codeunit.al");
+    fs.writeFileSync(filePath, 'codeunit 50001 "My Codeunit"\n{\n}\n');
+
+    const project: ALProject = {
+      name: "Test App",
+      rootPath,
+      idRanges: [{ from: 50000, to: 50009 }],
+      objects: [
+        {
+          type: "codeunit",
+          id: 50000,
+          name: "Other Codeunit",
+          lineNumber: 1,
+          filePath: path.join(rootPath, "Other.Codeunit.al"),
+        },
+        {
+          type: "codeunit",
+          id: 50001,
+          name: "My Codeunit",
+          lineNumber: 1,
+          filePath,
+        },
+      ],
+    };
+
+    provider = new ObjectIdCodeActionProvider(new WorkspaceScanner());
+    provider.setProjects([project]);
+  });
+
+  teardown(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  test("should offer the next available ID on the declaration line", async () => {
+    const document = await vscode.workspace.openTextDocument(filePath);
+
+    const actions = provider.provideCodeActions(
+      document,
+      new vscode.Range(0, 0, 0, 0),
+      context,
+      token
+    );
+
+    assert.ok(actions);
+    assert.deepStrictEqual(
+      actions.map((action) => action.title),
+      ["Change ID to next available codeunit ID (50002)", "Pick ID from gap…"]
+    );
+    assert.strictEqual(
+      actions[0].kind?.value,
+      vscode.CodeActionKind.RefactorRewrite.value
+    );
+  });
+
+  test("should replace only the ID when the edit is applied", async () => {
+    const document = await vscode.workspace.openTextDocument(filePath);
+    const actions = provider.provideCodeActions(
+      document,
+      new vscode.Range(0, 0, 0, 0),
+      context,
+      token
+    );
+
+    assert.ok(actions && actions[0].edit);
+    await vscode.workspace.applyEdit(actions[0].edit);
+
+    assert.strictEqual(document.lineAt(0).text, 'codeunit 50002 "My Codeunit"');
+  });
+
+  test("should offer a quick fix for an out-of-range diagnostic", async () => {
+    const document = await vscode.workspace.openTextDocument(filePath);
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(0, 0, 0, 28),
+      "out of range",
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.code = DiagnosticCodes.outOfRange;
+
+    const actions = provider.provideCodeActions(
+      document,
+      new vscode.Range(0, 0, 0, 0),
+      { ...context, diagnostics: [diagnostic] },
+      token
+    );
+
+    assert.ok(actions);
+    assert.strictEqual(
+      actions[0].kind?.value,
+      vscode.CodeActionKind.QuickFix.value
+    );
+    assert.strictEqual(actions[0].isPreferred, true);
+    assert.deepStrictEqual(actions[0].diagnostics, [diagnostic]);
+  });
+
+  test("should not offer actions outside a declaration line", async () => {
+    const document = await vscode.workspace.openTextDocument(filePath);
+
+    const actions = provider.provideCodeActions(
+      document,
+      new vscode.Range(1, 0, 1, 0),
+      context,
+      token
+    );
+
+    assert.strictEqual(actions, undefined);
+  });
+});
@@ -232,6 +232,147 @@ suite("Gap Calculation Test Suite", () => {
       assert.strictEqual(gaps[1].start, 50003);
       assert.strictEqual(gaps[1].end, 50005);
     });
+
+    test("should report objects outside configured ranges", () => {
+      const project = createTestProject(
+        "test",
+        [
+          { from: 50000, to: 50005 },
+          { from: 60000, to: 60005 },
+        ],
+        [49999, 50002, 59000]
+      );
+
+      const outOfRange = scanner.findOutOfRangeObjects([project]);
+
+      assert.strictEqual(outOfRange.length, 2);
+      assert.strictEqual(outOfRange[0].object.id, 49999);
+      assert.deepStrictEqual(outOfRange[0].nearestRange, {
+        from: 50000,
+        to: 50005,
+      });
+      assert.strictEqual(outOfRange[1].object.id, 59000);
+      assert.deepStrictEqual(outOfRange[1].nearestRange, {
+        from: 60000,
+        to: 60005,
+      });
+    });
+
+    test("should not validate projects without ranges", () => {
+      const project = createTestProject("test", [], [1, 50000]);
+
+      assert.deepStrictEqual(scanner.findOutOfRangeObjects([project]), []);
+    });
+  });
+
+  suite("Dependency Apps", () => {
+    /**
+     * Helper to create a read-only dependency app referenced by projects
+     */
+    function createDependency(
+      usedIds: number[],
+      referencedBy: string[]
+    ): ALProject {
+      const packagePath = "/test/.alpackages/ISV_App_1.0.0.0.app";
+      return {
+        ...createTestProject("ISV App", [{ from: 50000, to: 50099 }], []),
+        rootPath: packagePath,
+        objects: usedIds.map((id) => ({
+          type: "table" as const,
+          id,
+          name: `ISV ${id}`,
+          lineNumber: 1,
+          filePath: packagePath,
+        })),
+        dependency: {
+          packagePath,
+          publisher: "ISV",
+          version: "1.0.0.0",
+          referencedBy,
+        },
+      };
+    }
+
+    test("should block IDs used by a referenced dependency", () => {
+      const project = createTestProject(
+        "test",
+        [{ from: 50000, to: 50004 }],
+        [50000]
+      );
+      scanner.setDependencies([createDependency([50001], [project.rootPath])]);
+
+      assert.strictEqual(scanner.getNextAvailableId(project, "table"), 50002);
+    });
+
+    test("should ignore dependencies of other projects in normal mode", () => {
+      const project = createTestProject(
+        "test",
+        [{ from: 50000, to: 50004 }],
+        [50000]
+      );
+      scanner.setDependencies([createDependency([50001], ["/test/other"])]);
+
+      assert.strictEqual(scanner.getNextAvailableId(project, "table"), 50001);
+    });
+
+    test("should block dependency IDs but not add dependency ranges in shared mode", () => {
+      const project = createTestProject(
+        "test",
+        [{ from: 50000, to: 50002 }],
+        [50000]
+      );
+      const dependency = createDependency([50001, 50050], [project.rootPath]);
+      scanner.setDependencies([dependency]);
+
+      const gaps = scanner.calculateSharedGaps([project], "table");
+
+      assert.deepStrictEqual(
+        gaps.map((gap) => [gap.start, gap.end]),
+        [[50002, 50002]]
+      );
+    });
+  });
+
+  suite("Duplicate ID Detection", () => {
+    test("should report an ID declared twice in one project", () => {
+      const project = createTestProject(
+        "test",
+        [{ from: 50000, to: 50099 }],
+        [50000, 50001, 50000]
+      );
+
+      const duplicates = scanner.detectDuplicateIds([project]);
+
+      assert.strictEqual(duplicates.length, 1);
+      assert.strictEqual(duplicates[0].id, 50000);
+      assert.strictEqual(duplicates[0].projectName, "test");
+      assert.strictEqual(duplicates[0].objects.length, 2);
+    });
+
+    test("should key cross-project conflicts on the owning project", () => {
+      const project = createTestProject(
+        "test",
+        [{ from: 50000, to: 50099 }],
+        [50000]
+      );
+      // Same project, different subfolder
+      project.objects.push({
+        ...project.objects[0],
+        filePath: "/test/test/src/sub/obj50000.al",
+      });
+      const other = createTestProject(
+        "other",
+        [{ from: 50000, to: 50099 }],
+        [50000]
+      );
+
+      assert.deepStrictEqual(scanner.detectConflicts([project]), []);
+
+      const conflicts = scanner.detectConflicts([project, other]);
+      assert.strictEqual(conflicts.length, 1);
+      assert.deepStrictEqual(conflicts[0].projectNames, ["test", "other"]);
+      assert.strictEqual(conflicts[0].objects.length, 3);
+    });
   });
 
   suite("Get Next Available ID", () => {
@@ -279,4 +420,44 @@ suite("Gap Calculation Test Suite", () => {
       assert.strictEqual(nextId, 50000);
     });
   });
+
+  suite("Per Object Type Gaps", () => {
+    test("should only block IDs used by the same object type", () => {
+      const project: ALProject = {
+        name: "test",
+        rootPath: "/test/test",
+        idRanges: [{ from: 50000, to: 50010 }],
+        objects: [
+          {
+            type: "table",
+            id: 50000,
+            name: "My Table",
+            lineNumber: 1,
+            filePath: "/test/test/table.al",
+          },
+          {
+            type: "page",
+            id: 50000,
+            name: "My Card",
+            lineNumber: 1,
+            filePath: "/test/test/card.al",
+          },
+          {
+            type: "page",
+            id: 50001,
+            name: "My List",
+            lineNumber: 1,
+            filePath: "/test/test/list.al",
+          },
+        ],
+      };
+
+      assert.strictEqual(scanner.getNextAvailableId(project, "table"), 50001);
+      assert.strictEqual(scanner.getNextAvailableId(project, "page"), 50002);
+      assert.strictEqual(
+        scanner.getNextAvailableId(project, "codeunit"),
+        50000
+      );
+    });
+  });
 });
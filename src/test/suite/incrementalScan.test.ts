@@ -0,0 +1,129 @@
+import * as assert from "assert";
+import * as path from "path";
+import { ALObject, ALProject } from "../../types/index.js";
+import { WorkspaceScanner } from "../../services/workspaceScanner.js";
+
+suite("Incremental Scan Test Suite", () => {
+  let scanner: WorkspaceScanner;
+
+  setup(() => {
+    scanner = new WorkspaceScanner();
+  });
+
+  /**
+   * Helper to create an object declared in a file of a project
+   */
+  function createObject(
+    rootPath: string,
+    fileName: string,
+    type: ALObject["type"],
+    id: number
+  ): ALObject {
+    return {
+      type,
+      id,
+      name: `${type}${id}`,
+      lineNumber: 1,
+      filePath: path.join(rootPath, fileName),
+    };
+  }
+
+  /**
+   * Helper to create a test project
+   */
+  function createTestProject(name: string, objects: ALObject[]): ALProject {
+    return {
+      name,
+      rootPath: path.join("/test", name),
+      idRanges: [{ from: 50000, to: 50099 }],
+      objects,
+    };
+  }
+
+  suite("Find Project For File", () => {
+    test("should prefer the most specific project for nested paths", () => {
+      const outer = createTestProject("Outer", []);
+      const inner: ALProject = {
+        ...createTestProject("Inner", []),
+        rootPath: path.join("/test", "Outer", "Inner"),
+      };
+
+      const filePath = path.join("/test", "Outer", "Inner", "src", "tab.al");
+
+      assert.strictEqual(
+        scanner.findProjectForFile([outer, inner], filePath),
+        inner
+      );
+    });
+
+    test("should not match a sibling folder with a common prefix", () => {
+      const project = createTestProject("App", []);
+      const filePath = path.join("/test", "AppTests", "tab.al");
+
+      assert.strictEqual(
+        scanner.findProjectForFile([project], filePath),
+        undefined
+      );
+    });
+  });
+
+  suite("Replace File Objects", () => {
+    test("should replace the objects of a changed file and keep sorting", () => {
+      const rootPath = path.join("/test", "App");
+      const project = createTestProject("App", [
+        createObject(rootPath, "a.al", "table", 50000),
+        createObject(rootPath, "b.al", "table", 50001),
+      ]);
+
+      const delta = scanner.replaceFileObjects(
+        project,
+        path.join(rootPath, "b.al"),
+        [
+          createObject(rootPath, "b.al", "page", 50001),
+          createObject(rootPath, "b.al", "codeunit", 50005),
+        ]
+      );
+
+      assert.ok(delta);
+      assert.strictEqual(delta.removed.length, 1);
+      assert.strictEqual(delta.added.length, 2);
+      assert.deepStrictEqual(
+        project.objects.map((o) => `${o.type}:${o.id}`),
+        ["codeunit:50005", "page:50001", "table:50000"]
+      );
+    });
+
+    test("should remove the objects of a deleted file", () => {
+      const rootPath = path.join("/test", "App");
+      const project = createTestProject("App", [
+        createObject(rootPath, "a.al", "table", 50000),
+        createObject(rootPath, "b.al", "table", 50001),
+      ]);
+
+      const delta = scanner.replaceFileObjects(
+        project,
+        path.join(rootPath, "a.al"),
+        []
+      );
+
+      assert.ok(delta);
+      assert.strictEqual(delta.removed[0].id, 50000);
+      assert.deepStrictEqual(
+        project.objects.map((o) => o.id),
+        [50001]
+      );
+    });
+
+    test("should return null when a file without objects stays empty", () => {
+      const project = createTestProject("App", []);
+
+      const delta = scanner.replaceFileObjects(
+        project,
+        path.join("/test", "App", "empty.al"),
+        []
+      );
+
+      assert.strictEqual(delta, null);
+    });
+  });
+});
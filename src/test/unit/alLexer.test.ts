@@ -0,0 +1,172 @@
+import * as assert from "assert";
+import { ALLexer, ALToken } from "../../parsers/alLexer.js";
+import { Preprocessor } from "../../parsers/preprocessor.js";
+
+/**
+ * Get the kind and value of every token of the content
+ */
+function lex(content: string): Array<[ALToken["kind"], string]> {
+  return new ALLexer(content)
+    .tokenize()
+    .map((token) => [token.kind, token.value]);
+}
+
+suite("ALLexer Test Suite", () => {
+  suite("Tokens", () => {
+    test("should read identifiers, numbers and punctuation", () => {
+      assert.deepStrictEqual(lex("table 50000 MyTable {"), [
+        ["identifier", "table"],
+        ["number", "50000"],
+        ["identifier", "MyTable"],
+        ["punctuation", "{"],
+      ]);
+    });
+
+    test("should read quoted identifiers without quotes", () => {
+      assert.deepStrictEqual(lex('"Sales Header"."No."'), [
+        ["quotedIdentifier", "Sales Header"],
+        ["punctuation", "."],
+        ["quotedIdentifier", "No."],
+      ]);
+    });
+
+    test("should unescape doubled quotes in strings", () => {
+      assert.deepStrictEqual(lex("Caption = 'Don''t';"), [
+        ["identifier", "Caption"],
+        ["punctuation", "="],
+        ["string", "Don't"],
+        ["punctuation", ";"],
+      ]);
+    });
+
+    test("should keep braces and slashes inside strings", () => {
+      assert.deepStrictEqual(lex("x := '{ http://example.com }';"), [
+        ["identifier", "x"],
+        ["punctuation", ":="],
+        ["string", "{ http://example.com }"],
+        ["punctuation", ";"],
+      ]);
+    });
+
+    test("should read decimals but not ranges as numbers", () => {
+      assert.deepStrictEqual(lex("1.5 1..10"), [
+        ["number", "1.5"],
+        ["number", "1"],
+        ["punctuation", ".."],
+        ["number", "10"],
+      ]);
+    });
+
+    test("should read two-character operators", () => {
+      assert.deepStrictEqual(
+        lex("a := b::c <> d").map(([, value]) => value),
+        ["a", ":=", "b", "::", "c", "<>", "d"],
+      );
+    });
+
+    test("should read identifiers with non-ASCII letters", () => {
+      assert.deepStrictEqual(lex("Größe_2"), [["identifier", "Größe_2"]]);
+    });
+  });
+
+  suite("Comments", () => {
+    test("should skip single-line and block comments", () => {
+      const content = `// table 50000 A
+table /* 50001 */ 50002 /* multi
+line */ B`;
+      assert.deepStrictEqual(
+        lex(content).map(([, value]) => value),
+        ["table", "50002", "B"],
+      );
+    });
+
+    test("should not start a comment inside a quoted identifier", () => {
+      assert.deepStrictEqual(lex('"A // B" C'), [
+        ["quotedIdentifier", "A // B"],
+        ["identifier", "C"],
+      ]);
+    });
+  });
+
+  suite("Positions", () => {
+    test("should report 1-based lines and columns", () => {
+      const tokens = new ALLexer('table 50000\r\n    "My Table"').tokenize();
+
+      assert.deepStrictEqual(
+        tokens.map((token) => [token.line, token.column]),
+        [
+          [1, 1],
+          [1, 7],
+          [2, 5],
+        ],
+      );
+    });
+
+    test("should count lines inside block comments", () => {
+      const tokens = new ALLexer("/*\n\n*/ x").tokenize();
+
+      assert.strictEqual(tokens[0].line, 3);
+      assert.strictEqual(tokens[0].column, 4);
+    });
+
+    test("should report source offsets", () => {
+      const content = "a 'b' c";
+      const tokens = new ALLexer(content).tokenize();
+
+      assert.strictEqual(content.slice(tokens[1].start, tokens[1].end), "'b'");
+    });
+  });
+
+  suite("Error Recovery", () => {
+    test("should end an unterminated string at the line break", () => {
+      assert.deepStrictEqual(lex("x := 'open\ny;"), [
+        ["identifier", "x"],
+        ["punctuation", ":="],
+        ["string", "open"],
+        ["identifier", "y"],
+        ["punctuation", ";"],
+      ]);
+    });
+
+    test("should end an unterminated block comment at the end of the content", () => {
+      assert.deepStrictEqual(lex("a /* b"), [["identifier", "a"]]);
+    });
+  });
+
+  suite("Preprocessor", () => {
+    test("should skip directives and inactive branches", () => {
+      const content = `#if MISSING
+a
+#else
+b
+#endif
+c`;
+      assert.deepStrictEqual(
+        lex(content).map(([, value]) => value),
+        ["b", "c"],
+      );
+    });
+
+    test("should use the symbols of the given preprocessor", () => {
+      const content = `#if CLEAN // comment
+a
+#endif`;
+      const tokens = new ALLexer(
+        content,
+        new Preprocessor({ preprocessorSymbols: ["CLEAN"] }),
+      ).tokenize();
+
+      assert.deepStrictEqual(
+        tokens.map((token) => [token.value, token.line]),
+        [["a", 2]],
+      );
+    });
+
+    test("should only treat # at the start of a line as a directive", () => {
+      assert.deepStrictEqual(
+        lex("a #if MISSING\nb").map(([, value]) => value),
+        ["a", "#", "if", "MISSING", "b"],
+      );
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import * as assert from "assert";
+import { deflateRawSync } from "zlib";
+import {
+  AppPackageReader,
+  compareVersions,
+} from "../../parsers/appPackageReader.js";
+
+/**
+ * Build a minimal zip archive. Entries are deflated unless `stored` is set.
+ */
+function createZip(
+  entries: Array<{ name: string; content: string; stored?: boolean }>,
+): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const raw = Buffer.from(entry.content, "utf-8");
+    const data = entry.stored ? raw : deflateRawSync(raw);
+    const method = entry.stored ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+}
+
+/**
+ * Build an .app package: a NAVX header followed by the zip archive
+ */
+function createAppPackage(manifest: string, symbols: object): Buffer {
+  const header = Buffer.alloc(40);
+  header.write("NAVX", 0, "ascii");
+  header.writeUInt32LE(40, 4);
+
+  return Buffer.concat([
+    header,
+    createZip([
+      { name: "NavxManifest.xml", content: manifest, stored: true },
+      {
+        name: "SymbolReference.json",
+        content: "\uFEFF" + JSON.stringify(symbols),
+      },
+    ]),
+  ]);
+}
+
+const MANIFEST =
+  '<?xml version="1.0" encoding="utf-8"?>' +
+  '<Package xmlns="http://schemas.microsoft.com/navx/2015/manifest">' +
+  '<App Id="0D1F5B3A-1111-2222-3333-444455556666" Name="ISV &amp; Co App" ' +
+  'Publisher="ISV Co" Version="2.1.0.5" Platform="24.0.0.0" ' +
+  'Application="24.0.0.0" Runtime="13.0" />' +
+  '<IdRanges><IdRange MinObjectId="60000" MaxObjectId="60099" /></IdRanges>' +
+  "<Dependencies>" +
+  '<Dependency Id="7E3A1C2B-AAAA-BBBB-CCCC-DDDDEEEEFFFF" Name="ISV Base" ' +
+  'Publisher="ISV Co" MinVersion="2.0.0.0" />' +
+  "</Dependencies>" +
+  "</Package>";
+
+const SYMBOLS = {
+  Tables: [
+    {
+      Id: 60000,
+      Name: "ISV Setup",
+      Fields: [
+        { Id: 1, Name: "Primary Key", TypeDefinition: { Name: "Code" } },
+      ],
+    },
+  ],
+  Codeunits: [{ Id: 60000, Name: "ISV Management" }],
+  Namespaces: [
+    {
+      Name: "ISV.Sales",
+      TableExtensions: [
+        {
+          Id: 60001,
+          Name: "ISV Customer",
+          TargetObject: "Customer",
+          Fields: [
+            { Id: 60000, Name: "ISV Code", TypeDefinition: { Name: "Code" } },
+            {
+              Id: 60001,
+              Name: "ISV Old Code",
+              TypeDefinition: { Name: "Code" },
+              Properties: [
+                { Name: "ObsoleteState", Value: "Pending" },
+                { Name: "ObsoleteReason", Value: "Use ISV Code" },
+                { Name: "ObsoleteTag", Value: "2.1" },
+              ],
+            },
+          ],
+        },
+      ],
+      EnumExtensionTypes: [
+        {
+          Id: 60002,
+          Name: "ISV Doc Type",
+          TargetObject: "Sales Document Type",
+          Values: [{ Name: "ISV Order", Ordinal: 60000 }],
+        },
+      ],
+    },
+  ],
+};
+
+suite("App Package Reader Test Suite", () => {
+  let reader: AppPackageReader;
+
+  setup(() => {
+    reader = new AppPackageReader();
+  });
+
+  suite("Manifest", () => {
+    test("should read app information, ID ranges and dependencies", () => {
+      const manifest = reader.readManifest(createAppPackage(MANIFEST, {}));
+
+      assert.deepStrictEqual(manifest, {
+        id: "0d1f5b3a-1111-2222-3333-444455556666",
+        name: "ISV & Co App",
+        publisher: "ISV Co",
+        version: "2.1.0.5",
+        idRanges: [{ from: 60000, to: 60099 }],
+        dependencies: [
+          {
+            id: "7e3a1c2b-aaaa-bbbb-cccc-ddddeeeeffff",
+            name: "ISV Base",
+            publisher: "ISV Co",
+            version: "2.0.0.0",
+          },
+        ],
+        application: "24.0.0.0",
+        platform: "24.0.0.0",
+        runtime: "13.0",
+      });
+    });
+
+    test("should return null for content that is not a package", () => {
+      assert.strictEqual(reader.readManifest(Buffer.from("not a zip")), null);
+    });
+  });
+
+  suite("Symbols", () => {
+    test("should read objects from the root and nested namespaces", () => {
+      const objects = reader.readObjects(
+        createAppPackage(MANIFEST, SYMBOLS),
+        "/test/.alpackages/ISV.app",
+      );
+
+      assert.ok(objects);
+      assert.deepStrictEqual(
+        objects.map((o) => `${o.type}:${o.id}`),
+        [
+          "table:60000",
+          "codeunit:60000",
+          "tableextension:60001",
+          "enumextension:60002",
+        ],
+      );
+      assert.ok(
+        objects.every((o) => o.filePath === "/test/.alpackages/ISV.app"),
+      );
+    });
+
+    test("should record the namespace of nested objects", () => {
+      const objects = reader.readObjects(
+        createAppPackage(MANIFEST, {
+          Namespaces: [
+            {
+              Name: "ISV",
+              Tables: [{ Id: 60010, Name: "ISV Log" }],
+              Namespaces: [
+                { Name: "Sales", Codeunits: [{ Id: 60011, Name: "ISV Post" }] },
+              ],
+            },
+          ],
+        }),
+        "/test/.alpackages/ISV.app",
+      );
+
+      assert.deepStrictEqual(
+        objects!.map((o) => o.namespace),
+        ["ISV", "ISV.Sales"],
+      );
+    });
+
+    test("should read tableextension fields with their base table", () => {
+      const objects = reader.readObjects(
+        createAppPackage(MANIFEST, SYMBOLS),
+        "/test/.alpackages/ISV.app",
+      );
+      const extension = objects!.find((o) => o.type === "tableextension")!;
+
+      assert.strictEqual(extension.extendsObject, "Customer");
+      assert.strictEqual(extension.fields!.length, 2);
+      assert.strictEqual(extension.fields![0].id, 60000);
+      assert.strictEqual(extension.fields![0].dataType, "Code");
+    });
+
+    test("should read the obsolete properties of fields", () => {
+      const objects = reader.readObjects(
+        createAppPackage(MANIFEST, SYMBOLS),
+        "/test/.alpackages/ISV.app",
+      );
+      const extension = objects!.find((o) => o.type === "tableextension")!;
+
+      assert.strictEqual(extension.obsolete, undefined);
+      assert.strictEqual(extension.fields![0].obsolete, undefined);
+      assert.deepStrictEqual(extension.fields![1].obsolete, {
+        state: "Pending",
+        reason: "Use ISV Code",
+        tag: "2.1",
+      });
+    });
+
+    test("should read enum values by ordinal", () => {
+      const objects = reader.readObjects(
+        createAppPackage(MANIFEST, SYMBOLS),
+        "/test/.alpackages/ISV.app",
+      );
+      const extension = objects!.find((o) => o.type === "enumextension")!;
+
+      assert.strictEqual(extension.extendsObject, "Sales Document Type");
+      assert.deepStrictEqual(
+        extension.enumValues!.map((v) => [v.id, v.name]),
+        [[60000, "ISV Order"]],
+      );
+    });
+
+    test("should return null when the package has no symbols", () => {
+      const content = createZip([
+        { name: "NavxManifest.xml", content: MANIFEST },
+      ]);
+
+      assert.strictEqual(reader.readObjects(content, "/test/x.app"), null);
+    });
+  });
+
+  suite("compareVersions", () => {
+    test("should compare version parts numerically", () => {
+      assert.ok(compareVersions("2.10.0.0", "2.9.0.0") > 0);
+      assert.ok(compareVersions("1.0.0.0", "1.0.0.1") < 0);
+      assert.strictEqual(compareVersions("1.0", "1.0.0.0"), 0);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import * as assert from "assert";
+import { FolderScanner } from "../../cli/folderScanner.js";
+import { alObjectParser } from "../../parsers/alObjectParser.js";
+import {
+  ALProjectWithFields,
+  DEFAULT_ANALYZER_SETTINGS,
+} from "../../services/rangeAnalyzer.js";
+import { createRetiredIds } from "../../services/retiredIdsLedger.js";
+
+/**
+ * Create a project with the objects declared in the content
+ */
+function createProject(
+  name: string,
+  rootPath: string,
+  content: string,
+  from: number,
+  to: number,
+): ALProjectWithFields {
+  return {
+    name,
+    rootPath,
+    idRanges: [{ from, to }],
+    objects: alObjectParser.parseContent(content, `${rootPath}/Objects.al`),
+  };
+}
+
+suite("Base Object Usage Test Suite", () => {
+  let scanner: FolderScanner;
+
+  setup(() => {
+    scanner = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+  });
+
+  test("should list the used fields and gaps per app on each base table", () => {
+    const app1 = createProject(
+      "App One",
+      "/test/App1",
+      `tableextension 50000 "Customer Ext" extends Customer
+{
+    fields
+    {
+        field(50000; "A"; Code[10]) { }
+        field(50001; "B"; Code[10]) { }
+    }
+}`,
+      50000,
+      50009,
+    );
+    const app2 = createProject(
+      "App Two",
+      "/test/App2",
+      `tableextension 50100 "Customer Ext 2" extends Customer
+{
+    fields
+    {
+        field(50005; "C"; Code[10]) { }
+    }
+}
+tableextension 50101 "Vendor Ext" extends Vendor
+{
+    fields
+    {
+        field(50100; "D"; Code[10]) { }
+    }
+}`,
+      50000,
+      50009,
+    );
+
+    const usage = scanner.getExtendedBaseObjectUsage([app2, app1], "fields");
+
+    assert.deepStrictEqual(
+      usage.map((base) => base.baseName),
+      ["Customer", "Vendor"],
+    );
+    assert.deepStrictEqual(
+      usage[0].apps.map((app) => [app.project.name, app.usedIds, app.gaps]),
+      [
+        [
+          "App One",
+          [50000, 50001],
+          [
+            { start: 50002, end: 50004, count: 3 },
+            { start: 50006, end: 50009, count: 4 },
+          ],
+        ],
+        [
+          "App Two",
+          [50005],
+          [
+            { start: 50002, end: 50004, count: 3 },
+            { start: 50006, end: 50009, count: 4 },
+          ],
+        ],
+      ],
+    );
+    assert.deepStrictEqual(usage[1].apps[0].gaps, [
+      { start: 50000, end: 50009, count: 10 },
+    ]);
+  });
+
+  test("should exclude retired ordinals and show dependencies without gaps", () => {
+    const app = createProject(
+      "App One",
+      "/test/App1",
+      `enumextension 50000 "Type Ext" extends "Sales Type"
+{
+    value(50000; First) { }
+}`,
+      50000,
+      50004,
+    );
+    app.retiredIds = createRetiredIds();
+    app.retiredIds.enumValues["Sales Type"] = [50001];
+    const dependency = createProject(
+      "ISV App",
+      "/test/ISV.app",
+      `enumextension 60000 "ISV Type Ext" extends "Sales Type"
+{
+    value(50003; Isv) { }
+}
+enumextension 60001 "ISV Only" extends "Purchase Type"
+{
+    value(60000; Other) { }
+}`,
+      60000,
+      60099,
+    );
+    dependency.dependency = {
+      packagePath: "/test/ISV.app",
+      publisher: "ISV",
+      version: "1.0.0.0",
+      referencedBy: ["/test/App1"],
+    };
+    scanner.setDependencies([dependency]);
+
+    const usage = scanner.getExtendedBaseObjectUsage([app], "enumValues");
+
+    assert.strictEqual(usage.length, 1);
+    assert.deepStrictEqual(
+      usage[0].apps.map((entry) => [
+        entry.project.name,
+        entry.usedIds,
+        entry.gaps,
+      ]),
+      [
+        [
+          "App One",
+          [50000],
+          [
+            { start: 50002, end: 50002, count: 1 },
+            { start: 50004, end: 50004, count: 1 },
+          ],
+        ],
+        ["ISV App", [50003], []],
+      ],
+    );
+  });
+});
@@ -0,0 +1,512 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ExitCodes, runCheck } from "../../cli/checkCommand.js";
+
+suite("CLI Check Command Test Suite", () => {
+  let root: string;
+  let lines: string[];
+  let errors: string[];
+
+  const output = {
+    log: (line: string) => lines.push(line),
+    error: (line: string) => errors.push(line),
+  };
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "bc-object-range-"));
+    lines = [];
+    errors = [];
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a file below the temporary root folder
+   */
+  function writeFile(relativePath: string, content: string): void {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  /**
+   * Write the app.json of a project
+   *
+   * @param dependsOn - Names of the apps written with writeApp that the
+   *   project depends on
+   */
+  function writeApp(
+    folder: string,
+    name: string,
+    from: number,
+    to: number,
+    dependsOn: string[] = [],
+  ) {
+    writeFile(
+      `${folder}/app.json`,
+      JSON.stringify({
+        id: `${name}-id`,
+        name,
+        publisher: "Test",
+        version: "1.0.0.0",
+        idRanges: [{ from, to }],
+        dependencies: dependsOn.map((dependency) => ({
+          id: `${dependency}-id`,
+          name: dependency,
+          publisher: "Test",
+          version: "1.0.0.0",
+        })),
+      }),
+    );
+  }
+
+  test("should exit with 0 when there are no problems", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile("App1/src/Table.al", 'table 50000 "My Table"\n{\n}\n');
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.ok);
+    assert.deepStrictEqual(lines, [
+      "Checked 1 app(s) with 1 object(s) in normal mode: no problems found",
+    ]);
+  });
+
+  test("should report out-of-range and duplicate IDs", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile(
+      "App1/src/Objects.al",
+      'table 50000 "A"\n{\n}\ntable 50000 "B"\n{\n}\ncodeunit 60000 "C"\n{\n}\n',
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    const location = path.join("App1", "src", "Objects.al");
+    assert.deepStrictEqual(lines.slice(0, 3), [
+      `${location}:1: error duplicate-id: Table ID 50000 is declared 2 times in "App One"`,
+      `${location}:4: error duplicate-id: Table ID 50000 is declared 2 times in "App One"`,
+      `${location}:7: error out-of-range: Codeunit ID 60000 is outside the ID ranges of "App One". Nearest valid range: 50000-50099`,
+    ]);
+  });
+
+  test("should report out-of-range and duplicate extension fields", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile(
+      "App1/src/Ext.al",
+      [
+        'tableextension 50000 "Customer Ext" extends Customer',
+        "{",
+        "    fields",
+        "    {",
+        '        field(50000; "Code"; Code[20]) { }',
+        '        field(60000; "code"; Code[20]) { }',
+        '        field(50000; "Name"; Text[100]) { }',
+        "    }",
+        "}",
+        'enumextension 50001 "Type Ext" extends "Sales Type"',
+        "{",
+        "    value(50000; Ok) { }",
+        "    value(70000; Far) { }",
+        "}",
+        "",
+      ].join("\n"),
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    const location = path.join("App1", "src", "Ext.al");
+    assert.deepStrictEqual(lines.slice(0, 6), [
+      `${location}:5: error duplicate-field-id: Field ID 50000 is declared 2 times in tableextension 50000 "Customer Ext"`,
+      `${location}:5: error duplicate-field-name: Field name "Code" is declared 2 times in tableextension 50000 "Customer Ext"`,
+      `${location}:6: error field-out-of-range: Field 60000 "code" of tableextension 50000 "Customer Ext" is outside the ID ranges of "App One". Nearest valid range: 50000-50099`,
+      `${location}:6: error duplicate-field-name: Field name "Code" is declared 2 times in tableextension 50000 "Customer Ext"`,
+      `${location}:7: error duplicate-field-id: Field ID 50000 is declared 2 times in tableextension 50000 "Customer Ext"`,
+      `${location}:13: error enum-value-out-of-range: Enum value 70000 "Far" of enumextension 50001 "Type Ext" is outside the ID ranges of "App One". Nearest valid range: 50000-50099`,
+    ]);
+  });
+
+  test("should not check the field IDs of tables against the ranges", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile(
+      "App1/src/Table.al",
+      'table 50000 "My Table"\n{\n    fields\n    {\n        field(1; "Code"; Code[20]) { }\n    }\n}\n',
+    );
+
+    assert.strictEqual(await runCheck(root, {}, output), ExitCodes.ok);
+  });
+
+  test("should evaluate the preprocessor symbols of app.json", async () => {
+    writeFile(
+      "App1/app.json",
+      JSON.stringify({
+        id: "app-one-id",
+        name: "App One",
+        publisher: "Test",
+        version: "1.0.0.0",
+        idRanges: [{ from: 50000, to: 50099 }],
+        preprocessorSymbols: ["CLEAN24"],
+      }),
+    );
+    writeFile(
+      "App1/src/Table.al",
+      '#if CLEAN24\ntable 50000 "New"\n{\n}\n#else\ntable 50000 "Old"\n{\n}\n#endif\n',
+    );
+
+    assert.strictEqual(await runCheck(root, {}, output), ExitCodes.ok);
+    assert.ok(lines[0].startsWith("Checked 1 app(s) with 1 object(s)"));
+
+    writeFile(
+      "bc-object-range.json",
+      JSON.stringify({ includeAllPreprocessorBranches: true }),
+    );
+
+    assert.strictEqual(await runCheck(root, {}, output), ExitCodes.problems);
+  });
+
+  test("should only report object conflicts across apps in shared range mode", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("App2", "App Two", 50000, 50099);
+    writeFile(
+      "App1/src/Ext.al",
+      'tableextension 50000 "Ext One" extends Customer\n{\n    fields\n    {\n        field(50000; "One"; Code[20]) { }\n    }\n}\n',
+    );
+    writeFile(
+      "App2/src/Ext.al",
+      'tableextension 50000 "Ext Two" extends Customer\n{\n    fields\n    {\n        field(50000; "Two"; Code[20]) { }\n    }\n}\n',
+    );
+
+    assert.strictEqual(await runCheck(root, {}, output), ExitCodes.problems);
+    assert.ok(!lines.some((line) => line.includes("error id-conflict")));
+    const fieldProblems = lines.filter((line) =>
+      line.includes("error field-conflict"),
+    );
+    assert.strictEqual(fieldProblems.length, 2);
+    assert.ok(
+      fieldProblems[0].endsWith(
+        'Field ID 50000 on "Customer" is used by 2 apps: App One, App Two',
+      ),
+    );
+
+    lines = [];
+    const exitCode = await runCheck(root, { sharedRangeMode: true }, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    assert.strictEqual(
+      lines.filter((line) => line.includes("error id-conflict")).length,
+      2,
+    );
+    assert.strictEqual(
+      lines.filter((line) => line.includes("error field-conflict")).length,
+      2,
+    );
+  });
+
+  test("should let the options turn off shared range mode of the configuration", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("App2", "App Two", 50000, 50099);
+    writeFile("App1/src/Table.al", 'table 50000 "One"\n{\n}\n');
+    writeFile("App2/src/Table.al", 'table 50000 "Two"\n{\n}\n');
+    writeFile("bc-object-range.json", '{"sharedRangeMode": true}');
+
+    assert.strictEqual(await runCheck(root, {}, output), ExitCodes.problems);
+    assert.strictEqual(
+      lines.filter((line) => line.includes("error id-conflict")).length,
+      2,
+    );
+
+    lines = [];
+    const exitCode = await runCheck(root, { sharedRangeMode: false }, output);
+
+    assert.strictEqual(exitCode, ExitCodes.ok);
+    assert.ok(!lines.some((line) => line.includes("id-conflict")));
+  });
+
+  test("should report conflicts with a dependency in normal mode", async () => {
+    writeApp("App1", "App One", 50000, 50149);
+    writeApp("App2", "App Two", 50100, 50199, ["App One"]);
+    writeFile("App1/src/Table.al", 'table 50100 "Base Log"\n{\n}\n');
+    writeFile("App2/src/Table.al", 'table 50100 "Extra Log"\n{\n}\n');
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    assert.deepStrictEqual(lines.slice(0, 2), [
+      `${path.join("App1", "src", "Table.al")}:1: error id-conflict: Table ID 50100 is used by 2 apps: App One, App Two`,
+      `${path.join("App2", "src", "Table.al")}:1: error id-conflict: Table ID 50100 is used by 2 apps: App One, App Two`,
+    ]);
+  });
+
+  test("should check apps that another app depends on against each other", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("App2", "App Two", 50000, 50099);
+    writeApp("App3", "App Three", 50100, 50199, ["App One", "App Two"]);
+    writeFile("App1/src/Codeunit.al", 'codeunit 50000 "One"\n{\n}\n');
+    writeFile("App2/src/Codeunit.al", 'codeunit 50000 "Two"\n{\n}\n');
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    assert.strictEqual(
+      lines.filter((line) => line.includes("error id-conflict")).length,
+      2,
+    );
+  });
+
+  test("should report field conflicts with an app it depends on", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("App2", "App Two", 50100, 50199, ["App One"]);
+    writeFile(
+      "App1/src/Ext.al",
+      'tableextension 50000 "Ext One" extends Customer\n{\n    fields\n    {\n        field(50000; "Loyalty Code"; Code[20]) { }\n    }\n}\n',
+    );
+    writeFile(
+      "App2/src/Ext.al",
+      'tableextension 50100 "Ext Two" extends Customer\n{\n    fields\n    {\n        field(50100; "Loyalty Code"; Code[20]) { }\n    }\n}\n',
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    assert.strictEqual(
+      lines.filter((line) => line.includes("error field-name-conflict")).length,
+      2,
+    );
+    assert.ok(!lines.some((line) => line.includes("error id-conflict")));
+  });
+
+  test("should report field and enum value names used by more than one app", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("App2", "App Two", 50100, 50199);
+    writeFile(
+      "App1/src/Ext.al",
+      [
+        'tableextension 50000 "Ext One" extends Customer',
+        "{",
+        "    fields",
+        "    {",
+        '        field(50000; "Rating"; Integer) { }',
+        "    }",
+        "}",
+        'enumextension 50001 "Type One" extends "Sales Type"',
+        "{",
+        "    value(50000; Special) { }",
+        "}",
+        "",
+      ].join("\n"),
+    );
+    writeFile(
+      "App2/src/Ext.al",
+      [
+        'tableextension 50100 "Ext Two" extends Customer',
+        "{",
+        "    fields",
+        "    {",
+        '        field(50100; "rating"; Integer) { }',
+        "    }",
+        "}",
+        'enumextension 50101 "Type Two" extends "Sales Type"',
+        "{",
+        "    value(50100; Special) { }",
+        "}",
+        "",
+      ].join("\n"),
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    const location = path.join("App1", "src", "Ext.al");
+    assert.deepStrictEqual(
+      lines.filter((line) => line.startsWith(location)),
+      [
+        `${location}:5: error field-name-conflict: Field name "Rating" on "Customer" is used by 2 apps: App One, App Two`,
+        `${location}:10: error enum-value-name-conflict: Enum value name "Special" on "Sales Type" is used by 2 apps: App One, App Two`,
+      ],
+    );
+  });
+
+  test("should not fail on field conflicts with a lower severity", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("App2", "App Two", 50000, 50099);
+    writeFile(
+      "App1/src/Ext.al",
+      'tableextension 50000 "Ext One" extends Customer\n{\n    fields\n    {\n        field(50000; "One"; Code[20]) { }\n    }\n}\n',
+    );
+    writeFile(
+      "App2/src/Ext.al",
+      'tableextension 50001 "Ext Two" extends Customer\n{\n    fields\n    {\n        field(50000; "Two"; Code[20]) { }\n    }\n}\n',
+    );
+    writeFile(
+      "bc-object-range.json",
+      JSON.stringify({ memberConflictSeverity: "warning" }),
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.ok);
+    const location = path.join("App1", "src", "Ext.al");
+    assert.deepStrictEqual(
+      lines.filter((line) => line.startsWith(location)),
+      [
+        `${location}:5: warning field-conflict: Field ID 50000 on "Customer" is used by 2 apps: App One, App Two`,
+      ],
+    );
+  });
+
+  test("should not report field and enum value conflicts when turned off", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("App2", "App Two", 50000, 50099);
+    writeFile(
+      "App1/src/Ext.al",
+      'tableextension 50000 "Ext One" extends Customer\n{\n    fields\n    {\n        field(50000; "One"; Code[20]) { }\n    }\n}\n',
+    );
+    writeFile(
+      "App2/src/Ext.al",
+      'tableextension 50001 "Ext Two" extends Customer\n{\n    fields\n    {\n        field(50000; "One"; Code[20]) { }\n    }\n}\n',
+    );
+    writeFile(
+      "bc-object-range.json",
+      JSON.stringify({ memberConflictSeverity: "off" }),
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.ok);
+  });
+
+  test("should warn about ranges that reach the warning threshold", async () => {
+    writeApp("App1", "App One", 50000, 50009);
+    writeFile(
+      "App1/src/Tables.al",
+      [0, 1, 2, 3, 4, 5, 6, 7]
+        .map((offset) => `table ${50000 + offset} "T${offset}"\n{\n}\n`)
+        .join(""),
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.ok);
+    const location = path.join("App1", "app.json");
+    assert.deepStrictEqual(lines.slice(0, 2), [
+      `${location}:1: warning range-usage-warning: "App One" has used 80% of the IDs in its ranges (8 of 10); the warning threshold is 80%`,
+      `${location}:1: warning range-usage-warning: "App One" has used 80% of its table IDs (8 of 10); the warning threshold is 80%`,
+    ]);
+  });
+
+  test("should fail on the error threshold of an app", async () => {
+    writeApp("App1", "App One", 50000, 50009);
+    writeApp("App2", "App Two", 60000, 60009);
+    writeFile("App1/src/Table.al", 'table 50000 "T"\n{\n}\n');
+    writeFile("App2/src/Table.al", 'table 60000 "T"\n{\n}\n');
+    writeFile(
+      "bc-object-range.json",
+      JSON.stringify({
+        rangeUsageThresholds: { projects: { "app one": { error: 10 } } },
+      }),
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    assert.deepStrictEqual(
+      lines.filter((line) => line.includes("range-usage")),
+      [
+        `${path.join("App1", "app.json")}:1: error range-usage-error: "App One" has used 10% of the IDs in its ranges (1 of 10); the error threshold is 10%`,
+        `${path.join("App1", "app.json")}:1: error range-usage-error: "App One" has used 10% of its table IDs (1 of 10); the error threshold is 10%`,
+      ],
+    );
+  });
+
+  test("should read the configuration file in the folder", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeApp("Test", "Test App", 50000, 50099);
+    writeFile("Test/src/Codeunit.al", 'codeunit 90000 "Test"\n{\n}\n');
+    writeFile(
+      "bc-object-range.json",
+      JSON.stringify({ excludeFolders: ["Test"] }),
+    );
+
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.ok);
+    assert.ok(lines[0].startsWith("Checked 1 app(s)"));
+  });
+
+  test("should skip files matching an exclude pattern", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile("App1/generated/Codeunit.al", 'codeunit 90000 "Gen"\n{\n}\n');
+    writeFile(
+      "config.json",
+      JSON.stringify({
+        "bcObjectRange.excludePatterns": ["**/generated/**"],
+      }),
+    );
+
+    const exitCode = await runCheck(
+      root,
+      { configPath: path.join(root, "config.json") },
+      output,
+    );
+
+    assert.strictEqual(exitCode, ExitCodes.ok);
+  });
+
+  test("should only update the retired IDs ledgers when asked", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile(
+      "App1/src/Objects.al",
+      'table 50000 "A"\n{\n}\ncodeunit 5000 "Typo"\n{\n}\n',
+    );
+    const ledgerPath = path.join(root, "App1", "retired-ids.json");
+
+    await runCheck(root, {}, output);
+    assert.strictEqual(fs.existsSync(ledgerPath), false);
+
+    await runCheck(root, { updateRetiredIds: true }, output);
+    const ledger = JSON.parse(fs.readFileSync(ledgerPath, "utf-8"));
+    assert.deepStrictEqual(ledger.objects, { table: [50000] });
+  });
+
+  test("should write the requested reports", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile("App1/src/Codeunit.al", 'codeunit 60000 "C"\n{\n}\n');
+    const sarifPath = path.join(root, "out", "result.sarif");
+    const junitPath = path.join(root, "out", "result.xml");
+
+    const exitCode = await runCheck(
+      root,
+      { reports: { sarif: sarifPath, junit: junitPath } },
+      output,
+    );
+
+    assert.strictEqual(exitCode, ExitCodes.problems);
+    const sarif = JSON.parse(fs.readFileSync(sarifPath, "utf-8"));
+    assert.strictEqual(sarif.runs[0].results[0].ruleId, "out-of-range");
+    assert.ok(fs.readFileSync(junitPath, "utf-8").includes("<testsuites"));
+  });
+
+  test("should exit with 2 for an invalid configuration or folder", async () => {
+    writeApp("App1", "App One", 50000, 50099);
+    writeFile("bc-object-range.json", '{"sharedRangeMode": "yes"}');
+
+    assert.strictEqual(await runCheck(root, {}, output), ExitCodes.error);
+    assert.strictEqual(
+      await runCheck(path.join(root, "missing"), {}, output),
+      ExitCodes.error,
+    );
+    assert.strictEqual(errors.length, 2);
+  });
+
+  test("should exit with 2 when no project is found", async () => {
+    const exitCode = await runCheck(root, {}, output);
+
+    assert.strictEqual(exitCode, ExitCodes.error);
+    assert.ok(errors[0].startsWith("No AL projects"));
+  });
+});
@@ -7,6 +7,12 @@ import {
   AL_OBJECT_TYPES_WITH_ID,
   AL_OBJECT_TYPES_WITHOUT_ID,
 } from "../../types/index.js";
+import {
+  findFirstFreeId,
+  findGaps,
+  mergeRanges,
+  toSortedUniqueIds,
+} from "../../services/idIntervals.js";
 
 /**
  * Mock WorkspaceScanner for testing the completion provider logic
@@ -16,88 +22,34 @@ class MockWorkspaceScanner {
    * Calculate unused ID gaps within configured ranges for a project
    */
   public calculateGaps(
-    project: ALProject
+    project: ALProject,
+    objectType?: ALObjectTypeWithId
   ): { start: number; end: number; count: number }[] {
-    const gaps: { start: number; end: number; count: number }[] = [];
-
     if (project.idRanges.length === 0) {
-      return gaps;
-    }
-
-    const usedIds = new Set(project.objects.map((obj) => obj.id));
-
-    for (const range of project.idRanges) {
-      let gapStart: number | null = null;
-
-      for (let id = range.from; id <= range.to; id++) {
-        if (!usedIds.has(id)) {
-          if (gapStart === null) {
-            gapStart = id;
-          }
-        } else {
-          if (gapStart !== null) {
-            gaps.push({
-              start: gapStart,
-              end: id - 1,
-              count: id - gapStart,
-            });
-            gapStart = null;
-          }
-        }
-      }
-
-      if (gapStart !== null) {
-        gaps.push({
-          start: gapStart,
-          end: range.to,
-          count: range.to - gapStart + 1,
-        });
-      }
+      return [];
     }
 
-    return gaps;
+    return findGaps(project.idRanges, this.getUsedIds([project], objectType));
   }
 
   /**
    * Get the next available ID in a project's ranges
    */
-  public getNextAvailableId(project: ALProject): number | null {
-    const gaps = this.calculateGaps(project);
-    if (gaps.length === 0) {
-      return null;
-    }
-    return gaps[0].start;
+  public getNextAvailableId(
+    project: ALProject,
+    objectType?: ALObjectTypeWithId
+  ): number | null {
+    return findFirstFreeId(
+      project.idRanges,
+      this.getUsedIds([project], objectType)
+    );
   }
 
   /**
    * Get the union of all ID ranges across all projects
    */
   public getSharedRanges(projects: ALProject[]): IdRange[] {
-    const allRanges: IdRange[] = [];
-    for (const project of projects) {
-      allRanges.push(...project.idRanges);
-    }
-
-    if (allRanges.length === 0) {
-      return [];
-    }
-
-    allRanges.sort((a, b) => a.from - b.from);
-
-    const merged: IdRange[] = [{ ...allRanges[0] }];
-
-    for (let i = 1; i < allRanges.length; i++) {
-      const current = allRanges[i];
-      const last = merged[merged.length - 1];
-
-      if (current.from <= last.to + 1) {
-        last.to = Math.max(last.to, current.to);
-      } else {
-        merged.push({ ...current });
-      }
-    }
-
-    return merged;
+    return mergeRanges(projects.flatMap((project) => project.idRanges));
   }
 
   /**
@@ -112,59 +64,26 @@ class MockWorkspaceScanner {
     count: number;
     objectType: ALObjectTypeWithId;
   }[] {
-    const gaps: {
-      start: number;
-      end: number;
-      count: number;
-      objectType: ALObjectTypeWithId;
-    }[] = [];
-    const sharedRanges = this.getSharedRanges(projects);
-
-    if (sharedRanges.length === 0) {
-      return gaps;
-    }
-
-    const usedIds = new Set<number>();
-    for (const project of projects) {
-      for (const obj of project.objects) {
-        if (obj.type === objectType) {
-          usedIds.add(obj.id);
-        }
-      }
-    }
-
-    for (const range of sharedRanges) {
-      let gapStart: number | null = null;
-
-      for (let id = range.from; id <= range.to; id++) {
-        if (!usedIds.has(id)) {
-          if (gapStart === null) {
-            gapStart = id;
-          }
-        } else {
-          if (gapStart !== null) {
-            gaps.push({
-              start: gapStart,
-              end: id - 1,
-              count: id - gapStart,
-              objectType,
-            });
-            gapStart = null;
-          }
-        }
-      }
-
-      if (gapStart !== null) {
-        gaps.push({
-          start: gapStart,
-          end: range.to,
-          count: range.to - gapStart + 1,
-          objectType,
-        });
-      }
-    }
+    return findGaps(
+      this.getSharedRanges(projects),
+      this.getUsedIds(projects, objectType)
+    ).map((gap) => ({ ...gap, objectType }));
+  }
 
-    return gaps;
+  /**
+   * Collect sorted used IDs, optionally for one object type
+   */
+  private getUsedIds(
+    projects: ALProject[],
+    objectType?: ALObjectTypeWithId
+  ): number[] {
+    return toSortedUniqueIds(
+      projects.flatMap((project) =>
+        project.objects
+          .filter((obj) => !objectType || obj.type === objectType)
+          .map((obj) => obj.id)
+      )
+    );
   }
 
   /**
@@ -174,11 +93,10 @@ class MockWorkspaceScanner {
     projects: ALProject[],
     objectType: ALObjectTypeWithId
   ): number | null {
-    const gaps = this.calculateSharedGaps(projects, objectType);
-    if (gaps.length === 0) {
-      return null;
-    }
-    return gaps[0].start;
+    return findFirstFreeId(
+      this.getSharedRanges(projects),
+      this.getUsedIds(projects, objectType)
+    );
   }
 }
 
@@ -327,8 +245,11 @@ class TestableCompletionProvider {
   /**
    * Get the next available ID for normal mode
    */
-  public getNextAvailableId(project: ALProject): number | null {
-    return this.scanner.getNextAvailableId(project);
+  public getNextAvailableId(
+    project: ALProject,
+    objectType?: ALObjectTypeWithId
+  ): number | null {
+    return this.scanner.getNextAvailableId(project, objectType);
   }
 
   /**
@@ -709,6 +630,48 @@ suite("Completion Provider Test Suite", () => {
     });
   });
 
+  suite("Normal Mode - Next Available ID by Type", () => {
+    test("should not consider IDs of different types in the same project", () => {
+      const project = createTestProject(
+        "TestApp",
+        "/workspace/TestApp",
+        [{ from: 50000, to: 50100 }],
+        [
+          { id: 50000, type: "table" },
+          { id: 50001, type: "table" },
+          { id: 50000, type: "page" },
+        ]
+      );
+      provider.setProjects([project]);
+
+      assert.strictEqual(provider.getNextAvailableId(project, "table"), 50002);
+      assert.strictEqual(provider.getNextAvailableId(project, "page"), 50001);
+      assert.strictEqual(
+        provider.getNextAvailableId(project, "codeunit"),
+        50000
+      );
+    });
+
+    test("should return null when all IDs of the type are used", () => {
+      const project = createTestProject(
+        "TestApp",
+        "/workspace/TestApp",
+        [{ from: 50000, to: 50001 }],
+        [
+          { id: 50000, type: "codeunit" },
+          { id: 50001, type: "codeunit" },
+        ]
+      );
+      provider.setProjects([project]);
+
+      assert.strictEqual(
+        provider.getNextAvailableId(project, "codeunit"),
+        null
+      );
+      assert.strictEqual(provider.getNextAvailableId(project, "table"), 50000);
+    });
+  });
+
   suite("Shared Mode - Next Available ID by Type", () => {
     test("should return first ID when no objects of type exist", () => {
       const project = createTestProject("TestApp", "/workspace/TestApp", [
@@ -0,0 +1,70 @@
+import * as assert from "assert";
+import { ALProject } from "../../types/index.js";
+import { DependencyGraph } from "../../services/dependencyGraph.js";
+
+/**
+ * Create an app without objects that depends on the given app IDs
+ */
+function createApp(appId: string, dependsOn: string[] = []): ALProject {
+  return {
+    name: appId,
+    rootPath: `/test/${appId}`,
+    idRanges: [],
+    objects: [],
+    appId,
+    dependencies: dependsOn.map((id) => ({
+      id,
+      name: id,
+      publisher: "Test",
+      version: "1.0.0.0",
+    })),
+  };
+}
+
+suite("Dependency Graph Test Suite", () => {
+  test("should install an app together with its direct dependency", () => {
+    const base = createApp("base");
+    const app = createApp("app", ["base"]);
+    const graph = new DependencyGraph([base, app]);
+
+    assert.strictEqual(graph.canBeInstalledTogether(app, base), true);
+    assert.strictEqual(graph.canBeInstalledTogether(base, app), true);
+  });
+
+  test("should follow dependencies through other apps", () => {
+    const base = createApp("base");
+    const middle = createApp("middle", ["base"]);
+    const app = createApp("app", ["middle"]);
+    const graph = new DependencyGraph([base, middle, app]);
+
+    assert.strictEqual(graph.canBeInstalledTogether(app, base), true);
+  });
+
+  test("should install two dependencies of the same app together", () => {
+    const one = createApp("one");
+    const two = createApp("two");
+    const app = createApp("app", ["one", "two"]);
+    const graph = new DependencyGraph([one, two, app]);
+
+    assert.strictEqual(graph.canBeInstalledTogether(one, two), true);
+  });
+
+  test("should not install unrelated apps together", () => {
+    const base = createApp("base");
+    const one = createApp("one", ["base"]);
+    const two = createApp("two", ["base"]);
+    const graph = new DependencyGraph([base, one, two]);
+
+    assert.strictEqual(graph.canBeInstalledTogether(one, two), false);
+  });
+
+  test("should tolerate dependency cycles", () => {
+    const one = createApp("one", ["two"]);
+    const two = createApp("two", ["one"]);
+    const other = createApp("other");
+    const graph = new DependencyGraph([one, two, other]);
+
+    assert.strictEqual(graph.canBeInstalledTogether(one, two), true);
+    assert.strictEqual(graph.canBeInstalledTogether(one, other), false);
+  });
+});
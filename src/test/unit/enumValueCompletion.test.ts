@@ -0,0 +1,180 @@
+import * as assert from "assert";
+import { FolderScanner } from "../../cli/folderScanner.js";
+import { alObjectParser } from "../../parsers/alObjectParser.js";
+import {
+  ALProjectWithFields,
+  DEFAULT_ANALYZER_SETTINGS,
+} from "../../services/rangeAnalyzer.js";
+import { createRetiredIds } from "../../services/retiredIdsLedger.js";
+
+/**
+ * Create a project with the objects declared in the content
+ */
+function createProject(
+  name: string,
+  rootPath: string,
+  content: string,
+  from = 50000,
+  to = 50099,
+): ALProjectWithFields {
+  return {
+    name,
+    rootPath,
+    idRanges: [{ from, to }],
+    objects: alObjectParser.parseContent(content, `${rootPath}/Objects.al`),
+  };
+}
+
+suite("Enum Value Completion Test Suite", () => {
+  let scanner: FolderScanner;
+
+  setup(() => {
+    scanner = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+  });
+
+  suite("Enums", () => {
+    test("should suggest the ordinal after the highest value", () => {
+      const app = createProject(
+        "App One",
+        "/test/App1",
+        `enum 50000 "Status"
+{
+    value(0; Open) { }
+    value(10; Released) { }
+    value(
+}`,
+      );
+
+      assert.strictEqual(
+        scanner.getNextAvailableEnumValueId([app], app.objects[0], false),
+        11,
+      );
+    });
+
+    test("should suggest 0 for an enum without values", () => {
+      const app = createProject(
+        "App One",
+        "/test/App1",
+        'enum 50000 "Status"\n{\n}',
+      );
+
+      assert.strictEqual(
+        scanner.getNextAvailableEnumValueId([app], app.objects[0], false),
+        0,
+      );
+    });
+
+    test("should skip retired ordinals of the enum", () => {
+      const app = createProject(
+        "App One",
+        "/test/App1",
+        'enum 50000 "Status"\n{\n    value(0; Open) { }\n}',
+      );
+      app.retiredIds = createRetiredIds();
+      app.retiredIds.enumValues["Status"] = [1];
+
+      assert.strictEqual(
+        scanner.getNextAvailableEnumValueId([app], app.objects[0], false),
+        2,
+      );
+    });
+  });
+
+  suite("Enumextensions", () => {
+    const extensionOne = `enumextension 50000 "Type Ext" extends "Sales Type"
+{
+    value(50000; First) { }
+}`;
+    const extensionTwo = `enumextension 50000 "Type Ext 2" extends "Sales Type"
+{
+    value(50001; Second) { }
+    value(50003; Fourth) { }
+}
+enumextension 50001 "Other Ext" extends "Purchase Type"
+{
+    value(50002; Other) { }
+}`;
+
+    test("should skip ordinals used by extensions of the same base enum", () => {
+      const app1 = createProject("App One", "/test/App1", extensionOne);
+      const app2 = createProject("App Two", "/test/App2", extensionTwo);
+
+      assert.strictEqual(
+        scanner.getNextAvailableEnumValueId(
+          [app1, app2],
+          app1.objects[0],
+          false,
+        ),
+        50002,
+      );
+    });
+
+    test("should skip ordinals used by dependencies", () => {
+      const app1 = createProject("App One", "/test/App1", extensionOne);
+      const dependency = createProject(
+        "ISV App",
+        "/test/ISV.app",
+        extensionTwo,
+      );
+      dependency.dependency = {
+        packagePath: "/test/ISV.app",
+        publisher: "ISV",
+        version: "1.0.0.0",
+        referencedBy: ["/test/App1"],
+      };
+      scanner.setDependencies([dependency]);
+
+      assert.strictEqual(
+        scanner.getNextAvailableEnumValueId([app1], app1.objects[0], false),
+        50002,
+      );
+    });
+
+    test("should name the apps that declare the neighbouring ordinals", () => {
+      const app1 = createProject("App One", "/test/App1", extensionOne);
+      const app2 = createProject("App Two", "/test/App2", extensionTwo);
+
+      assert.deepStrictEqual(
+        scanner.getNeighbouringMemberIds(
+          [app1, app2],
+          app1.objects[0],
+          "enumValues",
+          50002,
+        ),
+        {
+          below: { id: 50001, projectName: "App Two" },
+          above: { id: 50003, projectName: "App Two" },
+        },
+      );
+      assert.deepStrictEqual(
+        scanner.getNeighbouringMemberIds(
+          [app1, app2],
+          app1.objects[0],
+          "enumValues",
+          49999,
+        ),
+        { above: { id: 50000, projectName: "App One" } },
+      );
+    });
+
+    test("should return null when the app's ranges are used up", () => {
+      const app1 = createProject(
+        "App One",
+        "/test/App1",
+        extensionOne,
+        50000,
+        50001,
+      );
+      const app2 = createProject("App Two", "/test/App2", extensionTwo);
+
+      assert.strictEqual(
+        scanner.getNextAvailableEnumValueId(
+          [app1, app2],
+          app1.objects[0],
+          false,
+        ),
+        null,
+      );
+    });
+  });
+});
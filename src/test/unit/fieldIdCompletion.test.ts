@@ -0,0 +1,217 @@
+import * as assert from "assert";
+import { FolderScanner } from "../../cli/folderScanner.js";
+import { alObjectParser } from "../../parsers/alObjectParser.js";
+import {
+  ALProjectWithFields,
+  DEFAULT_ANALYZER_SETTINGS,
+} from "../../services/rangeAnalyzer.js";
+import { createRetiredIds } from "../../services/retiredIdsLedger.js";
+
+/**
+ * Parse the content of a file in a project folder
+ */
+function parse(filePath: string, content: string) {
+  return alObjectParser.parseContent(content, filePath);
+}
+
+/**
+ * Create a project with the given objects
+ */
+function createProject(
+  name: string,
+  rootPath: string,
+  content: string,
+  from = 50000,
+  to = 50099,
+): ALProjectWithFields {
+  return {
+    name,
+    rootPath,
+    idRanges: [{ from, to }],
+    objects: parse(`${rootPath}/Objects.al`, content),
+  };
+}
+
+suite("Field ID Completion Test Suite", () => {
+  const scanner = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+
+  suite("Tables", () => {
+    test("should suggest the ID after the highest field", () => {
+      const [table] = parse(
+        "/test/App1/Table.al",
+        `table 50000 "My Table"
+{
+    fields
+    {
+        field(1; "Code"; Code[20]) { }
+        field(5; "Name"; Text[100]) { }
+        field(
+    }
+}`,
+      );
+
+      assert.strictEqual(table.fields!.length, 2);
+      assert.strictEqual(scanner.getNextAvailableFieldId([], table, false), 6);
+    });
+
+    test("should suggest 1 for a table without fields", () => {
+      const [table] = parse(
+        "/test/App1/Table.al",
+        'table 50000 "My Table"\n{\n    fields\n    {\n    }\n}',
+      );
+
+      assert.strictEqual(scanner.getNextAvailableFieldId([], table, false), 1);
+    });
+
+    test("should skip retired field IDs of the table", () => {
+      const project = createProject(
+        "App One",
+        "/test/App1",
+        'table 50000 "My Table"\n{\n    fields\n    {\n        field(1; "Code"; Code[20]) { }\n    }\n}',
+      );
+      project.retiredIds = createRetiredIds();
+      project.retiredIds.fields["MY TABLE"] = [1, 2, 3];
+
+      assert.strictEqual(
+        scanner.getNextAvailableFieldId([project], project.objects[0], false),
+        4,
+      );
+    });
+  });
+
+  suite("Tableextensions", () => {
+    test("should skip IDs used by extensions of the same base table in other apps", () => {
+      const app1 = createProject(
+        "App One",
+        "/test/App1",
+        `tableextension 50000 "Customer Ext" extends Customer
+{
+    fields
+    {
+        field(50000; "First"; Code[10]) { }
+    }
+}`,
+      );
+      const app2 = createProject(
+        "App Two",
+        "/test/App2",
+        `tableextension 50000 "Customer Ext 2" extends Customer
+{
+    fields
+    {
+        field(50001; "Second"; Code[10]) { }
+    }
+}
+tableextension 50001 "Vendor Ext" extends Vendor
+{
+    fields
+    {
+        field(50002; "Other"; Code[10]) { }
+    }
+}`,
+      );
+
+      assert.strictEqual(
+        scanner.getNextAvailableFieldId([app1, app2], app1.objects[0], false),
+        50002,
+      );
+    });
+
+    test("should use the fields of the open document instead of the scanned ones", () => {
+      const app1 = createProject(
+        "App One",
+        "/test/App1",
+        `tableextension 50000 "Customer Ext" extends Customer
+{
+    fields
+    {
+        field(50000; "First"; Code[10]) { }
+        field(50001; "Removed"; Code[10]) { }
+    }
+}`,
+      );
+      const [edited] = parse(
+        "/test/App1/Objects.al",
+        `tableextension 50000 "Customer Ext" extends Customer
+{
+    fields
+    {
+        field(50000; "First"; Code[10]) { }
+        field(
+    }
+}`,
+      );
+
+      assert.strictEqual(
+        scanner.getNextAvailableFieldId([app1], edited, false),
+        50001,
+      );
+    });
+
+    test("should match the base table through namespaces", () => {
+      const app1 = createProject(
+        "App One",
+        "/test/App1",
+        `namespace Fabrikam;
+using Microsoft.Sales.Customer;
+tableextension 50000 "Customer Ext" extends Customer
+{
+}`,
+      );
+      const app2 = createProject(
+        "App Two",
+        "/test/App2",
+        `tableextension 50000 "Customer Ext 2" extends Microsoft.Sales.Customer.Customer
+{
+    fields
+    {
+        field(50000; "Second"; Code[10]) { }
+    }
+}`,
+      );
+
+      assert.strictEqual(
+        scanner.getNextAvailableFieldId([app1, app2], app1.objects[0], false),
+        50001,
+      );
+    });
+
+    test("should use the app's ranges in normal mode and the shared ranges in shared mode", () => {
+      const app1 = createProject(
+        "App One",
+        "/test/App1",
+        `tableextension 50000 "Customer Ext" extends Customer
+{
+    fields
+    {
+        field(50000; "First"; Code[10]) { }
+    }
+}`,
+        50000,
+        50000,
+      );
+      const app2 = createProject("App Two", "/test/App2", "", 50100, 50199);
+
+      assert.strictEqual(
+        scanner.getNextAvailableFieldId([app1, app2], app1.objects[0], false),
+        null,
+      );
+      assert.strictEqual(
+        scanner.getNextAvailableFieldId([app1, app2], app1.objects[0], true),
+        50100,
+      );
+    });
+
+    test("should return null when the file is not in a project", () => {
+      const [extension] = parse(
+        "/other/Ext.al",
+        'tableextension 50000 "Customer Ext" extends Customer\n{\n}',
+      );
+
+      assert.strictEqual(
+        scanner.getNextAvailableFieldId([], extension, false),
+        null,
+      );
+    });
+  });
+});
@@ -1,72 +1,56 @@
 import * as assert from "assert";
 import { ALProject, IdRange, ALObjectTypeWithId } from "../../types/index.js";
-
-// Import the class directly to test its methods
-// We'll create a simple mock for the scanner's calculateGaps function
+import {
+  findFirstFreeId,
+  findGaps,
+  mergeRanges,
+  toSortedUniqueIds,
+} from "../../services/idIntervals.js";
+
+// Mirrors WorkspaceScanner.calculateGaps/getNextAvailableId on top of the
+// interval engine, without VS Code dependencies
 class GapCalculator {
   /**
    * Calculate unused ID gaps within configured ranges for a project
    */
   public calculateGaps(
     project: ALProject,
+    objectType?: ALObjectTypeWithId,
   ): { start: number; end: number; count: number }[] {
-    const gaps: { start: number; end: number; count: number }[] = [];
-
     if (project.idRanges.length === 0) {
-      return gaps;
-    }
-
-    // Get all used IDs
-    const usedIds = new Set(project.objects.map((obj) => obj.id));
-
-    // For each configured range, find gaps
-    for (const range of project.idRanges) {
-      let gapStart: number | null = null;
-
-      for (let id = range.from; id <= range.to; id++) {
-        if (!usedIds.has(id)) {
-          // This ID is unused
-          if (gapStart === null) {
-            gapStart = id;
-          }
-        } else {
-          // This ID is used - close any open gap
-          if (gapStart !== null) {
-            gaps.push({
-              start: gapStart,
-              end: id - 1,
-              count: id - gapStart,
-            });
-            gapStart = null;
-          }
-        }
-      }
-
-      // Close any gap that extends to the end of the range
-      if (gapStart !== null) {
-        gaps.push({
-          start: gapStart,
-          end: range.to,
-          count: range.to - gapStart + 1,
-        });
-      }
+      return [];
     }
 
-    return gaps;
+    return findGaps(project.idRanges, getUsedIds([project], objectType));
   }
 
   /**
    * Get the next available ID in a project's ranges
    */
-  public getNextAvailableId(project: ALProject): number | null {
-    const gaps = this.calculateGaps(project);
-    if (gaps.length === 0) {
-      return null;
-    }
-    return gaps[0].start;
+  public getNextAvailableId(
+    project: ALProject,
+    objectType?: ALObjectTypeWithId,
+  ): number | null {
+    return findFirstFreeId(project.idRanges, getUsedIds([project], objectType));
   }
 }
 
+/**
+ * Collect sorted used IDs (mirrors WorkspaceScanner.getUsedIds)
+ */
+function getUsedIds(
+  projects: ALProject[],
+  objectType?: ALObjectTypeWithId,
+): number[] {
+  return toSortedUniqueIds(
+    projects.flatMap((project) =>
+      project.objects
+        .filter((obj) => !objectType || obj.type === objectType)
+        .map((obj) => obj.id),
+    ),
+  );
+}
+
 suite("Gap Calculation Test Suite", () => {
   let calculator: GapCalculator;
 
@@ -344,6 +328,97 @@ suite("Gap Calculation Test Suite", () => {
       assert.strictEqual(nextId, 50000);
     });
   });
+
+  suite("Per Object Type Gaps", () => {
+    /**
+     * Helper to create a test project with mixed object types
+     */
+    function createMixedProject(
+      idRanges: IdRange[],
+      objects: { type: ALObjectTypeWithId; id: number }[],
+    ): ALProject {
+      return {
+        name: "test",
+        rootPath: "/test/test",
+        idRanges,
+        objects: objects.map((obj, index) => ({
+          type: obj.type,
+          id: obj.id,
+          name: `${obj.type}${obj.id}`,
+          lineNumber: index + 1,
+          filePath: `/test/test/${obj.type}${obj.id}.al`,
+        })),
+      };
+    }
+
+    test("should not block an ID used by a different object type", () => {
+      const project = createMixedProject(
+        [{ from: 50000, to: 50010 }],
+        [
+          { type: "table", id: 50000 },
+          { type: "page", id: 50000 },
+          { type: "page", id: 50001 },
+        ],
+      );
+
+      const tableGaps = calculator.calculateGaps(project, "table");
+      const pageGaps = calculator.calculateGaps(project, "page");
+      const codeunitGaps = calculator.calculateGaps(project, "codeunit");
+
+      assert.deepStrictEqual(
+        tableGaps.map((g) => [g.start, g.end]),
+        [[50001, 50010]],
+      );
+      assert.deepStrictEqual(
+        pageGaps.map((g) => [g.start, g.end]),
+        [[50002, 50010]],
+      );
+      assert.deepStrictEqual(
+        codeunitGaps.map((g) => [g.start, g.end]),
+        [[50000, 50010]],
+      );
+    });
+
+    test("should return next available ID per object type", () => {
+      const project = createMixedProject(
+        [{ from: 50000, to: 50010 }],
+        [
+          { type: "table", id: 50000 },
+          { type: "table", id: 50001 },
+          { type: "page", id: 50000 },
+        ],
+      );
+
+      assert.strictEqual(
+        calculator.getNextAvailableId(project, "table"),
+        50002,
+      );
+      assert.strictEqual(calculator.getNextAvailableId(project, "page"), 50001);
+      assert.strictEqual(
+        calculator.getNextAvailableId(project, "codeunit"),
+        50000,
+      );
+    });
+
+    test("should return null when all IDs of a type are used", () => {
+      const project = createMixedProject(
+        [{ from: 50000, to: 50001 }],
+        [
+          { type: "codeunit", id: 50000 },
+          { type: "codeunit", id: 50001 },
+        ],
+      );
+
+      assert.strictEqual(
+        calculator.getNextAvailableId(project, "codeunit"),
+        null,
+      );
+      assert.strictEqual(
+        calculator.getNextAvailableId(project, "table"),
+        50000,
+      );
+    });
+  });
 });
 
 /**
@@ -354,33 +429,7 @@ class SharedRangeCalculator {
    * Get the union of all ID ranges across all projects
    */
   public getSharedRanges(projects: ALProject[]): IdRange[] {
-    const allRanges: IdRange[] = [];
-    for (const project of projects) {
-      allRanges.push(...project.idRanges);
-    }
-
-    if (allRanges.length === 0) {
-      return [];
-    }
-
-    // Sort ranges by 'from' value
-    allRanges.sort((a, b) => a.from - b.from);
-
-    // Merge overlapping/adjacent ranges
-    const merged: IdRange[] = [{ ...allRanges[0] }];
-
-    for (let i = 1; i < allRanges.length; i++) {
-      const current = allRanges[i];
-      const last = merged[merged.length - 1];
-
-      if (current.from <= last.to + 1) {
-        last.to = Math.max(last.to, current.to);
-      } else {
-        merged.push({ ...current });
-      }
-    }
-
-    return merged;
+    return mergeRanges(projects.flatMap((project) => project.idRanges));
   }
 
   /**
@@ -395,61 +444,10 @@ class SharedRangeCalculator {
     count: number;
     objectType: ALObjectTypeWithId;
   }[] {
-    const gaps: {
-      start: number;
-      end: number;
-      count: number;
-      objectType: ALObjectTypeWithId;
-    }[] = [];
-    const sharedRanges = this.getSharedRanges(projects);
-
-    if (sharedRanges.length === 0) {
-      return gaps;
-    }
-
-    // Collect all used IDs of this object type across all projects
-    const usedIds = new Set<number>();
-    for (const project of projects) {
-      for (const obj of project.objects) {
-        if (obj.type === objectType) {
-          usedIds.add(obj.id);
-        }
-      }
-    }
-
-    // Find gaps in the shared ranges
-    for (const range of sharedRanges) {
-      let gapStart: number | null = null;
-
-      for (let id = range.from; id <= range.to; id++) {
-        if (!usedIds.has(id)) {
-          if (gapStart === null) {
-            gapStart = id;
-          }
-        } else {
-          if (gapStart !== null) {
-            gaps.push({
-              start: gapStart,
-              end: id - 1,
-              count: id - gapStart,
-              objectType,
-            });
-            gapStart = null;
-          }
-        }
-      }
-
-      if (gapStart !== null) {
-        gaps.push({
-          start: gapStart,
-          end: range.to,
-          count: range.to - gapStart + 1,
-          objectType,
-        });
-      }
-    }
-
-    return gaps;
+    return findGaps(
+      this.getSharedRanges(projects),
+      getUsedIds(projects, objectType),
+    ).map((gap) => ({ ...gap, objectType }));
   }
 
   /**
@@ -459,55 +457,85 @@ class SharedRangeCalculator {
     projects: ALProject[],
     objectType: ALObjectTypeWithId,
   ): number | null {
-    const gaps = this.calculateSharedGaps(projects, objectType);
-    if (gaps.length === 0) {
-      return null;
-    }
-    return gaps[0].start;
+    return findFirstFreeId(
+      this.getSharedRanges(projects),
+      getUsedIds(projects, objectType),
+    );
   }
 
   /**
-   * Detect ID conflicts across projects
+   * Detect ID conflicts across projects (keyed on the owning project)
    */
   public detectConflicts(
     projects: ALProject[],
-  ): { id: number; type: ALObjectTypeWithId; objects: ALProject["objects"] }[] {
+  ): { id: number; type: ALObjectTypeWithId; projectNames: string[] }[] {
     const conflicts: {
       id: number;
       type: ALObjectTypeWithId;
-      objects: ALProject["objects"];
+      projectNames: string[];
     }[] = [];
-    const objectMap = new Map<string, ALProject["objects"][0][]>();
 
-    for (const project of projects) {
-      for (const obj of project.objects) {
-        const key = `${obj.type}:${obj.id}`;
-        const existing = objectMap.get(key) || [];
-        existing.push(obj);
-        objectMap.set(key, existing);
+    for (const [key, owners] of this.groupOwnersByTypeAndId(projects)) {
+      const uniqueOwners = [...new Set(owners)];
+      if (uniqueOwners.length > 1) {
+        const [type, id] = key.split(":");
+        conflicts.push({
+          id: parseInt(id, 10),
+          type: type as ALObjectTypeWithId,
+          projectNames: uniqueOwners.map((p) => p.name),
+        });
       }
     }
 
-    for (const [, objects] of objectMap) {
-      if (objects.length > 1) {
-        const uniquePaths = new Set(
-          objects.map((o) => {
-            // Extract project root from path
-            const parts = o.filePath.split("/");
-            return parts.slice(0, 3).join("/");
-          }),
-        );
-        if (uniquePaths.size > 1) {
-          conflicts.push({
-            id: objects[0].id,
-            type: objects[0].type,
-            objects,
+    return conflicts;
+  }
+
+  /**
+   * Detect IDs declared more than once inside the same project
+   */
+  public detectDuplicateIds(
+    projects: ALProject[],
+  ): { id: number; type: ALObjectTypeWithId; projectName: string }[] {
+    const duplicates: {
+      id: number;
+      type: ALObjectTypeWithId;
+      projectName: string;
+    }[] = [];
+
+    for (const [key, owners] of this.groupOwnersByTypeAndId(projects)) {
+      for (const project of new Set(owners)) {
+        if (owners.filter((owner) => owner === project).length > 1) {
+          const [type, id] = key.split(":");
+          duplicates.push({
+            id: parseInt(id, 10),
+            type: type as ALObjectTypeWithId,
+            projectName: project.name,
           });
         }
       }
     }
 
-    return conflicts;
+    return duplicates;
+  }
+
+  /**
+   * Map "type:id" to the owning project of every declaration
+   */
+  private groupOwnersByTypeAndId(
+    projects: ALProject[],
+  ): Map<string, ALProject[]> {
+    const ownerMap = new Map<string, ALProject[]>();
+
+    for (const project of projects) {
+      for (const obj of project.objects) {
+        const key = `${obj.type}:${obj.id}`;
+        const existing = ownerMap.get(key) || [];
+        existing.push(project);
+        ownerMap.set(key, existing);
+      }
+    }
+
+    return ownerMap;
   }
 }
 
@@ -745,7 +773,7 @@ suite("Shared Range Mode Test Suite", () => {
       assert.strictEqual(conflicts.length, 1);
       assert.strictEqual(conflicts[0].type, "table");
       assert.strictEqual(conflicts[0].id, 50000);
-      assert.strictEqual(conflicts[0].objects.length, 2);
+      assert.deepStrictEqual(conflicts[0].projectNames, ["app1", "app2"]);
     });
 
     test("should not detect conflict when same ID but different types", () => {
@@ -787,6 +815,95 @@ suite("Shared Range Mode Test Suite", () => {
 
       assert.strictEqual(conflicts.length, 2);
     });
+
+    test("should not report two files of one project in different folders as a conflict", () => {
+      const project = createTestProjectWithTypes(
+        "app1",
+        [{ from: 50000, to: 50099 }],
+        [{ type: "codeunit", id: 50010 }],
+      );
+      project.objects.push({
+        ...project.objects[0],
+        filePath: "/test/app1/src/sub/codeunit50010.al",
+      });
+
+      const conflicts = calculator.detectConflicts([project]);
+
+      assert.strictEqual(conflicts.length, 0);
+    });
+  });
+
+  suite("Duplicate ID Detection", () => {
+    test("should detect the same type and ID twice in one project", () => {
+      const project = createTestProjectWithTypes(
+        "app1",
+        [{ from: 50000, to: 50099 }],
+        [
+          { type: "codeunit", id: 50010 },
+          { type: "codeunit", id: 50010 },
+        ],
+      );
+
+      const duplicates = calculator.detectDuplicateIds([project]);
+
+      assert.deepStrictEqual(duplicates, [
+        { id: 50010, type: "codeunit", projectName: "app1" },
+      ]);
+    });
+
+    test("should not report the same ID with different types", () => {
+      const project = createTestProjectWithTypes(
+        "app1",
+        [{ from: 50000, to: 50099 }],
+        [
+          { type: "table", id: 50000 },
+          { type: "page", id: 50000 },
+        ],
+      );
+
+      assert.strictEqual(calculator.detectDuplicateIds([project]).length, 0);
+    });
+
+    test("should not report IDs shared across projects as duplicates", () => {
+      const project1 = createTestProjectWithTypes(
+        "app1",
+        [{ from: 50000, to: 50099 }],
+        [{ type: "table", id: 50000 }],
+      );
+      const project2 = createTestProjectWithTypes(
+        "app2",
+        [{ from: 50000, to: 50099 }],
+        [{ type: "table", id: 50000 }],
+      );
+
+      assert.strictEqual(
+        calculator.detectDuplicateIds([project1, project2]).length,
+        0,
+      );
+    });
+
+    test("should report both a duplicate and a cross-project conflict", () => {
+      const project1 = createTestProjectWithTypes(
+        "app1",
+        [{ from: 50000, to: 50099 }],
+        [
+          { type: "table", id: 50000 },
+          { type: "table", id: 50000 },
+        ],
+      );
+      const project2 = createTestProjectWithTypes(
+        "app2",
+        [{ from: 50000, to: 50099 }],
+        [{ type: "table", id: 50000 }],
+      );
+
+      const duplicates = calculator.detectDuplicateIds([project1, project2]);
+      const conflicts = calculator.detectConflicts([project1, project2]);
+
+      assert.strictEqual(duplicates.length, 1);
+      assert.strictEqual(duplicates[0].projectName, "app1");
+      assert.strictEqual(conflicts.length, 1);
+    });
   });
 });
 
@@ -856,7 +973,9 @@ class FieldConflictCalculator {
           const fieldId = parseInt(key.split(":")[1], 10);
 
           conflicts.push({
+            kind: "id",
             fieldId,
+            fieldName: fieldInfos[0].field.name,
             baseTable,
             fields: fieldInfos.map((info) => ({
               ...info.field,
@@ -931,7 +1050,9 @@ class FieldConflictCalculator {
           const valueId = parseInt(key.split(":")[1], 10);
 
           conflicts.push({
+            kind: "id",
             valueId,
+            valueName: valueInfos[0].value.name,
             baseEnum,
             values: valueInfos.map((info) => ({
               ...info.value,
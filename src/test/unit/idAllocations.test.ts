@@ -0,0 +1,276 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FolderScanner } from "../../cli/folderScanner.js";
+import { parseIdAllocations } from "../../models/schemas.js";
+import {
+  ID_ALLOCATIONS_FILE_NAME,
+  isAssignedTo,
+  isForObjectType,
+} from "../../services/idAllocations.js";
+import { DEFAULT_ANALYZER_SETTINGS } from "../../services/rangeAnalyzer.js";
+import {
+  ALObjectTypeWithId,
+  ALProject,
+  IdAllocationBlock,
+} from "../../types/index.js";
+
+/**
+ * A folder scanner with a fixed git user.email
+ */
+class GitUserFolderScanner extends FolderScanner {
+  constructor(private readonly gitUserEmail: string | undefined) {
+    super(DEFAULT_ANALYZER_SETTINGS);
+  }
+
+  protected async readGitUserEmail(): Promise<string | undefined> {
+    return this.gitUserEmail;
+  }
+}
+
+/**
+ * Create a project in memory with tables and ID blocks
+ */
+function createProject(
+  name: string,
+  tableIds: number[],
+  blocks: IdAllocationBlock[],
+  developer?: string,
+): ALProject {
+  return {
+    name,
+    rootPath: `/test/${name}`,
+    idRanges: [{ from: 50000, to: 50099 }],
+    objects: tableIds.map((id) => ({
+      type: "table" as ALObjectTypeWithId,
+      id,
+      name: `Table ${id}`,
+      lineNumber: 1,
+      filePath: `/test/${name}/Table${id}.al`,
+    })),
+    idAllocations: { blocks, ...(developer && { developer }) },
+  };
+}
+
+suite("ID Allocations Test Suite", () => {
+  const block: IdAllocationBlock = {
+    name: "Team Sales",
+    from: 50000,
+    to: 50049,
+    objectTypes: ["table", "page"],
+    assignees: ["Anna@Contoso.com"],
+  };
+
+  suite("isAssignedTo", () => {
+    test("should match an assignee or the block name case-insensitively", () => {
+      assert.strictEqual(isAssignedTo(block, "anna@contoso.com"), true);
+      assert.strictEqual(isAssignedTo(block, "team sales"), true);
+      assert.strictEqual(isAssignedTo(block, "bob@contoso.com"), false);
+      assert.strictEqual(isAssignedTo(block, undefined), false);
+    });
+  });
+
+  suite("isForObjectType", () => {
+    test("should apply a block to its object types only", () => {
+      assert.strictEqual(isForObjectType(block, "page"), true);
+      assert.strictEqual(isForObjectType(block, "codeunit"), false);
+      assert.strictEqual(isForObjectType(block, undefined), true);
+      assert.strictEqual(
+        isForObjectType({ ...block, objectTypes: undefined }, "codeunit"),
+        true,
+      );
+    });
+  });
+
+  suite("parseIdAllocations", () => {
+    test("should default missing assignees to none", () => {
+      const allocations = parseIdAllocations(
+        '{ "blocks": [{ "name": "Reserved", "from": 50090, "to": 50099 }] }',
+      );
+
+      assert.deepStrictEqual(allocations?.blocks, [
+        { name: "Reserved", from: 50090, to: 50099, assignees: [] },
+      ]);
+    });
+
+    test("should return null for an invalid file", () => {
+      assert.strictEqual(
+        parseIdAllocations(
+          '{ "blocks": [{ "name": "Bad", "from": 50099, "to": 50000 }] }',
+        ),
+        null,
+      );
+    });
+  });
+
+  suite("Scanning", () => {
+    let root: string;
+
+    setup(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), "bc-object-range-"));
+      fs.writeFileSync(
+        path.join(root, "app.json"),
+        JSON.stringify({
+          id: "app-id",
+          name: "App",
+          publisher: "Test",
+          version: "1.0.0.0",
+          idRanges: [{ from: 50000, to: 50099 }],
+        }),
+      );
+      fs.writeFileSync(
+        path.join(root, "Table.al"),
+        'table 50000 "First"\n{\n}\n',
+      );
+      fs.writeFileSync(
+        path.join(root, ID_ALLOCATIONS_FILE_NAME),
+        JSON.stringify({
+          blocks: [
+            { name: "Anna", from: 50000, to: 50049, assignees: ["anna@x.com"] },
+            { name: "Bob", from: 50050, to: 50099, assignees: ["bob@x.com"] },
+          ],
+        }),
+      );
+    });
+
+    teardown(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test("should draw new IDs from the configured developer's block", async () => {
+      const scanner = new FolderScanner({
+        ...DEFAULT_ANALYZER_SETTINGS,
+        developerId: "bob@x.com",
+        updateRetiredIdsLedger: false,
+      });
+      const projects = await scanner.scanFolder(root);
+      await scanner.loadIdAllocations(projects);
+      const [project] = projects;
+
+      assert.strictEqual(project.idAllocations?.developer, "bob@x.com");
+      assert.strictEqual(scanner.getNextAvailableId(project, "table"), 50050);
+      assert.deepStrictEqual(
+        scanner.calculateGaps(project, "table", { developerBlocks: true }),
+        [{ start: 50050, end: 50099, count: 50 }],
+      );
+      // The view keeps listing the gaps of the whole range
+      assert.deepStrictEqual(scanner.calculateGaps(project, "table"), [
+        { start: 50001, end: 50099, count: 99 },
+      ]);
+    });
+
+    test("should identify the developer by git user.email", async () => {
+      const scanner = new GitUserFolderScanner("anna@x.com");
+      const projects = await scanner.scanFolder(root);
+      await scanner.loadIdAllocations(projects);
+
+      assert.strictEqual(
+        scanner.getNextAvailableId(projects[0], "table"),
+        50001,
+      );
+      assert.deepStrictEqual(
+        scanner
+          .getAllocationUsage(projects, projects[0])
+          .map((usage) => [
+            usage.block.name,
+            usage.assigned,
+            usage.used,
+            usage.total,
+            usage.nextFree,
+          ]),
+        [
+          ["Anna", true, 1, 50, 50001],
+          ["Bob", false, 0, 50, 50050],
+        ],
+      );
+    });
+
+    test("should use the full ranges without an assigned block", async () => {
+      const scanner = new GitUserFolderScanner("carol@x.com");
+      const projects = await scanner.scanFolder(root);
+      await scanner.loadIdAllocations(projects);
+
+      assert.strictEqual(
+        scanner.getNextAvailableId(projects[0], "table"),
+        50001,
+      );
+      assert.deepStrictEqual(scanner.getDeveloperBlocks(projects), []);
+    });
+
+    test("should ignore an allocation file that cannot be parsed", async () => {
+      fs.writeFileSync(path.join(root, ID_ALLOCATIONS_FILE_NAME), "{ nope");
+      const scanner = new GitUserFolderScanner("bob@x.com");
+      const projects = await scanner.scanFolder(root);
+      await scanner.loadIdAllocations(projects);
+
+      assert.strictEqual(projects[0].idAllocations, undefined);
+      assert.strictEqual(
+        scanner.getNextAvailableId(projects[0], "table"),
+        50001,
+      );
+    });
+  });
+
+  suite("Shared mode", () => {
+    const blocks: IdAllocationBlock[] = [
+      {
+        name: "Anna tables",
+        from: 50000,
+        to: 50009,
+        objectTypes: ["table"],
+        assignees: ["anna@x.com"],
+      },
+      {
+        name: "Anna pages",
+        from: 50050,
+        to: 50059,
+        objectTypes: ["page"],
+        assignees: ["anna@x.com"],
+      },
+    ];
+
+    test("should draw each object type from its own block", () => {
+      const scanner = new FolderScanner({
+        ...DEFAULT_ANALYZER_SETTINGS,
+        sharedRangeMode: true,
+      });
+      const projects = [
+        createProject("One", [50000], blocks, "anna@x.com"),
+        createProject("Two", [50001], [], "anna@x.com"),
+      ];
+
+      assert.strictEqual(
+        scanner.getNextAvailableIdForType(projects, "table"),
+        50002,
+      );
+      assert.strictEqual(
+        scanner.getNextAvailableIdForType(projects, "page"),
+        50050,
+      );
+      // No block for codeunits, so the whole shared range is used
+      assert.strictEqual(
+        scanner.getNextAvailableIdForType(projects, "codeunit"),
+        50000,
+      );
+    });
+
+    test("should list a block repeated in several files once", () => {
+      const scanner = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+      const projects = [
+        createProject("One", [50000], blocks, "anna@x.com"),
+        createProject("Two", [50001], blocks, "anna@x.com"),
+      ];
+
+      const usage = scanner.getAllocationUsage(projects);
+
+      assert.deepStrictEqual(
+        usage.map((entry) => [entry.block.name, entry.used, entry.nextFree]),
+        [
+          ["Anna tables", 2, 50002],
+          ["Anna pages", 0, 50050],
+        ],
+      );
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import * as assert from "assert";
+import { IdRange } from "../../types/index.js";
+import {
+  findFirstFreeId,
+  findGaps,
+  findNearestRange,
+  findRangeGaps,
+  intersectRanges,
+  isInRanges,
+  lowerBound,
+  mergeRanges,
+  toIdRuns,
+  toSortedUniqueIds,
+} from "../../services/idIntervals.js";
+
+/**
+ * Reference implementation that walks every ID of every range.
+ * Used to cross-check the interval engine on small inputs.
+ */
+function naiveGaps(
+  ranges: IdRange[],
+  usedIds: number[],
+): { start: number; end: number; count: number }[] {
+  const used = new Set(usedIds);
+  const gaps: { start: number; end: number; count: number }[] = [];
+
+  for (const range of ranges) {
+    let gapStart: number | null = null;
+    for (let id = range.from; id <= range.to; id++) {
+      if (!used.has(id)) {
+        if (gapStart === null) {
+          gapStart = id;
+        }
+      } else if (gapStart !== null) {
+        gaps.push({ start: gapStart, end: id - 1, count: id - gapStart });
+        gapStart = null;
+      }
+    }
+    if (gapStart !== null) {
+      gaps.push({
+        start: gapStart,
+        end: range.to,
+        count: range.to - gapStart + 1,
+      });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Deterministic pseudo-random generator so benchmark inputs are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+suite("ID Interval Engine Test Suite", () => {
+  suite("toSortedUniqueIds", () => {
+    test("should sort and de-duplicate IDs", () => {
+      assert.deepStrictEqual(
+        toSortedUniqueIds([50003, 50001, 50003, 50002]),
+        [50001, 50002, 50003],
+      );
+    });
+
+    test("should sort numerically rather than lexically", () => {
+      assert.deepStrictEqual(toSortedUniqueIds([100, 9, 1000]), [9, 100, 1000]);
+    });
+  });
+
+  suite("toIdRuns", () => {
+    test("should group consecutive IDs", () => {
+      assert.deepStrictEqual(toIdRuns([1, 2, 3, 7, 9, 10]), [
+        { start: 1, end: 3, count: 3 },
+        { start: 7, end: 7, count: 1 },
+        { start: 9, end: 10, count: 2 },
+      ]);
+    });
+
+    test("should return no runs for no IDs", () => {
+      assert.deepStrictEqual(toIdRuns([]), []);
+    });
+  });
+
+  suite("lowerBound", () => {
+    test("should find the first element greater than or equal to value", () => {
+      const ids = [10, 20, 30];
+      assert.strictEqual(lowerBound(ids, 5), 0);
+      assert.strictEqual(lowerBound(ids, 10), 0);
+      assert.strictEqual(lowerBound(ids, 11), 1);
+      assert.strictEqual(lowerBound(ids, 30), 2);
+      assert.strictEqual(lowerBound(ids, 31), 3);
+    });
+
+    test("should return 0 for an empty array", () => {
+      assert.strictEqual(lowerBound([], 50000), 0);
+    });
+  });
+
+  suite("mergeRanges", () => {
+    test("should merge overlapping and adjacent ranges", () => {
+      const merged = mergeRanges([
+        { from: 50100, to: 50199 },
+        { from: 50000, to: 50050 },
+        { from: 50025, to: 50099 },
+      ]);
+
+      assert.deepStrictEqual(merged, [{ from: 50000, to: 50199 }]);
+    });
+
+    test("should keep disjoint ranges separate and sorted", () => {
+      const merged = mergeRanges([
+        { from: 60000, to: 60009 },
+        { from: 50000, to: 50009 },
+      ]);
+
+      assert.deepStrictEqual(merged, [
+        { from: 50000, to: 50009 },
+        { from: 60000, to: 60009 },
+      ]);
+    });
+
+    test("should not mutate the input ranges", () => {
+      const ranges = [
+        { from: 50000, to: 50010 },
+        { from: 50005, to: 50020 },
+      ];
+      mergeRanges(ranges);
+
+      assert.deepStrictEqual(ranges, [
+        { from: 50000, to: 50010 },
+        { from: 50005, to: 50020 },
+      ]);
+    });
+  });
+
+  suite("intersectRanges", () => {
+    test("should keep only the IDs in both lists of ranges", () => {
+      const intersection = intersectRanges(
+        [
+          { from: 50050, to: 50149 },
+          { from: 60000, to: 60009 },
+        ],
+        [
+          { from: 50100, to: 50199 },
+          { from: 50000, to: 50059 },
+        ],
+      );
+
+      assert.deepStrictEqual(intersection, [
+        { from: 50050, to: 50059 },
+        { from: 50100, to: 50149 },
+      ]);
+    });
+  });
+
+  suite("findRangeGaps", () => {
+    test("should ignore used IDs outside the range", () => {
+      const gaps = findRangeGaps(
+        { from: 50000, to: 50005 },
+        [49999, 50002, 50006],
+      );
+
+      assert.deepStrictEqual(gaps, [
+        { start: 50000, end: 50001, count: 2 },
+        { start: 50003, end: 50005, count: 3 },
+      ]);
+    });
+
+    test("should return no gaps when the range is fully used", () => {
+      const gaps = findRangeGaps(
+        { from: 50000, to: 50002 },
+        [50000, 50001, 50002],
+      );
+
+      assert.deepStrictEqual(gaps, []);
+    });
+  });
+
+  suite("findGaps", () => {
+    test("should match the per-ID walk on random inputs", () => {
+      const random = createRandom(42);
+
+      for (let iteration = 0; iteration < 200; iteration++) {
+        const ranges: IdRange[] = [];
+        const rangeCount = 1 + Math.floor(random() * 3);
+        for (let r = 0; r < rangeCount; r++) {
+          const from = 50000 + Math.floor(random() * 200);
+          ranges.push({ from, to: from + Math.floor(random() * 60) });
+        }
+
+        const usedIds: number[] = [];
+        const usedCount = Math.floor(random() * 80);
+        for (let u = 0; u < usedCount; u++) {
+          usedIds.push(49990 + Math.floor(random() * 280));
+        }
+
+        assert.deepStrictEqual(
+          findGaps(ranges, toSortedUniqueIds(usedIds)),
+          naiveGaps(ranges, usedIds),
+        );
+      }
+    });
+  });
+
+  suite("findFirstFreeId", () => {
+    test("should return the start of the first gap", () => {
+      const random = createRandom(7);
+
+      for (let iteration = 0; iteration < 200; iteration++) {
+        const from = 50000 + Math.floor(random() * 20);
+        const ranges: IdRange[] = [
+          { from, to: from + Math.floor(random() * 10) },
+          { from: 50100, to: 50100 + Math.floor(random() * 10) },
+        ];
+        const usedIds = toSortedUniqueIds(
+          Array.from(
+            { length: Math.floor(random() * 40) },
+            () => 50000 + Math.floor(random() * 115),
+          ),
+        );
+
+        const expected = naiveGaps(ranges, usedIds)[0]?.start ?? null;
+        assert.strictEqual(findFirstFreeId(ranges, usedIds), expected);
+      }
+    });
+
+    test("should search ranges in the configured order", () => {
+      const nextId = findFirstFreeId(
+        [
+          { from: 60000, to: 60009 },
+          { from: 50000, to: 50009 },
+        ],
+        [],
+      );
+
+      assert.strictEqual(nextId, 60000);
+    });
+
+    test("should skip a fully used range", () => {
+      const nextId = findFirstFreeId(
+        [
+          { from: 50000, to: 50001 },
+          { from: 50100, to: 50199 },
+        ],
+        [50000, 50001, 50002, 50100],
+      );
+
+      assert.strictEqual(nextId, 50101);
+    });
+
+    test("should return null when every range is used", () => {
+      assert.strictEqual(
+        findFirstFreeId([{ from: 50000, to: 50001 }], [50000, 50001]),
+        null,
+      );
+    });
+  });
+
+  suite("isInRanges", () => {
+    const ranges: IdRange[] = [
+      { from: 50000, to: 50099 },
+      { from: 60000, to: 60009 },
+    ];
+
+    test("should accept IDs inside any range including the bounds", () => {
+      assert.strictEqual(isInRanges(ranges, 50000), true);
+      assert.strictEqual(isInRanges(ranges, 50099), true);
+      assert.strictEqual(isInRanges(ranges, 60005), true);
+    });
+
+    test("should reject IDs between and outside the ranges", () => {
+      assert.strictEqual(isInRanges(ranges, 49999), false);
+      assert.strictEqual(isInRanges(ranges, 50100), false);
+      assert.strictEqual(isInRanges(ranges, 60010), false);
+    });
+
+    test("should reject every ID when there are no ranges", () => {
+      assert.strictEqual(isInRanges([], 50000), false);
+    });
+  });
+
+  suite("findNearestRange", () => {
+    const ranges: IdRange[] = [
+      { from: 50000, to: 50099 },
+      { from: 60000, to: 60009 },
+    ];
+
+    test("should return the range that contains the ID", () => {
+      assert.deepStrictEqual(findNearestRange(ranges, 60003), ranges[1]);
+    });
+
+    test("should return the closest range for an ID outside all ranges", () => {
+      assert.deepStrictEqual(findNearestRange(ranges, 49000), ranges[0]);
+      assert.deepStrictEqual(findNearestRange(ranges, 59000), ranges[1]);
+      assert.deepStrictEqual(findNearestRange(ranges, 70000), ranges[1]);
+    });
+
+    test("should prefer the earlier range on a tie", () => {
+      // 50007 is 3 away from both ranges
+      assert.deepStrictEqual(
+        findNearestRange(
+          [
+            { from: 50010, to: 50019 },
+            { from: 50000, to: 50004 },
+          ],
+          50007,
+        ),
+        { from: 50010, to: 50019 },
+      );
+    });
+
+    test("should return undefined when there are no ranges", () => {
+      assert.strictEqual(findNearestRange([], 50000), undefined);
+    });
+  });
+
+  suite("Benchmarks", () => {
+    const appSourceRange: IdRange = { from: 70000000, to: 74999999 };
+
+    test("should calculate gaps for a 5 million ID range quickly", () => {
+      // 5,000 objects spread across the whole AppSource range
+      const usedIds = toSortedUniqueIds(
+        Array.from({ length: 5000 }, (_, i) => 70000000 + i * 997),
+      );
+
+      const started = Date.now();
+      const gaps = findGaps([appSourceRange], usedIds);
+      const elapsed = Date.now() - started;
+
+      const totalFree = gaps.reduce((sum, gap) => sum + gap.count, 0);
+      assert.strictEqual(totalFree, 5000000 - usedIds.length);
+      assert.ok(elapsed < 100, `findGaps took ${elapsed}ms`);
+    });
+
+    test("should find next ID in a densely used multi-million range quickly", () => {
+      // The first 20,000 IDs are used, so the answer is far from range.from
+      const usedIds = Array.from({ length: 20000 }, (_, i) => 70000000 + i);
+
+      const started = Date.now();
+      let nextId: number | null = null;
+      for (let i = 0; i < 100; i++) {
+        nextId = findFirstFreeId([appSourceRange], usedIds);
+      }
+      const elapsed = Date.now() - started;
+
+      assert.strictEqual(nextId, 70020000);
+      assert.ok(elapsed < 200, `100 x findFirstFreeId took ${elapsed}ms`);
+    });
+
+    test("should calculate gaps for 13 object types over many wide ranges quickly", () => {
+      // Mirrors shared mode: one gap calculation per object type
+      const ranges = mergeRanges([
+        appSourceRange,
+        { from: 50000, to: 99999 },
+        { from: 1000000, to: 3999999 },
+      ]);
+      const random = createRandom(1);
+      const usedIdsPerType = Array.from({ length: 13 }, () =>
+        toSortedUniqueIds(
+          Array.from(
+            { length: 2000 },
+            () => 70000000 + Math.floor(random() * 5000000),
+          ),
+        ),
+      );
+
+      const started = Date.now();
+      for (const usedIds of usedIdsPerType) {
+        findGaps(ranges, usedIds);
+        findFirstFreeId(ranges, usedIds);
+      }
+      const elapsed = Date.now() - started;
+
+      assert.ok(elapsed < 200, `13 object types took ${elapsed}ms`);
+    });
+  });
+});
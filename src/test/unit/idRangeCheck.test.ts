@@ -0,0 +1,281 @@
+import * as assert from "assert";
+import { ALProject, IdRange } from "../../types/index.js";
+import {
+  findIdRangeProblems,
+  getRemoveReplacement,
+  getTrimReplacements,
+  IdRangeProblemCodes,
+  locateIdRanges,
+  TextReplacement,
+} from "../../services/idRangeCheck.js";
+
+/**
+ * Create an app without objects with the given ID ranges
+ */
+function createApp(name: string, idRanges: IdRange[]): ALProject {
+  return { name, rootPath: `/test/${name}`, idRanges, objects: [] };
+}
+
+/**
+ * Apply replacements to a text, last first so the offsets stay valid
+ */
+function applyReplacements(
+  text: string,
+  replacements: TextReplacement[],
+): string {
+  return [...replacements]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, replacement) =>
+        result.slice(0, replacement.start) +
+        replacement.text +
+        result.slice(replacement.end),
+      text,
+    );
+}
+
+suite("ID Range Check Test Suite", () => {
+  suite("findIdRangeProblems", () => {
+    test("should report overlaps with the ranges of other apps", () => {
+      const one = createApp("One", [{ from: 50000, to: 50199 }]);
+      const two = createApp("Two", [{ from: 50100, to: 50299 }]);
+
+      const problems = findIdRangeProblems([one, two], {
+        sharedRangeMode: false,
+      });
+
+      assert.deepStrictEqual(
+        problems.map((problem) => [
+          problem.project.name,
+          problem.message,
+          problem.trimmed,
+        ]),
+        [
+          [
+            "One",
+            'Range 50000-50199 overlaps 50100-50199 of "Two" (50100-50299)',
+            { from: 50000, to: 50099 },
+          ],
+          [
+            "Two",
+            'Range 50100-50299 overlaps 50100-50199 of "One" (50000-50199)',
+            { from: 50200, to: 50299 },
+          ],
+        ],
+      );
+      assert.strictEqual(problems[0].code, IdRangeProblemCodes.rangeOverlap);
+      assert.strictEqual(problems[0].other?.project, two);
+    });
+
+    test("should not report overlaps between apps in shared mode", () => {
+      const one = createApp("One", [{ from: 50000, to: 50199 }]);
+      const two = createApp("Two", [{ from: 50000, to: 50199 }]);
+
+      assert.deepStrictEqual(
+        findIdRangeProblems([one, two], { sharedRangeMode: true }),
+        [],
+      );
+    });
+
+    test("should not check dependency apps", () => {
+      const app = createApp("App", [{ from: 50000, to: 50199 }]);
+      const dependency = {
+        ...createApp("Base", [{ from: 1, to: 49999 }]),
+        dependency: {
+          packagePath: "/test/.alpackages/Base.app",
+          publisher: "Test",
+          version: "1.0.0.0",
+          referencedBy: ["/test/App"],
+        },
+      };
+
+      assert.deepStrictEqual(
+        findIdRangeProblems([app, dependency], { sharedRangeMode: false }),
+        [],
+      );
+    });
+
+    test("should report overlapping and duplicate entries of one app", () => {
+      const app = createApp("App", [
+        { from: 50000, to: 50099 },
+        { from: 50050, to: 50149 },
+        { from: 50000, to: 50099 },
+      ]);
+
+      const problems = findIdRangeProblems([app], { sharedRangeMode: false });
+
+      assert.deepStrictEqual(
+        problems.map((problem) => [
+          problem.code,
+          problem.index,
+          problem.message,
+          problem.trimmed,
+        ]),
+        [
+          [
+            IdRangeProblemCodes.rangeSelfOverlap,
+            1,
+            "Range 50050-50149 overlaps 50050-50099 of idRanges entry 1 (50000-50099)",
+            { from: 50100, to: 50149 },
+          ],
+          [
+            IdRangeProblemCodes.rangeSelfOverlap,
+            2,
+            "Range 50000-50099 duplicates idRanges entry 1",
+            null,
+          ],
+          [
+            IdRangeProblemCodes.rangeSelfOverlap,
+            2,
+            "Range 50000-50099 overlaps 50050-50099 of idRanges entry 2 (50050-50149)",
+            { from: 50000, to: 50049 },
+          ],
+        ],
+      );
+    });
+
+    test("should not trim a range that would be split in two", () => {
+      const app = createApp("App", [
+        { from: 50000, to: 50999 },
+        { from: 50100, to: 50199 },
+      ]);
+      const other = createApp("Other", [{ from: 50100, to: 50199 }]);
+
+      const problems = findIdRangeProblems([app, other], {
+        sharedRangeMode: false,
+      });
+
+      const splitting = problems.find(
+        (problem) => problem.project === app && problem.index === 0,
+      );
+      assert.strictEqual(splitting?.trimmed, null);
+    });
+
+    test("should report ranges outside the ID bands", () => {
+      const app = createApp("App", [
+        { from: 50000, to: 50099 },
+        { from: 70000000, to: 70000099 },
+        { from: 99900, to: 100099 },
+        { from: 1000, to: 1999 },
+      ]);
+
+      const problems = findIdRangeProblems([app], { sharedRangeMode: false });
+
+      assert.deepStrictEqual(
+        problems.map((problem) => [
+          problem.code,
+          problem.index,
+          problem.message,
+          problem.trimmed,
+        ]),
+        [
+          [
+            IdRangeProblemCodes.rangeOutsideBands,
+            2,
+            "Range 99900-100099 is partly outside the per-tenant (50000-99999) and AppSource (70000000-74999999) ID bands",
+            { from: 99900, to: 99999 },
+          ],
+          [
+            IdRangeProblemCodes.rangeOutsideBands,
+            3,
+            "Range 1000-1999 is outside the per-tenant (50000-99999) and AppSource (70000000-74999999) ID bands",
+            null,
+          ],
+        ],
+      );
+    });
+  });
+
+  suite("locateIdRanges", () => {
+    const content = `{
+  "id": "a1b2",
+  "name": "Test \\"App\\"",
+  "idRanges": [
+    { "from": 50000, "to": 50099 },
+    {
+      "from": 50200,
+      "to": 50299
+    }
+  ],
+  "runtime": "14.0"
+}`;
+
+    test("should locate each idRanges entry and its numbers", () => {
+      const location = locateIdRanges(content);
+
+      assert.strictEqual(location?.entries.length, 2);
+      const [first, second] = location.entries;
+      assert.strictEqual(
+        content.slice(first.start, first.end),
+        '{ "from": 50000, "to": 50099 }',
+      );
+      assert.strictEqual(
+        content.slice(first.from!.start, first.from!.end),
+        "50000",
+      );
+      assert.strictEqual(
+        content.slice(second.to!.start, second.to!.end),
+        "50299",
+      );
+      assert.strictEqual(content[location.array!.start], "[");
+      assert.strictEqual(content[location.array!.end - 1], "]");
+    });
+
+    test("should locate a legacy idRange object", () => {
+      const legacy = '{ "idRange": { "from": 50000, "to": 50099 } }';
+      const location = locateIdRanges(legacy);
+
+      assert.strictEqual(location?.array, undefined);
+      assert.strictEqual(location?.entries.length, 1);
+      assert.strictEqual(
+        legacy.slice(location.entries[0].start, location.entries[0].end),
+        '{ "from": 50000, "to": 50099 }',
+      );
+      assert.strictEqual(getRemoveReplacement(location, 0), null);
+    });
+
+    test("should return null for invalid JSON", () => {
+      assert.strictEqual(locateIdRanges('{ "idRanges": [ { "from": 1 '), null);
+    });
+
+    test("should trim the numbers of an entry", () => {
+      const location = locateIdRanges(content)!;
+
+      assert.strictEqual(
+        applyReplacements(
+          content,
+          getTrimReplacements(location.entries[0], { from: 50050, to: 50099 }),
+        ).includes('{ "from": 50050, "to": 50099 }'),
+        true,
+      );
+    });
+
+    test("should remove an entry with its separating comma", () => {
+      const location = locateIdRanges(content)!;
+
+      const withoutFirst = applyReplacements(content, [
+        getRemoveReplacement(location, 0)!,
+      ]);
+      const withoutLast = applyReplacements(content, [
+        getRemoveReplacement(location, 1)!,
+      ]);
+
+      assert.deepStrictEqual(JSON.parse(withoutFirst).idRanges, [
+        { from: 50200, to: 50299 },
+      ]);
+      assert.deepStrictEqual(JSON.parse(withoutLast).idRanges, [
+        { from: 50000, to: 50099 },
+      ]);
+    });
+
+    test("should leave an empty array when removing the only entry", () => {
+      const single = '{ "idRanges": [ { "from": 50000, "to": 50099 } ] }';
+      const location = locateIdRanges(single)!;
+
+      assert.strictEqual(
+        applyReplacements(single, [getRemoveReplacement(location, 0)!]),
+        '{ "idRanges": [] }',
+      );
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import * as assert from "assert";
+import { ParseCache, ParseCacheStorage } from "../../services/parseCache.js";
+import { ALObjectWithFields } from "../../types/index.js";
+
+/**
+ * In-memory storage that records how often it was written
+ */
+class MemoryStorage implements ParseCacheStorage {
+  public content: string | undefined;
+  public writes = 0;
+
+  public async read(): Promise<string | undefined> {
+    return this.content;
+  }
+
+  public async write(content: string): Promise<void> {
+    this.content = content;
+    this.writes++;
+  }
+}
+
+suite("Parse Cache Test Suite", () => {
+  const filePath = "/test/App/table.al";
+  const stamp = { mtime: 1000, size: 42 };
+  const content = 'table 50000 "My Table" { }';
+
+  let storage: MemoryStorage;
+  let parseCount: number;
+
+  setup(() => {
+    storage = new MemoryStorage();
+    parseCount = 0;
+  });
+
+  /**
+   * Fake parser that counts how often it is called
+   */
+  function parse(): ALObjectWithFields[] {
+    parseCount++;
+    return [
+      {
+        type: "table",
+        id: 50000,
+        name: "My Table",
+        lineNumber: 1,
+        filePath,
+      },
+    ];
+  }
+
+  suite("Lookup", () => {
+    test("should parse a file that is not cached", () => {
+      const cache = new ParseCache(storage, 1);
+
+      assert.strictEqual(cache.getIfUnchanged(filePath, stamp), undefined);
+      const objects = cache.resolve(filePath, stamp, content, parse);
+
+      assert.strictEqual(objects.length, 1);
+      assert.strictEqual(parseCount, 1);
+    });
+
+    test("should return cached objects when mtime and size are unchanged", () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+
+      const cached = cache.getIfUnchanged(filePath, { ...stamp });
+
+      assert.ok(cached);
+      assert.strictEqual(cached[0].id, 50000);
+    });
+
+    test("should not return cached objects when mtime changed", () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+
+      assert.strictEqual(
+        cache.getIfUnchanged(filePath, { mtime: 2000, size: 42 }),
+        undefined,
+      );
+    });
+
+    test("should not parse again when only the mtime changed", () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+
+      const touched = { mtime: 2000, size: 42 };
+      cache.resolve(filePath, touched, content, parse);
+
+      assert.strictEqual(parseCount, 1);
+      assert.ok(cache.getIfUnchanged(filePath, touched));
+    });
+
+    test("should parse again when the content changed", () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+
+      cache.resolve(filePath, { mtime: 2000, size: 43 }, content + "\n", parse);
+
+      assert.strictEqual(parseCount, 2);
+    });
+
+    test("should parse again when the preprocessor symbols changed", () => {
+      const cache = new ParseCache(storage, 1);
+      const options = { preprocessorSymbols: ["CLEAN24"] };
+      cache.resolve(filePath, stamp, content, parse, options);
+
+      assert.ok(cache.getIfUnchanged(filePath, stamp, options));
+      assert.strictEqual(cache.getIfUnchanged(filePath, stamp), undefined);
+
+      cache.resolve(filePath, stamp, content, parse, {
+        preprocessorSymbols: ["CLEAN24"],
+        includeAllBranches: true,
+      });
+
+      assert.strictEqual(parseCount, 2);
+    });
+  });
+
+  suite("Persistence", () => {
+    test("should restore entries from storage", async () => {
+      const first = new ParseCache(storage, 1);
+      first.resolve(filePath, stamp, content, parse);
+      await first.save();
+
+      const second = new ParseCache(storage, 1);
+      await second.load();
+
+      assert.strictEqual(second.size, 1);
+      assert.ok(second.getIfUnchanged(filePath, stamp));
+    });
+
+    test("should discard entries written by another parser version", async () => {
+      const first = new ParseCache(storage, 1);
+      first.resolve(filePath, stamp, content, parse);
+      await first.save();
+
+      const second = new ParseCache(storage, 2);
+      await second.load();
+
+      assert.strictEqual(second.size, 0);
+      assert.strictEqual(second.getIfUnchanged(filePath, stamp), undefined);
+    });
+
+    test("should ignore corrupt storage content", async () => {
+      storage.content = "{ not json";
+      const cache = new ParseCache(storage, 1);
+
+      await cache.load();
+
+      assert.strictEqual(cache.size, 0);
+    });
+
+    test("should only write when something changed", async () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+      await cache.save();
+      await cache.save();
+
+      assert.strictEqual(storage.writes, 1);
+    });
+  });
+
+  suite("Maintenance", () => {
+    test("should drop entries of files that no longer exist", () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+      cache.resolve("/test/App/page.al", stamp, content, parse);
+
+      cache.retain(new Set([filePath]));
+
+      assert.strictEqual(cache.size, 1);
+      assert.ok(cache.getIfUnchanged(filePath, stamp));
+    });
+
+    test("should delete the entry of a deleted file", () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+
+      cache.delete(filePath);
+
+      assert.strictEqual(cache.size, 0);
+    });
+
+    test("should clear all entries and persist the empty cache", async () => {
+      const cache = new ParseCache(storage, 1);
+      cache.resolve(filePath, stamp, content, parse);
+      await cache.save();
+
+      await cache.clear();
+
+      const reloaded = new ParseCache(storage, 1);
+      await reloaded.load();
+      assert.strictEqual(reloaded.size, 0);
+    });
+  });
+
+  suite("Options Key", () => {
+    test("should ignore the order, case and duplicates of symbols", () => {
+      assert.strictEqual(
+        ParseCache.getOptionsKey({ preprocessorSymbols: ["B", "a", "A"] }),
+        ParseCache.getOptionsKey({ preprocessorSymbols: ["a", "b"] }),
+      );
+    });
+
+    test("should distinguish reading all branches", () => {
+      assert.notStrictEqual(
+        ParseCache.getOptionsKey({ includeAllBranches: true }),
+        ParseCache.getOptionsKey({}),
+      );
+    });
+  });
+
+  suite("Content Hash", () => {
+    test("should produce the same hash for the same content", () => {
+      assert.strictEqual(
+        ParseCache.hashContent(content),
+        ParseCache.hashContent(content),
+      );
+    });
+
+    test("should produce different hashes for different content", () => {
+      assert.notStrictEqual(
+        ParseCache.hashContent(content),
+        ParseCache.hashContent(content + " "),
+      );
+    });
+  });
+});
@@ -720,4 +720,605 @@ tableextension 50001 "Table Ext" extends Customer
       assert.strictEqual(objects[0].fields![0].id, 2);
     });
   });
+
+  suite("Preprocessor Directives", () => {
+    const content = `#if CLEAN24
+table 50000 "New Table"
+{
+    fields
+    {
+        field(1; "Code"; Code[20]) { }
+    }
+}
+#else
+table 50000 "Old Table"
+{
+    fields
+    {
+        field(1; "Code"; Code[10]) { }
+#if not CLEAN23
+        field(2; "Obsolete"; Integer) { }
+#endif
+    }
+}
+#endif`;
+
+    test("should only read the active branch", () => {
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.strictEqual(objects.length, 1);
+      assert.strictEqual(objects[0].name, "Old Table");
+      assert.strictEqual(objects[0].lineNumber, 10);
+      assert.deepStrictEqual(
+        objects[0].fields?.map((f) => f.id),
+        [1, 2],
+      );
+    });
+
+    test("should use the given preprocessor symbols", () => {
+      const objects = parser.parseContent(content, "/test/table.al", {
+        preprocessorSymbols: ["clean24"],
+      });
+
+      assert.strictEqual(objects.length, 1);
+      assert.strictEqual(objects[0].name, "New Table");
+      assert.strictEqual(objects[0].fields![0].dataType, "Code[20]");
+    });
+
+    test("should evaluate nested conditions", () => {
+      const objects = parser.parseContent(content, "/test/table.al", {
+        preprocessorSymbols: ["CLEAN23"],
+      });
+
+      assert.deepStrictEqual(
+        objects[0].fields?.map((f) => f.id),
+        [1],
+      );
+    });
+
+    test("should read every branch when all branches are included", () => {
+      const objects = parser.parseContent(content, "/test/table.al", {
+        preprocessorSymbols: ["CLEAN23"],
+        includeAllBranches: true,
+      });
+
+      assert.deepStrictEqual(
+        objects.map((o) => o.name),
+        ["New Table", "Old Table"],
+      );
+      assert.strictEqual(objects[1].fields?.length, 2);
+    });
+
+    test("should take the first matching #elif branch", () => {
+      const source = `#if BC22
+codeunit 50000 "BC22"
+{
+}
+#elif BC23 or BC24
+codeunit 50001 "BC23"
+{
+}
+#elif BC24
+codeunit 50002 "BC24"
+{
+}
+#else
+codeunit 50003 "Other"
+{
+}
+#endif`;
+
+      const ids = (symbols: string[]) =>
+        parser
+          .parseContent(source, "/test/codeunit.al", {
+            preprocessorSymbols: symbols,
+          })
+          .map((o) => o.id);
+
+      assert.deepStrictEqual(ids(["BC22", "BC24"]), [50000]);
+      assert.deepStrictEqual(ids(["BC24"]), [50001]);
+      assert.deepStrictEqual(ids([]), [50003]);
+    });
+
+    test("should apply #define and #undef", () => {
+      const source = `#define FEATURE
+#undef CLEAN24
+#if FEATURE and not CLEAN24
+enum 50000 "Status"
+{
+    value(0; Open) { }
+#if (FEATURE or OTHER) and not (CLEAN24)
+    value(1; Closed) { }
+#endif
+}
+#endif`;
+      const objects = parser.parseContent(source, "/test/enum.al", {
+        preprocessorSymbols: ["CLEAN24"],
+      });
+
+      assert.strictEqual(objects.length, 1);
+      assert.deepStrictEqual(
+        objects[0].enumValues?.map((v) => v.name),
+        ["Open", "Closed"],
+      );
+    });
+
+    test("should ignore directives in comments and inactive branches", () => {
+      const source = `/*
+#if MISSING
+*/
+codeunit 50000 "Active"
+{
+}
+#if MISSING
+/* unclosed comment in an inactive branch
+#endif
+codeunit 50001 "After"
+{
+}`;
+      const objects = parser.parseContent(source, "/test/codeunit.al");
+
+      assert.deepStrictEqual(
+        objects.map((o) => o.id),
+        [50000, 50001],
+      );
+    });
+
+    test("should treat an invalid condition as false", () => {
+      const source = `#if CLEAN24 and
+codeunit 50000 "Invalid"
+{
+}
+#endif`;
+      const objects = parser.parseContent(source, "/test/codeunit.al", {
+        preprocessorSymbols: ["CLEAN24"],
+      });
+
+      assert.strictEqual(objects.length, 0);
+    });
+  });
+
+  suite("Namespaces", () => {
+    test("should record the namespace of every object in the file", () => {
+      const content = `namespace Contoso.Sales;
+
+using Microsoft.Sales.Customer;
+
+table 50000 "Sales Log"
+{
+}
+
+codeunit 50000 "Sales Mgt."
+{
+}`;
+      const objects = parser.parseContent(content, "/test/sales.al");
+
+      assert.deepStrictEqual(
+        objects.map((o) => o.namespace),
+        ["Contoso.Sales", "Contoso.Sales"],
+      );
+      assert.strictEqual(objects[0].usings, undefined);
+    });
+
+    test("should leave the namespace undefined without a declaration", () => {
+      const objects = parser.parseContent(
+        'table 50000 "My Table"\n{\n}',
+        "/test/table.al",
+      );
+
+      assert.strictEqual(objects[0].namespace, undefined);
+    });
+
+    test("should record the using declarations of extensions", () => {
+      const content = `namespace Contoso.Sales;
+
+using Microsoft.Sales.Customer;
+using Microsoft.Sales.Document;
+
+tableextension 50000 "Customer Ext" extends Customer
+{
+}`;
+      const objects = parser.parseContent(content, "/test/ext.al");
+
+      assert.strictEqual(objects[0].extendsObject, "Customer");
+      assert.strictEqual(objects[0].extendsNamespace, undefined);
+      assert.deepStrictEqual(objects[0].usings, [
+        "Microsoft.Sales.Customer",
+        "Microsoft.Sales.Document",
+      ]);
+    });
+
+    test("should split a qualified extends target", () => {
+      const content = `tableextension 50000 "Customer Ext" extends Microsoft.Sales.Customer.Customer
+{
+}
+enumextension 50000 "Doc Type Ext" extends "Microsoft"."Sales".Document."Sales Document Type"
+{
+}`;
+      const objects = parser.parseContent(content, "/test/ext.al");
+
+      assert.strictEqual(objects[0].extendsObject, "Customer");
+      assert.strictEqual(
+        objects[0].extendsNamespace,
+        "Microsoft.Sales.Customer",
+      );
+      assert.strictEqual(objects[1].extendsObject, "Sales Document Type");
+      assert.strictEqual(
+        objects[1].extendsNamespace,
+        "Microsoft.Sales.Document",
+      );
+    });
+
+    test("should not treat a dot inside a quoted name as a namespace", () => {
+      const objects = parser.parseContent(
+        'tableextension 50000 "Series Ext" extends "No. Series"\n{\n}',
+        "/test/ext.al",
+      );
+
+      assert.strictEqual(objects[0].extendsObject, "No. Series");
+      assert.strictEqual(objects[0].extendsNamespace, undefined);
+    });
+  });
+
+  suite("Tokenized Parsing", () => {
+    test("should ignore braces and comment markers inside strings", () => {
+      const content = `table 50000 "Links"
+{
+    Caption = '{ see http://example.com }';
+
+    fields
+    {
+        field(1; "Url"; Text[250])
+        {
+            InitValue = 'https://example.com/{id}';
+        }
+        field(2; "Pattern"; Text[30])
+        {
+            InitValue = '/* not a comment';
+        }
+    }
+}
+codeunit 50001 "After Links"
+{
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.deepStrictEqual(
+        objects.map((o) => o.id),
+        [50000, 50001],
+      );
+      assert.deepStrictEqual(
+        objects[0].fields?.map((f) => f.id),
+        [1, 2],
+      );
+    });
+
+    test("should parse a declaration split across lines", () => {
+      const content = `table
+    50000
+    "Split Table"
+{
+}
+tableextension 50001 "Split Ext"
+    extends
+    "Sales Header"
+{
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.strictEqual(objects.length, 2);
+      assert.strictEqual(objects[0].name, "Split Table");
+      assert.strictEqual(objects[0].lineNumber, 1);
+      assert.strictEqual(objects[1].extendsObject, "Sales Header");
+    });
+
+    test("should parse a field spread over several lines", () => {
+      const content = `table 50000 "My Table"
+{
+    fields
+    {
+        field(
+            1;
+            "Document Type";
+            Enum
+                "Sales Document Type")
+        {
+        }
+    }
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.strictEqual(objects[0].fields?.length, 1);
+      assert.strictEqual(objects[0].fields![0].name, "Document Type");
+      assert.strictEqual(
+        objects[0].fields![0].dataType,
+        'Enum "Sales Document Type"',
+      );
+      assert.strictEqual(objects[0].fields![0].lineNumber, 5);
+    });
+
+    test("should report the columns of declarations", () => {
+      const content = `namespace Contoso; table 50000 "My Table"
+{
+    fields
+    {
+        field(1; "Code"; Code[20]) { }
+    }
+}
+enum 50001 "My Enum"
+{
+  value(0; None) { }
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.strictEqual(objects[0].column, 20);
+      assert.strictEqual(objects[0].fields![0].column, 9);
+      assert.strictEqual(objects[1].column, 1);
+      assert.strictEqual(objects[1].enumValues![0].column, 3);
+    });
+
+    test("should report the positions of IDs on later lines", () => {
+      const content = `tableextension
+    50000 "Customer Ext" extends Customer
+{
+    fields
+    {
+        field(
+            50001; "Code"; Code[20]) { }
+    }
+}
+enumextension 50002 "Type Ext" extends "Sales Type"
+{
+    value(
+        50003; Special) { }
+}`;
+      const objects = parser.parseContent(content, "/test/ext.al");
+
+      assert.deepStrictEqual(
+        [
+          objects[0],
+          objects[0].fields![0],
+          objects[1],
+          objects[1].enumValues![0],
+        ].map((item) => [item.lineNumber, item.idLineNumber, item.idColumn]),
+        [
+          [1, 2, 5],
+          [6, 7, 13],
+          [10, 10, 15],
+          [12, 13, 9],
+        ],
+      );
+    });
+
+    test("should not treat member calls and property values as declarations", () => {
+      const content = `enum 50000 "My Enum"
+{
+    Caption = 'value(9; Fake)';
+    value(1; Real) { Caption = 'Real'; }
+}
+codeunit 50001 "Runner"
+{
+    trigger OnRun()
+    begin
+        Page.Run(Page::"Customer Card");
+        Report.Run(Report::"Customer List");
+    end;
+}`;
+      const objects = parser.parseContent(content, "/test/enum.al");
+
+      assert.deepStrictEqual(
+        objects.map((o) => o.id),
+        [50000, 50001],
+      );
+      assert.deepStrictEqual(
+        objects[0].enumValues?.map((v) => v.id),
+        [1],
+      );
+    });
+  });
+
+  suite("Error Recovery", () => {
+    test("should skip a malformed field and read the next one", () => {
+      const content = `table 50000 "My Table"
+{
+    fields
+    {
+        field(Broken; "No ID"; Integer) { }
+        field(2; ; Integer) { }
+        field(3; "Good"; Integer) { }
+    }
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.deepStrictEqual(
+        objects[0].fields?.map((f) => f.id),
+        [3],
+      );
+    });
+
+    test("should not swallow the next member after a half-typed one", () => {
+      const content = `table 50000 "My Table"
+{
+    fields
+    {
+        field(1; "Code"
+        field(2; "Name"; Text[50]) { }
+        field(
+        field(3; "City"; Text[30]) { }
+    }
+}
+enum 50001 "My Enum"
+{
+    value(0;
+    value(1; "First") { }
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.deepStrictEqual(
+        objects[0].fields?.map((f) => [f.id, f.name, f.dataType]),
+        [
+          [2, "Name", "Text[50]"],
+          [3, "City", "Text[30]"],
+        ],
+      );
+      assert.deepStrictEqual(
+        objects[1].enumValues?.map((v) => [v.id, v.name]),
+        [[1, "First"]],
+      );
+    });
+
+    test("should start a new object when a closing brace is missing", () => {
+      const content = `table 50000 "Unclosed"
+{
+    fields
+    {
+        field(1; "Code"; Code[20]) { }
+
+table 50001 "Next"
+{
+    fields
+    {
+        field(2; "Name"; Text[50]) { }
+    }
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.deepStrictEqual(
+        objects.map((o) => o.id),
+        [50000, 50001],
+      );
+      assert.deepStrictEqual(
+        objects[0].fields?.map((f) => f.id),
+        [1],
+      );
+      assert.deepStrictEqual(
+        objects[1].fields?.map((f) => f.id),
+        [2],
+      );
+    });
+
+    test("should return the objects of a truncated file", () => {
+      const content = `enum 50000 "Truncated"
+{
+    value(0; None) { }
+    value(1; "Some`;
+      const objects = parser.parseContent(content, "/test/enum.al");
+
+      assert.strictEqual(objects.length, 1);
+      assert.deepStrictEqual(
+        objects[0].enumValues?.map((v) => v.id),
+        [0],
+      );
+    });
+
+    test("should skip objects without an ID", () => {
+      const content = `interface "My Interface"
+{
+    procedure Run(table: Integer);
+}
+codeunit 50000 "Implementation" implements "My Interface"
+{
+}`;
+      const objects = parser.parseContent(content, "/test/interface.al");
+
+      assert.strictEqual(objects.length, 1);
+      assert.strictEqual(objects[0].id, 50000);
+    });
+  });
+
+  suite("Obsolete Properties", () => {
+    test("should read the obsolete properties of an object", () => {
+      const content = `table 50000 "Old Table"
+{
+    ObsoleteState = Removed;
+    ObsoleteReason = 'Replaced by ''New Table''';
+    ObsoleteTag = '24.0';
+
+    fields
+    {
+        field(1; "Code"; Code[20]) { }
+    }
+}`;
+      const objects = parser.parseContent(content, "/test/table.al");
+
+      assert.deepStrictEqual(objects[0].obsolete, {
+        state: "Removed",
+        reason: "Replaced by 'New Table'",
+        tag: "24.0",
+      });
+      assert.strictEqual(objects[0].fields![0].obsolete, undefined);
+    });
+
+    test("should read the obsolete properties of fields and values", () => {
+      const content = `tableextension 50000 "Customer Ext" extends Customer
+{
+    fields
+    {
+        field(50000; "Old Code"; Code[10])
+        {
+            Caption = 'Old Code';
+            obsoletestate = pending;
+            ObsoleteReason = 'Use New Code', Locked = true;
+            trigger OnValidate()
+            begin
+            end;
+        }
+        field(50001; "New Code"; Code[20]) { }
+    }
+}
+enumextension 50001 "Type Ext" extends "Sales Document Type"
+{
+    value(50000; Legacy) { ObsoleteState = Moved; }
+    value(50001; Current) { ObsoleteState = No; }
+}`;
+      const objects = parser.parseContent(content, "/test/ext.al");
+
+      assert.deepStrictEqual(objects[0].fields![0].obsolete, {
+        state: "Pending",
+        reason: "Use New Code",
+      });
+      assert.strictEqual(objects[0].fields![1].obsolete, undefined);
+      assert.deepStrictEqual(objects[1].enumValues![0].obsolete, {
+        state: "Moved",
+      });
+      assert.strictEqual(objects[1].enumValues![1].obsolete, undefined);
+    });
+
+    test("should not read comparisons in code as properties", () => {
+      const content = `codeunit 50000 "Obsolete Check"
+{
+    var
+        StateLbl: Label 'State', Comment = 'ObsoleteState = Pending';
+
+    trigger OnRun()
+    begin
+        if ObsoleteState = ObsoleteState::Pending then begin
+            case ObsoleteState of
+                ObsoleteState::Pending:
+                    exit;
+            end;
+        end;
+    end;
+
+    local procedure IsObsolete(ObsoleteState: Option No,Pending): Boolean
+    begin
+        exit(ObsoleteState = ObsoleteState::Pending);
+    end;
+}
+table 50001 "Old Table"
+{
+    trigger OnInsert()
+    begin
+        if ObsoleteState = ObsoleteState::Pending then;
+    end;
+
+    ObsoleteState = Removed;
+}`;
+      const objects = parser.parseContent(content, "/test/codeunit.al");
+
+      assert.strictEqual(objects.length, 2);
+      assert.strictEqual(objects[0].obsolete, undefined);
+      assert.deepStrictEqual(objects[1].obsolete, { state: "Removed" });
+    });
+  });
 });
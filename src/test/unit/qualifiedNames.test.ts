@@ -0,0 +1,211 @@
+import * as assert from "assert";
+import { ALObjectWithFields } from "../../types/index.js";
+import {
+  ExtendsTargetResolver,
+  getQualifiedName,
+} from "../../services/qualifiedNames.js";
+import { DEFAULT_ANALYZER_SETTINGS } from "../../services/rangeAnalyzer.js";
+import { FolderScanner } from "../../cli/folderScanner.js";
+
+/**
+ * Create a tableextension with one field
+ */
+function createExtension(
+  id: number,
+  extension: Partial<ALObjectWithFields>,
+): ALObjectWithFields {
+  return {
+    type: "tableextension",
+    id,
+    name: `Ext ${id}`,
+    lineNumber: 1,
+    filePath: `/test/Ext${id}.al`,
+    fields: [
+      {
+        id: 50000,
+        name: `Field ${id}`,
+        dataType: "Code[20]",
+        lineNumber: 5,
+        filePath: `/test/Ext${id}.al`,
+      },
+    ],
+    ...extension,
+  };
+}
+
+suite("Qualified Names Test Suite", () => {
+  suite("getQualifiedName", () => {
+    test("should join the namespace and the name", () => {
+      assert.strictEqual(
+        getQualifiedName("Customer", "Microsoft.Sales.Customer"),
+        "Microsoft.Sales.Customer.Customer",
+      );
+    });
+
+    test("should return the name when there is no namespace", () => {
+      assert.strictEqual(getQualifiedName("Customer"), "Customer");
+    });
+  });
+
+  suite("ExtendsTargetResolver", () => {
+    const salesTable: ALObjectWithFields = {
+      type: "table",
+      id: 50000,
+      name: "Sales Log",
+      lineNumber: 1,
+      filePath: "/test/SalesLog.al",
+      namespace: "Contoso.Sales",
+    };
+    const globalTable: ALObjectWithFields = {
+      ...salesTable,
+      filePath: "/test/GlobalLog.al",
+      namespace: undefined,
+    };
+
+    test("should use an explicit namespace", () => {
+      const resolver = new ExtendsTargetResolver([]);
+
+      assert.strictEqual(
+        resolver.resolve(
+          createExtension(1, {
+            extendsObject: "Customer",
+            extendsNamespace: "Microsoft.Sales.Customer",
+          }),
+        ),
+        "Microsoft.Sales.Customer.Customer",
+      );
+    });
+
+    test("should resolve a plain name through using declarations", () => {
+      const resolver = new ExtendsTargetResolver([
+        { objects: [salesTable, globalTable] },
+      ]);
+
+      assert.strictEqual(
+        resolver.resolve(
+          createExtension(1, {
+            extendsObject: "sales log",
+            usings: ["Contoso.Sales"],
+          }),
+        ),
+        "Contoso.Sales.Sales Log",
+      );
+    });
+
+    test("should prefer the extension's own namespace", () => {
+      const resolver = new ExtendsTargetResolver([
+        { objects: [salesTable, globalTable] },
+      ]);
+
+      assert.strictEqual(
+        resolver.resolve(
+          createExtension(1, {
+            extendsObject: "Sales Log",
+            namespace: "Contoso.Sales",
+          }),
+        ),
+        "Contoso.Sales.Sales Log",
+      );
+      assert.strictEqual(
+        resolver.resolve(createExtension(2, { extendsObject: "Sales Log" })),
+        "Sales Log",
+      );
+    });
+
+    test("should use the only namespace a name is known in", () => {
+      const resolver = new ExtendsTargetResolver([
+        {
+          objects: [
+            createExtension(1, {
+              extendsObject: "Customer",
+              extendsNamespace: "Microsoft.Sales.Customer",
+            }),
+          ],
+        },
+      ]);
+
+      assert.strictEqual(
+        resolver.resolve(createExtension(2, { extendsObject: "Customer" })),
+        "Microsoft.Sales.Customer.Customer",
+      );
+    });
+
+    test("should keep the plain name of an unknown base object", () => {
+      const resolver = new ExtendsTargetResolver([{ objects: [salesTable] }]);
+
+      assert.strictEqual(
+        resolver.resolve(createExtension(1, { extendsObject: "Vendor" })),
+        "Vendor",
+      );
+      assert.strictEqual(resolver.resolve(createExtension(2, {})), undefined);
+    });
+  });
+
+  suite("Conflict Grouping", () => {
+    test("should group a plain and a qualified base table", () => {
+      const analyzer = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+      const conflicts = analyzer.detectFieldConflicts([
+        {
+          name: "App One",
+          rootPath: "/test/App1",
+          idRanges: [],
+          objects: [
+            createExtension(1, {
+              extendsObject: "Customer",
+              extendsNamespace: "Microsoft.Sales.Customer",
+            }),
+          ],
+        },
+        {
+          name: "App Two",
+          rootPath: "/test/App2",
+          idRanges: [],
+          objects: [
+            createExtension(2, {
+              extendsObject: "Customer",
+              namespace: "Fabrikam",
+              usings: ["Microsoft.Sales.Customer"],
+            }),
+          ],
+        },
+      ]);
+
+      assert.strictEqual(conflicts.length, 1);
+      assert.strictEqual(
+        conflicts[0].baseTable,
+        "Microsoft.Sales.Customer.Customer",
+      );
+      assert.strictEqual(conflicts[0].fields.length, 2);
+    });
+
+    test("should not group base tables in different namespaces", () => {
+      const analyzer = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+      const conflicts = analyzer.detectFieldConflicts([
+        {
+          name: "App One",
+          rootPath: "/test/App1",
+          idRanges: [],
+          objects: [
+            createExtension(1, {
+              extendsObject: "Log",
+              extendsNamespace: "Contoso.Sales",
+            }),
+          ],
+        },
+        {
+          name: "App Two",
+          rootPath: "/test/App2",
+          idRanges: [],
+          objects: [
+            createExtension(2, {
+              extendsObject: "Log",
+              extendsNamespace: "Contoso.Purchases",
+            }),
+          ],
+        },
+      ]);
+
+      assert.strictEqual(conflicts.length, 0);
+    });
+  });
+});
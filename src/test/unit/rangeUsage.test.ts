@@ -0,0 +1,235 @@
+import * as assert from "assert";
+import { FolderScanner } from "../../cli/folderScanner.js";
+import {
+  DEFAULT_ANALYZER_SETTINGS,
+  getProjectUsageLevels,
+} from "../../services/rangeAnalyzer.js";
+import { createRetiredIds } from "../../services/retiredIdsLedger.js";
+import {
+  ALObject,
+  ALObjectTypeWithId,
+  ALProject,
+  IdRange,
+  RangeUsageThresholds,
+} from "../../types/index.js";
+
+/**
+ * Create a project with objects of the given types and IDs
+ */
+function createProject(
+  name: string,
+  idRanges: IdRange[],
+  objects: [ALObjectTypeWithId, number][],
+): ALProject {
+  return {
+    name,
+    rootPath: `/test/${name}`,
+    idRanges,
+    objects: objects.map(([type, id]): ALObject => ({
+      type,
+      id,
+      name: `${type} ${id}`,
+      lineNumber: 1,
+      filePath: `/test/${name}/${type}${id}.al`,
+    })),
+  };
+}
+
+suite("Range Usage Test Suite", () => {
+  let scanner: FolderScanner;
+
+  setup(() => {
+    scanner = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+  });
+
+  test("should count the IDs used by any object type", () => {
+    const range = { from: 50000, to: 50099 };
+    const app = createProject(
+      "App",
+      [range, { from: 50200, to: 50299 }],
+      [
+        ["table", 50000],
+        ["page", 50000],
+        ["page", 50001],
+        ["codeunit", 50003],
+        ["codeunit", 50200],
+      ],
+    );
+
+    const usage = scanner.getRangeUsage([app], app, range, false);
+
+    assert.strictEqual(usage.total, 100);
+    assert.strictEqual(usage.used, 3);
+    assert.strictEqual(usage.nextFree, 50002);
+    assert.deepStrictEqual(
+      usage.byType
+        .filter((type) => type.used > 0)
+        .map((type) => [type.objectType, type.used, type.nextFree]),
+      [
+        ["table", 1, 50001],
+        ["page", 2, 50002],
+        ["codeunit", 1, 50000],
+      ],
+    );
+  });
+
+  test("should count retired IDs as used", () => {
+    const range = { from: 50000, to: 50001 };
+    const app = createProject("App", [range], [["table", 50000]]);
+    app.retiredIds = createRetiredIds();
+    app.retiredIds.objects.table = [50001];
+
+    const usage = scanner.getRangeUsage([app], app, range, false);
+
+    assert.strictEqual(usage.used, 2);
+    assert.strictEqual(usage.nextFree, null);
+  });
+
+  test("should count the IDs of all apps in shared mode only", () => {
+    const range = { from: 50000, to: 50099 };
+    const app = createProject("App", [range], [["table", 50000]]);
+    const other = createProject("Other", [range], [["table", 50001]]);
+
+    assert.strictEqual(
+      scanner.getRangeUsage([app, other], app, range, false).used,
+      1,
+    );
+    assert.strictEqual(
+      scanner.getRangeUsage([app, other], app, range, true).used,
+      2,
+    );
+  });
+
+  suite("findRangeExhaustion", () => {
+    /**
+     * Create a scanner with the given thresholds and shared range mode
+     */
+    function createScanner(
+      rangeUsageThresholds: RangeUsageThresholds,
+      sharedRangeMode = false,
+    ): FolderScanner {
+      return new FolderScanner({
+        ...DEFAULT_ANALYZER_SETTINGS,
+        rangeUsageThresholds,
+        sharedRangeMode,
+      });
+    }
+
+    /**
+     * Create tables with the consecutive IDs from the given ID
+     */
+    function tables(
+      from: number,
+      count: number,
+    ): [ALObjectTypeWithId, number][] {
+      return Array.from({ length: count }, (_, index) => [
+        "table",
+        from + index,
+      ]);
+    }
+
+    test("should report the highest threshold an app crossed", () => {
+      const warned = createProject(
+        "Warned",
+        [{ from: 50000, to: 50009 }],
+        tables(50000, 8),
+      );
+      const full = createProject(
+        "Full",
+        [{ from: 60000, to: 60009 }],
+        tables(60000, 10),
+      );
+      const fine = createProject(
+        "Fine",
+        [{ from: 70000, to: 70009 }],
+        tables(70000, 7),
+      );
+
+      const exhaustion = createScanner({
+        warning: 80,
+        error: 95,
+      }).findRangeExhaustion([warned, full, fine]);
+
+      assert.deepStrictEqual(
+        exhaustion.map((entry) => [
+          entry.project?.name,
+          entry.objectType,
+          entry.used,
+          entry.total,
+          entry.level,
+          entry.threshold,
+        ]),
+        [
+          ["Warned", undefined, 8, 10, "warning", 80],
+          ["Warned", "table", 8, 10, "warning", 80],
+          ["Full", undefined, 10, 10, "error", 95],
+          ["Full", "table", 10, 10, "error", 95],
+        ],
+      );
+    });
+
+    test("should check each object type on its own", () => {
+      const app = createProject(
+        "App",
+        [{ from: 50000, to: 50009 }],
+        [...tables(50000, 5), ["page", 50005], ["page", 50006]],
+      );
+
+      const exhaustion = createScanner({
+        warning: 50,
+        error: null,
+      }).findRangeExhaustion([app]);
+
+      assert.deepStrictEqual(
+        exhaustion.map((entry) => [entry.objectType, entry.percent]),
+        [
+          [undefined, 70],
+          ["table", 50],
+        ],
+      );
+    });
+
+    test("should apply the overrides of an app", () => {
+      const app = createProject(
+        "My App",
+        [{ from: 50000, to: 50009 }],
+        tables(50000, 9),
+      );
+      const thresholds: RangeUsageThresholds = {
+        warning: 80,
+        error: 95,
+        projects: { "my app": { warning: null, error: 90 } },
+      };
+
+      assert.deepStrictEqual(getProjectUsageLevels(thresholds, "My App"), {
+        warning: null,
+        error: 90,
+      });
+      assert.deepStrictEqual(
+        createScanner(thresholds)
+          .findRangeExhaustion([app])
+          .map((entry) => entry.level),
+        ["error", "error"],
+      );
+    });
+
+    test("should check the shared range once in shared mode", () => {
+      const range = { from: 50000, to: 50009 };
+      const one = createProject("One", [range], tables(50000, 4));
+      const two = createProject("Two", [range], tables(50004, 4));
+
+      const exhaustion = createScanner(
+        { warning: 80, error: 95, projects: { One: { warning: 10 } } },
+        true,
+      ).findRangeExhaustion([one, two]);
+
+      assert.deepStrictEqual(
+        exhaustion.map((entry) => [entry.project, entry.used, entry.level]),
+        [
+          [undefined, 8, "warning"],
+          [undefined, 8, "warning"],
+        ],
+      );
+    });
+  });
+});
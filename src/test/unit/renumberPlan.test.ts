@@ -0,0 +1,210 @@
+import * as assert from "assert";
+import { ALObjectParser } from "../../parsers/alObjectParser.js";
+import {
+  locateDeclarationId,
+  parseIdRangeInput,
+  planIdMapping,
+} from "../../services/renumberPlan.js";
+
+suite("Renumber Plan Test Suite", () => {
+  suite("parseIdRangeInput", () => {
+    test("should parse from-to and from..to", () => {
+      assert.deepStrictEqual(parseIdRangeInput("70000000-70000199"), {
+        from: 70000000,
+        to: 70000199,
+      });
+      assert.deepStrictEqual(parseIdRangeInput(" 50000 .. 50099 "), {
+        from: 50000,
+        to: 50099,
+      });
+    });
+
+    test("should reject reversed ranges and other input", () => {
+      assert.strictEqual(parseIdRangeInput("50099-50000"), null);
+      assert.strictEqual(parseIdRangeInput("50000"), null);
+      assert.strictEqual(parseIdRangeInput("abc-def"), null);
+      assert.strictEqual(parseIdRangeInput(""), null);
+    });
+  });
+
+  suite("planIdMapping - keep layout", () => {
+    test("should keep the offset of each ID", () => {
+      const mapping = planIdMapping(
+        [50000, 50005, 50010],
+        [{ from: 50000, to: 50199 }],
+        { from: 70000000, to: 70000199 },
+        "keepLayout",
+      );
+
+      assert.deepStrictEqual(
+        [...mapping!],
+        [
+          [50000, 70000000],
+          [50005, 70000005],
+          [50010, 70000010],
+        ],
+      );
+    });
+
+    test("should concatenate multiple source ranges", () => {
+      const mapping = planIdMapping(
+        [50001, 60000],
+        [
+          { from: 60000, to: 60009 },
+          { from: 50000, to: 50009 },
+        ],
+        { from: 70000000, to: 70000019 },
+        "keepLayout",
+      );
+
+      assert.strictEqual(mapping!.get(50001), 70000001);
+      assert.strictEqual(mapping!.get(60000), 70000010);
+    });
+
+    test("should keep IDs outside the source ranges in order", () => {
+      const mapping = planIdMapping(
+        [49000, 50003, 99000],
+        [{ from: 50000, to: 50009 }],
+        { from: 70000000, to: 70000099 },
+        "keepLayout",
+      );
+
+      assert.strictEqual(mapping!.get(49000), 70000000);
+      assert.strictEqual(mapping!.get(50003), 70000003);
+      assert.strictEqual(mapping!.get(99000), 70000004);
+    });
+
+    test("should move IDs up to follow an ID below the source ranges", () => {
+      const mapping = planIdMapping(
+        [49000, 50000, 50004],
+        [{ from: 50000, to: 50009 }],
+        { from: 70000000, to: 70000099 },
+        "keepLayout",
+      );
+
+      assert.deepStrictEqual(
+        [...mapping!],
+        [
+          [49000, 70000000],
+          [50000, 70000001],
+          [50004, 70000005],
+        ],
+      );
+    });
+
+    test("should return null when the layout does not fit", () => {
+      const mapping = planIdMapping(
+        [50000, 50150],
+        [{ from: 50000, to: 50199 }],
+        { from: 70000000, to: 70000099 },
+        "keepLayout",
+      );
+
+      assert.strictEqual(mapping, null);
+    });
+  });
+
+  suite("planIdMapping - pack", () => {
+    test("should assign consecutive IDs in ascending order", () => {
+      const mapping = planIdMapping(
+        [50150, 50000, 50020],
+        [{ from: 50000, to: 50199 }],
+        { from: 70000000, to: 70000002 },
+        "pack",
+      );
+
+      assert.deepStrictEqual(
+        [...mapping!],
+        [
+          [50000, 70000000],
+          [50020, 70000001],
+          [50150, 70000002],
+        ],
+      );
+    });
+
+    test("should map duplicate IDs to the same new ID", () => {
+      const mapping = planIdMapping(
+        [50000, 50000, 50001],
+        [],
+        { from: 60000, to: 60001 },
+        "pack",
+      );
+
+      assert.strictEqual(mapping!.size, 2);
+      assert.strictEqual(mapping!.get(50001), 60001);
+    });
+
+    test("should return null when there are more IDs than the range holds", () => {
+      const mapping = planIdMapping(
+        [50000, 50001, 50002],
+        [],
+        { from: 60000, to: 60001 },
+        "pack",
+      );
+
+      assert.strictEqual(mapping, null);
+    });
+  });
+
+  suite("locateDeclarationId", () => {
+    const content = [
+      "table",
+      '    50000 "My Table"',
+      "{",
+      "    fields",
+      "    {",
+      "        field(",
+      '            50010; "Code"; Code[20]) { }',
+      "    }",
+      "}",
+    ].join("\n");
+
+    test("should renumber a declaration split across lines", () => {
+      const [table] = new ALObjectParser().parseContent(
+        content,
+        "/test/table.al",
+      );
+      const lines = content.split("\n");
+
+      for (const declaration of [table, table.fields![0]]) {
+        const newId = planIdMapping(
+          [declaration.id],
+          [{ from: 50000, to: 50099 }],
+          { from: 70000000, to: 70000099 },
+          "keepLayout",
+        )!.get(declaration.id);
+        const span = locateDeclarationId(lines, declaration)!;
+        lines[span.line] =
+          lines[span.line].slice(0, span.start) +
+          newId +
+          lines[span.line].slice(span.end);
+      }
+
+      assert.strictEqual(lines[1], '    70000000 "My Table"');
+      assert.strictEqual(
+        lines[6],
+        '            70000010; "Code"; Code[20]) { }',
+      );
+    });
+
+    test("should return null when the ID is no longer at its position", () => {
+      const [table] = new ALObjectParser().parseContent(
+        content,
+        "/test/table.al",
+      );
+
+      assert.strictEqual(
+        locateDeclarationId(
+          content.replace("50000", "50001").split("\n"),
+          table,
+        ),
+        null,
+      );
+      assert.strictEqual(
+        locateDeclarationId(content.split("\n"), { id: 50000 }),
+        null,
+      );
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import * as assert from "assert";
+import * as path from "path";
+import { ALProject } from "../../types/index.js";
+import { RangeProblem } from "../../services/rangeCheck.js";
+import {
+  AnalysisReport,
+  createAnalysisReport,
+  REPORT_SCHEMA_VERSION,
+} from "../../reports/analysisReport.js";
+import { writeSarifReport } from "../../reports/sarifReport.js";
+import { writeJUnitReport } from "../../reports/junitReport.js";
+
+suite("Analysis Report Test Suite", () => {
+  const rootPath = path.resolve("/work/repo");
+  const appOneRoot = path.join(rootPath, "App One");
+  const appTwoRoot = path.join(rootPath, "App2");
+  const tablePath = path.join(appOneRoot, "src", "Table.al");
+
+  const projects: ALProject[] = [
+    {
+      name: "App One",
+      rootPath: appOneRoot,
+      idRanges: [{ from: 50000, to: 50099 }],
+      objects: [
+        {
+          type: "table",
+          id: 50000,
+          name: "A",
+          lineNumber: 1,
+          filePath: tablePath,
+        },
+        {
+          type: "table",
+          id: 50000,
+          name: "B",
+          lineNumber: 10,
+          filePath: tablePath,
+        },
+      ],
+      appId: "app-one",
+    },
+    {
+      name: "App <Two>",
+      rootPath: appTwoRoot,
+      idRanges: [{ from: 50100, to: 50199 }],
+      objects: [],
+      appId: "app-two",
+    },
+  ];
+
+  const problems: RangeProblem[] = [
+    {
+      code: "duplicate-id",
+      projectName: "App One",
+      message: 'Table ID 50000 is declared 2 times in "App One"',
+      filePath: tablePath,
+      lineNumber: 10,
+      related: [
+        {
+          filePath: tablePath,
+          lineNumber: 1,
+          message: 'Also declared as table 50000 "A"',
+        },
+      ],
+    },
+    {
+      code: "duplicate-id",
+      projectName: "App One",
+      message: 'Table ID 50000 is declared 2 times in "App One"',
+      filePath: tablePath,
+      lineNumber: 1,
+      related: [
+        {
+          filePath: tablePath,
+          lineNumber: 10,
+          message: 'Also declared as table 50000 "B"',
+        },
+      ],
+    },
+  ];
+
+  let report: AnalysisReport;
+
+  setup(() => {
+    report = createAnalysisReport(
+      { projects, timestamp: new Date("2024-05-01T10:00:00Z") },
+      problems,
+      {
+        rootPath,
+        sharedRangeMode: false,
+        checkedCodes: ["out-of-range", "duplicate-id"],
+        memberConflictSeverity: "error",
+        dependencies: [],
+        toolVersion: "1.2.3",
+      },
+    );
+  });
+
+  suite("JSON report", () => {
+    test("should include the schema version and tool", () => {
+      assert.strictEqual(report.schemaVersion, REPORT_SCHEMA_VERSION);
+      assert.deepStrictEqual(report.tool, {
+        name: "BC Object Range Analyzer",
+        version: "1.2.3",
+      });
+      assert.strictEqual(report.generatedAt, "2024-05-01T10:00:00.000Z");
+    });
+
+    test("should use paths relative to the root with forward slashes", () => {
+      assert.strictEqual(report.apps[0].rootPath, "App One");
+      assert.strictEqual(
+        report.apps[0].objects[0].filePath,
+        "App One/src/Table.al",
+      );
+      assert.strictEqual(
+        report.problems[0].related[0].filePath,
+        "App One/src/Table.al",
+      );
+    });
+
+    test("should sort problems by file and line", () => {
+      assert.deepStrictEqual(
+        report.problems.map((p) => p.lineNumber),
+        [1, 10],
+      );
+      assert.strictEqual(report.problems[0].rule, "duplicate-id");
+      assert.strictEqual(report.problems[0].app, "App One");
+    });
+
+    test("should describe the checked rules", () => {
+      assert.deepStrictEqual(
+        report.rules.map((rule) => rule.id),
+        ["out-of-range", "duplicate-id"],
+      );
+      assert.ok(report.rules.every((rule) => rule.description.length > 0));
+    });
+  });
+
+  suite("SARIF report", () => {
+    test("should write a SARIF 2.1.0 log with rules and results", () => {
+      const sarif = JSON.parse(writeSarifReport(report));
+
+      assert.strictEqual(sarif.version, "2.1.0");
+      assert.strictEqual(sarif.runs.length, 1);
+
+      const run = sarif.runs[0];
+      assert.strictEqual(run.tool.driver.version, "1.2.3");
+      assert.deepStrictEqual(
+        run.tool.driver.rules.map((rule: { id: string }) => rule.id),
+        ["out-of-range", "duplicate-id"],
+      );
+      assert.strictEqual(run.results.length, 2);
+      assert.strictEqual(run.results[0].ruleId, "duplicate-id");
+      assert.strictEqual(run.results[0].ruleIndex, 1);
+      assert.strictEqual(run.results[0].level, "error");
+    });
+
+    test("should locate results relative to the source root", () => {
+      const sarif = JSON.parse(writeSarifReport(report));
+      const run = sarif.runs[0];
+      const location = run.results[0].locations[0].physicalLocation;
+
+      assert.deepStrictEqual(location.artifactLocation, {
+        uri: "App%20One/src/Table.al",
+        uriBaseId: "SRCROOT",
+      });
+      assert.deepStrictEqual(location.region, { startLine: 1 });
+      assert.ok(run.originalUriBaseIds.SRCROOT.uri.startsWith("file://"));
+      assert.ok(run.originalUriBaseIds.SRCROOT.uri.endsWith("/"));
+    });
+
+    test("should add the other declarations as related locations", () => {
+      const sarif = JSON.parse(writeSarifReport(report));
+      const related = sarif.runs[0].results[0].relatedLocations;
+
+      assert.strictEqual(related.length, 1);
+      assert.strictEqual(related[0].physicalLocation.region.startLine, 10);
+      assert.strictEqual(
+        related[0].message.text,
+        'Also declared as table 50000 "B"',
+      );
+    });
+  });
+
+  suite("JUnit report", () => {
+    test("should write one test suite per app and one test case per rule", () => {
+      const xml = writeJUnitReport(report);
+
+      assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+      assert.ok(
+        xml.includes(
+          '<testsuites name="BC Object Range Analyzer" tests="4" failures="1">',
+        ),
+      );
+      assert.strictEqual(xml.match(/<testsuite /g)?.length, 2);
+      assert.strictEqual(xml.match(/<testcase /g)?.length, 4);
+    });
+
+    test("should fail the test case of a rule with problems", () => {
+      const xml = writeJUnitReport(report);
+
+      assert.ok(
+        xml.includes('<testcase classname="App One" name="out-of-range" />'),
+      );
+      assert.ok(
+        xml.includes('<failure type="duplicate-id" message="2 problem(s):'),
+      );
+      assert.ok(
+        xml.includes(
+          "App One/src/Table.al:1: Table ID 50000 is declared 2 times in &quot;App One&quot;",
+        ),
+      );
+    });
+
+    test("should escape app names", () => {
+      const xml = writeJUnitReport(report);
+
+      assert.ok(
+        xml.includes(
+          '<testsuite name="App &lt;Two&gt;" tests="2" failures="0"',
+        ),
+      );
+    });
+  });
+
+  suite("Warning rules", () => {
+    setup(() => {
+      report = createAnalysisReport(
+        { projects, timestamp: new Date("2024-05-01T10:00:00Z") },
+        [
+          {
+            code: "range-usage-warning",
+            projectName: "App One",
+            message:
+              '"App One" has used 80% of the IDs in its ranges (80 of 100); the warning threshold is 80%',
+            filePath: path.join(appOneRoot, "app.json"),
+            lineNumber: 5,
+            related: [],
+          },
+        ],
+        {
+          rootPath,
+          sharedRangeMode: false,
+          checkedCodes: ["duplicate-id", "range-usage-warning"],
+          memberConflictSeverity: "error",
+          dependencies: [],
+          toolVersion: "1.2.3",
+        },
+      );
+    });
+
+    test("should describe the level of each rule", () => {
+      assert.deepStrictEqual(
+        report.rules.map((rule) => [rule.id, rule.level]),
+        [
+          ["duplicate-id", "error"],
+          ["range-usage-warning", "warning"],
+        ],
+      );
+    });
+
+    test("should write warning results to SARIF", () => {
+      const run = JSON.parse(writeSarifReport(report)).runs[0];
+
+      assert.strictEqual(
+        run.tool.driver.rules[1].defaultConfiguration.level,
+        "warning",
+      );
+      assert.strictEqual(run.results[0].level, "warning");
+    });
+
+    test("should not fail JUnit test cases for warnings", () => {
+      const xml = writeJUnitReport(report);
+
+      assert.ok(xml.includes('tests="4" failures="0"'));
+      assert.ok(!xml.includes("<failure"));
+      assert.ok(
+        xml.includes(
+          "<system-out>App One/app.json:5: &quot;App One&quot; has used 80%",
+        ),
+      );
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FolderScanner } from "../../cli/folderScanner.js";
+import { parseRetiredIds } from "../../models/schemas.js";
+import {
+  createRetiredIds,
+  getRetiredObjectIds,
+  RETIRED_IDS_FILE_NAME,
+  recordIds,
+  serializeRetiredIds,
+} from "../../services/retiredIdsLedger.js";
+import { DEFAULT_ANALYZER_SETTINGS } from "../../services/rangeAnalyzer.js";
+import { ALField, ALObjectWithFields } from "../../types/index.js";
+
+/**
+ * Create an object for the ledger tests
+ */
+function createObject(
+  type: ALObjectWithFields["type"],
+  id: number,
+  name: string,
+  extra: Partial<ALObjectWithFields> = {},
+): ALObjectWithFields {
+  return { type, id, name, filePath: "/test/file.al", lineNumber: 1, ...extra };
+}
+
+/**
+ * Create a field or enum value for the ledger tests
+ */
+function field(id: number, name: string): ALField {
+  return {
+    id,
+    name,
+    dataType: "Code",
+    filePath: "/test/file.al",
+    lineNumber: 1,
+  };
+}
+
+suite("Retired IDs Ledger Test Suite", () => {
+  suite("recordIds", () => {
+    const ranges = [{ from: 50000, to: 50099 }];
+
+    test("should record object, field and enum value IDs", () => {
+      const ledger = createRetiredIds();
+      const changed = recordIds(
+        ledger,
+        [
+          createObject("table", 50000, "My Table", {
+            fields: [field(1, "Code")],
+          }),
+          createObject("tableextension", 50001, "Customer Ext", {
+            extendsObject: "Customer",
+            extendsNamespace: "Microsoft.Sales.Customer",
+            fields: [field(50000, "Extra")],
+          }),
+          createObject("enum", 50002, "My Enum", {
+            enumValues: [field(0, "None")],
+          }),
+        ],
+        ranges,
+      );
+
+      assert.strictEqual(changed, true);
+      assert.deepStrictEqual(ledger, {
+        objects: { table: [50000], tableextension: [50001], enum: [50002] },
+        fields: {
+          "My Table": [1],
+          "Microsoft.Sales.Customer.Customer": [50000],
+        },
+        enumValues: { "My Enum": [0] },
+      });
+    });
+
+    test("should report no change when every ID is already recorded", () => {
+      const ledger = createRetiredIds();
+      const objects = [
+        createObject("table", 50000, "My Table", {
+          fields: [field(1, "Code")],
+        }),
+      ];
+      recordIds(ledger, objects, ranges);
+
+      assert.strictEqual(recordIds(ledger, objects, ranges), false);
+    });
+
+    test("should skip object and extension member IDs outside the ranges", () => {
+      const ledger = createRetiredIds();
+      const changed = recordIds(
+        ledger,
+        [
+          createObject("codeunit", 5000, "Typo"),
+          createObject("tableextension", 50001, "Customer Ext", {
+            extendsObject: "Customer",
+            fields: [field(50000, "Extra"), field(60000, "Outside")],
+          }),
+        ],
+        ranges,
+      );
+
+      assert.strictEqual(changed, true);
+      assert.deepStrictEqual(ledger.objects, { tableextension: [50001] });
+      assert.deepStrictEqual(ledger.fields, { Customer: [50000] });
+    });
+
+    test("should compare keys case-insensitively", () => {
+      const ledger = createRetiredIds();
+      ledger.fields["MY TABLE"] = [1];
+
+      recordIds(
+        ledger,
+        [
+          createObject("table", 50000, "My Table", {
+            fields: [field(2, "Name")],
+          }),
+        ],
+        ranges,
+      );
+
+      assert.deepStrictEqual(ledger.fields, { "MY TABLE": [1, 2] });
+    });
+  });
+
+  suite("serializeRetiredIds", () => {
+    test("should sort keys and IDs and list types in declaration order", () => {
+      const ledger = createRetiredIds();
+      ledger.objects = { codeunit: [50003, 50002], page: [50001] };
+      ledger.fields = { Vendor: [3, 1], Customer: [2] };
+
+      const json = serializeRetiredIds(ledger);
+
+      assert.strictEqual(
+        json,
+        JSON.stringify(
+          {
+            objects: { page: [50001], codeunit: [50002, 50003] },
+            fields: { Customer: [2], Vendor: [1, 3] },
+            enumValues: {},
+          },
+          null,
+          2,
+        ) + "\n",
+      );
+      assert.deepStrictEqual(parseRetiredIds(json), {
+        objects: { page: [50001], codeunit: [50002, 50003] },
+        fields: { Customer: [2], Vendor: [1, 3] },
+        enumValues: {},
+      });
+    });
+  });
+
+  suite("parseRetiredIds", () => {
+    test("should default missing sections to empty", () => {
+      assert.deepStrictEqual(parseRetiredIds('{"objects":{"table":[1]}}'), {
+        objects: { table: [1] },
+        fields: {},
+        enumValues: {},
+      });
+    });
+
+    test("should return null for an invalid ledger", () => {
+      assert.strictEqual(parseRetiredIds('{"objects":{"tabel":[1]}}'), null);
+      assert.strictEqual(parseRetiredIds('{"fields":{"A":["1"]}}'), null);
+      assert.strictEqual(parseRetiredIds("not valid json"), null);
+    });
+  });
+
+  suite("getRetiredObjectIds", () => {
+    test("should return the recorded IDs that are no longer declared", () => {
+      const ledger = createRetiredIds();
+      ledger.objects = { table: [50000, 50001], codeunit: [50000] };
+
+      const retired = getRetiredObjectIds(
+        {
+          objects: [createObject("table", 50000, "Kept")],
+          retiredIds: ledger,
+        },
+        "table",
+      );
+
+      assert.deepStrictEqual(retired, [50001]);
+    });
+  });
+
+  suite("Scanning", () => {
+    let root: string;
+
+    setup(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), "bc-object-range-"));
+      fs.writeFileSync(
+        path.join(root, "app.json"),
+        JSON.stringify({
+          id: "app-id",
+          name: "App",
+          publisher: "Test",
+          version: "1.0.0.0",
+          idRanges: [{ from: 50000, to: 50009 }],
+        }),
+      );
+      fs.writeFileSync(
+        path.join(root, "First.al"),
+        'table 50000 "First"\n{\n}\n',
+      );
+      fs.writeFileSync(
+        path.join(root, "Second.al"),
+        'table 50001 "Second"\n{\n}\n',
+      );
+    });
+
+    teardown(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test("should write the ledger and never offer a retired ID", async () => {
+      const scanner = new FolderScanner({
+        ...DEFAULT_ANALYZER_SETTINGS,
+        updateRetiredIdsLedger: true,
+      });
+      await scanner.scanFolder(root);
+
+      const ledger = parseRetiredIds(
+        fs.readFileSync(path.join(root, RETIRED_IDS_FILE_NAME), "utf-8"),
+      );
+      assert.deepStrictEqual(ledger?.objects, { table: [50000, 50001] });
+
+      fs.rmSync(path.join(root, "Second.al"));
+      const [project] = await scanner.scanFolder(root);
+
+      assert.deepStrictEqual(getRetiredObjectIds(project, "table"), [50001]);
+      assert.strictEqual(scanner.getNextAvailableId(project, "table"), 50002);
+      assert.deepStrictEqual(scanner.calculateGaps(project, "table"), [
+        { start: 50002, end: 50009, count: 8 },
+      ]);
+    });
+
+    test("should not write the ledger by default", async () => {
+      const scanner = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+      const [project] = await scanner.scanFolder(root);
+
+      assert.strictEqual(
+        fs.existsSync(path.join(root, RETIRED_IDS_FILE_NAME)),
+        false,
+      );
+      assert.strictEqual(project.retiredIds, undefined);
+    });
+
+    test("should write the ledger when updating explicitly", async () => {
+      const scanner = new FolderScanner(DEFAULT_ANALYZER_SETTINGS);
+      const projects = await scanner.scanFolder(root);
+      await scanner.loadRetiredIds(projects, true);
+
+      const ledger = parseRetiredIds(
+        fs.readFileSync(path.join(root, RETIRED_IDS_FILE_NAME), "utf-8"),
+      );
+      assert.deepStrictEqual(ledger?.objects, { table: [50000, 50001] });
+      assert.deepStrictEqual(projects[0].retiredIds, ledger);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import * as assert from "assert";
 import {
   parseAppJson,
+  parseAnalyzerConfig,
   validateALObject,
   validateALField,
   validateALEnumValue,
@@ -89,6 +90,57 @@ suite("Schema Validation Test Suite", () => {
       }
     });
 
+    test("should read dependencies and target versions", () => {
+      const appJson = {
+        id: "test-id",
+        name: "Test App",
+        publisher: "Test Publisher",
+        version: "1.0.0.0",
+        application: "24.0.0.0",
+        platform: "24.0.0.0",
+        runtime: "13.0",
+        dependencies: [
+          {
+            id: "BASE-ID",
+            name: "Base App",
+            publisher: "Test Publisher",
+            version: "1.0.0.0",
+          },
+          { appId: "legacy-id", name: "Legacy App" },
+        ],
+      };
+
+      const result = AppJsonSchema.safeParse(appJson);
+      assert.strictEqual(result.success, true);
+      if (result.success) {
+        assert.deepStrictEqual(result.data.dependencies, [
+          {
+            id: "base-id",
+            name: "Base App",
+            publisher: "Test Publisher",
+            version: "1.0.0.0",
+          },
+          { id: "legacy-id", name: "Legacy App", publisher: "", version: "" },
+        ]);
+        assert.strictEqual(result.data.application, "24.0.0.0");
+        assert.strictEqual(result.data.platform, "24.0.0.0");
+        assert.strictEqual(result.data.runtime, "13.0");
+      }
+    });
+
+    test("should reject a dependency without an app ID", () => {
+      const appJson = {
+        id: "test-id",
+        name: "Test App",
+        publisher: "Test Publisher",
+        version: "1.0.0.0",
+        dependencies: [{ name: "Base App" }],
+      };
+
+      const result = AppJsonSchema.safeParse(appJson);
+      assert.strictEqual(result.success, false);
+    });
+
     test("should reject app.json with missing required fields", () => {
       const appJson = {
         name: "Test App",
@@ -136,6 +188,60 @@ suite("Schema Validation Test Suite", () => {
       const result = parseAppJson('{"name": "incomplete"}');
       assert.strictEqual(result, null);
     });
+
+    test("should read the preprocessor symbols", () => {
+      const base = {
+        id: "test-id",
+        name: "Test App",
+        publisher: "Test Publisher",
+        version: "1.0.0.0",
+      };
+
+      const result = parseAppJson(
+        JSON.stringify({ ...base, preprocessorSymbols: ["CLEAN24"] }),
+      );
+      assert.deepStrictEqual(result?.preprocessorSymbols, ["CLEAN24"]);
+      assert.deepStrictEqual(
+        parseAppJson(JSON.stringify(base))?.preprocessorSymbols,
+        [],
+      );
+    });
+  });
+
+  suite("parseAnalyzerConfig", () => {
+    test("should parse the analyzer settings", () => {
+      const result = parseAnalyzerConfig(
+        JSON.stringify({
+          excludeFolders: ["Test"],
+          sharedRangeMode: true,
+        }),
+      );
+
+      assert.deepStrictEqual(result, {
+        excludeFolders: ["Test"],
+        sharedRangeMode: true,
+      });
+    });
+
+    test("should accept keys with the bcObjectRange prefix", () => {
+      const result = parseAnalyzerConfig(
+        JSON.stringify({
+          "bcObjectRange.excludePatterns": ["**/Test/**"],
+          "editor.tabSize": 4,
+        }),
+      );
+
+      assert.deepStrictEqual(result, { excludePatterns: ["**/Test/**"] });
+    });
+
+    test("should return null for values of the wrong type", () => {
+      assert.strictEqual(
+        parseAnalyzerConfig('{"sharedRangeMode": "yes"}'),
+        null,
+      );
+      assert.strictEqual(parseAnalyzerConfig("[]"), null);
+      assert.strictEqual(parseAnalyzerConfig("not valid json"), null);
+    });
   });
 
   suite("validateALObject", () => {
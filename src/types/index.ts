@@ -37,6 +37,25 @@ export type ALObjectTypeWithId = (typeof AL_OBJECT_TYPES_WITH_ID)[number];
 export type ALObjectTypeWithoutId = (typeof AL_OBJECT_TYPES_WITHOUT_ID)[number];
 export type ALObjectType = ALObjectTypeWithId | ALObjectTypeWithoutId;
 
+/**
+ * Values of the ObsoleteState property that mark a declaration as obsolete
+ */
+export const OBSOLETE_STATES = ["Pending", "Moved", "Removed"] as const;
+
+export type ObsoleteState = (typeof OBSOLETE_STATES)[number];
+
+/**
+ * The Obsolete* properties of an object, field or enum value
+ */
+export interface ObsoleteInfo {
+  /** The ObsoleteState property */
+  state: ObsoleteState;
+  /** The ObsoleteReason property */
+  reason?: string;
+  /** The ObsoleteTag property, usually the version that made it obsolete */
+  tag?: string;
+}
+
 /**
  * Represents a parsed AL object with an ID
  */
@@ -49,8 +68,18 @@ export interface ALObject {
   name: string;
   /** The line number where the object is declared (1-based) */
   lineNumber: number;
+  /** The column of the object type keyword (1-based) */
+  column?: number;
+  /** The line of the ID, which may follow the declaration line (1-based) */
+  idLineNumber?: number;
+  /** The column of the ID (1-based) */
+  idColumn?: number;
   /** The absolute file path where the object is defined */
   filePath: string;
+  /** The namespace declared at the top of the file, if any */
+  namespace?: string;
+  /** Set when the object is marked obsolete */
+  obsolete?: ObsoleteInfo;
 }
 
 /**
@@ -86,6 +115,125 @@ export interface ALProject {
   idRanges: IdRange[];
   /** All parsed AL objects in this project */
   objects: ALObject[];
+  /** The app ID from app.json (lowercase) */
+  appId?: string;
+  /** The preprocessor symbols from app.json */
+  preprocessorSymbols?: string[];
+  /** The IDs recorded in the app's retired IDs ledger, if it has one */
+  retiredIds?: RetiredIds;
+  /** The ID blocks from the app's ID allocation file, if it has one */
+  idAllocations?: IdAllocations;
+  /** Set for read-only dependency apps read from .app packages */
+  dependency?: DependencyPackage;
+  /** The apps this app depends on, from app.json or the package manifest */
+  dependencies?: AppDependency[];
+  /** The minimum Business Central application version */
+  application?: string;
+  /** The minimum Business Central platform version */
+  platform?: string;
+  /** The AL runtime version the app is compiled for */
+  runtime?: string;
+  /** The line of idRanges (or the legacy idRange) in app.json (1-based) */
+  idRangesLineNumber?: number;
+}
+
+/**
+ * An app that another app depends on
+ */
+export interface AppDependency {
+  /** The app ID (lowercase) */
+  id: string;
+  /** The name of the app */
+  name: string;
+  /** The publisher of the app */
+  publisher: string;
+  /** The minimum version of the app */
+  version: string;
+}
+
+/**
+ * The IDs recorded in an app's retired IDs ledger: every ID that shipped.
+ * IDs stay in the ledger after their declaration is deleted, so they are
+ * never offered as free again.
+ */
+export interface RetiredIds {
+  /** Object IDs per object type */
+  objects: Partial<Record<ALObjectTypeWithId, number[]>>;
+  /** Field IDs per table, keyed by the name of the table or extended base table */
+  fields: Record<string, number[]>;
+  /** Enum value ordinals per enum, keyed by the name of the enum or extended base enum */
+  enumValues: Record<string, number[]>;
+}
+
+/**
+ * A named block of IDs from an app's ID allocation file, assigned to
+ * developers or feature teams
+ */
+export interface IdAllocationBlock {
+  /** The name of the block, e.g. a developer or team name */
+  name: string;
+  /** First ID in the block (inclusive) */
+  from: number;
+  /** Last ID in the block (inclusive) */
+  to: number;
+  /** The object types the block is for; all object types if not set */
+  objectTypes?: ALObjectTypeWithId[];
+  /** The git user.email addresses or developer IDs the block is assigned to */
+  assignees: string[];
+}
+
+/**
+ * The ID allocation file of an app and who the current developer is
+ */
+export interface IdAllocations {
+  /** The blocks from the file */
+  blocks: IdAllocationBlock[];
+  /** The current developer: the configured developer ID or git user.email */
+  developer?: string;
+}
+
+/**
+ * How much of an ID allocation block is used
+ */
+export interface IdAllocationUsage {
+  /** The block */
+  block: IdAllocationBlock;
+  /** The app whose allocation file declares the block */
+  project: ALProject;
+  /** Whether the block is assigned to the current developer */
+  assigned: boolean;
+  /** Number of IDs in the block that are inside the ID ranges */
+  total: number;
+  /** Number of those IDs used by the block's object types */
+  used: number;
+  /** The first ID in the block none of its object types use, or null */
+  nextFree: number | null;
+}
+
+/**
+ * Describes a dependency app read from an .app package in .alpackages
+ */
+export interface DependencyPackage {
+  /** The absolute path of the .app file */
+  packagePath: string;
+  /** The publisher of the app */
+  publisher: string;
+  /** The version of the app */
+  version: string;
+  /** Root paths of the workspace projects whose .alpackages contain the app */
+  referencedBy: string[];
+}
+
+/**
+ * Describes how an incremental re-scan changed the objects of one project
+ */
+export interface ProjectDelta {
+  /** The project that was patched in place */
+  project: ALProject;
+  /** Objects that were added (or re-parsed) */
+  added: ALObject[];
+  /** Objects that were removed (or replaced by a re-parse) */
+  removed: ALObject[];
 }
 
 /**
@@ -102,6 +250,28 @@ export interface IdGap {
   projectName: string;
   /** The project root path */
   projectPath: string;
+  /** The object type this gap is for (per-type gaps in normal mode) */
+  objectType?: ALObjectTypeWithId;
+}
+
+/**
+ * How much of one configured ID range is used
+ */
+export interface RangeUsage {
+  /** The configured range */
+  range: IdRange;
+  /** Number of IDs in the range */
+  total: number;
+  /** Number of IDs in the range used by at least one object type */
+  used: number;
+  /** The first ID in the range that no object type uses, or null if none */
+  nextFree: number | null;
+  /** The usage of the range per object type */
+  byType: {
+    objectType: ALObjectTypeWithId;
+    used: number;
+    nextFree: number | null;
+  }[];
 }
 
 /**
@@ -145,6 +315,64 @@ export interface IdConflict {
   type: ALObjectTypeWithId;
   /** Objects from different projects using this ID */
   objects: ALObject[];
+  /** Names of the projects using this ID */
+  projectNames: string[];
+}
+
+/**
+ * Represents the same ID+type declared more than once inside a single project
+ */
+export interface DuplicateIdConflict {
+  /** The duplicated ID */
+  id: number;
+  /** The object type */
+  type: ALObjectTypeWithId;
+  /** The declarations using this ID */
+  objects: ALObject[];
+  /** The name of the owning project */
+  projectName: string;
+}
+
+/**
+ * Represents an object whose ID lies outside every ID range of its project
+ */
+export interface OutOfRangeObject {
+  /** The object with the invalid ID */
+  object: ALObject;
+  /** The name of the owning project */
+  projectName: string;
+  /** The configured range closest to the object's ID */
+  nearestRange: IdRange;
+}
+
+/**
+ * Represents a field of a tableextension or a value of an enumextension whose
+ * ID lies outside every ID range of its project
+ */
+export interface OutOfRangeMember {
+  /** The field or enum value with the invalid ID */
+  member: ALField | ALEnumValue;
+  /** The tableextension or enumextension that declares it */
+  object: ALObjectWithFields;
+  /** The name of the owning project */
+  projectName: string;
+  /** The configured range closest to the member's ID */
+  nearestRange: IdRange;
+}
+
+/**
+ * Represents fields of a single table or tableextension that share an ID or
+ * a name
+ */
+export interface DuplicateField {
+  /** Whether the fields share their ID or their name */
+  kind: "id" | "name";
+  /** The table or tableextension that declares the fields */
+  object: ALObjectWithFields;
+  /** The fields sharing the ID or name */
+  fields: ALField[];
+  /** The name of the owning project */
+  projectName: string;
 }
 
 /**
@@ -159,6 +387,14 @@ export interface ALField {
   dataType: string;
   /** The line number where the field is declared (1-based) */
   lineNumber: number;
+  /** The column of the field keyword (1-based) */
+  column?: number;
+  /** The line of the ID, which may follow the declaration line (1-based) */
+  idLineNumber?: number;
+  /** The column of the ID (1-based) */
+  idColumn?: number;
+  /** Set when the field is marked obsolete */
+  obsolete?: ObsoleteInfo;
   /** The absolute file path where the field is defined */
   filePath: string;
 }
@@ -173,6 +409,14 @@ export interface ALEnumValue {
   name: string;
   /** The line number where the value is declared (1-based) */
   lineNumber: number;
+  /** The column of the value keyword (1-based) */
+  column?: number;
+  /** The line of the ID, which may follow the declaration line (1-based) */
+  idLineNumber?: number;
+  /** The column of the ID (1-based) */
+  idColumn?: number;
+  /** Set when the value is marked obsolete */
+  obsolete?: ObsoleteInfo;
   /** The absolute file path where the value is defined */
   filePath: string;
 }
@@ -183,6 +427,10 @@ export interface ALEnumValue {
 export interface ALObjectWithFields extends ALObject {
   /** For tableextension/enumextension: the name of the base object being extended */
   extendsObject?: string;
+  /** The namespace of the base object, if the extends clause is qualified */
+  extendsNamespace?: string;
+  /** For extension objects: the namespaces imported with using declarations in the file */
+  usings?: string[];
   /** Fields declared in this object (for table/tableextension) */
   fields?: ALField[];
   /** Values declared in this object (for enum/enumextension) */
@@ -190,15 +438,54 @@ export interface ALObjectWithFields extends ALObject {
 }
 
 /**
- * Represents a field ID conflict where the same field ID is used in multiple
- * tableextensions extending the same base table
+ * The fields or enum values that one app declares on an extended base table
+ * or enum, and the IDs that are still free for it
+ */
+export interface BaseObjectAppUsage {
+  /** The app that extends the base object */
+  project: ALProject;
+  /** The IDs the app's extensions declare on the base object, sorted */
+  usedIds: number[];
+  /** The unused intervals of the app's ID ranges; empty for dependencies */
+  gaps: Array<{ start: number; end: number; count: number }>;
+}
+
+/**
+ * The use of field IDs on an extended base table, or of ordinals on an
+ * extended base enum, per app
+ */
+export interface BaseObjectUsage {
+  /** The fully qualified name of the base table or enum */
+  baseName: string;
+  /** The apps that extend the base object, sorted by name */
+  apps: BaseObjectAppUsage[];
+}
+
+/**
+ * The used field or enum value IDs closest to a free ID on the same base
+ * table or enum, with the app that declares them
+ */
+export interface NeighbouringIds {
+  /** The closest used ID below the free ID */
+  below?: { id: number; projectName: string };
+  /** The closest used ID above the free ID */
+  above?: { id: number; projectName: string };
+}
+
+/**
+ * Represents a field conflict where the same field ID or name is used in
+ * multiple tableextensions extending the same base table
  */
 export interface FieldConflict {
-  /** The conflicting field ID */
+  /** Whether the fields share their ID or their name */
+  kind: "id" | "name";
+  /** The conflicting field ID; for a name conflict, the ID of the first field */
   fieldId: number;
+  /** The conflicting field name; for an ID conflict, the name of the first field */
+  fieldName: string;
   /** The name of the base table being extended */
   baseTable: string;
-  /** The fields from different extensions using this ID */
+  /** The fields from different extensions using this ID or name */
   fields: Array<
     ALField & {
       projectName: string;
@@ -209,15 +496,19 @@ export interface FieldConflict {
 }
 
 /**
- * Represents an enum value ID conflict where the same ordinal ID is used in multiple
- * enumextensions extending the same base enum
+ * Represents an enum value conflict where the same ordinal ID or value name
+ * is used in multiple enumextensions extending the same base enum
  */
 export interface EnumValueConflict {
-  /** The conflicting enum value ID */
+  /** Whether the values share their ordinal or their name */
+  kind: "id" | "name";
+  /** The conflicting enum value ID; for a name conflict, the ID of the first value */
   valueId: number;
+  /** The conflicting value name; for an ID conflict, the name of the first value */
+  valueName: string;
   /** The name of the base enum being extended */
   baseEnum: string;
-  /** The values from different extensions using this ID */
+  /** The values from different extensions using this ID or name */
   values: Array<
     ALEnumValue & {
       projectName: string;
@@ -226,3 +517,59 @@ export interface EnumValueConflict {
     }
   >;
 }
+
+/**
+ * Cross-app conflicts between the workspace apps and their dependencies
+ */
+export interface WorkspaceConflicts {
+  /** Object type + ID used by more than one app */
+  conflicts: IdConflict[];
+  /** Field ID or name used by more than one app on the same base table */
+  fieldConflicts: FieldConflict[];
+  /** Enum value ID or name used by more than one app on the same base enum */
+  enumValueConflicts: EnumValueConflict[];
+}
+
+/**
+ * Severity of field and enum value conflicts across apps; "off" disables
+ * the check
+ */
+export type MemberConflictSeverity =
+  "error" | "warning" | "information" | "hint" | "off";
+
+/**
+ * The shares of used IDs, in percent, at which an app's ranges are reported
+ * as running out. null turns a level off.
+ */
+export interface RangeUsageLevels {
+  warning: number | null;
+  error: number | null;
+}
+
+/**
+ * The range usage thresholds, with overrides per app name
+ */
+export interface RangeUsageThresholds extends RangeUsageLevels {
+  /** App name -> the levels that differ for that app */
+  projects?: Record<string, Partial<RangeUsageLevels>>;
+}
+
+/**
+ * An app whose ID ranges, or the shared range, crossed a usage threshold
+ */
+export interface RangeExhaustion {
+  /** The app; not set for the shared range in shared range mode */
+  project?: ALProject;
+  /** The object type; not set for the IDs used by any object type */
+  objectType?: ALObjectTypeWithId;
+  /** Number of used IDs in the ranges */
+  used: number;
+  /** Number of IDs in the ranges */
+  total: number;
+  /** The used share in percent */
+  percent: number;
+  /** The highest level that was crossed */
+  level: "warning" | "error";
+  /** The threshold of that level in percent */
+  threshold: number;
+}